@@ -0,0 +1,341 @@
+"use client";
+
+import { Fragment, useState, useEffect, useCallback } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { History, RefreshCw, ChevronDown, ChevronRight, FilterX } from "lucide-react";
+import { format } from "date-fns";
+import { Timestamp } from "firebase/firestore";
+import { ar, enUS } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { getAuditLogs } from "@/lib/services/auditLogService";
+import { getAllUsers, User } from "@/lib/services/userService";
+import { AuditAction, AuditEntityType, AuditLog, AuditLogFilters } from "@/types/audit-log";
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const ENTITY_TYPES: AuditEntityType[] = [
+    "framework",
+    "domain",
+    "control",
+    "specification",
+    "frameworkVersion",
+    "assessmentCriteria",
+    "criteriaTemplate",
+    "project",
+    "organization",
+    "user",
+    "role",
+    "controlMapping",
+    "apiKey",
+    "webhook",
+    "rating",
+    "evidence",
+];
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+    create: "bg-green-100 text-green-800",
+    update: "bg-blue-100 text-blue-800",
+    delete: "bg-red-100 text-red-800",
+};
+
+// Show stored values compactly; maps and lists are rendered as JSON
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined) return "—";
+    if (value instanceof Timestamp) return value.toDate().toISOString();
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+};
+
+export default function ActivityPage() {
+    const t = useTranslations("Activity");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const fontFamily = isRtl ? 'var(--font-cairo)' : 'var(--font-rubik)';
+    const { toast } = useToast();
+
+    const [logs, setLogs] = useState<AuditLog[]>([]);
+    const [users, setUsers] = useState<User[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [hasMore, setHasMore] = useState(false);
+    const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+    const [entityType, setEntityType] = useState<string>(ALL);
+    const [actorUid, setActorUid] = useState<string>(ALL);
+    const [fromDate, setFromDate] = useState("");
+    const [toDate, setToDate] = useState("");
+
+    const getFilters = useCallback((): AuditLogFilters => ({
+        entityType: entityType !== ALL ? entityType as AuditEntityType : undefined,
+        actorUid: actorUid !== ALL ? actorUid : undefined,
+        from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+        // The end date is inclusive
+        to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+    }), [entityType, actorUid, fromDate, toDate]);
+
+    const fetchLogs = useCallback(async () => {
+        try {
+            setLoading(true);
+            const fetchedLogs = await getAuditLogs(getFilters(), PAGE_SIZE);
+            setLogs(fetchedLogs);
+            setHasMore(fetchedLogs.length === PAGE_SIZE);
+        } catch (error) {
+            console.error("Error fetching audit logs:", error);
+            toast({
+                variant: "destructive",
+                title: t("fetchError"),
+                description: t("fetchErrorDescription"),
+            });
+        } finally {
+            setLoading(false);
+        }
+    }, [getFilters, t, toast]);
+
+    useEffect(() => {
+        fetchLogs();
+    }, [fetchLogs]);
+
+    // Users are only needed to show names and fill the actor filter
+    useEffect(() => {
+        getAllUsers()
+            .then(setUsers)
+            .catch(error => console.error("Error fetching users:", error));
+    }, []);
+
+    const loadMore = async () => {
+        if (logs.length === 0) return;
+
+        try {
+            setLoadingMore(true);
+            const nextLogs = await getAuditLogs(getFilters(), PAGE_SIZE, logs[logs.length - 1]);
+            setLogs(prev => [...prev, ...nextLogs]);
+            setHasMore(nextLogs.length === PAGE_SIZE);
+        } catch (error) {
+            console.error("Error fetching more audit logs:", error);
+            toast({
+                variant: "destructive",
+                title: t("fetchError"),
+                description: t("fetchErrorDescription"),
+            });
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const clearFilters = () => {
+        setEntityType(ALL);
+        setActorUid(ALL);
+        setFromDate("");
+        setToDate("");
+    };
+
+    const getActorName = (uid: string) => users.find(user => user.id === uid)?.name || uid;
+
+    const formatTime = (log: AuditLog) => {
+        if (!log.createdAt) return "—";
+        return format(log.createdAt.toDate(), "PPp", { locale: isRtl ? ar : enUS });
+    };
+
+    const hasFilters = entityType !== ALL || actorUid !== ALL || fromDate !== "" || toDate !== "";
+
+    return (
+        <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
+            {/* Hero Section */}
+            <section className="relative overflow-hidden bg-gradient-to-r from-[var(--primary-blue)] via-[var(--secondary-blue)] to-[var(--primary-green)] text-white">
+                <div className="absolute inset-0 overflow-hidden">
+                    <div className="absolute top-0 right-0 w-1/2 h-1/2 bg-white/10 rounded-full transform translate-x-1/3 -translate-y-1/3 blur-3xl"></div>
+                    <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-white/5 rounded-full transform -translate-x-1/3 translate-y-1/3 blur-3xl"></div>
+                </div>
+
+                <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
+                    <div className="flex flex-col">
+                        <div className="flex items-center mb-2">
+                            <History className="h-5 w-5 mr-2 opacity-80" />
+                            <span className="text-sm opacity-80">{t("administration")}</span>
+                        </div>
+                        <h1 className="text-3xl md:text-4xl font-bold mb-3">{t("title")}</h1>
+                        <p className="text-white/80 max-w-3xl">{t("description")}</p>
+                    </div>
+                </div>
+            </section>
+
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                <Card className="overflow-hidden">
+                    {/* Filters */}
+                    <CardHeader className="bg-white border-b pb-4 px-6">
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end">
+                            <div className="space-y-1">
+                                <Label>{t("entity")}</Label>
+                                <Select value={entityType} onValueChange={setEntityType}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ALL}>{t("allEntities")}</SelectItem>
+                                        {ENTITY_TYPES.map(type => (
+                                            <SelectItem key={type} value={type}>{t(`entityTypes.${type}`)}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label>{t("actor")}</Label>
+                                <Select value={actorUid} onValueChange={setActorUid}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ALL}>{t("allActors")}</SelectItem>
+                                        {users.map(user => (
+                                            <SelectItem key={user.id} value={user.id}>{user.name || user.email}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="activity-from">{t("from")}</Label>
+                                <Input id="activity-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="activity-to">{t("to")}</Label>
+                                <Input id="activity-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                            </div>
+                            <div className="flex gap-2">
+                                <Button variant="outline" onClick={clearFilters} disabled={!hasFilters}>
+                                    <FilterX className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                                    {t("clearFilters")}
+                                </Button>
+                                <Button variant="outline" size="icon" onClick={fetchLogs} disabled={loading} title={t("refresh")}>
+                                    <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+                                </Button>
+                            </div>
+                        </div>
+                    </CardHeader>
+
+                    <CardContent className="p-0">
+                        {loading ? (
+                            <div className="space-y-2 p-6">
+                                {[...Array(8)].map((_, i) => (
+                                    <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+                                ))}
+                            </div>
+                        ) : logs.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center py-12">
+                                <div className="bg-gray-100 p-4 rounded-full mb-3">
+                                    <History className="h-8 w-8 text-gray-400" />
+                                </div>
+                                <h3 className="text-lg font-medium text-gray-900 mb-1">{t("noActivity")}</h3>
+                                <p className="text-sm text-gray-500">{t("noActivityDescription")}</p>
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-gray-50 text-gray-600">
+                                        <tr>
+                                            <th className="w-8 px-4 py-3"></th>
+                                            <th className="px-4 py-3 text-start font-medium">{t("time")}</th>
+                                            <th className="px-4 py-3 text-start font-medium">{t("actor")}</th>
+                                            <th className="px-4 py-3 text-start font-medium">{t("action")}</th>
+                                            <th className="px-4 py-3 text-start font-medium">{t("entity")}</th>
+                                            <th className="px-4 py-3 text-start font-medium">{t("path")}</th>
+                                            <th className="px-4 py-3 text-start font-medium">{t("changes")}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {logs.map(log => {
+                                            const expanded = expandedLogId === log.id;
+                                            return (
+                                                <Fragment key={log.id}>
+                                                    <tr
+                                                        className="border-t cursor-pointer hover:bg-gray-50"
+                                                        onClick={() => setExpandedLogId(expanded ? null : log.id)}
+                                                    >
+                                                        <td className="px-4 py-3 text-gray-400">
+                                                            {expanded
+                                                                ? <ChevronDown className="h-4 w-4" />
+                                                                : <ChevronRight className={`h-4 w-4 ${isRtl ? "rotate-180" : ""}`} />}
+                                                        </td>
+                                                        <td className="px-4 py-3 whitespace-nowrap">{formatTime(log)}</td>
+                                                        <td className="px-4 py-3">
+                                                            <div>{getActorName(log.actorUid)}</div>
+                                                            <div className="text-xs text-gray-500">{log.actorRole}</div>
+                                                        </td>
+                                                        <td className="px-4 py-3">
+                                                            <Badge className={`border-0 ${ACTION_STYLES[log.action]}`}>
+                                                                {t(`actions.${log.action}`)}
+                                                            </Badge>
+                                                        </td>
+                                                        <td className="px-4 py-3">{t(`entityTypes.${log.entityType}`)}</td>
+                                                        <td className="px-4 py-3 font-mono text-xs text-gray-600 break-all" dir="ltr">
+                                                            {log.entityPath}
+                                                            {log.source && (
+                                                                <div className="text-gray-400">{t("source", { source: log.source })}</div>
+                                                            )}
+                                                        </td>
+                                                        <td className="px-4 py-3 text-gray-600">
+                                                            {t("changedFields", { count: log.changes.length })}
+                                                        </td>
+                                                    </tr>
+                                                    {expanded && (
+                                                        <tr className="bg-gray-50">
+                                                            <td></td>
+                                                            <td colSpan={6} className="px-4 pb-4">
+                                                                {log.changes.length === 0 ? (
+                                                                    <p className="text-gray-500">{t("noChanges")}</p>
+                                                                ) : (
+                                                                    <table className="w-full text-xs" dir="ltr">
+                                                                        <thead className="text-gray-500">
+                                                                            <tr>
+                                                                                <th className="py-1 pr-4 text-left font-medium">{t("field")}</th>
+                                                                                <th className="py-1 pr-4 text-left font-medium">{t("before")}</th>
+                                                                                <th className="py-1 text-left font-medium">{t("after")}</th>
+                                                                            </tr>
+                                                                        </thead>
+                                                                        <tbody>
+                                                                            {log.changes.map(change => (
+                                                                                <tr key={change.field} className="border-t align-top">
+                                                                                    <td className="py-1 pr-4 font-mono">{change.field}</td>
+                                                                                    <td className="py-1 pr-4 font-mono text-red-700 break-all">{formatValue(change.before)}</td>
+                                                                                    <td className="py-1 font-mono text-green-700 break-all">{formatValue(change.after)}</td>
+                                                                                </tr>
+                                                                            ))}
+                                                                        </tbody>
+                                                                    </table>
+                                                                )}
+                                                            </td>
+                                                        </tr>
+                                                    )}
+                                                </Fragment>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {hasMore && !loading && (
+                            <div className="flex justify-center border-t p-4">
+                                <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                                    {loadingMore ? t("loadingMore") : t("loadMore")}
+                                </Button>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
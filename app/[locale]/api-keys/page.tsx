@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { KeyRound, RefreshCw, Plus, Lock, Ban } from "lucide-react";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { ApiKeyDialog } from "@/components/ui/api-keys/ApiKeyDialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getApiKeys, issueApiKey, revokeApiKey } from "@/lib/services/apiKeyService";
+import { getAllOrganizations } from "@/lib/services/organizationService";
+import { Organization } from "@/types/firebase";
+import { API_KEY_PERMISSIONS, ApiKey, ApiKeyInput, ApiKeyStatus, getApiKeyStatus } from "@/types/api-key";
+
+const STATUS_STYLES: Record<ApiKeyStatus, string> = {
+    active: "bg-green-100 text-green-800",
+    expired: "bg-amber-100 text-amber-800",
+    revoked: "bg-gray-100 text-gray-700",
+};
+
+export default function ApiKeysPage() {
+    const t = useTranslations("ApiKeys");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+    const fontFamily = isRtl ? 'var(--font-cairo)' : 'var(--font-rubik)';
+    const { toast } = useToast();
+    const { can, permissions, loading: permissionsLoading } = usePermissions();
+
+    const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+    const [organizations, setOrganizations] = useState<Organization[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null);
+
+    const canManageApiKeys = can("apiKey:manage");
+
+    // A key can only carry permissions the admin issuing it holds
+    const grantablePermissions = useMemo(
+        () => API_KEY_PERMISSIONS.filter(permission => permissions.includes(permission)),
+        [permissions]
+    );
+
+    const fetchApiKeys = async () => {
+        try {
+            setLoading(true);
+            const [keys, organizationList] = await Promise.all([getApiKeys(), getAllOrganizations()]);
+            setApiKeys(keys);
+            setOrganizations(organizationList);
+        } catch (error) {
+            console.error("Error fetching API keys:", error);
+            toast({
+                variant: "destructive",
+                title: t("error"),
+                description: t("fetchError"),
+            });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!permissionsLoading && canManageApiKeys) {
+            fetchApiKeys();
+        }
+    }, [permissionsLoading, canManageApiKeys]);
+
+    const handleIssue = async (input: ApiKeyInput) => {
+        try {
+            const { apiKey, token } = await issueApiKey(input);
+            setApiKeys(prev => [apiKey, ...prev]);
+            return token;
+        } catch (error) {
+            toast({
+                variant: "destructive",
+                title: t("error"),
+                description: error instanceof Error ? error.message : t("issueError"),
+            });
+            throw error;
+        }
+    };
+
+    const handleRevoke = async () => {
+        if (!keyToRevoke) return;
+
+        try {
+            const revoked = await revokeApiKey(keyToRevoke.id);
+            setApiKeys(prev => prev.map(key => key.id === revoked.id ? revoked : key));
+            toast({ title: t("keyRevoked") });
+        } catch (error) {
+            toast({
+                variant: "destructive",
+                title: t("error"),
+                description: error instanceof Error ? error.message : t("revokeError"),
+            });
+        } finally {
+            setKeyToRevoke(null);
+        }
+    };
+
+    const getOrganizationName = (organizationId: string) => {
+        const organization = organizations.find(item => item.id === organizationId);
+        return organization ? organization.name[lang] || organization.name.en : organizationId;
+    };
+
+    const formatDate = (value: string | null) =>
+        value ? format(new Date(value), "PP", { locale: isRtl ? ar : enUS }) : "—";
+
+    return (
+        <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
+            {/* Hero Section */}
+            <section className="relative overflow-hidden bg-gradient-to-r from-[var(--primary-blue)] via-[var(--secondary-blue)] to-[var(--primary-green)] text-white">
+                <div className="absolute inset-0 overflow-hidden">
+                    <div className="absolute top-0 right-0 w-1/2 h-1/2 bg-white/10 rounded-full transform translate-x-1/3 -translate-y-1/3 blur-3xl"></div>
+                    <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-white/5 rounded-full transform -translate-x-1/3 translate-y-1/3 blur-3xl"></div>
+                </div>
+
+                <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+                        <div>
+                            <div className="flex items-center mb-2">
+                                <KeyRound className="h-5 w-5 mr-2 opacity-80" />
+                                <span className="text-sm opacity-80">{t("administration")}</span>
+                            </div>
+                            <h1 className="text-3xl md:text-4xl font-bold mb-3">{t("title")}</h1>
+                            <p className="text-white/80 max-w-3xl">{t("description")}</p>
+                        </div>
+                        {canManageApiKeys && (
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    className="bg-white/10 text-white border-white/20 hover:bg-white/20"
+                                    onClick={fetchApiKeys}
+                                    disabled={loading}
+                                >
+                                    <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+                                </Button>
+                                <Button
+                                    className="bg-white text-[var(--primary-blue)] hover:bg-white/90"
+                                    onClick={() => setIsDialogOpen(true)}
+                                    disabled={loading}
+                                >
+                                    <Plus className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                                    {t("issueKey")}
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </section>
+
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+                {!permissionsLoading && !canManageApiKeys ? (
+                    <Card>
+                        <CardContent className="flex flex-col items-center justify-center py-12">
+                            <div className="bg-gray-100 p-4 rounded-full mb-3">
+                                <Lock className="h-8 w-8 text-gray-400" />
+                            </div>
+                            <h3 className="text-lg font-medium text-gray-900 mb-1">{t("noAccess")}</h3>
+                            <p className="text-sm text-gray-500">{t("noAccessDescription")}</p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <Card className="overflow-hidden">
+                        <CardHeader className="bg-white border-b">
+                            <CardTitle>{t("keysTitle")}</CardTitle>
+                            <CardDescription>{t("keysDescription")}</CardDescription>
+                        </CardHeader>
+                        <CardContent className="p-0">
+                            {loading || permissionsLoading ? (
+                                <div className="space-y-2 p-6">
+                                    {[...Array(4)].map((_, i) => (
+                                        <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+                                    ))}
+                                </div>
+                            ) : apiKeys.length === 0 ? (
+                                <p className="p-6 text-sm text-gray-500 italic">{t("noKeys")}</p>
+                            ) : (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead className="bg-gray-50 text-gray-600">
+                                            <tr>
+                                                <th className="px-4 py-3 text-start font-medium">{t("name")}</th>
+                                                <th className="px-4 py-3 text-start font-medium">{t("organization")}</th>
+                                                <th className="px-4 py-3 text-start font-medium">{t("permissions")}</th>
+                                                <th className="px-4 py-3 text-start font-medium">{t("status")}</th>
+                                                <th className="px-4 py-3 text-start font-medium">{t("expiresAt")}</th>
+                                                <th className="px-4 py-3 text-start font-medium">{t("lastUsedAt")}</th>
+                                                <th className="px-4 py-3"></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {apiKeys.map(apiKey => {
+                                                const status = getApiKeyStatus(apiKey);
+
+                                                return (
+                                                    <tr key={apiKey.id} className="border-t align-top">
+                                                        <td className="px-4 py-3">
+                                                            <div className="font-medium text-gray-900">{apiKey.name}</div>
+                                                            <div className="text-xs text-gray-500 font-mono" dir="ltr">…{apiKey.hint}</div>
+                                                            <div className="text-xs text-gray-500">
+                                                                {t("createdBy", { name: apiKey.createdByName || apiKey.createdBy, date: formatDate(apiKey.createdAt) })}
+                                                            </div>
+                                                        </td>
+                                                        <td className="px-4 py-3">{getOrganizationName(apiKey.organizationId)}</td>
+                                                        <td className="px-4 py-3">
+                                                            <div className="flex flex-wrap gap-1">
+                                                                {apiKey.permissions.map(permission => (
+                                                                    <Badge key={permission} variant="outline" className="text-xs font-mono">{permission}</Badge>
+                                                                ))}
+                                                            </div>
+                                                        </td>
+                                                        <td className="px-4 py-3">
+                                                            <Badge className={`${STATUS_STYLES[status]} border-0`}>{t(`statuses.${status}`)}</Badge>
+                                                        </td>
+                                                        <td className="px-4 py-3 whitespace-nowrap">{apiKey.expiresAt ? formatDate(apiKey.expiresAt) : t("never")}</td>
+                                                        <td className="px-4 py-3 whitespace-nowrap">{apiKey.lastUsedAt ? formatDate(apiKey.lastUsedAt) : t("neverUsed")}</td>
+                                                        <td className="px-4 py-3 text-end">
+                                                            {status !== "revoked" && (
+                                                                <Button variant="ghost" size="sm" className="text-red-600" onClick={() => setKeyToRevoke(apiKey)}>
+                                                                    <Ban className={`h-4 w-4 ${isRtl ? "ml-1" : "mr-1"}`} />
+                                                                    {t("revoke")}
+                                                                </Button>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+
+            <ApiKeyDialog
+                open={isDialogOpen}
+                onOpenChange={setIsDialogOpen}
+                organizations={organizations}
+                grantablePermissions={grantablePermissions}
+                onSubmit={handleIssue}
+            />
+
+            <AlertDialog open={!!keyToRevoke} onOpenChange={(open) => !open && setKeyToRevoke(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t("revokeConfirmation", { name: keyToRevoke?.name ?? "" })}</AlertDialogTitle>
+                        <AlertDialogDescription>{t("revokeWarning")}</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleRevoke} className="bg-red-500 hover:bg-red-600 focus:ring-red-500">
+                            {t("revoke")}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
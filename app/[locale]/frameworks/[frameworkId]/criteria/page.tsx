@@ -18,9 +18,14 @@ import { CriteriaWizard } from "@/components/ui/criteria/CriteriaWizard";
 import { CriteriaSummary } from "@/components/ui/criteria/CriteriaSummary";
 import { NoCriteria } from "@/components/ui/criteria/NoCriteria";
 import { CriteriaSpinner } from "@/components/ui/criteria/CriteriaSpinner";
+import { CriteriaHistory } from "@/components/ui/criteria/CriteriaHistory";
 import { useCriteriaBuilder } from "@/hooks/useCriteriaBuilder";
+import { useCriteriaHistory } from "@/hooks/useCriteriaHistory";
 import { getAssessmentCriteria, getFrameworkDomains } from "@/lib/services/assessmentCriteriaService";
+import { getFrameworkTree } from "@/lib/services/frameworkService";
 import { AssessmentCriteria, Domain } from "@/types/assessment-criteria";
+import { CriteriaHistoryEntry } from "@/types/criteria-template";
+import { FrameworkTreeDomain } from "@/types/assessment";
 
 export default function FrameworkCriteriaPage() {
     const t = useTranslations("FrameworkManagement");
@@ -36,16 +41,22 @@ export default function FrameworkCriteriaPage() {
     const [isInitialLoading, setIsInitialLoading] = useState(true);
     const [initialCriteria, setInitialCriteria] = useState<AssessmentCriteria | null>(null);
     const [domains, setDomains] = useState<Domain[]>([]);
+    const [tree, setTree] = useState<FrameworkTreeDomain[]>([]);
 
     // Use the criteria builder hook
     const criteriaBuilder = useCriteriaBuilder(frameworkId);
+    const criteriaHistory = useCriteriaHistory(frameworkId);
 
-    // Fetch domains separately to ensure they're always loaded
+    // Fetch domains separately to ensure they're always loaded, with their controls and specifications for weight names
     useEffect(() => {
         const fetchDomains = async () => {
             try {
-                const domainsData = await getFrameworkDomains(frameworkId);
+                const [domainsData, treeData] = await Promise.all([
+                    getFrameworkDomains(frameworkId),
+                    getFrameworkTree(frameworkId)
+                ]);
                 setDomains(domainsData);
+                setTree(treeData);
             } catch (error) {
                 console.error("Error fetching domains:", error);
             }
@@ -62,6 +73,7 @@ export default function FrameworkCriteriaPage() {
                 const criteria = await getAssessmentCriteria(frameworkId);
                 setInitialCriteria(criteria);
                 setIsInitialLoading(false);
+                criteriaHistory.fetchHistory();
             } catch (error) {
                 console.error("Error fetching initial criteria:", error);
                 setIsInitialLoading(false);
@@ -78,6 +90,7 @@ export default function FrameworkCriteriaPage() {
                 try {
                     const criteria = await getAssessmentCriteria(frameworkId);
                     setInitialCriteria(criteria);
+                    criteriaHistory.fetchHistory();
                 } catch (error) {
                     console.error("Error refreshing criteria:", error);
                 }
@@ -87,6 +100,19 @@ export default function FrameworkCriteriaPage() {
         }
     }, [criteriaBuilder.isOpen, frameworkId, isInitialLoading]);
 
+    // Restore a previous configuration and show it as the current criteria
+    const handleRestore = async (entry: CriteriaHistoryEntry): Promise<boolean> => {
+        const restored = await criteriaHistory.restoreEntry(entry);
+        if (restored) {
+            try {
+                setInitialCriteria(await getAssessmentCriteria(frameworkId));
+            } catch (error) {
+                console.error("Error refreshing criteria:", error);
+            }
+        }
+        return restored;
+    };
+
     return (
         <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
             {/* Hero Section */}
@@ -136,6 +162,7 @@ export default function FrameworkCriteriaPage() {
                             <CriteriaSummary
                                 criteria={initialCriteria}
                                 domains={domains}
+                                tree={tree}
                                 onEdit={criteriaBuilder.openWizard}
                                 onDelete={criteriaBuilder.deleteCriteria}
                                 isDeleting={criteriaBuilder.isSaving}
@@ -145,6 +172,16 @@ export default function FrameworkCriteriaPage() {
                         ) : (
                             <NoCriteria onCreateCriteria={criteriaBuilder.openWizard} />
                         )}
+                        {!isInitialLoading && (
+                            <CriteriaHistory
+                                history={criteriaHistory.history}
+                                domains={domains}
+                                loading={criteriaHistory.loading}
+                                error={criteriaHistory.error}
+                                restoring={criteriaHistory.restoring}
+                                onRestore={handleRestore}
+                            />
+                        )}
                     </CardContent>
                 </Card>
             </div>
@@ -154,7 +191,9 @@ export default function FrameworkCriteriaPage() {
                 isOpen={criteriaBuilder.isOpen}
                 onClose={criteriaBuilder.closeWizard}
                 onSave={criteriaBuilder.saveCriteria}
+                frameworkId={frameworkId}
                 domains={domains.length > 0 ? domains : criteriaBuilder.domains}
+                tree={tree.length > 0 ? tree : criteriaBuilder.tree}
                 formState={criteriaBuilder.formState}
                 isLoading={criteriaBuilder.isLoading}
                 isSaving={criteriaBuilder.isSaving}
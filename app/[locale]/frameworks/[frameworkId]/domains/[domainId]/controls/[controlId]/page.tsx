@@ -32,9 +32,23 @@ import { SpecificationFormModal } from "@/components/ui/specifications/Specifica
 import { SpecificationDetailsDialog } from "@/components/ui/specifications/SpecificationDetailsDialog";
 import { SpecificationFilter } from "@/components/ui/specifications/SpecificationFilter";
 import { SpecificationImportExcel } from "@/components/ui/specifications/SpecificationImportExcel";
+import { SpecificationDependencyGraph } from "@/components/ui/specifications/SpecificationDependencyGraph";
+import { DependencyDeleteWarning } from "@/components/ui/specifications/DependencyDeleteWarning";
+import { ProjectSelect } from "@/components/ui/projects/ProjectSelect";
+import { ControlMappingPanel } from "@/components/ui/controls/ControlMappingPanel";
 import useSpecifications, { Specification } from "@/hooks/useSpecifications";
 import { useControls } from "@/hooks/useControls";
 import { useDomains } from "@/hooks/useDomains";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useAuth } from "@/hooks/useAuth";
+import { useDependencyGraph } from "@/hooks/useDependencyGraph";
+import { getNextSpecificationVersion, getSpecificationContent } from "@/types/specification-version";
+import {
+    DependencyProblem,
+    SpecificationDependency,
+    formatDependencyReference,
+    parseDependencyKey
+} from "@/types/specification-dependency";
 
 // Animation variants
 const fadeIn = {
@@ -51,6 +65,7 @@ export default function SpecificationsPage() {
     const formT = useTranslations("SpecificationForm");
     const commonT = useTranslations("Common");
     const sidebarT = useTranslations("Sidebar");
+    const dependencyT = useTranslations("SpecificationDependencies");
     const locale = useLocale();
     const params = useParams();
     const router = useRouter();
@@ -71,6 +86,7 @@ export default function SpecificationsPage() {
     const [formMode, setFormMode] = useState<"create" | "edit">("create");
     const [domainName, setDomainName] = useState<string>("");
     const [controlName, setControlName] = useState<string>("");
+    const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
 
     const {
         specifications,
@@ -78,7 +94,8 @@ export default function SpecificationsPage() {
         error,
         fetchSpecifications,
         addSpecification,
-        updateSpecification,
+        saveSpecificationVersion,
+        restoreSpecificationVersion,
         deleteSpecification,
         importSpecifications,
         refreshing
@@ -86,6 +103,9 @@ export default function SpecificationsPage() {
 
     const { getControl } = useControls(frameworkId, domainId);
     const { getDomain } = useDomains(frameworkId);
+    const { can } = usePermissions();
+    const { user } = useAuth();
+    const { graph: dependencyGraph, refresh: refreshDependencyGraph, getDependents } = useDependencyGraph(frameworkId);
 
     // Fetch domain and control names
     useEffect(() => {
@@ -124,12 +144,10 @@ export default function SpecificationsPage() {
         try {
             await addSpecification({
                 number: data.number,
-                name: data.name,
-                description: data.description,
-                capabilityLevel: data.capabilityLevel,
-                subSpecifications: data.subSpecifications || [],
-                versionHistory: data.versionHistory || []
-            });
+                ...getSpecificationContent(data),
+                versionHistory: []
+            }, { note: data.versionNote, changedByName: user?.name });
+            refreshDependencyGraph();
 
             toast({
                 title: formT("addSpecification"),
@@ -149,16 +167,11 @@ export default function SpecificationsPage() {
         if (!originalSpecId) return;
 
         try {
-            await updateSpecification(selectedSpecification?.id || "", {
-                number: data.number,
-                name: data.name,
-                description: data.description,
-                capabilityLevel: data.capabilityLevel,
-                subSpecifications: data.subSpecifications || [],
-                versionHistory: data.versionHistory || []
+            await saveSpecificationVersion(selectedSpecification?.id || "", getSpecificationContent(data), {
+                note: data.versionNote,
+                changedByName: user?.name
             });
-
-
+            refreshDependencyGraph();
         } catch (err) {
             console.error("Error updating specification:", err);
             toast({
@@ -169,11 +182,56 @@ export default function SpecificationsPage() {
         }
     };
 
+    // Dependency problems are worded like in the specification form
+    const describeDependencyProblem = (problem: DependencyProblem) => {
+        const scope = { domainId, controlId };
+        const reference = formatDependencyReference(problem.dependency, scope);
+        switch (problem.type) {
+            case "self": return formT("validation.dependencySelf");
+            case "missing": return formT("validation.dependencyMissing", { reference });
+            case "cycle": return formT("validation.dependencyCycle", {
+                reference,
+                path: problem.cycle
+                    .map(key => formatDependencyReference(parseDependencyKey(key) as SpecificationDependency, scope))
+                    .join(" → ")
+            });
+        }
+    };
+
+    const handleRestoreVersion = async (version: string) => {
+        if (!selectedSpecification) return;
+
+        try {
+            const problems = await restoreSpecificationVersion(selectedSpecification.id, version, user?.name);
+            if (problems.length > 0) {
+                toast({
+                    title: t("restoreError"),
+                    description: problems.map(describeDependencyProblem).join(" "),
+                    variant: "destructive",
+                });
+                return;
+            }
+            refreshDependencyGraph();
+            toast({
+                title: t("versionRestored", { version }),
+            });
+        } catch (err) {
+            console.error("Error restoring specification version:", err);
+            toast({
+                title: t("restoreError"),
+                description: t("formErrorDescription"),
+                variant: "destructive",
+            });
+            throw err;
+        }
+    };
+
     const handleDeleteSpecification = async () => {
         if (!selectedSpecification) return;
 
         try {
             await deleteSpecification(selectedSpecification.id);
+            refreshDependencyGraph();
 
             toast({
                 title: t("specDeleted"),
@@ -224,6 +282,19 @@ export default function SpecificationsPage() {
     // Get specification IDs for duplicate check
     const specificationNumbers = specifications.map(spec => spec.number);
 
+    // Selected specification as currently loaded, so saved versions show up in the open dialogs
+    const currentSpecification = specifications.find(spec => spec.id === selectedSpecification?.id) || selectedSpecification;
+
+    // Specifications elsewhere that would be left depending on the one being deleted
+    const deleteDependents = isDeleteDialogOpen && selectedSpecification
+        ? getDependents({ domainId, controlId, specificationId: selectedSpecification.number })
+        : [];
+
+    const openDependencyDetails = (ref: SpecificationDependency) => {
+        const spec = specifications.find(s => s.number === ref.specificationId);
+        if (spec) openDetailsDialog(spec);
+    };
+
     return (
         <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
             {/* Hero Section */}
@@ -290,6 +361,11 @@ export default function SpecificationsPage() {
 
                     {/* Action Buttons */}
                     <div className="flex flex-col sm:flex-row lg:flex-shrink-0 gap-2 lg:self-end">
+                        <ProjectSelect
+                            frameworkId={frameworkId}
+                            value={selectedProjectId}
+                            onChange={setSelectedProjectId}
+                        />
                         <Button
                             onClick={openCreateModal}
                             className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white w-full sm:w-auto"
@@ -372,6 +448,23 @@ export default function SpecificationsPage() {
                         />
                     )}
                 </motion.div>
+
+                {/* Dependencies between the specifications of this control */}
+                <div className="bg-white border rounded-lg shadow-sm p-4 mt-6" dir={isRtl ? "rtl" : "ltr"}>
+                    <h2 className="text-xl font-semibold mb-4">{dependencyT("title")}</h2>
+                    <SpecificationDependencyGraph
+                        graph={dependencyGraph}
+                        scope={{ domainId, controlId }}
+                        onSelect={openDependencyDetails}
+                    />
+                </div>
+
+                {/* Mappings to other frameworks */}
+                <ControlMappingPanel
+                    control={{ frameworkId, domainId, controlId }}
+                    specifications={specifications}
+                    canEdit={can("framework:edit")}
+                />
             </div>
 
             {/* Create/Edit Specification Modal */}
@@ -380,16 +473,16 @@ export default function SpecificationsPage() {
                 onOpenChange={setIsFormModalOpen}
                 mode={formMode}
                 defaultValues={selectedSpecification ? {
-                    ...selectedSpecification,
-                    versionHistory: selectedSpecification.versionHistory?.map(version => ({
-                        ...version,
-                        date: typeof version.date === 'string'
-                            ? version.date
-                            : version.date.toDate().toISOString().split('T')[0]
-                    }))
+                    number: selectedSpecification.number,
+                    ...getSpecificationContent(selectedSpecification)
                 } : undefined}
                 onSubmit={formMode === "create" ? handleCreateSpecification : handleUpdateSpecification}
                 existingSpecificationIds={specificationNumbers}
+                nextVersion={getNextSpecificationVersion(
+                    formMode === "edit" ? currentSpecification?.versionHistory || [] : []
+                )}
+                dependencyGraph={dependencyGraph}
+                dependencyScope={{ domainId, controlId }}
             />
 
             {/* Import Excel Modal */}
@@ -399,14 +492,22 @@ export default function SpecificationsPage() {
                 domainId={domainId}
                 open={isImportModalOpen}
                 onOpenChange={setIsImportModalOpen}
-                onImportComplete={fetchSpecifications}
+                onImportComplete={() => {
+                    fetchSpecifications();
+                    refreshDependencyGraph();
+                }}
             />
 
             {/* Specification Details Dialog */}
             <SpecificationDetailsDialog
                 open={isDetailsDialogOpen}
                 onOpenChange={setIsDetailsDialogOpen}
-                specification={selectedSpecification}
+                specification={currentSpecification}
+                domainId={domainId}
+                controlId={controlId}
+                projectId={selectedProjectId}
+                onRestoreVersion={can("framework:edit") ? handleRestoreVersion : undefined}
+                dependencyGraph={dependencyGraph}
             />
 
             {/* Delete Confirmation Dialog */}
@@ -418,6 +519,7 @@ export default function SpecificationsPage() {
                             {t("deleteSpecWarning")}
                         </AlertDialogDescription>
                     </AlertDialogHeader>
+                    <DependencyDeleteWarning dependents={deleteDependents} />
                     <AlertDialogFooter className="flex-col sm:flex-row gap-2 sm:gap-0">
                         <AlertDialogCancel className="mt-0">{commonT("cancel")}</AlertDialogCancel>
                         <AlertDialogAction
@@ -16,7 +16,8 @@ import {
     X,
     AlertCircle,
     Layers,
-    Filter
+    Filter,
+    Route
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -41,8 +42,12 @@ import Spinner from "@/components/ui/spinner";
 import { ControlCard } from "@/components/ui/controls/ControlCard";
 import { ControlFormModal } from "@/components/ui/controls/ControlFormModal";
 import { ControlImportExcel } from "@/components/ui/controls/ControlImportExcel";
+import { SpecificationDependencyGraph } from "@/components/ui/specifications/SpecificationDependencyGraph";
+import { DependencyDeleteWarning } from "@/components/ui/specifications/DependencyDeleteWarning";
 import { useControls, Control } from "@/hooks/useControls";
 import { useDomains } from "@/hooks/useDomains";
+import { useDependencyGraph } from "@/hooks/useDependencyGraph";
+import { SpecificationDependency } from "@/types/specification-dependency";
 import { useToast } from "@/components/ui/use-toast";
 
 // Animation variants
@@ -60,6 +65,7 @@ export default function DomainDetailsPage() {
     const formT = useTranslations("ControlForm");
     const commonT = useTranslations("Common");
     const sidebarT = useTranslations("Sidebar");
+    const dependencyT = useTranslations("SpecificationDependencies");
     const locale = useLocale();
     const params = useParams();
     const router = useRouter();
@@ -89,6 +95,7 @@ export default function DomainDetailsPage() {
     } = useControls(frameworkId, domainId);
 
     const { getDomain } = useDomains(frameworkId);
+    const { graph: dependencyGraph, refresh: refreshDependencyGraph, getDependents } = useDependencyGraph(frameworkId);
 
     // Fetch domain name
     useEffect(() => {
@@ -179,6 +186,7 @@ export default function DomainDetailsPage() {
                 toast({
                     title: t("controlDeleted"),
                 });
+                refreshDependencyGraph();
             }
         } catch (err) {
             console.error("Error deleting control:", err);
@@ -229,6 +237,11 @@ export default function DomainDetailsPage() {
         router.push(`/${locale}/frameworks/${frameworkId}/domains/${domainId}/controls/${controlId}`);
     };
 
+    // Specifications in other controls that would be left depending on the control being deleted
+    const deleteDependents = isDeleteDialogOpen && selectedControl
+        ? getDependents({ domainId, controlId: selectedControl.controlId })
+        : [];
+
     return (
         <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
             {/* Hero Section */}
@@ -334,6 +347,14 @@ export default function DomainDetailsPage() {
                             <FileSpreadsheet className={`h-4 w-4 ${isRtl ? 'ml-2' : 'mr-2'}`} />
                             <span>{t("importExcel")}</span>
                         </Button>
+                        <Link href={`/${locale}/frameworks/${frameworkId}/roadmap?domainId=${encodeURIComponent(domainId)}`}>
+                            <Button
+                                className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white flex-1 sm:flex-none"
+                            >
+                                <Route className={`h-4 w-4 ${isRtl ? 'ml-2' : 'mr-2'}`} />
+                                <span>{t("capabilityRoadmap")}</span>
+                            </Button>
+                        </Link>
                     </div>
                 </div>
 
@@ -406,6 +427,16 @@ export default function DomainDetailsPage() {
                         </div>
                     )}
                 </motion.div>
+
+                {/* Dependencies between the specifications of this domain */}
+                <div className="bg-white border rounded-lg shadow-sm p-4 mt-6" dir={isRtl ? "rtl" : "ltr"}>
+                    <h2 className="text-xl font-semibold mb-4">{dependencyT("title")}</h2>
+                    <SpecificationDependencyGraph
+                        graph={dependencyGraph}
+                        scope={{ domainId }}
+                        onSelect={(ref: SpecificationDependency) => handleViewDetails(ref.controlId)}
+                    />
+                </div>
             </div>
 
             {/* Create/Edit Control Modal */}
@@ -436,6 +467,7 @@ export default function DomainDetailsPage() {
                             {t("deleteControlWarning")}
                         </AlertDialogDescription>
                     </AlertDialogHeader>
+                    <DependencyDeleteWarning dependents={deleteDependents} />
                     <AlertDialogFooter>
                         <AlertDialogCancel>{commonT("cancel")}</AlertDialogCancel>
                         <AlertDialogAction
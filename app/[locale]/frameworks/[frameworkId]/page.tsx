@@ -15,7 +15,8 @@ import {
     Search,
     X,
     AlertCircle,
-    ClipboardList
+    ClipboardList,
+    Route
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -33,7 +34,10 @@ import Spinner from "@/components/ui/spinner";
 import { DomainCard } from "@/components/ui/domains/DomainCard";
 import { DomainFormModal } from "@/components/ui/domains/DomainFormModal";
 import { DomainImportExcel } from "@/components/ui/domains/DomainImportExcel";
+import { FrameworkExportMenu } from "@/components/ui/frameworks/FrameworkExportMenu";
+import { DependencyDeleteWarning } from "@/components/ui/specifications/DependencyDeleteWarning";
 import { useDomains, Domain } from "@/hooks/useDomains";
+import { useDependencyGraph } from "@/hooks/useDependencyGraph";
 import { useToast } from "@/components/ui/use-toast";
 
 // Animation variants
@@ -75,6 +79,7 @@ export default function FrameworkDetailsPage() {
         updateDomain,
         deleteDomain
     } = useDomains(frameworkId);
+    const { refresh: refreshDependencyGraph, getDependents } = useDependencyGraph(frameworkId);
 
     const filteredDomains = domains.filter(domain => {
         const searchLower = searchTerm.toLowerCase();
@@ -152,6 +157,7 @@ export default function FrameworkDetailsPage() {
                 toast({
                     title: t("domainDeleted"),
                 });
+                refreshDependencyGraph();
             }
         } catch (err) {
             console.error("Error deleting domain:", err);
@@ -194,6 +200,11 @@ export default function FrameworkDetailsPage() {
         setSearchTerm("");
     };
 
+    // Specifications in other domains that would be left depending on the domain being deleted
+    const deleteDependents = isDeleteDialogOpen && selectedDomain
+        ? getDependents({ domainId: selectedDomain.domainId })
+        : [];
+
     // Get domain IDs for duplicate check
     const domainIds = domains.map(domain => domain.domainId);
 
@@ -272,6 +283,15 @@ export default function FrameworkDetailsPage() {
                                 <span>{t("assessmentCriteria")}</span>
                             </Button>
                         </Link>
+                        <Link href={`/${locale}/frameworks/${frameworkId}/roadmap`}>
+                            <Button
+                                className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white flex-1 sm:flex-none"
+                            >
+                                <Route className={`h-4 w-4 ${isRtl ? 'ml-2' : 'mr-2'}`} />
+                                <span>{t("capabilityRoadmap")}</span>
+                            </Button>
+                        </Link>
+                        <FrameworkExportMenu frameworkId={frameworkId} />
                     </div>
                 </div>
 
@@ -365,6 +385,7 @@ export default function FrameworkDetailsPage() {
                             {t("deleteDomainWarning")}
                         </AlertDialogDescription>
                     </AlertDialogHeader>
+                    <DependencyDeleteWarning dependents={deleteDependents} />
                     <AlertDialogFooter>
                         <AlertDialogCancel>{commonT("cancel")}</AlertDialogCancel>
                         <AlertDialogAction
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { useParams, useSearchParams } from "next/navigation";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import {
+    BookOpen,
+    ChevronRight,
+    Layers,
+    AlertCircle
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import Spinner from "@/components/ui/spinner";
+import { ProjectSelect } from "@/components/ui/projects/ProjectSelect";
+import { CapabilityRoadmapMatrix } from "@/components/ui/roadmap/CapabilityRoadmapMatrix";
+import { CapabilityRoadmapPhase } from "@/components/ui/roadmap/CapabilityRoadmapPhase";
+import { useCapabilityRoadmap } from "@/hooks/useCapabilityRoadmap";
+import { getAchievedValue } from "@/lib/services/assessmentScoring";
+
+// Value of the domain select when the whole framework is shown
+const ALL_DOMAINS = "all";
+
+// Animation variants
+const fadeIn = {
+    hidden: { opacity: 0, y: 20 },
+    visible: {
+        opacity: 1,
+        y: 0,
+        transition: { duration: 0.6 }
+    }
+};
+
+export default function CapabilityRoadmapPage() {
+    const t = useTranslations("CapabilityRoadmap");
+    const sidebarT = useTranslations("Sidebar");
+    const locale = useLocale();
+    const params = useParams();
+    const searchParams = useSearchParams();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+    const fontFamily = isRtl ? 'var(--font-cairo)' : 'var(--font-rubik)';
+    const frameworkId = params.frameworkId as string;
+
+    // Domain pages link here with ?domainId= to open the roadmap of that domain
+    const [domainId, setDomainId] = useState<string | null>(searchParams.get("domainId"));
+    const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+
+    const {
+        tree,
+        roadmap,
+        criteria,
+        pinnedVersion,
+        hasProject,
+        loading,
+        error,
+        fetchRoadmap
+    } = useCapabilityRoadmap(frameworkId, domainId, selectedProjectId);
+
+    return (
+        <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
+            {/* Hero Section */}
+            <section className="relative overflow-hidden bg-gradient-to-r from-[var(--primary-blue)] via-[var(--secondary-blue)] to-[var(--primary-green)] text-white">
+                {/* Glowing decorative background */}
+                <div className="absolute inset-0 overflow-hidden">
+                    <div className="absolute top-0 right-0 w-1/2 h-1/2 bg-white/10 rounded-full transform translate-x-1/3 -translate-y-1/3 blur-3xl"></div>
+                    <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-white/5 rounded-full transform -translate-x-1/3 translate-y-1/3 blur-3xl"></div>
+                </div>
+
+                <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
+                    {/* Breadcrumbs */}
+                    <div className="flex items-center mb-4 text-sm">
+                        <Link href={`/${locale}/frameworks`} className="flex items-center opacity-80 hover:opacity-100 transition-opacity">
+                            <BookOpen className={`h-4 w-4 ${isRtl ? 'ml-2' : 'mr-2'}`} />
+                            <span>{sidebarT("frameworkManagement")}</span>
+                        </Link>
+                        <ChevronRight className={`h-4 w-4 mx-2 ${isRtl ? 'rotate-180' : ''}`} />
+                        <Link href={`/${locale}/frameworks/${frameworkId}`} className="flex items-center opacity-80 hover:opacity-100 transition-opacity">
+                            <span>{frameworkId}</span>
+                        </Link>
+                        <ChevronRight className={`h-4 w-4 mx-2 ${isRtl ? 'rotate-180' : ''}`} />
+                        <span className="opacity-90">{t("title")}</span>
+                    </div>
+
+                    <div className="flex flex-col">
+                        <h1 className="text-3xl md:text-4xl font-bold mb-3">
+                            {t("heading", { framework: frameworkId })}
+                        </h1>
+                        <p className="text-white/80 max-w-3xl">{t("description")}</p>
+                    </div>
+                </div>
+            </section>
+
+            {/* Main Content */}
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 md:py-8">
+                {/* Domain and project selection */}
+                <div className="flex flex-col sm:flex-row gap-2 mb-4 sm:mb-6">
+                    <Select
+                        value={domainId ?? ALL_DOMAINS}
+                        onValueChange={(value) => setDomainId(value === ALL_DOMAINS ? null : value)}
+                    >
+                        <SelectTrigger className="bg-white w-full sm:w-[250px]" dir={isRtl ? "rtl" : "ltr"}>
+                            <Layers className={`h-4 w-4 flex-shrink-0 ${isRtl ? "ml-2" : "mr-2"}`} />
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                            <SelectItem value={ALL_DOMAINS}>{t("allDomains")}</SelectItem>
+                            {tree.map(domain => (
+                                <SelectItem key={domain.domainId} value={domain.domainId}>
+                                    {domain.name[lang] || domain.name.en}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <ProjectSelect
+                        frameworkId={frameworkId}
+                        value={selectedProjectId}
+                        onChange={setSelectedProjectId}
+                    />
+                </div>
+
+                <motion.div
+                    initial="hidden"
+                    animate="visible"
+                    variants={fadeIn}
+                >
+                    {loading ? (
+                        <div className="flex flex-col items-center justify-center py-12">
+                            <Spinner className="w-8 h-8 mb-4" />
+                        </div>
+                    ) : error ? (
+                        <div className="flex flex-col items-center justify-center py-12 text-center">
+                            <AlertCircle className="h-10 w-10 text-red-500 mb-4" />
+                            <p className="text-gray-600 mb-4">{error}</p>
+                            <Button onClick={() => fetchRoadmap()} className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white">
+                                {t("retry")}
+                            </Button>
+                        </div>
+                    ) : roadmap.count === 0 ? (
+                        <p className="py-12 text-center text-gray-500">{t("noSpecifications")}</p>
+                    ) : (
+                        <div className="space-y-6">
+                            {hasProject && (
+                                <p className="text-sm text-gray-600">
+                                    {t("achievedRule", { value: getAchievedValue(criteria) })}
+                                    {pinnedVersion !== null && ` ${t("pinnedVersion", { version: pinnedVersion })}`}
+                                </p>
+                            )}
+
+                            <CapabilityRoadmapMatrix roadmap={roadmap} showAchieved={hasProject} />
+
+                            <div className="space-y-4">
+                                {roadmap.phases.map((phase, index) => (
+                                    <CapabilityRoadmapPhase
+                                        key={phase.capabilityLevel}
+                                        phase={phase}
+                                        number={index + 1}
+                                        frameworkId={frameworkId}
+                                        showAchieved={hasProject}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </motion.div>
+            </div>
+        </div>
+    );
+}
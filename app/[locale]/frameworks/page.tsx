@@ -11,23 +11,20 @@ import {
     Calendar,
     BookOpen,
     HelpCircle,
-    ClipboardList
+    ClipboardList,
+    Copy,
+    GitBranch,
+    Upload
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { FrameworkFormDialog } from "@/components/ui/frameworks/FrameworkFormDialog";
 import { FrameworkFormValues } from "@/components/ui/frameworks/FrameworkFormModal";
+import { FrameworkDeleteDialog } from "@/components/ui/frameworks/FrameworkDeleteDialog";
+import { FrameworkCloneDialog } from "@/components/ui/frameworks/FrameworkCloneDialog";
+import { FrameworkVersionsDialog } from "@/components/ui/frameworks/FrameworkVersionsDialog";
+import { FrameworkBundleImportDialog } from "@/components/ui/frameworks/FrameworkBundleImportDialog";
 import { useToast } from "@/components/ui/use-toast";
-import {
-    AlertDialog,
-    AlertDialogAction,
-    AlertDialogCancel,
-    AlertDialogContent,
-    AlertDialogDescription,
-    AlertDialogFooter,
-    AlertDialogHeader,
-    AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 import { useDashboardStats, DashboardStatsProvider } from "@/context/DashboardStatsContext";
 import {
     Tooltip,
@@ -89,6 +86,11 @@ export default function FrameworksPage() {
     const [frameworks, setFrameworks] = useState<Framework[]>([]);
     const [frameworkToDelete, setFrameworkToDelete] = useState<string | null>(null);
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+    const [frameworkToClone, setFrameworkToClone] = useState<Framework | null>(null);
+    const [cloneDialogOpen, setCloneDialogOpen] = useState(false);
+    const [versionsFramework, setVersionsFramework] = useState<Framework | null>(null);
+    const [versionsDialogOpen, setVersionsDialogOpen] = useState(false);
+    const [importDialogOpen, setImportDialogOpen] = useState(false);
 
     const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -285,11 +287,22 @@ export default function FrameworksPage() {
     };
 
     // Handle framework deletion
-    const handleDeleteFramework = async () => {
+    const handleDeleteFramework = async (blockIfReferenced: boolean) => {
         if (!frameworkToDelete) return;
 
         try {
-            await deleteFramework(frameworkToDelete);
+            const result = await deleteFramework(frameworkToDelete, blockIfReferenced);
+
+            if (result.blocked) {
+                toast({
+                    variant: "destructive",
+                    title: t("deleteError"),
+                    description: result.plan.pinnedProjects.length > 0
+                        ? t("deleteBlockedPinnedDescription", { count: result.plan.pinnedProjects.length })
+                        : t("deleteBlockedDescription", { count: result.plan.referencingProjects.length }),
+                });
+                return;
+            }
 
             // Remove framework from local state
             setFrameworks(prevFrameworks => prevFrameworks.filter(fw => fw.id !== frameworkToDelete));
@@ -328,6 +341,22 @@ export default function FrameworksPage() {
         setActiveDropdown(null);
     };
 
+    // Add a cloned or imported framework to the list
+    const handleFrameworkAdded = async (frameworkId: string) => {
+        try {
+            const addedFramework = await getFrameworkById(frameworkId);
+            if (addedFramework) {
+                setFrameworks(prevFrameworks => [...prevFrameworks, addedFramework]);
+            }
+
+            if (dashboardStats) {
+                dashboardStats.notifyRefresh('frameworks');
+            }
+        } catch (error) {
+            console.error("Error fetching added framework:", error);
+        }
+    };
+
     // Filter frameworks based on search term
     const filteredFrameworks = frameworks;
 
@@ -412,6 +441,14 @@ export default function FrameworksPage() {
                             <div className={`w-full flex justify-end items-center flex-col sm:flex-row ${isRtl ? 'sm:flex-row-reverse' : 'sm:flex-row'}`}>
                                 {/* Button */}
                                 <div className="flex items-center gap-3">
+                                    <Button
+                                        variant="outline"
+                                        className="transition-colors duration-300"
+                                        onClick={() => setImportDialogOpen(true)}
+                                    >
+                                        <Upload size={16} className={isRtl ? "ml-2" : "mr-2"} />
+                                        <span>{t("importFramework")}</span>
+                                    </Button>
                                     <Button
                                         className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white transition-colors duration-300"
                                         onClick={handleAddFramework}
@@ -483,6 +520,34 @@ export default function FrameworksPage() {
                                                             <Pencil className="h-4 w-4" />
                                                         </motion.button>
 
+                                                        <motion.button
+                                                            className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
+                                                            whileHover={{ scale: 1.05 }}
+                                                            whileTap={{ scale: 0.95 }}
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setVersionsFramework(framework);
+                                                                setVersionsDialogOpen(true);
+                                                            }}
+                                                            aria-label={t("manageVersions")}
+                                                        >
+                                                            <GitBranch className="h-4 w-4" />
+                                                        </motion.button>
+
+                                                        <motion.button
+                                                            className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
+                                                            whileHover={{ scale: 1.05 }}
+                                                            whileTap={{ scale: 0.95 }}
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setFrameworkToClone(framework);
+                                                                setCloneDialogOpen(true);
+                                                            }}
+                                                            aria-label={t("cloneFramework")}
+                                                        >
+                                                            <Copy className="h-4 w-4" />
+                                                        </motion.button>
+
                                                         <motion.button
                                                             className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
                                                             whileHover={{ scale: 1.05 }}
@@ -515,26 +580,35 @@ export default function FrameworksPage() {
                     onSubmit={handleFormSubmit}
                 />
 
-                {/* Delete Framework Confirmation Dialog */}
-                <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-                    <AlertDialogContent>
-                        <AlertDialogHeader>
-                            <AlertDialogTitle>{t("deleteFrameworkConfirmation")}</AlertDialogTitle>
-                            <AlertDialogDescription>
-                                {t("deleteFrameworkWarning")}
-                            </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                            <AlertDialogCancel>{commonT("cancel")}</AlertDialogCancel>
-                            <AlertDialogAction
-                                onClick={handleDeleteFramework}
-                                className="bg-red-500 hover:bg-red-600 focus:ring-red-500"
-                            >
-                                {commonT("delete")}
-                            </AlertDialogAction>
-                        </AlertDialogFooter>
-                    </AlertDialogContent>
-                </AlertDialog>
+                {/* Delete Framework Confirmation Dialog with cascade preview */}
+                <FrameworkDeleteDialog
+                    frameworkId={frameworkToDelete}
+                    open={deleteDialogOpen}
+                    onOpenChange={setDeleteDialogOpen}
+                    onConfirm={handleDeleteFramework}
+                />
+
+                {/* Clone Framework Dialog */}
+                <FrameworkCloneDialog
+                    framework={frameworkToClone}
+                    open={cloneDialogOpen}
+                    onOpenChange={setCloneDialogOpen}
+                    onCloned={handleFrameworkAdded}
+                />
+
+                {/* Published Versions Dialog */}
+                <FrameworkVersionsDialog
+                    framework={versionsFramework}
+                    open={versionsDialogOpen}
+                    onOpenChange={setVersionsDialogOpen}
+                />
+
+                {/* Import Framework Dialog */}
+                <FrameworkBundleImportDialog
+                    open={importDialogOpen}
+                    onOpenChange={setImportDialogOpen}
+                    onImportComplete={handleFrameworkAdded}
+                />
             </div>
         </DashboardStatsProvider>
     );
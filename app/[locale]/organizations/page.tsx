@@ -293,7 +293,15 @@ export default function OrganizationsPage() {
         if (!organizationToDelete) return;
 
         try {
-            await deleteOrganization(organizationToDelete);
+            if (!(await deleteOrganization(organizationToDelete))) {
+                toast({
+                    variant: "destructive",
+                    title: t("deleteError"),
+                    description: t("deleteBlockedUsers"),
+                });
+                setOrganizationToDelete(null);
+                return;
+            }
 
             // Remove organization from local state
             setOrganizations(prevOrganizations => prevOrganizations.filter(org => org.id !== organizationToDelete));
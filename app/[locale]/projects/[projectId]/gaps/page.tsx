@@ -0,0 +1,235 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { createTranslator } from "next-intl";
+import { useParams } from "next/navigation";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import {
+    Briefcase,
+    ChevronRight,
+    AlertCircle,
+    FileSpreadsheet,
+    Printer,
+    Languages
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { AssessmentScoreSummary } from "@/components/ui/assessment/AssessmentScoreSummary";
+import { GapAnalysisReport } from "@/components/ui/assessment/GapAnalysisReport";
+import { useProjectAssessment } from "@/hooks/useProjectAssessment";
+import { useAuthContext } from "@/context/AuthContext";
+import { buildGapAnalysis } from "@/lib/services/gapAnalysis";
+import {
+    GapReportInput,
+    GapReportLanguage,
+    GapReportTranslate,
+    downloadGapReportWorkbook,
+    printGapReport
+} from "@/lib/services/gapReportExport";
+import { getLocalizedValue } from "@/types/firebase";
+
+// Animation variants
+const fadeIn = {
+    hidden: { opacity: 0, y: 20 },
+    visible: {
+        opacity: 1,
+        y: 0,
+        transition: { duration: 0.6 },
+    },
+};
+
+// Messages of the report in either language, whatever the language of the page
+async function loadReportTranslate(lang: GapReportLanguage): Promise<GapReportTranslate> {
+    const messages = (await import(`@/messages/${lang}.json`)).default;
+    const translator = createTranslator({ locale: lang, messages, namespace: "GapAnalysis" });
+    return (key, values) => translator(key as Parameters<typeof translator>[0], values);
+}
+
+export default function ProjectGapAnalysisPage() {
+    const t = useTranslations("GapAnalysis");
+    const sidebarT = useTranslations("Sidebar");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const params = useParams();
+    const { toast } = useToast();
+    const { user } = useAuthContext();
+    const isRtl = locale === "ar";
+    const fontFamily = isRtl ? 'var(--font-cairo)' : 'var(--font-rubik)';
+    const projectId = params.projectId as string;
+
+    const [reportLang, setReportLang] = useState<GapReportLanguage>(isRtl ? "ar" : "en");
+    const [exporting, setExporting] = useState(false);
+
+    const {
+        project,
+        tree,
+        criteria,
+        ratings,
+        score,
+        loading,
+        error,
+        fetchAssessment
+    } = useProjectAssessment(projectId, user?.id);
+
+    const analysis = useMemo(
+        () => buildGapAnalysis(tree, criteria, ratings),
+        [tree, criteria, ratings]
+    );
+
+    const projectName = project ? getLocalizedValue(project.name, locale) : projectId;
+
+    // Assemble the report in the chosen language, then hand it to the export
+    const handleExport = async (format: "xlsx" | "print") => {
+        if (!project) return;
+        setExporting(true);
+        try {
+            const input: GapReportInput = {
+                lang: reportLang,
+                translate: await loadReportTranslate(reportLang),
+                analysis,
+                tree,
+                criteria,
+                projectName: getLocalizedValue(project.name, reportLang),
+                overall: score.overall,
+                band: score.band,
+                generatedAt: new Date()
+            };
+
+            if (format === "xlsx") {
+                downloadGapReportWorkbook(input, `${project.id}_gap_analysis_${reportLang}`);
+            } else if (!printGapReport(input)) {
+                toast({
+                    variant: "destructive",
+                    title: t("printBlocked"),
+                    description: t("printBlockedDescription"),
+                });
+            }
+        } catch (err) {
+            console.error("Error exporting gap analysis:", err);
+            toast({
+                variant: "destructive",
+                title: t("exportError"),
+            });
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
+            {/* Hero Section */}
+            <section className="relative overflow-hidden bg-gradient-to-r from-[var(--primary-blue)] via-[var(--secondary-blue)] to-[var(--primary-green)] text-white">
+                {/* Glowing decorative background */}
+                <div className="absolute inset-0 overflow-hidden">
+                    <div className="absolute top-0 right-0 w-1/2 h-1/2 bg-white/10 rounded-full transform translate-x-1/3 -translate-y-1/3 blur-3xl"></div>
+                    <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-white/5 rounded-full transform -translate-x-1/3 translate-y-1/3 blur-3xl"></div>
+                </div>
+
+                <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
+                    {/* Breadcrumbs */}
+                    <div className="flex items-center mb-4 text-sm">
+                        <Link href={`/${locale}/projects`} className="flex items-center opacity-80 hover:opacity-100 transition-opacity">
+                            <Briefcase className={`h-4 w-4 ${isRtl ? 'ml-2' : 'mr-2'}`} />
+                            <span>{sidebarT("projectManagement")}</span>
+                        </Link>
+                        <ChevronRight className={`h-4 w-4 mx-2 ${isRtl ? 'rotate-180' : ''}`} />
+                        <Link href={`/${locale}/projects/${projectId}`} className="opacity-80 hover:opacity-100 transition-opacity">
+                            {projectName}
+                        </Link>
+                        <ChevronRight className={`h-4 w-4 mx-2 ${isRtl ? 'rotate-180' : ''}`} />
+                        <span className="opacity-90">{t("breadcrumb")}</span>
+                    </div>
+
+                    <div className="flex flex-col">
+                        <h1 className="text-3xl md:text-4xl font-bold mb-3">
+                            {t("title", { project: projectName })}
+                        </h1>
+                        <p className="text-white/80 max-w-3xl">{t("description")}</p>
+                    </div>
+                </div>
+            </section>
+
+            {/* Main Content */}
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                {loading ? (
+                    <div className="flex flex-col items-center justify-center py-12">
+                        <Spinner className="w-8 h-8 mb-4" />
+                    </div>
+                ) : error && !project ? (
+                    <div className="flex flex-col items-center justify-center py-12 text-center">
+                        <div className="rounded-full bg-red-100 p-3 mb-4">
+                            <AlertCircle className="h-6 w-6 text-red-600" />
+                        </div>
+                        <h3 className="text-lg font-medium text-gray-900 mb-1">{t("fetchError")}</h3>
+                        <p className="text-gray-500 mb-6 max-w-md px-4">{t("fetchErrorDescription")}</p>
+                        <Button onClick={() => fetchAssessment()} className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white">
+                            {commonT("retry")}
+                        </Button>
+                    </div>
+                ) : (
+                    <motion.div className="space-y-6" initial="hidden" animate="visible" variants={fadeIn}>
+                        {/* Export */}
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-2">
+                            <Select value={reportLang} onValueChange={(value) => setReportLang(value as GapReportLanguage)}>
+                                <SelectTrigger className="bg-white w-full sm:w-[200px]" dir={isRtl ? "rtl" : "ltr"}>
+                                    <Languages className={`h-4 w-4 flex-shrink-0 ${isRtl ? "ml-2" : "mr-2"}`} />
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                                    <SelectItem value="en">{t("reportLanguages.en")}</SelectItem>
+                                    <SelectItem value="ar">{t("reportLanguages.ar")}</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Button
+                                variant="outline"
+                                onClick={() => handleExport("xlsx")}
+                                disabled={exporting || !project}
+                                className="bg-white flex items-center gap-2"
+                            >
+                                <FileSpreadsheet className="h-4 w-4" />
+                                {t("exportXlsx")}
+                            </Button>
+                            <Button
+                                onClick={() => handleExport("print")}
+                                disabled={exporting || !project}
+                                className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white flex items-center gap-2"
+                            >
+                                <Printer className="h-4 w-4" />
+                                {t("print")}
+                            </Button>
+                        </div>
+
+                        {!criteria && (
+                            <div className="flex items-center gap-2 p-4 rounded-lg bg-amber-50 text-amber-800 text-sm">
+                                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                                <span>{t("noCriteria")}</span>
+                            </div>
+                        )}
+
+                        {score.ratedCount === 0 && (
+                            <div className="flex items-center gap-2 p-4 rounded-lg bg-blue-50 text-blue-800 text-sm">
+                                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                                <span>{t("noRatings")}</span>
+                            </div>
+                        )}
+
+                        <AssessmentScoreSummary score={score} tree={tree} />
+
+                        <GapAnalysisReport analysis={analysis} tree={tree} criteria={criteria} />
+                    </motion.div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useMemo } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { useParams } from "next/navigation";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import {
+    Briefcase,
+    ChevronRight,
+    AlertCircle,
+    ClipboardList,
+    GitBranch,
+    Lock,
+    Target
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import { AssessmentScoreSummary } from "@/components/ui/assessment/AssessmentScoreSummary";
+import { DomainAssessmentSection } from "@/components/ui/assessment/DomainAssessmentSection";
+import { ProjectMilestoneTimeline } from "@/components/ui/projects/ProjectMilestoneTimeline";
+import { useProjectAssessment, RatingInput } from "@/hooks/useProjectAssessment";
+import { useMappingProposals } from "@/hooks/useMappingProposals";
+import { useAuthContext } from "@/context/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getLocalizedValue } from "@/types/firebase";
+import { getFrameworkVersionId } from "@/types/framework-version";
+import { isProjectReadOnly } from "@/types/project-lifecycle";
+import { getProjectAccessScope } from "@/types/permissions";
+
+// Animation variants
+const fadeIn = {
+    hidden: { opacity: 0, y: 20 },
+    visible: {
+        opacity: 1,
+        y: 0,
+        transition: { duration: 0.6 },
+    },
+};
+
+export default function ProjectAssessmentPage() {
+    const t = useTranslations("ProjectAssessment");
+    const commonT = useTranslations("Common");
+    const sidebarT = useTranslations("Sidebar");
+    const locale = useLocale();
+    const params = useParams();
+    const { toast } = useToast();
+    const { user } = useAuthContext();
+    const { permissions, can, loading: permissionsLoading } = usePermissions();
+    const isRtl = locale === "ar";
+    const fontFamily = isRtl ? 'var(--font-cairo)' : 'var(--font-rubik)';
+    const projectId = params.projectId as string;
+
+    const {
+        project,
+        tree,
+        criteria,
+        frameworkVersion,
+        score,
+        loading,
+        saving,
+        error,
+        fetchAssessment,
+        getRating,
+        rateSpecification,
+        clearRating,
+        saveMilestones
+    } = useProjectAssessment(projectId, user?.id);
+
+    // Assessments of mapped frameworks the user can see, proposed for unrated specifications
+    const accessScope = useMemo(
+        () => user && !permissionsLoading ? getProjectAccessScope(user, permissions) : null,
+        [user, permissions, permissionsLoading]
+    );
+    const { getProposal } = useMappingProposals(project, tree, criteria, accessScope);
+
+    const projectName = project ? getLocalizedValue(project.name, locale) : projectId;
+
+    // Closed projects can only be changed by users who can edit projects (and reopen them)
+    const readOnly = !!project && isProjectReadOnly(project.status) && !can("project:edit");
+
+    const handleRate = async (domainId: string, controlId: string, specificationId: string, input: RatingInput) => {
+        const saved = await rateSpecification(domainId, controlId, specificationId, input);
+        if (!saved) {
+            toast({
+                variant: "destructive",
+                title: t("saveError"),
+                description: t("saveErrorDescription"),
+            });
+        }
+    };
+
+    const handleClear = async (domainId: string, controlId: string, specificationId: string) => {
+        const cleared = await clearRating(domainId, controlId, specificationId);
+        if (!cleared) {
+            toast({
+                variant: "destructive",
+                title: t("saveError"),
+                description: t("saveErrorDescription"),
+            });
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
+            {/* Hero Section */}
+            <section className="relative overflow-hidden bg-gradient-to-r from-[var(--primary-blue)] via-[var(--secondary-blue)] to-[var(--primary-green)] text-white">
+                {/* Glowing decorative background */}
+                <div className="absolute inset-0 overflow-hidden">
+                    <div className="absolute top-0 right-0 w-1/2 h-1/2 bg-white/10 rounded-full transform translate-x-1/3 -translate-y-1/3 blur-3xl"></div>
+                    <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-white/5 rounded-full transform -translate-x-1/3 translate-y-1/3 blur-3xl"></div>
+                </div>
+
+                <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
+                    {/* Breadcrumbs */}
+                    <div className="flex items-center mb-4 text-sm">
+                        <Link href={`/${locale}/projects`} className="flex items-center opacity-80 hover:opacity-100 transition-opacity">
+                            <Briefcase className={`h-4 w-4 ${isRtl ? 'ml-2' : 'mr-2'}`} />
+                            <span>{sidebarT("projectManagement")}</span>
+                        </Link>
+                        <ChevronRight className={`h-4 w-4 mx-2 ${isRtl ? 'rotate-180' : ''}`} />
+                        <span className="opacity-90">{projectName}</span>
+                    </div>
+
+                    <div className="flex flex-col">
+                        <h1 className="text-3xl md:text-4xl font-bold mb-3">
+                            {t("title", { project: projectName })}
+                        </h1>
+                        <p className="text-white/80 max-w-3xl">{t("description")}</p>
+                    </div>
+                </div>
+            </section>
+
+            {/* Main Content */}
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                {loading ? (
+                    <div className="flex flex-col items-center justify-center py-12">
+                        <Spinner className="w-8 h-8 mb-4" />
+                    </div>
+                ) : error && !project ? (
+                    <div className="flex flex-col items-center justify-center py-12 text-center">
+                        <div className="rounded-full bg-red-100 p-3 mb-4">
+                            <AlertCircle className="h-6 w-6 text-red-600" />
+                        </div>
+                        <h3 className="text-lg font-medium text-gray-900 mb-1">{t("fetchError")}</h3>
+                        <p className="text-gray-500 mb-6 max-w-md px-4">{t("fetchErrorDescription")}</p>
+                        <Button onClick={() => fetchAssessment()} className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white">
+                            {commonT("retry")}
+                        </Button>
+                    </div>
+                ) : (
+                    <motion.div className="space-y-6" initial="hidden" animate="visible" variants={fadeIn}>
+                        {/* Framework version the assessment runs against */}
+                        <div className="flex items-center gap-2 p-4 rounded-lg bg-blue-50 text-blue-800 text-sm">
+                            <GitBranch className="h-5 w-5 flex-shrink-0" />
+                            <span>
+                                {frameworkVersion
+                                    ? t("pinnedVersion", { version: frameworkVersion.label })
+                                    : project?.frameworkVersion
+                                        ? t("pinnedVersionMissing", { version: getFrameworkVersionId(project.frameworkVersion) })
+                                        : t("liveFramework")}
+                            </span>
+                        </div>
+
+                        {readOnly && (
+                            <div className="flex items-center gap-2 p-4 rounded-lg bg-gray-100 text-gray-700 text-sm">
+                                <Lock className="h-5 w-5 flex-shrink-0" />
+                                <span>{t("projectClosed")}</span>
+                            </div>
+                        )}
+
+                        {!criteria && (
+                            <div className="flex items-center gap-2 p-4 rounded-lg bg-amber-50 text-amber-800 text-sm">
+                                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                                <span>{t("noCriteria")}</span>
+                            </div>
+                        )}
+
+                        <div className="flex justify-end">
+                            <Link href={`/${locale}/projects/${projectId}/gaps`}>
+                                <Button variant="outline" className="bg-white flex items-center gap-2">
+                                    <Target className="h-4 w-4" />
+                                    {t("gapAnalysis")}
+                                </Button>
+                            </Link>
+                        </div>
+
+                        <AssessmentScoreSummary score={score} tree={tree} />
+
+                        {project && (
+                            <ProjectMilestoneTimeline
+                                project={project}
+                                domains={tree}
+                                canEdit={can("project:edit")}
+                                onSave={saveMilestones}
+                            />
+                        )}
+
+                        <div className="flex items-center gap-2">
+                            <ClipboardList className="h-5 w-5 text-[var(--primary-blue)]" />
+                            <h2 className="text-xl font-semibold">{t("specificationRatings")}</h2>
+                        </div>
+
+                        {tree.length === 0 ? (
+                            <p className="text-gray-500 italic">{t("noDomains")}</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {tree.map(domain => (
+                                    <DomainAssessmentSection
+                                        key={domain.domainId}
+                                        domain={domain}
+                                        domainScore={score.domains.find(d => d.domainId === domain.domainId)}
+                                        criteria={criteria}
+                                        saving={saving}
+                                        readOnly={readOnly}
+                                        getRating={getRating}
+                                        getProposal={getProposal}
+                                        onRate={handleRate}
+                                        onClear={handleClear}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                    </motion.div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -30,12 +30,19 @@ import {
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { DashboardStatsProvider, useDashboardStats } from "@/context/DashboardStatsContext";
+import { useAuthContext } from "@/context/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getProjectAccessScope } from "@/types/permissions";
+import { ProjectStatus, getAvailableTransitions } from "@/types/project-lifecycle";
+import { ProjectStatusDialog } from "@/components/ui/projects/ProjectStatusDialog";
+import { getProjectScheduleState } from "@/types/project-milestone";
 
 import {
-    getAllProjects,
+    getAccessibleProjects,
     getProjectById,
     createProject,
     updateProject,
+    changeProjectStatus,
     deleteProject,
     getProjectsByOrganization,
     getProjectsByStatus,
@@ -65,6 +72,9 @@ export default function ProjectsPage() {
     const fontFamily = isRtl ? 'var(--font-cairo)' : 'var(--font-rubik)';
     const { toast } = useToast();
     const dashboardStats = useDashboardStats();
+    const { user, isLoading: userLoading } = useAuthContext();
+    const { permissions, can, loading: permissionsLoading } = usePermissions();
+    const canEditProjects = can("project:edit");
 
     // State for projects data and UI
     const [projects, setProjects] = useState<Project[]>([]);
@@ -77,6 +87,7 @@ export default function ProjectsPage() {
     // State for filter options
     const [searchTerm, setSearchTerm] = useState("");
     const [selectedStatus, setSelectedStatus] = useState("all");
+    const [selectedSchedule, setSelectedSchedule] = useState("all");
     const [selectedOrganization, setSelectedOrganization] = useState("all");
     const [selectedFramework, setSelectedFramework] = useState("all");
 
@@ -86,17 +97,23 @@ export default function ProjectsPage() {
     const [selectedProject, setSelectedProject] = useState<Partial<ProjectFormValues> | undefined>(undefined);
     const [projectToDelete, setProjectToDelete] = useState<string | null>(null);
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+    const [projectToChangeStatus, setProjectToChangeStatus] = useState<Project | null>(null);
+    const [statusDialogOpen, setStatusDialogOpen] = useState(false);
 
     // State for loading
     const [loading, setLoading] = useState(true);
 
-    // Fetch projects, organizations, and frameworks on component mount
+    // Fetch projects, organizations, and frameworks once the user's permissions are known
     useEffect(() => {
+        if (userLoading || permissionsLoading) return;
+
         const fetchAllData = async () => {
             setLoading(true);
             try {
-                // Fetch projects
-                const fetchedProjects = await getAllProjects();
+                // Fetch the projects the user has access to
+                const fetchedProjects = user
+                    ? await getAccessibleProjects(getProjectAccessScope(user, permissions))
+                    : [];
                 setProjects(fetchedProjects);
                 setFilteredProjects(fetchedProjects);
 
@@ -134,7 +151,7 @@ export default function ProjectsPage() {
         };
 
         fetchAllData();
-    }, [t, toast]);
+    }, [t, toast, user, permissions, userLoading, permissionsLoading]);
 
     // Apply filters when search term or filter selections change
     useEffect(() => {
@@ -162,6 +179,11 @@ export default function ProjectsPage() {
                 result = result.filter(project => project.status === selectedStatus);
             }
 
+            // Apply schedule filter
+            if (selectedSchedule !== "all") {
+                result = result.filter(project => getProjectScheduleState(project) === selectedSchedule);
+            }
+
             // Apply organization filter
             if (selectedOrganization !== "all") {
                 result = result.filter(project => project.organizationId === selectedOrganization);
@@ -176,7 +198,7 @@ export default function ProjectsPage() {
         };
 
         applyFilters();
-    }, [projects, searchTerm, selectedStatus, selectedOrganization, selectedFramework]);
+    }, [projects, searchTerm, selectedStatus, selectedSchedule, selectedOrganization, selectedFramework]);
 
     // Handle opening the create project form
     const handleAddProject = () => {
@@ -206,7 +228,8 @@ export default function ProjectsPage() {
             startDate,
             projectDeadline,
             status: project.status,
-            frameworkId: project.frameworkId
+            frameworkId: project.frameworkId,
+            frameworkVersion: project.frameworkVersion ?? null
         });
         setProjectFormOpen(true);
     };
@@ -224,7 +247,9 @@ export default function ProjectsPage() {
                     data.projectDeadline as unknown as string,
                     data.status,
                     data.frameworkId,
-                    "en" // Default language is always English
+                    "en", // Default language is always English
+                    data.frameworkVersion,
+                    user?.name
                 );
 
                 // Fetch the newly created project
@@ -241,8 +266,8 @@ export default function ProjectsPage() {
                     organizationId: data.owner,
                     startDate: data.startDate as unknown as string,
                     projectDeadline: data.projectDeadline as unknown as string,
-                    status: data.status,
                     frameworkId: data.frameworkId,
+                    frameworkVersion: data.frameworkVersion,
                     defaultLang: "en" // Default language is always English
                 });
 
@@ -257,8 +282,8 @@ export default function ProjectsPage() {
                                 organizationId: data.owner,
                                 startDate: data.startDate as unknown as string,
                                 projectDeadline: data.projectDeadline as unknown as string,
-                                status: data.status,
                                 frameworkId: data.frameworkId,
+                                frameworkVersion: data.frameworkVersion,
                                 defaultLang: "en" // Default language is always English
                             };
                         }
@@ -320,6 +345,53 @@ export default function ProjectsPage() {
         }
     };
 
+    // Open the status change dialog
+    const handleOpenStatusDialog = (project: Project) => {
+        setProjectToChangeStatus(project);
+        setStatusDialogOpen(true);
+    };
+
+    // Handle moving a project to another status
+    const handleChangeStatus = async (project: Project, status: ProjectStatus, reason?: string) => {
+        try {
+            const change = await changeProjectStatus(project.id, status, {
+                permissions,
+                reason,
+                changedByName: user?.name
+            });
+
+            // Update the project in the local state
+            setProjects(prevProjects => prevProjects.map(item =>
+                item.id === project.id
+                    ? { ...item, status, statusHistory: [...(item.statusHistory || []), change] }
+                    : item
+            ));
+
+            toast({
+                title: t("statusChanged"),
+                duration: 3000,
+            });
+
+            // Notify the dashboard to refresh data
+            try {
+                if (dashboardStats) {
+                    dashboardStats.notifyRefresh('projects');
+                }
+            } catch (error) {
+                // Dashboard context might not be available, ignore the error
+            }
+
+            setStatusDialogOpen(false);
+        } catch (error) {
+            console.error("Error changing project status:", error);
+            toast({
+                variant: "destructive",
+                title: t("statusChangeError"),
+                description: t("statusChangeErrorDescription"),
+            });
+        }
+    };
+
     // Confirm project deletion
     const confirmDeleteProject = (projectId: string) => {
         setProjectToDelete(projectId);
@@ -346,13 +418,15 @@ export default function ProjectsPage() {
                 </div>
                 <h3 className="text-lg font-medium text-gray-900 mb-1">{t("noProjectsFound")}</h3>
                 <p className="text-sm text-gray-500 mb-4">{t("noProjectsDescription")}</p>
-                <Button
-                    className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white transition-colors duration-300"
-                    onClick={onAddProject}
-                >
-                    <Plus size={16} className={isRtl ? "ml-2" : "mr-2"} />
-                    <span>{t("addProject")}</span>
-                </Button>
+                {canEditProjects && (
+                    <Button
+                        className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white transition-colors duration-300"
+                        onClick={onAddProject}
+                    >
+                        <Plus size={16} className={isRtl ? "ml-2" : "mr-2"} />
+                        <span>{t("addProject")}</span>
+                    </Button>
+                )}
             </div>
         );
     };
@@ -390,6 +464,8 @@ export default function ProjectsPage() {
                                 onSearchChange={setSearchTerm}
                                 selectedStatus={selectedStatus}
                                 onStatusChange={setSelectedStatus}
+                                selectedSchedule={selectedSchedule}
+                                onScheduleChange={setSelectedSchedule}
                                 selectedOrganization={selectedOrganization}
                                 onOrganizationChange={setSelectedOrganization}
                                 selectedFramework={selectedFramework}
@@ -398,15 +474,17 @@ export default function ProjectsPage() {
                                 frameworks={frameworks}
                             />
 
-                            <div className="px-6 py-4 flex justify-end">
-                                <Button
-                                    className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white transition-colors duration-300"
-                                    onClick={handleAddProject}
-                                >
-                                    <Plus size={16} className={isRtl ? "ml-2" : "mr-2"} />
-                                    <span>{t("addProject")}</span>
-                                </Button>
-                            </div>
+                            {canEditProjects && (
+                                <div className="px-6 py-4 flex justify-end">
+                                    <Button
+                                        className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white transition-colors duration-300"
+                                        onClick={handleAddProject}
+                                    >
+                                        <Plus size={16} className={isRtl ? "ml-2" : "mr-2"} />
+                                        <span>{t("addProject")}</span>
+                                    </Button>
+                                </div>
+                            )}
                         </CardHeader>
                         <CardContent className="p-6">
                             {/* Projects Grid */}
@@ -422,8 +500,13 @@ export default function ProjectsPage() {
                                             project={project}
                                             organization={organizationsMap.get(project.organizationId) || null}
                                             framework={frameworksMap.get(project.frameworkId) || null}
-                                            onEdit={handleEditProject}
-                                            onDelete={confirmDeleteProject}
+                                            onEdit={canEditProjects ? handleEditProject : undefined}
+                                            onDelete={canEditProjects ? confirmDeleteProject : undefined}
+                                            onChangeStatus={
+                                                getAvailableTransitions(project.status, permissions).length > 0
+                                                    ? handleOpenStatusDialog
+                                                    : undefined
+                                            }
                                         />
                                     ))}
                                 </div>
@@ -441,6 +524,15 @@ export default function ProjectsPage() {
                     onSubmit={handleFormSubmit}
                 />
 
+                {/* Project Status Dialog */}
+                <ProjectStatusDialog
+                    open={statusDialogOpen}
+                    onOpenChange={setStatusDialogOpen}
+                    project={projectToChangeStatus}
+                    permissions={permissions}
+                    onSubmit={handleChangeStatus}
+                />
+
                 {/* Delete Project Confirmation Dialog */}
                 <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
                     <AlertDialogContent>
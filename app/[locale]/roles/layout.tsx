@@ -0,0 +1,23 @@
+import React from 'react';
+import { Metadata } from 'next';
+import { getTranslations } from 'next-intl/server';
+
+export async function generateMetadata({ params: { locale } }: { params: { locale: string } }) {
+    const t = await getTranslations({ locale, namespace: 'RolePermissions' });
+    return {
+        title: t('pageTitle'),
+        description: t('pageDescription'),
+    } as Metadata;
+}
+
+export default function RolesLayout({
+    children,
+}: {
+    children: React.ReactNode;
+}) {
+    return (
+        <section className="roles-layout">
+            {children}
+        </section>
+    );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { Fragment, useState, useEffect, useMemo } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { ShieldCheck, RefreshCw, Save, Copy, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getRolePermissionMatrix, updateRolePermissions } from "@/lib/services/permissionService";
+import { generateFirestoreRulesHelpers, generateStorageRulesHelpers } from "@/lib/firestore/permissionRules";
+import {
+    DEFAULT_ROLE_PERMISSIONS,
+    LOCKED_ROLE,
+    PERMISSIONS,
+    Permission,
+    ROLES,
+    Role,
+    RolePermissionMatrix,
+} from "@/types/permissions";
+
+// Permissions grouped by the resource they apply to, in catalog order
+const PERMISSION_GROUPS = PERMISSIONS.reduce((groups, permission) => {
+    const resource = permission.split(":")[0];
+    (groups[resource] = groups[resource] || []).push(permission);
+    return groups;
+}, {} as Record<string, Permission[]>);
+
+const samePermissions = (a: Permission[], b: Permission[]) =>
+    a.length === b.length && a.every(permission => b.includes(permission));
+
+export default function RolesPage() {
+    const t = useTranslations("RolePermissions");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const fontFamily = isRtl ? 'var(--font-cairo)' : 'var(--font-rubik)';
+    const { toast } = useToast();
+    const { can, loading: permissionsLoading } = usePermissions();
+
+    const [savedMatrix, setSavedMatrix] = useState<RolePermissionMatrix>(DEFAULT_ROLE_PERMISSIONS);
+    const [matrix, setMatrix] = useState<RolePermissionMatrix>(DEFAULT_ROLE_PERMISSIONS);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    const rulesFiles = useMemo(() => [
+        { file: "firestore.rules", helpers: generateFirestoreRulesHelpers() },
+        { file: "storage.rules", helpers: generateStorageRulesHelpers() },
+    ], []);
+
+    const fetchMatrix = async () => {
+        try {
+            setLoading(true);
+            const roleMatrix = await getRolePermissionMatrix();
+            setSavedMatrix(roleMatrix);
+            setMatrix(roleMatrix);
+        } catch (error) {
+            console.error("Error fetching permission matrix:", error);
+            toast({
+                variant: "destructive",
+                title: t("error"),
+                description: t("fetchError"),
+            });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchMatrix();
+    }, []);
+
+    const changedRoles = ROLES.filter(role => !samePermissions(matrix[role], savedMatrix[role]));
+
+    const togglePermission = (role: Role, permission: Permission, granted: boolean) => {
+        setMatrix(prev => ({
+            ...prev,
+            [role]: granted
+                ? PERMISSIONS.filter(p => p === permission || prev[role].includes(p))
+                : prev[role].filter(p => p !== permission),
+        }));
+    };
+
+    const handleSave = async () => {
+        try {
+            setSaving(true);
+            for (const role of changedRoles) {
+                await updateRolePermissions(role, matrix[role]);
+            }
+            setSavedMatrix(matrix);
+            toast({
+                title: t("saved"),
+                description: t("savedDescription"),
+            });
+        } catch (error) {
+            console.error("Error saving permission matrix:", error);
+            toast({
+                variant: "destructive",
+                title: t("error"),
+                description: t("saveError"),
+            });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCopyRules = async (helpers: string) => {
+        try {
+            await navigator.clipboard.writeText(helpers);
+            toast({ title: t("rulesCopied") });
+        } catch (error) {
+            console.error("Error copying rules helpers:", error);
+        }
+    };
+
+    const canManageRoles = can("role:manage");
+
+    return (
+        <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
+            {/* Hero Section */}
+            <section className="relative overflow-hidden bg-gradient-to-r from-[var(--primary-blue)] via-[var(--secondary-blue)] to-[var(--primary-green)] text-white">
+                <div className="absolute inset-0 overflow-hidden">
+                    <div className="absolute top-0 right-0 w-1/2 h-1/2 bg-white/10 rounded-full transform translate-x-1/3 -translate-y-1/3 blur-3xl"></div>
+                    <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-white/5 rounded-full transform -translate-x-1/3 translate-y-1/3 blur-3xl"></div>
+                </div>
+
+                <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+                        <div>
+                            <div className="flex items-center mb-2">
+                                <ShieldCheck className="h-5 w-5 mr-2 opacity-80" />
+                                <span className="text-sm opacity-80">{t("administration")}</span>
+                            </div>
+                            <h1 className="text-3xl md:text-4xl font-bold mb-3">{t("title")}</h1>
+                            <p className="text-white/80 max-w-3xl">{t("description")}</p>
+                        </div>
+                        {canManageRoles && (
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    className="bg-white/10 text-white border-white/20 hover:bg-white/20"
+                                    onClick={fetchMatrix}
+                                    disabled={loading || saving}
+                                >
+                                    <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+                                </Button>
+                                <Button
+                                    className="bg-white text-[var(--primary-blue)] hover:bg-white/90"
+                                    onClick={handleSave}
+                                    disabled={saving || loading || changedRoles.length === 0}
+                                >
+                                    <Save className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                                    {saving ? t("saving") : t("save")}
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </section>
+
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+                {!permissionsLoading && !canManageRoles ? (
+                    <Card>
+                        <CardContent className="flex flex-col items-center justify-center py-12">
+                            <div className="bg-gray-100 p-4 rounded-full mb-3">
+                                <Lock className="h-8 w-8 text-gray-400" />
+                            </div>
+                            <h3 className="text-lg font-medium text-gray-900 mb-1">{t("noAccess")}</h3>
+                            <p className="text-sm text-gray-500">{t("noAccessDescription")}</p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <>
+                        <Card className="overflow-hidden">
+                            <CardHeader className="bg-white border-b">
+                                <CardTitle>{t("matrixTitle")}</CardTitle>
+                                <CardDescription>{t("matrixDescription")}</CardDescription>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                {loading || permissionsLoading ? (
+                                    <div className="space-y-2 p-6">
+                                        {[...Array(6)].map((_, i) => (
+                                            <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-sm">
+                                            <thead className="bg-gray-50 text-gray-600">
+                                                <tr>
+                                                    <th className="px-6 py-3 text-start font-medium">{t("permission")}</th>
+                                                    {ROLES.map(role => (
+                                                        <th key={role} className="px-6 py-3 text-center font-medium">
+                                                            <div className="flex items-center justify-center gap-1">
+                                                                {role === LOCKED_ROLE && <Lock className="h-3 w-3" />}
+                                                                {t(`roles.${role}`)}
+                                                            </div>
+                                                        </th>
+                                                    ))}
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {Object.entries(PERMISSION_GROUPS).map(([resource, permissions]) => (
+                                                    <Fragment key={resource}>
+                                                        <tr className="border-t bg-gray-50/50">
+                                                            <td colSpan={ROLES.length + 1} className="px-6 py-2 text-xs font-semibold uppercase text-gray-500">
+                                                                {t(`resources.${resource}`)}
+                                                            </td>
+                                                        </tr>
+                                                        {permissions.map(permission => (
+                                                            <tr key={permission} className="border-t">
+                                                                <td className="px-6 py-3">
+                                                                    <div className="font-medium text-gray-900">{t(`permissions.${permission}.label`)}</div>
+                                                                    <div className="text-xs text-gray-500">{t(`permissions.${permission}.description`)}</div>
+                                                                </td>
+                                                                {ROLES.map(role => (
+                                                                    <td key={role} className="px-6 py-3 text-center">
+                                                                        <Checkbox
+                                                                            checked={role === LOCKED_ROLE || matrix[role].includes(permission)}
+                                                                            disabled={role === LOCKED_ROLE || saving}
+                                                                            onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                                                                            aria-label={`${role} ${permission}`}
+                                                                        />
+                                                                    </td>
+                                                                ))}
+                                                            </tr>
+                                                        ))}
+                                                    </Fragment>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>{t("rulesTitle")}</CardTitle>
+                                <CardDescription>{t("rulesDescription")}</CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                {rulesFiles.map(({ file, helpers }) => (
+                                    <div key={file} className="space-y-2">
+                                        <div className="flex items-center justify-between gap-4">
+                                            <span className="font-mono text-sm" dir="ltr">{file}</span>
+                                            <Button variant="outline" size="sm" onClick={() => handleCopyRules(helpers)}>
+                                                <Copy className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                                                {t("copyRules")}
+                                            </Button>
+                                        </div>
+                                        <pre className="max-h-96 overflow-auto rounded-md bg-gray-900 p-4 text-xs text-gray-100" dir="ltr">
+                                            {helpers}
+                                        </pre>
+                                    </div>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
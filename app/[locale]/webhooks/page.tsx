@@ -0,0 +1,377 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { Webhook, RefreshCw, Plus, Lock, Pencil, Trash2, Send, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { WebhookEndpointDialog } from "@/components/ui/webhooks/WebhookEndpointDialog";
+import { WebhookDeliveryLog } from "@/components/ui/webhooks/WebhookDeliveryLog";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+    createWebhookEndpoint,
+    deleteWebhookEndpoint,
+    getWebhookDeliveries,
+    getWebhookEndpoints,
+    pingWebhookEndpoint,
+    redeliverWebhook,
+    retryDueWebhookDeliveries,
+    updateWebhookEndpoint
+} from "@/lib/services/webhookService";
+import { getAllOrganizations } from "@/lib/services/organizationService";
+import { Organization } from "@/types/firebase";
+import { WebhookDelivery, WebhookEndpoint, WebhookEndpointInput } from "@/types/webhook";
+
+const ALL = "all";
+
+export default function WebhooksPage() {
+    const t = useTranslations("Webhooks");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+    const fontFamily = isRtl ? 'var(--font-cairo)' : 'var(--font-rubik)';
+    const { toast } = useToast();
+    const { can, loading: permissionsLoading } = usePermissions();
+
+    const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+    const [organizations, setOrganizations] = useState<Organization[]>([]);
+    const [deliveryFilter, setDeliveryFilter] = useState<string>(ALL);
+    const [loading, setLoading] = useState(true);
+    const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [editingEndpoint, setEditingEndpoint] = useState<WebhookEndpoint | null>(null);
+    const [endpointToDelete, setEndpointToDelete] = useState<WebhookEndpoint | null>(null);
+    const [pingingId, setPingingId] = useState<string | null>(null);
+    const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+    const canManageWebhooks = can("webhook:manage");
+
+    const reportError = (error: unknown, fallback: string) => {
+        toast({
+            variant: "destructive",
+            title: t("error"),
+            description: error instanceof Error ? error.message : fallback,
+        });
+    };
+
+    const fetchEndpoints = async () => {
+        try {
+            setLoading(true);
+            const [endpointList, organizationList] = await Promise.all([getWebhookEndpoints(), getAllOrganizations()]);
+            setEndpoints(endpointList);
+            setOrganizations(organizationList);
+        } catch (error) {
+            reportError(error, t("fetchError"));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchDeliveries = async () => {
+        try {
+            setDeliveriesLoading(true);
+            setDeliveries(await getWebhookDeliveries(deliveryFilter !== ALL ? deliveryFilter : undefined));
+        } catch (error) {
+            reportError(error, t("fetchError"));
+        } finally {
+            setDeliveriesLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!permissionsLoading && canManageWebhooks) {
+            fetchEndpoints();
+        }
+    }, [permissionsLoading, canManageWebhooks]);
+
+    useEffect(() => {
+        if (!permissionsLoading && canManageWebhooks) {
+            fetchDeliveries();
+        }
+    }, [permissionsLoading, canManageWebhooks, deliveryFilter]);
+
+    const handleSave = async (input: WebhookEndpointInput) => {
+        try {
+            if (editingEndpoint) {
+                const updated = await updateWebhookEndpoint(editingEndpoint.id, input);
+                setEndpoints(prev => prev.map(endpoint => endpoint.id === updated.id ? updated : endpoint));
+                toast({ title: t("endpointSaved") });
+                return null;
+            }
+
+            const { endpoint, secret } = await createWebhookEndpoint(input);
+            setEndpoints(prev => [endpoint, ...prev]);
+            return secret;
+        } catch (error) {
+            reportError(error, t("saveError"));
+            throw error;
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!endpointToDelete) return;
+
+        try {
+            await deleteWebhookEndpoint(endpointToDelete.id);
+            setEndpoints(prev => prev.filter(endpoint => endpoint.id !== endpointToDelete.id));
+            if (deliveryFilter === endpointToDelete.id) {
+                setDeliveryFilter(ALL);
+            }
+        } catch (error) {
+            reportError(error, t("deleteError"));
+        } finally {
+            setEndpointToDelete(null);
+        }
+    };
+
+    const handlePing = async (endpoint: WebhookEndpoint) => {
+        try {
+            setPingingId(endpoint.id);
+            const delivery = await pingWebhookEndpoint(endpoint.id);
+            toast(delivery.status === "succeeded"
+                ? { title: t("pingSucceeded") }
+                : { variant: "destructive", title: t("pingFailed"), description: delivery.lastError || undefined });
+            fetchDeliveries();
+        } catch (error) {
+            reportError(error, t("pingFailed"));
+        } finally {
+            setPingingId(null);
+        }
+    };
+
+    const handleRedeliver = async (delivery: WebhookDelivery) => {
+        try {
+            setRedeliveringId(delivery.id);
+            const updated = await redeliverWebhook(delivery.id);
+            setDeliveries(prev => prev.map(item => item.id === updated.id ? updated : item));
+        } catch (error) {
+            reportError(error, t("redeliverError"));
+        } finally {
+            setRedeliveringId(null);
+        }
+    };
+
+    const handleRetryDue = async () => {
+        try {
+            setDeliveriesLoading(true);
+            const processed = await retryDueWebhookDeliveries();
+            toast({ title: t("retriedDue", { count: processed }) });
+        } catch (error) {
+            reportError(error, t("redeliverError"));
+        } finally {
+            fetchDeliveries();
+        }
+    };
+
+    const openDialog = (endpoint: WebhookEndpoint | null) => {
+        setEditingEndpoint(endpoint);
+        setIsDialogOpen(true);
+    };
+
+    const getOrganizationName = (organizationId: string) => {
+        const organization = organizations.find(item => item.id === organizationId);
+        return organization ? organization.name[lang] || organization.name.en : organizationId;
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50" style={{ fontFamily, direction: isRtl ? 'rtl' : 'ltr' }}>
+            {/* Hero Section */}
+            <section className="relative overflow-hidden bg-gradient-to-r from-[var(--primary-blue)] via-[var(--secondary-blue)] to-[var(--primary-green)] text-white">
+                <div className="absolute inset-0 overflow-hidden">
+                    <div className="absolute top-0 right-0 w-1/2 h-1/2 bg-white/10 rounded-full transform translate-x-1/3 -translate-y-1/3 blur-3xl"></div>
+                    <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-white/5 rounded-full transform -translate-x-1/3 translate-y-1/3 blur-3xl"></div>
+                </div>
+
+                <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+                        <div>
+                            <div className="flex items-center mb-2">
+                                <Webhook className="h-5 w-5 mr-2 opacity-80" />
+                                <span className="text-sm opacity-80">{t("administration")}</span>
+                            </div>
+                            <h1 className="text-3xl md:text-4xl font-bold mb-3">{t("title")}</h1>
+                            <p className="text-white/80 max-w-3xl">{t("description")}</p>
+                        </div>
+                        {canManageWebhooks && (
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    className="bg-white/10 text-white border-white/20 hover:bg-white/20"
+                                    onClick={() => {
+                                        fetchEndpoints();
+                                        fetchDeliveries();
+                                    }}
+                                    disabled={loading}
+                                >
+                                    <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+                                </Button>
+                                <Button
+                                    className="bg-white text-[var(--primary-blue)] hover:bg-white/90"
+                                    onClick={() => openDialog(null)}
+                                    disabled={loading}
+                                >
+                                    <Plus className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                                    {t("addEndpoint")}
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </section>
+
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+                {!permissionsLoading && !canManageWebhooks ? (
+                    <Card>
+                        <CardContent className="flex flex-col items-center justify-center py-12">
+                            <div className="bg-gray-100 p-4 rounded-full mb-3">
+                                <Lock className="h-8 w-8 text-gray-400" />
+                            </div>
+                            <h3 className="text-lg font-medium text-gray-900 mb-1">{t("noAccess")}</h3>
+                            <p className="text-sm text-gray-500">{t("noAccessDescription")}</p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <>
+                        <Card className="overflow-hidden">
+                            <CardHeader className="bg-white border-b">
+                                <CardTitle>{t("endpointsTitle")}</CardTitle>
+                                <CardDescription>{t("endpointsDescription")}</CardDescription>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                {loading || permissionsLoading ? (
+                                    <div className="space-y-2 p-6">
+                                        {[...Array(3)].map((_, i) => (
+                                            <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+                                        ))}
+                                    </div>
+                                ) : endpoints.length === 0 ? (
+                                    <p className="p-6 text-sm text-gray-500 italic">{t("noEndpoints")}</p>
+                                ) : (
+                                    <ul className="divide-y">
+                                        {endpoints.map(endpoint => (
+                                            <li key={endpoint.id} className="flex flex-wrap items-start justify-between gap-3 px-6 py-4">
+                                                <div className="min-w-0 space-y-1">
+                                                    <div className="flex flex-wrap items-center gap-2">
+                                                        <span className="font-medium break-all" dir="ltr">{endpoint.url}</span>
+                                                        <Badge className={`${endpoint.active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"} border-0`}>
+                                                            {endpoint.active ? t("active") : t("inactive")}
+                                                        </Badge>
+                                                    </div>
+                                                    <div className="text-sm text-gray-600">
+                                                        {getOrganizationName(endpoint.organizationId)}
+                                                        {endpoint.description ? ` · ${endpoint.description}` : ""}
+                                                    </div>
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {endpoint.events.map(event => (
+                                                            <Badge key={event} variant="outline" className="text-xs font-mono">{event}</Badge>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                                <div className="flex gap-1">
+                                                    <Button variant="outline" size="sm" onClick={() => handlePing(endpoint)} disabled={pingingId === endpoint.id}>
+                                                        <Send className={`h-4 w-4 ${isRtl ? "ml-1" : "mr-1"}`} />
+                                                        {t("ping")}
+                                                    </Button>
+                                                    <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => openDialog(endpoint)} aria-label={t("editEndpoint")}>
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button variant="ghost" size="icon" className="h-9 w-9 text-red-600" onClick={() => setEndpointToDelete(endpoint)} aria-label={t("deleteEndpoint")}>
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card className="overflow-hidden">
+                            <CardHeader className="bg-white border-b flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                                <div>
+                                    <CardTitle>{t("deliveriesTitle")}</CardTitle>
+                                    <CardDescription>{t("deliveriesDescription")}</CardDescription>
+                                </div>
+                                <div className="flex gap-2">
+                                    <Select value={deliveryFilter} onValueChange={setDeliveryFilter}>
+                                        <SelectTrigger className="w-64">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={ALL}>{t("allEndpoints")}</SelectItem>
+                                            {endpoints.map(endpoint => (
+                                                <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.url}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <Button variant="outline" onClick={handleRetryDue} disabled={deliveriesLoading}>
+                                        <RotateCw className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"} ${deliveriesLoading ? "animate-spin" : ""}`} />
+                                        {t("retryDue")}
+                                    </Button>
+                                </div>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                {deliveriesLoading && deliveries.length === 0 ? (
+                                    <div className="space-y-2 p-6">
+                                        {[...Array(3)].map((_, i) => (
+                                            <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <WebhookDeliveryLog
+                                        deliveries={deliveries}
+                                        redeliveringId={redeliveringId}
+                                        onRedeliver={handleRedeliver}
+                                    />
+                                )}
+                            </CardContent>
+                        </Card>
+                    </>
+                )}
+            </div>
+
+            <WebhookEndpointDialog
+                open={isDialogOpen}
+                onOpenChange={setIsDialogOpen}
+                endpoint={editingEndpoint}
+                organizations={organizations}
+                onSubmit={handleSave}
+            />
+
+            <AlertDialog open={!!endpointToDelete} onOpenChange={(open) => !open && setEndpointToDelete(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t("deleteConfirmation")}</AlertDialogTitle>
+                        <AlertDialogDescription>{t("deleteWarning")}</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleDelete} className="bg-red-500 hover:bg-red-600 focus:ring-red-500">
+                            {t("deleteEndpoint")}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
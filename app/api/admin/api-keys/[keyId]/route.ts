@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { revokeApiKey } from '@/lib/admin/apiKeys';
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  // Only allow users who can manage API keys to access this route
+  const authResult = await authorize(req, 'apiKey:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const { keyId } = await params;
+    const apiKey = await revokeApiKey(keyId, authResult);
+
+    if (!apiKey) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ apiKey }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json({
+      error: 'Error revoking API key',
+      message: error.message
+    }, { status: 500 });
+  }
+}
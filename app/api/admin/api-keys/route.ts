@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { authorize } from '@/lib/middleware/authorize';
+import { issueApiKey, listApiKeys } from '@/lib/admin/apiKeys';
+import { isValidDocumentId } from '@/lib/admin/restApi';
+import { isPermission } from '@/types/permissions';
+import { API_KEY_PERMISSIONS } from '@/types/api-key';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(req: NextRequest) {
+  // Only allow users who can manage API keys to access this route
+  const authResult = await authorize(req, 'apiKey:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    return NextResponse.json({ apiKeys: await listApiKeys() }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error listing API keys:', error);
+    return NextResponse.json({
+      error: 'Error listing API keys',
+      message: error.message
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  // Only allow users who can manage API keys to access this route
+  const authResult = await authorize(req, 'apiKey:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const { name, organizationId, permissions, expiresAt = null } = await req.json();
+
+    if (!name || typeof name !== 'string' || !name.trim() || !isValidDocumentId(organizationId)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (!Array.isArray(permissions) || permissions.length === 0 ||
+      !permissions.every(permission => isPermission(permission) && API_KEY_PERMISSIONS.includes(permission))) {
+      return NextResponse.json({ error: 'Invalid permissions' }, { status: 400 });
+    }
+
+    // A key cannot do more than the admin issuing it
+    if (!permissions.every(permission => authResult.permissions.includes(permission))) {
+      return NextResponse.json({ error: 'Forbidden - Cannot grant permissions you do not hold' }, { status: 403 });
+    }
+
+    if (expiresAt !== null && (typeof expiresAt !== 'string' || !DATE_PATTERN.test(expiresAt))) {
+      return NextResponse.json({ error: 'expiresAt must be a yyyy-MM-dd date or null' }, { status: 400 });
+    }
+
+    const organizationDoc = await db.collection('organizations').doc(organizationId).get();
+    if (!organizationDoc.exists) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const userDoc = await db.collection('users').doc(authResult.userId).get();
+    const result = await issueApiKey(
+      { name: name.trim(), organizationId, permissions, expiresAt },
+      { ...authResult, name: userDoc.data()?.name }
+    );
+
+    // The token is only ever returned here
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: any) {
+    console.error('Error issuing API key:', error);
+    return NextResponse.json({
+      error: 'Error issuing API key',
+      message: error.message
+    }, { status: 500 });
+  }
+}
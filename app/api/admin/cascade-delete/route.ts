@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { executeCascadeDelete } from '@/lib/admin/cascadeDelete';
+
+export async function DELETE(req: NextRequest) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  // Options can be passed as query params or in the request body
+  const url = new URL(req.url);
+  let body: Record<string, any> = {};
+  try {
+    body = await req.json();
+  } catch (_) {
+    // If there's no body, rely on the query params
+  }
+
+  const frameworkId = url.searchParams.get('frameworkId') || body.frameworkId;
+  const domainId = url.searchParams.get('domainId') || body.domainId || undefined;
+  const controlId = url.searchParams.get('controlId') || body.controlId || undefined;
+  const dryRun = url.searchParams.get('dryRun') === 'true' || body.dryRun === true;
+  const blockIfReferenced = url.searchParams.get('blockIfReferenced') === 'true' || body.blockIfReferenced === true;
+
+  // Validate the target
+  if (!frameworkId) {
+    return NextResponse.json({ error: 'Missing framework ID' }, { status: 400 });
+  }
+
+  if (controlId && !domainId) {
+    return NextResponse.json({ error: 'Deleting a control requires its domain ID' }, { status: 400 });
+  }
+
+  try {
+    const result = await executeCascadeDelete(
+      { frameworkId, domainId, controlId },
+      { dryRun, blockIfReferenced, actor: authResult }
+    );
+
+    if (result.blocked) {
+      return NextResponse.json({
+        ...result,
+        error: result.plan.pinnedProjects.length > 0
+          ? 'Projects are pinned to a published version of this framework'
+          : 'Projects still reference this item',
+      }, { status: 409 });
+    }
+
+    if (!result.success) {
+      return NextResponse.json({
+        ...result,
+        error: 'Error deleting item',
+        message: `${result.failedPaths.length} documents could not be deleted or updated`
+      }, { status: 500 });
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error: any) {
+    console.error('Error in cascading delete:', error);
+    return NextResponse.json({
+      error: 'Error deleting item',
+      message: error.message
+    }, { status: 500 });
+  }
+}
@@ -7,8 +7,8 @@ import { db as adminDb } from "@/lib/firebase-admin";
 export async function GET(req: NextRequest) {
   try {
     // Get the authenticated user using the authorize middleware
-    // Allow any authenticated user to access this route
-    const authResult = await authorize(req, ["Admin", "Client", "Consultant"]);
+    // Allow any authenticated user with a role to access this route
+    const authResult = await authorize(req);
     
     if (authResult instanceof NextResponse) {
       // If authorization failed, return the error response
@@ -16,7 +16,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Get the user's ID and role from the authorization result
-    const { userId, role } = authResult;
+    const { userId, role, permissions } = authResult;
 
     // Get additional user information from Firestore
     const userDoc = await adminDb.collection("users").doc(userId).get();
@@ -38,6 +38,7 @@ export async function GET(req: NextRequest) {
           status: userData.status,
         } : null,
         isAdmin: role === "Admin", // Boolean flag indicating if admin
+        permissions, // Permissions granted to the role
         claims: userRecord.customClaims || {}
       },
       message: "User authentication and role check successful"
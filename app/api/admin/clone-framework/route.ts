@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { cloneFramework } from '@/lib/admin/frameworkVersions';
+
+export async function POST(req: NextRequest) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const { sourceId, name, newId } = await req.json();
+
+    // Validate required fields
+    if (!sourceId || !name || !String(name).trim()) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (newId && !/^[A-Za-z0-9_-]+$/.test(newId)) {
+      return NextResponse.json({ error: 'Framework ID may only contain letters, digits, "-" and "_"' }, { status: 400 });
+    }
+
+    const result = await cloneFramework(sourceId, {
+      name: String(name).trim(),
+      newId: newId || undefined,
+      actor: authResult
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: any) {
+    console.error('Error cloning framework:', error);
+    return NextResponse.json({
+      error: 'Error cloning framework',
+      message: error.message
+    }, { status: 500 });
+  }
+}
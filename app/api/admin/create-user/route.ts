@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, db } from '@/lib/firebase-admin';
 import { authorize } from '@/lib/middleware/authorize';
+import { writeAuditLog } from '@/lib/admin/auditLog';
+import { checkUserChange } from '@/lib/admin/permissions';
+import { dispatchWebhookEvent } from '@/lib/admin/webhooks';
+import { buildUserCreatedEvent } from '@/lib/admin/webhookEvents';
 import { FieldValue } from 'firebase-admin/firestore';
 
 export async function POST(req: NextRequest) {
   
-  // Only allow admins to access this route
-  const authResult = await authorize(req);
+  // Only allow users who can manage users to access this route
+  const authResult = await authorize(req, 'user:manage');
   if (authResult instanceof NextResponse) {
     return authResult; // Return error response if not authorized
   }
@@ -21,7 +25,7 @@ export async function POST(req: NextRequest) {
       password, 
       name, 
       role, 
-      organizationId, 
+      organizationId = authResult.apiKey?.organizationId, // API keys create users of their organization
       assignedProjectIds = [],
       status = 'Active',
       locale 
@@ -32,6 +36,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    const changeError = await checkUserChange(authResult, null, { role, organizationId, assignedProjectIds });
+    if (changeError) {
+      return NextResponse.json({ error: changeError }, { status: 403 });
+    }
+
     // Create the user in Firebase Auth
     const userRecord = await auth.createUser({
       email,
@@ -60,6 +69,15 @@ export async function POST(req: NextRequest) {
     };
 
     await db.collection('users').doc(userRecord.uid).set(userData);
+    await writeAuditLog(authResult, {
+      action: 'create',
+      entityPath: `users/${userRecord.uid}`,
+      after: userData
+    });
+    const event = buildUserCreatedEvent(userRecord.uid, userData);
+    if (event) {
+      await dispatchWebhookEvent(event);
+    }
 
     return NextResponse.json({
       success: true,
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, db } from '@/lib/firebase-admin';
 import { authorize } from '@/lib/middleware/authorize';
+import { writeAuditLog } from '@/lib/admin/auditLog';
+import { checkUserChange } from '@/lib/admin/permissions';
 
 export async function DELETE(req: NextRequest) {
-  // Only allow admins to access this route
-  const authResult = await authorize(req);
+  // Only allow users who can manage users to access this route
+  const authResult = await authorize(req, 'user:manage');
   if (authResult instanceof NextResponse) {
     return authResult; // Return error response if not authorized
   }
@@ -29,8 +31,20 @@ export async function DELETE(req: NextRequest) {
   }
 
   try {
+    const changeError = await checkUserChange(authResult, userId);
+    if (changeError) {
+      return NextResponse.json({ error: changeError }, { status: 403 });
+    }
+
     // Delete from Firestore first
-    await db.collection('users').doc(userId).delete();
+    const userRef = db.collection('users').doc(userId);
+    const before = (await userRef.get()).data() || {};
+    await userRef.delete();
+    await writeAuditLog(authResult, {
+      action: 'delete',
+      entityPath: `users/${userId}`,
+      before
+    });
     
     // Then delete from Firebase Auth
     await auth.deleteUser(userId);
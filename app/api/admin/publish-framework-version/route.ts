@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { publishFrameworkVersion } from '@/lib/admin/frameworkVersions';
+
+export async function POST(req: NextRequest) {
+  // Only allow users who can publish frameworks to access this route
+  const authResult = await authorize(req, 'framework:publish');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const { frameworkId, note } = await req.json();
+
+    if (!frameworkId) {
+      return NextResponse.json({ error: 'Missing framework ID' }, { status: 400 });
+    }
+
+    const result = await publishFrameworkVersion(frameworkId, {
+      actor: authResult,
+      note: note ? String(note).trim() : undefined
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: any) {
+    console.error('Error publishing framework version:', error);
+    return NextResponse.json({
+      error: 'Error publishing framework version',
+      message: error.message
+    }, { status: 500 });
+  }
+}
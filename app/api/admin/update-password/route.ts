@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/firebase-admin';
 import { authorize } from '@/lib/middleware/authorize';
+import { writeAuditLog } from '@/lib/admin/auditLog';
+import { checkUserChange } from '@/lib/admin/permissions';
 
 export async function POST(req: NextRequest) {
-  // Only allow admins to access this route
-  const authResult = await authorize(req);
+  // Only allow users who can manage users to access this route
+  const authResult = await authorize(req, 'user:manage');
   if (authResult instanceof NextResponse) {
     return authResult; // Return error response if not authorized
   }
@@ -17,6 +19,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Missing user ID' }, { status: 400 });
     }
 
+    const changeError = await checkUserChange(authResult, userId);
+    if (changeError) {
+      return NextResponse.json({ error: changeError }, { status: 403 });
+    }
+
     if (!password) {
       return NextResponse.json({ error: 'Missing password' }, { status: 400 });
     }
@@ -31,6 +38,14 @@ export async function POST(req: NextRequest) {
     // Update the user's password in Firebase Auth
     await auth.updateUser(userId, { password });
 
+    // The password itself is never written to the audit log
+    await writeAuditLog(authResult, {
+      action: 'update',
+      entityPath: `users/${userId}`,
+      before: {},
+      after: { password: '[changed]' }
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Password updated successfully'
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth, db } from '@/lib/firebase-admin';
 import { authorize } from '@/lib/middleware/authorize';
+import { writeAuditLog } from '@/lib/admin/auditLog';
+import { checkUserChange } from '@/lib/admin/permissions';
 
 // Add POST handler that redirects to the PATCH handler
 export async function POST(req: NextRequest) {
@@ -9,8 +11,8 @@ export async function POST(req: NextRequest) {
 }
 
 export async function PATCH(req: NextRequest) {
-  // Only allow admins to access this route
-  const authResult = await authorize(req);
+  // Only allow users who can manage users to access this route
+  const authResult = await authorize(req, 'user:manage');
   if (authResult instanceof NextResponse) {
     return authResult; // Return error response if not authorized
   }
@@ -33,6 +35,11 @@ export async function PATCH(req: NextRequest) {
       return NextResponse.json({ error: 'Missing user ID' }, { status: 400 });
     }
 
+    const changeError = await checkUserChange(authResult, userId, { role, organizationId, assignedProjectIds });
+    if (changeError) {
+      return NextResponse.json({ error: changeError }, { status: 403 });
+    }
+
     // Get the current user to avoid unnecessary updates
     const userRecord = await auth.getUser(userId);
     
@@ -83,10 +90,20 @@ export async function PATCH(req: NextRequest) {
     if (locale !== undefined) firestoreUpdateData.locale = locale;
 
     // Update Firestore document if we have changes
+    const userRef = db.collection('users').doc(userId);
+    const before = (await userRef.get()).data() || {};
     if (Object.keys(firestoreUpdateData).length > 0) {
-      await db.collection('users').doc(userId).update(firestoreUpdateData);
+      await userRef.update(firestoreUpdateData);
     }
 
+    // Password changes are recorded without the password itself
+    await writeAuditLog(authResult, {
+      action: 'update',
+      entityPath: `users/${userId}`,
+      before,
+      after: { ...before, ...firestoreUpdateData, ...(password ? { password: '[changed]' } : {}) }
+    });
+
     return NextResponse.json({
       success: true,
       userId,
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { sendWebhookPing } from '@/lib/admin/webhooks';
+
+type Params = { params: Promise<{ endpointId: string }> };
+
+// POST to send a webhook.ping to an endpoint and get the delivery back
+export async function POST(req: NextRequest, { params }: Params) {
+  // Only allow users who can manage webhooks to access this route
+  const authResult = await authorize(req, 'webhook:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { endpointId } = await params;
+  try {
+    const delivery = await sendWebhookPing(endpointId, authResult, authResult.apiKey?.organizationId ?? null);
+    if (!delivery) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+    return NextResponse.json({ delivery }, { status: 200 });
+  } catch (error: any) {
+    console.error(`Error pinging webhook endpoint ${endpointId}:`, error);
+    return NextResponse.json({
+      error: 'Error pinging webhook endpoint',
+      message: error.message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { authorize } from '@/lib/middleware/authorize';
+import { deleteWebhookEndpoint, readWebhookEndpointInput, updateWebhookEndpoint } from '@/lib/admin/webhooks';
+
+type Params = { params: Promise<{ endpointId: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  // Only allow users who can manage webhooks to access this route
+  const authResult = await authorize(req, 'webhook:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { endpointId } = await params;
+  try {
+    const result = readWebhookEndpointInput(await req.json(), 'update');
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    if (authResult.apiKey && result.data.organizationId !== undefined &&
+      result.data.organizationId !== authResult.apiKey.organizationId) {
+      return NextResponse.json({ error: 'API keys can only manage endpoints of their organization' }, { status: 403 });
+    }
+
+    if (result.data.organizationId) {
+      const organizationDoc = await db.collection('organizations').doc(result.data.organizationId).get();
+      if (!organizationDoc.exists) {
+        return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+      }
+    }
+
+    const endpoint = await updateWebhookEndpoint(
+      endpointId,
+      result.data,
+      authResult,
+      authResult.apiKey?.organizationId ?? null
+    );
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+    return NextResponse.json({ endpoint }, { status: 200 });
+  } catch (error: any) {
+    console.error(`Error updating webhook endpoint ${endpointId}:`, error);
+    return NextResponse.json({
+      error: 'Error updating webhook endpoint',
+      message: error.message
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  // Only allow users who can manage webhooks to access this route
+  const authResult = await authorize(req, 'webhook:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { endpointId } = await params;
+  try {
+    if (!(await deleteWebhookEndpoint(endpointId, authResult, authResult.apiKey?.organizationId ?? null))) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, id: endpointId }, { status: 200 });
+  } catch (error: any) {
+    console.error(`Error deleting webhook endpoint ${endpointId}:`, error);
+    return NextResponse.json({
+      error: 'Error deleting webhook endpoint',
+      message: error.message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { redeliverWebhook } from '@/lib/admin/webhooks';
+
+// POST to send a delivery again now
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ deliveryId: string }> }
+) {
+  // Only allow users who can manage webhooks to access this route
+  const authResult = await authorize(req, 'webhook:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { deliveryId } = await params;
+  try {
+    const delivery = await redeliverWebhook(deliveryId, authResult.apiKey?.organizationId ?? null);
+    if (!delivery) {
+      return NextResponse.json({ error: 'Webhook delivery not found' }, { status: 404 });
+    }
+    return NextResponse.json({ delivery }, { status: 200 });
+  } catch (error: any) {
+    console.error(`Error redelivering webhook ${deliveryId}:`, error);
+    return NextResponse.json({
+      error: 'Error redelivering webhook',
+      message: error.message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { listWebhookDeliveries, processDueDeliveries } from '@/lib/admin/webhooks';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET the delivery log, newest first, optionally of one endpoint with ?endpointId=; API keys only
+// get the deliveries of their organization
+export async function GET(req: NextRequest) {
+  // Only allow users who can manage webhooks to access this route
+  const authResult = await authorize(req, 'webhook:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const url = new URL(req.url);
+    const limit = parseInt(url.searchParams.get('limit') || '', 10);
+    const deliveries = await listWebhookDeliveries(
+      url.searchParams.get('endpointId'),
+      Number.isNaN(limit) ? DEFAULT_LIMIT : Math.min(Math.max(limit, 1), MAX_LIMIT),
+      authResult.apiKey?.organizationId ?? null
+    );
+    return NextResponse.json({ deliveries }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error listing webhook deliveries:', error);
+    return NextResponse.json({
+      error: 'Error listing webhook deliveries',
+      message: error.message
+    }, { status: 500 });
+  }
+}
+
+// POST to retry the deliveries that are due, e.g. from a scheduler with an API key. Every organization's
+// due deliveries are retried: they only go to the endpoints they were queued for, and nothing is returned.
+export async function POST(req: NextRequest) {
+  // Only allow users who can manage webhooks to access this route
+  const authResult = await authorize(req, 'webhook:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    return NextResponse.json({ processed: await processDueDeliveries() }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error retrying webhook deliveries:', error);
+    return NextResponse.json({
+      error: 'Error retrying webhook deliveries',
+      message: error.message
+    }, { status: 500 });
+  }
+}
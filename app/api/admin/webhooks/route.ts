@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { authorize } from '@/lib/middleware/authorize';
+import { createWebhookEndpoint, listWebhookEndpoints, readWebhookEndpointInput } from '@/lib/admin/webhooks';
+import { WebhookEndpointInput } from '@/types/webhook';
+
+export async function GET(req: NextRequest) {
+  // Only allow users who can manage webhooks to access this route
+  const authResult = await authorize(req, 'webhook:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    // API keys only see the endpoints of their organization
+    const endpoints = await listWebhookEndpoints(authResult.apiKey?.organizationId ?? null);
+    return NextResponse.json({ endpoints }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error listing webhook endpoints:', error);
+    return NextResponse.json({
+      error: 'Error listing webhook endpoints',
+      message: error.message
+    }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  // Only allow users who can manage webhooks to access this route
+  const authResult = await authorize(req, 'webhook:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const result = readWebhookEndpointInput(await req.json(), 'create');
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    if (authResult.apiKey && result.data.organizationId !== authResult.apiKey.organizationId) {
+      return NextResponse.json({ error: 'API keys can only add endpoints of their organization' }, { status: 403 });
+    }
+
+    const organizationDoc = await db.collection('organizations').doc(result.data.organizationId!).get();
+    if (!organizationDoc.exists) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    // The secret is only ever returned here
+    const created = await createWebhookEndpoint(result.data as WebhookEndpointInput, authResult);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating webhook endpoint:', error);
+    return NextResponse.json({
+      error: 'Error creating webhook endpoint',
+      message: error.message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { errorResponse, getDocument, readRequestData, updateDocument } from '@/lib/admin/restApi';
+import { CONTROL_RESOURCE, deleteFrameworkNode, getControlRef } from '@/lib/admin/restResources';
+
+type Params = { params: Promise<{ frameworkId: string; domainId: string; controlId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Only allow users who can view frameworks to access this route
+  const authResult = await authorize(req, 'framework:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId, controlId } = await params;
+  try {
+    return await getDocument(getControlRef(frameworkId, domainId, controlId), CONTROL_RESOURCE);
+  } catch (error: any) {
+    console.error(`Error getting control ${controlId}:`, error);
+    return NextResponse.json({ error: 'Error getting control', message: error.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId, controlId } = await params;
+  try {
+    const result = await readRequestData(req, CONTROL_RESOURCE, 'update');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+    return await updateDocument(getControlRef(frameworkId, domainId, controlId), result.data, CONTROL_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error updating control ${controlId}:`, error);
+    return NextResponse.json({ error: 'Error updating control', message: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId, controlId } = await params;
+  try {
+    return await deleteFrameworkNode(
+      req,
+      getControlRef(frameworkId, domainId, controlId),
+      { frameworkId, domainId, controlId },
+      CONTROL_RESOURCE,
+      authResult
+    );
+  } catch (error: any) {
+    console.error(`Error deleting control ${controlId}:`, error);
+    return NextResponse.json({ error: 'Error deleting control', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { errorResponse, getDocument, readRequestData, updateDocument } from '@/lib/admin/restApi';
+import { deleteSpecification } from '@/lib/admin/cascadeDelete';
+import {
+  SPECIFICATION_RESOURCE,
+  checkSpecificationDependencies,
+  getControlRef,
+  getSpecificationVersionHistory
+} from '@/lib/admin/restResources';
+
+type Params = { params: Promise<{ frameworkId: string; domainId: string; controlId: string; specificationId: string }> };
+
+const getSpecificationRef = async (params: Params['params']) => {
+  const { frameworkId, domainId, controlId, specificationId } = await params;
+  return getControlRef(frameworkId, domainId, controlId).collection('specifications').doc(specificationId);
+};
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Only allow users who can view frameworks to access this route
+  const authResult = await authorize(req, 'framework:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const ref = await getSpecificationRef(params);
+  try {
+    return await getDocument(ref, SPECIFICATION_RESOURCE);
+  } catch (error: any) {
+    console.error(`Error getting specification ${ref.path}:`, error);
+    return NextResponse.json({ error: 'Error getting specification', message: error.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const ref = await getSpecificationRef(params);
+  try {
+    const result = await readRequestData(req, SPECIFICATION_RESOURCE, 'update');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+    if (result.data.dependsOn) {
+      const { frameworkId, domainId, controlId, specificationId } = await params;
+      const dependencyError = await checkSpecificationDependencies(
+        frameworkId,
+        { domainId, controlId, specificationId },
+        result.data.dependsOn
+      );
+      if (dependencyError) {
+        return errorResponse(dependencyError, 400);
+      }
+    }
+
+    const stored = await ref.get();
+    if (!stored.exists) {
+      return errorResponse('Specification not found', 404);
+    }
+
+    // A content change is recorded as the next version, like saving from the specification form
+    const versionHistory = getSpecificationVersionHistory(stored.data() || {}, result.data, authResult);
+    return await updateDocument(
+      ref,
+      { ...result.data, ...(versionHistory ? { versionHistory } : {}) },
+      SPECIFICATION_RESOURCE,
+      authResult
+    );
+  } catch (error: any) {
+    console.error(`Error updating specification ${ref.path}:`, error);
+    return NextResponse.json({ error: 'Error updating specification', message: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const ref = await getSpecificationRef(params);
+  try {
+    // Specifications depending on this one lose that dependency in the same batch
+    const { frameworkId, domainId, controlId, specificationId } = await params;
+    const result = await deleteSpecification(frameworkId, { domainId, controlId, specificationId }, authResult);
+    if (!result) {
+      return errorResponse('Specification not found', 404);
+    }
+    if (!result.success) {
+      return NextResponse.json({
+        ...result,
+        error: `${result.failedPaths.length} documents could not be deleted or updated`
+      }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, id: specificationId, dependents: result.dependents }, { status: 200 });
+  } catch (error: any) {
+    console.error(`Error deleting specification ${ref.path}:`, error);
+    return NextResponse.json({ error: 'Error deleting specification', message: error.message }, { status: 500 });
+  }
+}
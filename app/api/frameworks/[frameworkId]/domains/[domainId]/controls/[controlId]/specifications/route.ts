@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { createDocument, errorResponse, listDocuments, readRequestData } from '@/lib/admin/restApi';
+import { SPECIFICATION_RESOURCE, checkSpecificationDependencies, getControlRef } from '@/lib/admin/restResources';
+
+type Params = { params: Promise<{ frameworkId: string; domainId: string; controlId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Only allow users who can view frameworks to access this route
+  const authResult = await authorize(req, 'framework:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId, controlId } = await params;
+  try {
+    return await listDocuments(
+      req,
+      getControlRef(frameworkId, domainId, controlId).collection('specifications'),
+      SPECIFICATION_RESOURCE
+    );
+  } catch (error: any) {
+    console.error(`Error listing specifications of control ${controlId}:`, error);
+    return NextResponse.json({ error: 'Error listing specifications', message: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId, controlId } = await params;
+  try {
+    const result = await readRequestData(req, SPECIFICATION_RESOURCE, 'create');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+    if (!result.id) {
+      return errorResponse('Missing required fields: id (the specification number)', 400);
+    }
+
+    const controlRef = getControlRef(frameworkId, domainId, controlId);
+    if (!(await controlRef.get()).exists) {
+      return errorResponse('Control not found', 404);
+    }
+    if (result.data.dependsOn) {
+      const dependencyError = await checkSpecificationDependencies(
+        frameworkId,
+        { domainId, controlId, specificationId: result.id },
+        result.data.dependsOn
+      );
+      if (dependencyError) {
+        return errorResponse(dependencyError, 400);
+      }
+    }
+    return await createDocument(
+      controlRef.collection('specifications').doc(result.id),
+      result.data,
+      SPECIFICATION_RESOURCE,
+      authResult
+    );
+  } catch (error: any) {
+    console.error(`Error creating specification in control ${controlId}:`, error);
+    return NextResponse.json({ error: 'Error creating specification', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { createDocument, errorResponse, listDocuments, readRequestData } from '@/lib/admin/restApi';
+import { CONTROL_RESOURCE, getDomainRef } from '@/lib/admin/restResources';
+
+type Params = { params: Promise<{ frameworkId: string; domainId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Only allow users who can view frameworks to access this route
+  const authResult = await authorize(req, 'framework:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId } = await params;
+  try {
+    return await listDocuments(req, getDomainRef(frameworkId, domainId).collection('controls'), CONTROL_RESOURCE);
+  } catch (error: any) {
+    console.error(`Error listing controls of domain ${domainId}:`, error);
+    return NextResponse.json({ error: 'Error listing controls', message: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId } = await params;
+  try {
+    const result = await readRequestData(req, CONTROL_RESOURCE, 'create');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+    if (!result.id) {
+      return errorResponse('Missing required fields: id', 400);
+    }
+
+    const domainRef = getDomainRef(frameworkId, domainId);
+    if (!(await domainRef.get()).exists) {
+      return errorResponse('Domain not found', 404);
+    }
+    return await createDocument(domainRef.collection('controls').doc(result.id), result.data, CONTROL_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error creating control in domain ${domainId}:`, error);
+    return NextResponse.json({ error: 'Error creating control', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { errorResponse, getDocument, readRequestData, updateDocument } from '@/lib/admin/restApi';
+import { DOMAIN_RESOURCE, deleteFrameworkNode, getDomainRef } from '@/lib/admin/restResources';
+
+type Params = { params: Promise<{ frameworkId: string; domainId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Only allow users who can view frameworks to access this route
+  const authResult = await authorize(req, 'framework:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId } = await params;
+  try {
+    return await getDocument(getDomainRef(frameworkId, domainId), DOMAIN_RESOURCE);
+  } catch (error: any) {
+    console.error(`Error getting domain ${domainId}:`, error);
+    return NextResponse.json({ error: 'Error getting domain', message: error.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId } = await params;
+  try {
+    const result = await readRequestData(req, DOMAIN_RESOURCE, 'update');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+    return await updateDocument(getDomainRef(frameworkId, domainId), result.data, DOMAIN_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error updating domain ${domainId}:`, error);
+    return NextResponse.json({ error: 'Error updating domain', message: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId, domainId } = await params;
+  try {
+    return await deleteFrameworkNode(req, getDomainRef(frameworkId, domainId), { frameworkId, domainId }, DOMAIN_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error deleting domain ${domainId}:`, error);
+    return NextResponse.json({ error: 'Error deleting domain', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { createDocument, errorResponse, listDocuments, readRequestData } from '@/lib/admin/restApi';
+import { DOMAIN_RESOURCE, getFrameworkRef } from '@/lib/admin/restResources';
+
+type Params = { params: Promise<{ frameworkId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Only allow users who can view frameworks to access this route
+  const authResult = await authorize(req, 'framework:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId } = await params;
+  try {
+    return await listDocuments(req, getFrameworkRef(frameworkId).collection('domains'), DOMAIN_RESOURCE);
+  } catch (error: any) {
+    console.error(`Error listing domains of framework ${frameworkId}:`, error);
+    return NextResponse.json({ error: 'Error listing domains', message: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId } = await params;
+  try {
+    const result = await readRequestData(req, DOMAIN_RESOURCE, 'create');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+    if (!result.id) {
+      return errorResponse('Missing required fields: id', 400);
+    }
+
+    const frameworkRef = getFrameworkRef(frameworkId);
+    if (!(await frameworkRef.get()).exists) {
+      return errorResponse('Framework not found', 404);
+    }
+    return await createDocument(frameworkRef.collection('domains').doc(result.id), result.data, DOMAIN_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error creating domain in framework ${frameworkId}:`, error);
+    return NextResponse.json({ error: 'Error creating domain', message: error.message }, { status: 500 });
+  }
+}
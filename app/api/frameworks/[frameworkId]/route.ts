@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/middleware/authorize';
+import { errorResponse, getDocument, readRequestData, updateDocument } from '@/lib/admin/restApi';
+import { FRAMEWORK_RESOURCE, deleteFrameworkNode, getFrameworkRef } from '@/lib/admin/restResources';
+import { dispatchWebhookEvent } from '@/lib/admin/webhooks';
+import { buildFrameworkUpdatedEvent } from '@/lib/admin/webhookEvents';
+
+type Params = { params: Promise<{ frameworkId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Only allow users who can view frameworks to access this route
+  const authResult = await authorize(req, 'framework:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId } = await params;
+  try {
+    return await getDocument(getFrameworkRef(frameworkId), FRAMEWORK_RESOURCE);
+  } catch (error: any) {
+    console.error(`Error getting framework ${frameworkId}:`, error);
+    return NextResponse.json({ error: 'Error getting framework', message: error.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId } = await params;
+  try {
+    const result = await readRequestData(req, FRAMEWORK_RESOURCE, 'update');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+    const response = await updateDocument(getFrameworkRef(frameworkId), result.data, FRAMEWORK_RESOURCE, authResult);
+    if (response.ok) {
+      await dispatchWebhookEvent(buildFrameworkUpdatedEvent(await getFrameworkRef(frameworkId).get(), Object.keys(result.data)));
+    }
+    return response;
+  } catch (error: any) {
+    console.error(`Error updating framework ${frameworkId}:`, error);
+    return NextResponse.json({ error: 'Error updating framework', message: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { frameworkId } = await params;
+  try {
+    return await deleteFrameworkNode(req, getFrameworkRef(frameworkId), { frameworkId }, FRAMEWORK_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error deleting framework ${frameworkId}:`, error);
+    return NextResponse.json({ error: 'Error deleting framework', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { authorize } from '@/lib/middleware/authorize';
+import { createDocument, errorResponse, listDocuments, readRequestData } from '@/lib/admin/restApi';
+import { FRAMEWORK_RESOURCE } from '@/lib/admin/restResources';
+
+export async function GET(req: NextRequest) {
+  // Only allow users who can view frameworks to access this route
+  const authResult = await authorize(req, 'framework:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    return await listDocuments(req, db.collection('frameworks'), FRAMEWORK_RESOURCE);
+  } catch (error: any) {
+    console.error('Error listing frameworks:', error);
+    return NextResponse.json({ error: 'Error listing frameworks', message: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  // Only allow users who can edit frameworks to access this route
+  const authResult = await authorize(req, 'framework:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const result = await readRequestData(req, FRAMEWORK_RESOURCE, 'create');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+
+    // The ID is generated unless the request chooses one
+    const frameworks = db.collection('frameworks');
+    const ref = result.id ? frameworks.doc(result.id) : frameworks.doc();
+    return await createDocument(ref, result.data, FRAMEWORK_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error('Error creating framework:', error);
+    return NextResponse.json({ error: 'Error creating framework', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { authorize } from '@/lib/middleware/authorize';
+import { deleteDocument, errorResponse, getDocument, readRequestData, updateDocument } from '@/lib/admin/restApi';
+import { ORGANIZATION_RESOURCE } from '@/lib/admin/restResources';
+import { deleteProjects } from '@/lib/admin/cascadeDelete';
+
+type Params = { params: Promise<{ organizationId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Authorize the request (any signed-in user with a role allowed, like the security rules)
+  const authResult = await authorize(req);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { organizationId } = await params;
+  try {
+    return await getDocument(db.collection('organizations').doc(organizationId), ORGANIZATION_RESOURCE);
+  } catch (error: any) {
+    console.error(`Error getting organization ${organizationId}:`, error);
+    return NextResponse.json({ error: 'Error getting organization', message: error.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  // Only allow users who can manage organizations to access this route
+  const authResult = await authorize(req, 'organization:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { organizationId } = await params;
+  if (authResult.apiKey && authResult.apiKey.organizationId !== organizationId) {
+    return errorResponse('API keys can only manage their own organization', 403);
+  }
+
+  try {
+    const result = await readRequestData(req, ORGANIZATION_RESOURCE, 'update');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+    return await updateDocument(db.collection('organizations').doc(organizationId), result.data, ORGANIZATION_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error updating organization ${organizationId}:`, error);
+    return NextResponse.json({ error: 'Error updating organization', message: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  // Only allow users who can manage organizations to access this route
+  const authResult = await authorize(req, 'organization:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { organizationId } = await params;
+  if (authResult.apiKey && authResult.apiKey.organizationId !== organizationId) {
+    return errorResponse('API keys can only manage their own organization', 403);
+  }
+
+  try {
+    const ref = db.collection('organizations').doc(organizationId);
+    if (!(await ref.get()).exists) {
+      return errorResponse('Organization not found', 404);
+    }
+
+    // User accounts are not deleted along: they have to be removed or moved to another organization first
+    const users = await db.collection('users').where('organizationId', '==', organizationId).count().get();
+    const userCount = users.data().count;
+    if (userCount > 0) {
+      return NextResponse.json({
+        error: 'Users still belong to this organization',
+        blocked: true,
+        userCount
+      }, { status: 409 });
+    }
+
+    // Its projects go with it, with their ratings, evidence and evidence files
+    const projects = await db.collection('projects').where('organizationId', '==', organizationId).select().get();
+    const result = await deleteProjects(projects.docs.map(project => project.id), authResult, `organization-delete:${ref.path}`);
+    if (!result.success) {
+      return NextResponse.json({
+        ...result,
+        error: `${result.failedPaths.length} documents or files could not be deleted`
+      }, { status: 500 });
+    }
+    return await deleteDocument(ref, ORGANIZATION_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error deleting organization ${organizationId}:`, error);
+    return NextResponse.json({ error: 'Error deleting organization', message: error.message }, { status: 500 });
+  }
+}
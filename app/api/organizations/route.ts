@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { authorize } from '@/lib/middleware/authorize';
+import { createDocument, errorResponse, listDocuments, readRequestData } from '@/lib/admin/restApi';
+import { ORGANIZATION_RESOURCE } from '@/lib/admin/restResources';
+
+export async function GET(req: NextRequest) {
+  // Authorize the request (any signed-in user with a role allowed, like the security rules)
+  const authResult = await authorize(req);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    return await listDocuments(req, db.collection('organizations'), ORGANIZATION_RESOURCE);
+  } catch (error: any) {
+    console.error('Error listing organizations:', error);
+    return NextResponse.json({ error: 'Error listing organizations', message: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  // Only allow users who can manage organizations to access this route
+  const authResult = await authorize(req, 'organization:manage');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  // An API key acts for the one organization it was issued for
+  if (authResult.apiKey) {
+    return errorResponse('API keys cannot create organizations', 403);
+  }
+
+  try {
+    const result = await readRequestData(req, ORGANIZATION_RESOURCE, 'create');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+
+    const organizations = db.collection('organizations');
+    const ref = result.id ? organizations.doc(result.id) : organizations.doc();
+    return await createDocument(ref, result.data, ORGANIZATION_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error('Error creating organization:', error);
+    return NextResponse.json({ error: 'Error creating organization', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { authorize } from '@/lib/middleware/authorize';
+import { errorResponse, readRequestData, serializeDocument, updateDocument } from '@/lib/admin/restApi';
+import { deleteProjects } from '@/lib/admin/cascadeDelete';
+import {
+  PROJECT_RESOURCE,
+  checkCallerProjectOrganization,
+  checkProjectReferences,
+  getCallerProjectScope,
+  isProjectInScope
+} from '@/lib/admin/restResources';
+
+type Params = { params: Promise<{ projectId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  // Only allow users who can view projects to access this route
+  const authResult = await authorize(req, 'project:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { projectId } = await params;
+  try {
+    const [project, scope] = await Promise.all([
+      db.collection('projects').doc(projectId).get(),
+      getCallerProjectScope(authResult)
+    ]);
+
+    // Projects outside the caller's scope are reported as missing, like the security rules do
+    if (!project.exists || !isProjectInScope(scope, project)) {
+      return errorResponse('Project not found', 404);
+    }
+    return NextResponse.json(serializeDocument(project), { status: 200 });
+  } catch (error: any) {
+    console.error(`Error getting project ${projectId}:`, error);
+    return NextResponse.json({ error: 'Error getting project', message: error.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit projects to access this route
+  const authResult = await authorize(req, 'project:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { projectId } = await params;
+  try {
+    const result = await readRequestData(req, PROJECT_RESOURCE, 'update');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+
+    const ref = db.collection('projects').doc(projectId);
+    const [project, scope] = await Promise.all([ref.get(), getCallerProjectScope(authResult)]);
+    if (!project.exists || !isProjectInScope(scope, project)) {
+      return errorResponse('Project not found', 404);
+    }
+
+    const organizationError = checkCallerProjectOrganization(authResult, result.data);
+    if (organizationError) {
+      return errorResponse(organizationError, 403);
+    }
+
+    // The framework, pinned version and organization are checked like on create
+    const referenceError = await checkProjectReferences(result.data, project.data());
+    if (referenceError) {
+      return errorResponse(referenceError, 400);
+    }
+    return await updateDocument(ref, result.data, PROJECT_RESOURCE, authResult);
+  } catch (error: any) {
+    console.error(`Error updating project ${projectId}:`, error);
+    return NextResponse.json({ error: 'Error updating project', message: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  // Only allow users who can edit projects to access this route
+  const authResult = await authorize(req, 'project:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  const { projectId } = await params;
+  try {
+    const ref = db.collection('projects').doc(projectId);
+    const [project, scope] = await Promise.all([ref.get(), getCallerProjectScope(authResult)]);
+    if (!project.exists || !isProjectInScope(scope, project)) {
+      return errorResponse('Project not found', 404);
+    }
+
+    // Ratings, evidence and evidence files go with the project
+    const result = await deleteProjects([projectId], authResult, `project-delete:${ref.path}`);
+    if (!result.success) {
+      return NextResponse.json({
+        ...result,
+        error: `${result.failedPaths.length} documents or files could not be deleted`
+      }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, id: projectId, deletedCount: result.deletedCount }, { status: 200 });
+  } catch (error: any) {
+    console.error(`Error deleting project ${projectId}:`, error);
+    return NextResponse.json({ error: 'Error deleting project', message: error.message }, { status: 500 });
+  }
+}
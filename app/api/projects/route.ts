@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { authorize } from '@/lib/middleware/authorize';
+import {
+  createDocument,
+  errorResponse,
+  getListFilters,
+  listDocuments,
+  paginateDocuments,
+  parseListOptions,
+  readRequestData
+} from '@/lib/admin/restApi';
+import {
+  PROJECT_RESOURCE,
+  checkCallerProjectOrganization,
+  checkProjectReferences,
+  getCallerProjectScope,
+  getScopedProjects
+} from '@/lib/admin/restResources';
+
+export async function GET(req: NextRequest) {
+  // Only allow users who can view projects to access this route
+  const authResult = await authorize(req, 'project:view');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const scope = await getCallerProjectScope(authResult);
+    if (scope.allProjects) {
+      return await listDocuments(req, db.collection('projects'), PROJECT_RESOURCE);
+    }
+
+    // Assigned and organization projects cannot be combined in one query, so they are paged in memory
+    const filters = getListFilters(req, PROJECT_RESOURCE);
+    const projects = (await getScopedProjects(scope)).filter(project =>
+      filters.every(([field, value]) => project.get(field) === value)
+    );
+    return paginateDocuments(projects, parseListOptions(req));
+  } catch (error: any) {
+    console.error('Error listing projects:', error);
+    return NextResponse.json({ error: 'Error listing projects', message: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  // Only allow users who can edit projects to access this route
+  const authResult = await authorize(req, 'project:edit');
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const result = await readRequestData(req, PROJECT_RESOURCE, 'create');
+    if ('error' in result) {
+      return errorResponse(result.error, 400);
+    }
+
+    const organizationError = checkCallerProjectOrganization(authResult, result.data);
+    if (organizationError) {
+      return errorResponse(organizationError, 403);
+    }
+
+    const referenceError = await checkProjectReferences(result.data);
+    if (referenceError) {
+      return errorResponse(referenceError, 400);
+    }
+
+    // Projects start their status history with the status they are created in, like createProject()
+    const status = result.data.status || 'open';
+    const projects = db.collection('projects');
+    return await createDocument(
+      result.id ? projects.doc(result.id) : projects.doc(),
+      {
+        frameworkVersion: null,
+        defaultLang: 'en',
+        ...result.data,
+        status,
+        statusHistory: [{ from: null, to: status, changedBy: authResult.userId, changedAt: Timestamp.now() }]
+      },
+      PROJECT_RESOURCE,
+      authResult
+    );
+  } catch (error: any) {
+    console.error('Error creating project:', error);
+    return NextResponse.json({ error: 'Error creating project', message: error.message }, { status: 500 });
+  }
+}
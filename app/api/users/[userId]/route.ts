@@ -29,12 +29,12 @@ export async function GET(
       const currentUserId = decodedToken.uid;
       console.log(`Session verified for user: ${currentUserId}`);
       
-      // Check if the user is requesting their own profile or is an admin
+      // Check if the user is requesting their own profile or can manage users
       const userRecord = await auth.getUser(currentUserId);
       const userRole = userRecord.customClaims?.role || 'User';
       
-      // Allow users to access their own data or admins to access any user's data
-      if (currentUserId !== userId && userRole !== 'Admin') {
+      // Allow users to access their own data or user managers to access any user's data
+      if (!(await canManageUser(currentUserId, userId, userRole))) {
         console.log(`Permission denied: ${currentUserId} attempting to access ${userId} with role ${userRole}`);
         return NextResponse.json({ error: 'Forbidden - Insufficient permissions' }, { status: 403 });
       }
@@ -4,8 +4,8 @@ import { authorize } from '@/lib/middleware/authorize';
 import { Query } from 'firebase-admin/firestore';
 
 export async function GET(req: NextRequest) {
-  // Authorize the request (Admin, Consultant, Client allowed)
-  const authResult = await authorize(req, ['Admin', 'Consultant', 'Client']);
+  // Only allow users who can manage users to list them
+  const authResult = await authorize(req, 'user:manage');
   if (authResult instanceof NextResponse) {
     return authResult; // Return error response if not authorized
   }
@@ -29,15 +29,9 @@ export async function GET(req: NextRequest) {
       query = query.where('organizationId', '==', organization);
     }
     
-    // For non-admin users, filter by their organization
-    if (authResult.role !== 'Admin') {
-      // Get the user's organization
-      const userRecord = await db.collection('users').doc(authResult.userId).get();
-      const userData = userRecord.data();
-      
-      if (userData?.organizationId) {
-        query = query.where('organizationId', '==', userData.organizationId);
-      }
+    // API keys act for the organization they were issued for
+    if (authResult.apiKey) {
+      query = query.where('organizationId', '==', authResult.apiKey.organizationId);
     }
     
     // Apply limit
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { authorize } from '@/lib/middleware/authorize';
+import { isValidDocumentId } from '@/lib/admin/restApi';
+import { getCallerProjectScope, isProjectInScope } from '@/lib/admin/restResources';
+import { dispatchWebhookEvent } from '@/lib/admin/webhooks';
+import { buildFrameworkUpdatedEvent, buildProjectStatusChangedEvent } from '@/lib/admin/webhookEvents';
+
+/**
+ * Dispatch the webhooks of a change the app wrote with the client SDK.
+ * The payload is read from the stored document, and an event already delivered is not sent again.
+ */
+export async function POST(req: NextRequest) {
+  // Authorize the request (any signed-in user with a role allowed, each event checks access below)
+  const authResult = await authorize(req);
+  if (authResult instanceof NextResponse) {
+    return authResult; // Return error response if not authorized
+  }
+
+  try {
+    const { type, entityId } = await req.json();
+
+    if (!isValidDocumentId(entityId)) {
+      return NextResponse.json({ error: 'Missing or invalid entity ID' }, { status: 400 });
+    }
+
+    if (type === 'project.status_changed') {
+      const [project, scope] = await Promise.all([
+        db.collection('projects').doc(entityId).get(),
+        getCallerProjectScope(authResult)
+      ]);
+      if (!project.exists || !isProjectInScope(scope, project)) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+
+      const event = buildProjectStatusChangedEvent(project);
+      if (event) {
+        await dispatchWebhookEvent(event);
+      }
+    } else if (type === 'framework.updated') {
+      if (!authResult.permissions.includes('framework:edit')) {
+        return NextResponse.json({ error: 'Forbidden - Insufficient permissions' }, { status: 403 });
+      }
+
+      const framework = await db.collection('frameworks').doc(entityId).get();
+      if (!framework.exists) {
+        return NextResponse.json({ error: 'Framework not found' }, { status: 404 });
+      }
+      await dispatchWebhookEvent(buildFrameworkUpdatedEvent(framework));
+    } else {
+      // Other events are dispatched by the server routes that make the change
+      return NextResponse.json({ error: 'Unsupported event type' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error: any) {
+    console.error('Error dispatching webhook event:', error);
+    return NextResponse.json({
+      error: 'Error dispatching webhook event',
+      message: error.message
+    }, { status: 500 });
+  }
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react";
 import { useTranslations, useLocale } from "next-intl";
 import { usePathname } from "@/i18n/routing";
-import { AlignJustify, Home, Users, Building, Package, FolderKanban } from "lucide-react";
+import { AlignJustify, Home, Users, Building, Package, FolderKanban, History, ShieldCheck, KeyRound, Webhook } from "lucide-react";
 import { Sidebar, NavItem } from "@/components/ui/sidebar";
 import { cn } from "@/lib/utils";
 
@@ -28,6 +28,10 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
     { name: t("organizationManagement"), icon: <Building className="w-5 h-5 text-white" />, route: "/organizations" },
     { name: t("frameworkManagement"), icon: <Package className="w-5 h-5 text-white" />, route: "/frameworks" },
     { name: t("projectManagement"), icon: <FolderKanban className="w-5 h-5 text-white" />, route: "/projects" },
+    { name: t("activity"), icon: <History className="w-5 h-5 text-white" />, route: "/activity" },
+    { name: t("rolePermissions"), icon: <ShieldCheck className="w-5 h-5 text-white" />, route: "/roles" },
+    { name: t("apiKeys"), icon: <KeyRound className="w-5 h-5 text-white" />, route: "/api-keys" },
+    { name: t("webhooks"), icon: <Webhook className="w-5 h-5 text-white" />, route: "/webhooks" },
   ];
 
   const isPathActive = (route: string) => pathname.includes(route);
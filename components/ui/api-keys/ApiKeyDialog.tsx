@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Copy, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Organization } from "@/types/firebase";
+import { Permission } from "@/types/permissions";
+import { ApiKeyInput } from "@/types/api-key";
+
+interface ApiKeyDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    organizations: Organization[];
+    grantablePermissions: Permission[]; // Permissions the signed-in admin may put on a key
+    onSubmit: (input: ApiKeyInput) => Promise<string>; // Resolves with the token of the issued key
+}
+
+export function ApiKeyDialog({
+    open,
+    onOpenChange,
+    organizations,
+    grantablePermissions,
+    onSubmit
+}: ApiKeyDialogProps) {
+    const t = useTranslations("ApiKeys");
+    const permissionsT = useTranslations("RolePermissions");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+    const { toast } = useToast();
+
+    const [name, setName] = useState("");
+    const [organizationId, setOrganizationId] = useState("");
+    const [permissions, setPermissions] = useState<Permission[]>([]);
+    const [expiresAt, setExpiresAt] = useState("");
+    const [token, setToken] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Start blank each time the dialog opens
+    useEffect(() => {
+        if (open) {
+            setName("");
+            setOrganizationId("");
+            setPermissions([]);
+            setExpiresAt("");
+            setToken(null);
+        }
+    }, [open]);
+
+    const isFormValid = name.trim() !== "" && organizationId !== "" && permissions.length > 0;
+
+    const togglePermission = (permission: Permission, granted: boolean) => {
+        setPermissions(prev => granted
+            ? grantablePermissions.filter(p => p === permission || prev.includes(p))
+            : prev.filter(p => p !== permission));
+    };
+
+    const handleSubmit = async () => {
+        if (!isFormValid) return;
+
+        setIsSubmitting(true);
+        try {
+            setToken(await onSubmit({
+                name: name.trim(),
+                organizationId,
+                permissions,
+                expiresAt: expiresAt || null
+            }));
+        } catch (_) {
+            // The page reports the error and the form stays open
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!token) return;
+        try {
+            await navigator.clipboard.writeText(token);
+            toast({ title: t("tokenCopied") });
+        } catch (error) {
+            console.error("Error copying API key:", error);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto" style={{ direction: isRtl ? "rtl" : "ltr" }}>
+                <DialogHeader>
+                    <DialogTitle>{token ? t("keyIssued") : t("issueKey")}</DialogTitle>
+                    <DialogDescription>{token ? t("keyIssuedDescription") : t("issueKeyDescription")}</DialogDescription>
+                </DialogHeader>
+
+                {token ? (
+                    <div className="space-y-3 py-2">
+                        <div className="flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <span>{t("tokenWarning")}</span>
+                        </div>
+                        <div className="flex gap-2">
+                            <Input value={token} readOnly dir="ltr" className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                            <Button variant="outline" size="icon" onClick={handleCopy} aria-label={t("copyToken")}>
+                                <Copy className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-4 py-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="api-key-name">{t("name")}</Label>
+                            <Input
+                                id="api-key-name"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder={t("namePlaceholder")}
+                            />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>{t("organization")}</Label>
+                            <Select value={organizationId} onValueChange={setOrganizationId}>
+                                <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                    <SelectValue placeholder={t("selectOrganization")} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {organizations.map(organization => (
+                                        <SelectItem key={organization.id} value={organization.id}>
+                                            {organization.name[lang] || organization.name.en}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>{t("permissions")}</Label>
+                            <div className="space-y-2 rounded-md border p-3">
+                                {grantablePermissions.map(permission => (
+                                    <div key={permission} className="flex items-start gap-2">
+                                        <Checkbox
+                                            id={`api-key-${permission}`}
+                                            checked={permissions.includes(permission)}
+                                            onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                                        />
+                                        <Label htmlFor={`api-key-${permission}`} className="font-normal leading-tight">
+                                            <span className="font-medium">{permissionsT(`permissions.${permission}.label`)}</span>
+                                            <span className="block text-xs text-gray-500">{permission}</span>
+                                        </Label>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="api-key-expires-at">{t("expiresAt")}</Label>
+                            <Input
+                                id="api-key-expires-at"
+                                type="date"
+                                value={expiresAt}
+                                onChange={(e) => setExpiresAt(e.target.value)}
+                            />
+                            <p className="text-xs text-gray-500">{t("expiresAtHint")}</p>
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter className={isRtl ? "flex-row-reverse" : ""}>
+                    {token ? (
+                        <Button onClick={() => onOpenChange(false)}>{t("done")}</Button>
+                    ) : (
+                        <>
+                            <Button variant="outline" onClick={() => onOpenChange(false)}>
+                                {commonT("cancel")}
+                            </Button>
+                            <Button
+                                onClick={handleSubmit}
+                                disabled={!isFormValid || isSubmitting}
+                                className="bg-blue-600 hover:bg-blue-700"
+                            >
+                                {isSubmitting && <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />}
+                                {t("issue")}
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
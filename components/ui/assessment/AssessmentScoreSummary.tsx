@@ -0,0 +1,99 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Gauge, Target } from "lucide-react";
+import { ProjectScore, FrameworkTreeDomain } from "@/types/assessment";
+import { ResultBandBadge } from "@/components/ui/assessment/ResultBandBadge";
+
+interface AssessmentScoreSummaryProps {
+    score: ProjectScore;
+    tree: FrameworkTreeDomain[];
+}
+
+// Format a score for display, or a dash when nothing has been rated
+export const formatScore = (score: number | null): string => {
+    return score === null ? "—" : `${Math.round(score)}%`;
+};
+
+export function AssessmentScoreSummary({ score, tree }: AssessmentScoreSummaryProps) {
+    const t = useTranslations("ProjectAssessment");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+
+    // Get domain name based on domain ID
+    const getDomainName = (domainId: string): string => {
+        const domain = tree.find(d => d.domainId === domainId);
+        return domain ? domain.name[isRtl ? "ar" : "en"] || domain.name.en : domainId;
+    };
+
+    const completion = score.totalCount > 0 ? Math.round((score.ratedCount / score.totalCount) * 100) : 0;
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6" dir={isRtl ? "rtl" : "ltr"}>
+            {/* Overall Score */}
+            <div className="bg-white border rounded-lg shadow-sm p-6 flex flex-col items-center justify-center text-center">
+                <Gauge className="h-8 w-8 text-[var(--primary-blue)] mb-2" />
+                <p className="text-sm text-gray-500">{t("overallScore")}</p>
+                <p className="text-4xl font-bold text-gray-900 my-2">{formatScore(score.overall)}</p>
+                {score.band && <ResultBandBadge band={score.band} className="mb-2 text-sm" />}
+                <p className="text-sm text-gray-500">
+                    {t("ratedCount", { rated: score.ratedCount, total: score.totalCount })}
+                </p>
+                <div className="w-full bg-gray-200 rounded-full h-2 mt-3">
+                    <div
+                        className="bg-[var(--primary-green)] h-2 rounded-full"
+                        style={{ width: `${completion}%` }}
+                    ></div>
+                </div>
+            </div>
+
+            {/* Domain Scores */}
+            <div className="bg-white border rounded-lg shadow-sm p-6 lg:col-span-2">
+                <h3 className="text-lg font-medium mb-4">{t("domainScores")}</h3>
+                <div className="space-y-4">
+                    {score.domains.map(domain => (
+                        <div key={domain.domainId}>
+                            <div className="flex items-center justify-between mb-1 text-sm">
+                                <span className="font-medium">{getDomainName(domain.domainId)}</span>
+                                <span className="flex items-center gap-2 text-gray-600">
+                                    {domain.band && <ResultBandBadge band={domain.band} />}
+                                    {formatScore(domain.score)}
+                                    <span className={`text-gray-400 ${isRtl ? "mr-2" : "ml-2"}`}>
+                                        {t("weight", { weight: Math.round(domain.weight) })}
+                                    </span>
+                                </span>
+                            </div>
+                            <div className="relative w-full bg-gray-200 rounded-full h-2">
+                                <div
+                                    className={`${domain.capped ? "bg-amber-500" : "bg-blue-500"} h-2 rounded-full`}
+                                    style={{ width: `${domain.score ?? 0}%` }}
+                                ></div>
+                                {domain.target !== null && (
+                                    <div
+                                        className="absolute -top-1 h-4 w-0.5 bg-gray-800"
+                                        style={isRtl ? { right: `${domain.target}%` } : { left: `${domain.target}%` }}
+                                        title={t("target", { target: domain.target })}
+                                    ></div>
+                                )}
+                            </div>
+                            {domain.target !== null && (
+                                <p className={`mt-1 flex items-center gap-1 text-xs ${domain.belowTarget ? "text-red-600" : "text-gray-500"}`}>
+                                    <Target className="h-3 w-3" />
+                                    {domain.belowTarget
+                                        ? t("belowTarget", { target: domain.target })
+                                        : t("target", { target: domain.target })}
+                                </p>
+                            )}
+                            {domain.capped && (
+                                <p className="mt-1 text-xs text-amber-700">
+                                    {t("mustHaveCapped", { count: domain.unmetMustHaves.length })}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { ChevronDown, ChevronRight, ArrowLeftRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AssessmentCriteria } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain, DomainScore, SpecificationRating } from "@/types/assessment";
+import { MappingProposal, formatMappingEndpoint } from "@/types/control-mapping";
+import { getLocalizedValue } from "@/types/firebase";
+import { RatingInput } from "@/hooks/useProjectAssessment";
+import { getRatingKey } from "@/lib/services/assessmentScoring";
+import { SpecificationRatingSelect } from "@/components/ui/assessment/SpecificationRatingSelect";
+import { formatScore } from "@/components/ui/assessment/AssessmentScoreSummary";
+import { ResultBandBadge } from "@/components/ui/assessment/ResultBandBadge";
+
+interface DomainAssessmentSectionProps {
+    domain: FrameworkTreeDomain;
+    domainScore?: DomainScore;
+    criteria: AssessmentCriteria | null;
+    saving: string | null;
+    readOnly?: boolean;
+    getRating: (domainId: string, controlId: string, specificationId: string) => SpecificationRating | null;
+    getProposal?: (domainId: string, controlId: string, specificationId: string) => MappingProposal | null;
+    onRate: (domainId: string, controlId: string, specificationId: string, input: RatingInput) => void;
+    onClear: (domainId: string, controlId: string, specificationId: string) => void;
+}
+
+export function DomainAssessmentSection({
+    domain,
+    domainScore,
+    criteria,
+    saving,
+    readOnly,
+    getRating,
+    getProposal,
+    onRate,
+    onClear
+}: DomainAssessmentSectionProps) {
+    const t = useTranslations("ProjectAssessment");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+    const [expanded, setExpanded] = useState(false);
+
+    const ExpandIcon = expanded ? ChevronDown : ChevronRight;
+
+    // Proposed rating in the terms of this project's criteria
+    const formatProposal = (proposal: MappingProposal) => {
+        const { input } = proposal;
+        if (input.notApplicable) return t("notApplicable");
+        if (input.levelIndex !== undefined) {
+            const level = criteria?.levels?.[input.levelIndex];
+            return level ? `${level.label[lang]} (${level.value}%)` : "";
+        }
+        return `${input.value}%`;
+    };
+
+    return (
+        <div className="bg-white border rounded-lg shadow-sm overflow-hidden" dir={isRtl ? "rtl" : "ltr"}>
+            {/* Domain Header */}
+            <button
+                className="w-full flex items-center justify-between gap-4 p-4 hover:bg-gray-50 transition-colors"
+                onClick={() => setExpanded(!expanded)}
+            >
+                <div className="flex items-center gap-2 text-start">
+                    <ExpandIcon className={`h-5 w-5 text-gray-500 ${!expanded && isRtl ? "rotate-180" : ""}`} />
+                    <span className="font-medium text-gray-900">{domain.name[lang] || domain.name.en}</span>
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                    <span className="text-gray-500">
+                        {t("ratedCount", { rated: domainScore?.ratedCount ?? 0, total: domainScore?.totalCount ?? 0 })}
+                    </span>
+                    {domainScore?.target != null && (
+                        <span className={domainScore.belowTarget ? "text-red-600" : "text-gray-500"}>
+                            {t("target", { target: domainScore.target })}
+                        </span>
+                    )}
+                    {domainScore?.band && <ResultBandBadge band={domainScore.band} />}
+                    <Badge
+                        className={domainScore?.capped
+                            ? "bg-amber-100 text-amber-800 hover:bg-amber-100"
+                            : "bg-blue-100 text-blue-800 hover:bg-blue-100"}
+                        title={domainScore?.capped ? t("mustHaveCapped", { count: domainScore.unmetMustHaves.length }) : undefined}
+                    >
+                        {formatScore(domainScore?.score ?? null)}
+                    </Badge>
+                </div>
+            </button>
+
+            {/* Controls */}
+            {expanded && (
+                <div className="border-t divide-y">
+                    {domainScore?.capped && (
+                        <p className="px-4 py-2 text-sm text-amber-800 bg-amber-50">
+                            {t("mustHaveCapped", { count: domainScore.unmetMustHaves.length })}
+                        </p>
+                    )}
+                    {domain.controls.length === 0 && (
+                        <p className="p-4 text-sm text-gray-500 italic">{t("noControls")}</p>
+                    )}
+                    {domain.controls.map(control => {
+                        const controlScore = domainScore?.controls.find(c => c.controlId === control.controlId);
+                        // Must-haves of this control that hold the domain score down
+                        const unmetMustHaves = domainScore?.unmetMustHaves.filter(item => item.controlId === control.controlId) || [];
+
+                        return (
+                            <div key={control.controlId} className="p-4 bg-gray-50/50">
+                                <div className="flex items-center justify-between mb-3">
+                                    <h4 className="font-medium text-gray-800">
+                                        <span className="text-gray-500">{control.controlId}</span>{" "}
+                                        {control.name[lang] || control.name.en}
+                                        {unmetMustHaves.some(item => !item.specificationId) && (
+                                            <Badge className={`bg-amber-100 text-amber-800 hover:bg-amber-100 ${isRtl ? "mr-2" : "ml-2"}`}>
+                                                {t("unmetMustHave")}
+                                            </Badge>
+                                        )}
+                                    </h4>
+                                    <span className="text-sm font-medium text-gray-700">
+                                        {formatScore(controlScore?.score ?? null)}
+                                    </span>
+                                </div>
+
+                                {control.specifications.length === 0 ? (
+                                    <p className="text-sm text-gray-500 italic">{t("noSpecifications")}</p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {control.specifications.map(spec => {
+                                            const key = getRatingKey(domain.domainId, control.controlId, spec.id);
+                                            const rating = getRating(domain.domainId, control.controlId, spec.id);
+                                            // Results of mapped items are only proposed for unrated specifications
+                                            const proposal = !rating && !readOnly && getProposal
+                                                ? getProposal(domain.domainId, control.controlId, spec.id)
+                                                : null;
+
+                                            return (
+                                                <div
+                                                    key={spec.id}
+                                                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-white border rounded-md p-3"
+                                                >
+                                                    <div className="text-sm">
+                                                        <Badge variant="outline" className={isRtl ? "ml-2" : "mr-2"}>
+                                                            {spec.number}
+                                                        </Badge>
+                                                        <span>{spec.name[lang] || spec.name.en}</span>
+                                                        {unmetMustHaves.some(item => item.specificationId === spec.id) && (
+                                                            <Badge className={`bg-amber-100 text-amber-800 hover:bg-amber-100 ${isRtl ? "mr-2" : "ml-2"}`}>
+                                                                {t("unmetMustHave")}
+                                                            </Badge>
+                                                        )}
+                                                        {proposal && (
+                                                            <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-600">
+                                                                <ArrowLeftRight className="h-3 w-3 text-[var(--primary-blue)]" />
+                                                                <span>
+                                                                    {t(proposal.relationship === "equivalent" ? "proposalEquivalent" : "proposalPartial", {
+                                                                        rating: formatProposal(proposal),
+                                                                        item: formatMappingEndpoint(proposal.source),
+                                                                        project: getLocalizedValue(proposal.projectName, locale)
+                                                                    })}
+                                                                </span>
+                                                                <Button
+                                                                    variant="outline"
+                                                                    size="sm"
+                                                                    className="h-6 px-2 text-xs"
+                                                                    disabled={saving === key}
+                                                                    onClick={() => onRate(domain.domainId, control.controlId, spec.id, proposal.input)}
+                                                                >
+                                                                    {t("applyProposal")}
+                                                                </Button>
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                    <SpecificationRatingSelect
+                                                        criteria={criteria}
+                                                        rating={rating}
+                                                        disabled={readOnly || saving === key}
+                                                        onRate={(input) => onRate(domain.domainId, control.controlId, spec.id, input)}
+                                                        onClear={() => onClear(domain.domainId, control.controlId, spec.id)}
+                                                    />
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Link2, ShieldAlert, Target } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { AssessmentCriteria } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import { GAP_PRIORITIES, GapAnalysis, GapDependencyStatus, GapPriority } from "@/types/gap-analysis";
+import { formatDependencyReference } from "@/types/specification-dependency";
+import { formatGapValue } from "@/lib/services/gapReportExport";
+import { formatScore } from "@/components/ui/assessment/AssessmentScoreSummary";
+
+interface GapAnalysisReportProps {
+    analysis: GapAnalysis;
+    tree: FrameworkTreeDomain[];
+    criteria: AssessmentCriteria | null;
+}
+
+// Value of the filters when nothing is filtered out
+const ALL = "all";
+
+const PRIORITY_STYLES: Record<GapPriority, string> = {
+    critical: "bg-red-100 text-red-800 hover:bg-red-100",
+    high: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+    medium: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+    low: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+};
+
+const DEPENDENCY_STYLES: Record<GapDependencyStatus, string> = {
+    met: "text-green-700",
+    open: "text-red-700",
+    notApplicable: "text-gray-500",
+    missing: "text-gray-400 line-through",
+};
+
+/**
+ * Gaps of a project against the targets of its criteria: a summary per domain and every
+ * specification below its target in priority order, filterable by priority and domain
+ */
+export function GapAnalysisReport({ analysis, tree, criteria }: GapAnalysisReportProps) {
+    const t = useTranslations("GapAnalysis");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const [priority, setPriority] = useState<string>(ALL);
+    const [domainId, setDomainId] = useState<string>(ALL);
+
+    const getDomainName = (id: string): string => {
+        const domain = tree.find(d => d.domainId === id);
+        return domain ? domain.name[lang] || domain.name.en : id;
+    };
+
+    const translate = (key: string, values?: Record<string, string | number>) => t(key, values);
+
+    const items = analysis.items.filter(item =>
+        (priority === ALL || item.priority === priority) && (domainId === ALL || item.domainId === domainId));
+
+    return (
+        <div className="space-y-6" dir={isRtl ? "rtl" : "ltr"}>
+            {/* Domain summary */}
+            <div className="bg-white border rounded-lg shadow-sm p-6">
+                <div className="flex items-center gap-2 mb-4">
+                    <Target className="h-5 w-5 text-[var(--primary-blue)]" />
+                    <h3 className="text-lg font-medium">{t("domainSummary")}</h3>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="bg-gray-50">
+                                <th className="p-2 text-start">{t("columns.domain")}</th>
+                                <th className="p-2 text-start">{t("columns.score")}</th>
+                                <th className="p-2 text-start">{t("columns.target")}</th>
+                                <th className="p-2 text-start">{t("columns.gap")}</th>
+                                <th className="p-2 text-start">{t("columns.openGaps")}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {analysis.domains.map(domain => (
+                                <tr key={domain.domainId} className="border-t">
+                                    <td className="p-2 font-medium">{getDomainName(domain.domainId)}</td>
+                                    <td className="p-2">{formatScore(domain.score)}</td>
+                                    <td className="p-2">{formatGapValue(domain.target, criteria, lang, translate)}</td>
+                                    <td className={`p-2 ${domain.gap ? "text-red-600 font-medium" : "text-gray-500"}`}>
+                                        {formatScore(domain.gap)}
+                                    </td>
+                                    <td className="p-2">{domain.openCount}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Gaps */}
+            <div className="bg-white border rounded-lg shadow-sm p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                    <h3 className="text-lg font-medium">
+                        {t("gaps")} <span className="text-gray-400 font-normal">({items.length})</span>
+                    </h3>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <Select value={priority} onValueChange={setPriority}>
+                            <SelectTrigger className="bg-white w-full sm:w-[180px]" dir={isRtl ? "rtl" : "ltr"}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                                <SelectItem value={ALL}>{t("allPriorities")}</SelectItem>
+                                {GAP_PRIORITIES.map(item => (
+                                    <SelectItem key={item} value={item}>{t(`priorities.${item}`)}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={domainId} onValueChange={setDomainId}>
+                            <SelectTrigger className="bg-white w-full sm:w-[220px]" dir={isRtl ? "rtl" : "ltr"}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                                <SelectItem value={ALL}>{t("allDomains")}</SelectItem>
+                                {tree.map(domain => (
+                                    <SelectItem key={domain.domainId} value={domain.domainId}>
+                                        {domain.name[lang] || domain.name.en}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+
+                {items.length === 0 ? (
+                    <p className="text-sm text-gray-500 italic">
+                        {analysis.items.length === 0 ? t("noGaps") : t("noMatchingGaps")}
+                    </p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-gray-50">
+                                    <th className="p-2 text-start">{t("columns.priority")}</th>
+                                    <th className="p-2 text-start">{t("columns.specification")}</th>
+                                    <th className="p-2 text-start">{t("columns.capabilityLevel")}</th>
+                                    <th className="p-2 text-start">{t("columns.current")}</th>
+                                    <th className="p-2 text-start">{t("columns.target")}</th>
+                                    <th className="p-2 text-start">{t("columns.gap")}</th>
+                                    <th className="p-2 text-start">{t("columns.dependencies")}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {items.map(item => (
+                                    <tr
+                                        key={`${item.domainId}/${item.controlId}/${item.specification.id}`}
+                                        className="border-t align-top"
+                                    >
+                                        <td className="p-2">
+                                            <Badge className={PRIORITY_STYLES[item.priority]}>{t(`priorities.${item.priority}`)}</Badge>
+                                        </td>
+                                        <td className="p-2 min-w-[240px]">
+                                            <p className="font-medium">
+                                                <span className="text-gray-500">{item.specification.number}</span>{" "}
+                                                {item.specification.name[lang] || item.specification.name.en}
+                                            </p>
+                                            <p className="text-xs text-gray-500">
+                                                {getDomainName(item.domainId)} · {item.controlId} {item.controlName[lang] || item.controlName.en}
+                                            </p>
+                                            {item.mustHave && (
+                                                <p className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+                                                    <ShieldAlert className="h-3 w-3" />
+                                                    {t("mustHave")}
+                                                </p>
+                                            )}
+                                            {item.blocks > 0 && (
+                                                <p className="mt-1 text-xs text-orange-700">{t("blocks", { count: item.blocks })}</p>
+                                            )}
+                                        </td>
+                                        <td className="p-2">
+                                            {t(`capabilityLevels.${item.specification.capabilityLevel || "foundational"}`)}
+                                        </td>
+                                        <td className="p-2">{formatGapValue(item.current, criteria, lang, translate)}</td>
+                                        <td className="p-2">{formatGapValue(item.target, criteria, lang, translate)}</td>
+                                        <td className="p-2 font-semibold text-red-600">{Math.round(item.gap)}</td>
+                                        <td className="p-2 min-w-[200px]">
+                                            {item.dependencies.length === 0 ? (
+                                                <span className="text-gray-400">—</span>
+                                            ) : (
+                                                <ul className="space-y-1">
+                                                    {item.dependencies.map(dependency => (
+                                                        <li
+                                                            key={`${dependency.ref.domainId}/${dependency.ref.controlId}/${dependency.ref.specificationId}`}
+                                                            className={`flex items-start gap-1 text-xs ${DEPENDENCY_STYLES[dependency.status]}`}
+                                                        >
+                                                            <Link2 className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                                                            <span>
+                                                                {formatDependencyReference(dependency.ref, { domainId: item.domainId, controlId: item.controlId })}
+                                                                {dependency.name && ` ${dependency.name[lang] || dependency.name.en}`}
+                                                                {" "}({t(`dependencyStatuses.${dependency.status}`)})
+                                                            </span>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useLocale } from "next-intl";
+import { ResultBand } from "@/types/assessment-criteria";
+
+interface ResultBandBadgeProps {
+    band: ResultBand;
+    className?: string;
+}
+
+/**
+ * Verdict of a score, in the color of its result band
+ */
+export function ResultBandBadge({ band, className = "" }: ResultBandBadgeProps) {
+    const locale = useLocale();
+    const lang = locale === "ar" ? "ar" : "en";
+
+    return (
+        <span
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${className}`}
+            style={{ color: band.color, borderColor: band.color, backgroundColor: `${band.color}1a` }}
+        >
+            {band.label[lang] || band.label.en}
+        </span>
+    );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { AssessmentCriteria, PERCENTAGE_STEPS } from "@/types/assessment-criteria";
+import { SpecificationRating } from "@/types/assessment";
+import { RatingInput } from "@/hooks/useProjectAssessment";
+
+interface SpecificationRatingSelectProps {
+    criteria: AssessmentCriteria | null;
+    rating: SpecificationRating | null;
+    disabled?: boolean;
+    onRate: (input: RatingInput) => void;
+    onClear: () => void;
+}
+
+// Option values used by the select
+const NOT_RATED = "not-rated";
+const NOT_APPLICABLE = "not-applicable";
+
+export function SpecificationRatingSelect({
+    criteria,
+    rating,
+    disabled,
+    onRate,
+    onClear
+}: SpecificationRatingSelectProps) {
+    const t = useTranslations("ProjectAssessment");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const usesLevels = criteria !== null && criteria.type !== "percentage" && (criteria.levels?.length ?? 0) > 0;
+
+    // Current value of the select
+    let currentValue = NOT_RATED;
+    if (rating?.notApplicable) {
+        currentValue = NOT_APPLICABLE;
+    } else if (usesLevels && rating?.levelIndex !== undefined) {
+        currentValue = `level-${rating.levelIndex}`;
+    } else if (!usesLevels && rating?.value !== undefined) {
+        currentValue = `value-${rating.value}`;
+    }
+
+    const handleChange = (value: string) => {
+        if (value === NOT_RATED) {
+            onClear();
+        } else if (value === NOT_APPLICABLE) {
+            onRate({ notApplicable: true });
+        } else if (value.startsWith("level-")) {
+            onRate({ levelIndex: parseInt(value.replace("level-", ""), 10) });
+        } else {
+            onRate({ value: parseInt(value.replace("value-", ""), 10) });
+        }
+    };
+
+    return (
+        <Select value={currentValue} onValueChange={handleChange} disabled={disabled}>
+            <SelectTrigger className="w-full sm:w-[220px] bg-white" dir={isRtl ? "rtl" : "ltr"}>
+                <SelectValue placeholder={t("notRated")} />
+            </SelectTrigger>
+            <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                <SelectItem value={NOT_RATED}>{t("notRated")}</SelectItem>
+                {usesLevels
+                    ? criteria?.levels?.map((level, index) => (
+                        <SelectItem key={index} value={`level-${index}`}>
+                            {level.label[isRtl ? "ar" : "en"]} ({level.value}%)
+                        </SelectItem>
+                    ))
+                    : PERCENTAGE_STEPS.map(step => (
+                        <SelectItem key={step} value={`value-${step}`}>
+                            {step}%
+                        </SelectItem>
+                    ))}
+                <SelectItem value={NOT_APPLICABLE}>{t("notApplicable")}</SelectItem>
+            </SelectContent>
+        </Select>
+    );
+}
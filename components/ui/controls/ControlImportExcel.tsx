@@ -13,10 +13,13 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Control } from "@/hooks/useControls";
-import { Badge } from "@/components/ui/badge";
 import Spinner from "@/components/ui/spinner";
 import { FileSpreadsheet, Upload, AlertTriangle, FileX, Download } from "lucide-react";
-import { parseExcelFile, ControlRow, importControlsToFirestore, downloadControlTemplate } from "@/lib/firestore/importControls";
+import { parseExcelFile, ControlRow, importControlsToFirestore, getControlImportDiff, downloadControlTemplate } from "@/lib/firestore/importControls";
+import { ImportDiff, ImportMode } from "@/lib/firestore/importDiff";
+import { ImportDiffPreview } from "@/components/ui/import/ImportDiffPreview";
+import { ImportJobProgress, ImportRollbackNotice } from "@/components/ui/import/ImportJobProgress";
+import { ImportJobProgress as ImportJobProgressState, ImportJobResult } from "@/lib/firestore/importJobs";
 
 interface ControlImportExcelProps {
     frameworkId: string;
@@ -48,7 +51,16 @@ export function ControlImportExcel({
         total: number;
         success: number;
         failed: number;
+        skipped: number;
+        removed: number;
     } | null>(null);
+    const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+    const [isDiffLoading, setIsDiffLoading] = useState(false);
+    const [importMode, setImportMode] = useState<ImportMode>("create-only");
+    const [importJob, setImportJob] = useState<Pick<ImportJobResult, "jobId" | "status" | "rollbackReason"> | null>(null);
+    const [importProgress, setImportProgress] = useState<ImportJobProgressState | null>(null);
+    const [isAborting, setIsAborting] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     // Handle file selection
     const handleFileSelect = (newFile: File) => {
@@ -62,6 +74,7 @@ export function ControlImportExcel({
         try {
             const data = await parseExcelFile(file);
             setPreviewData(data);
+            loadImportDiff(data);
         } catch (error) {
             console.error("Error parsing Excel:", error);
         } finally {
@@ -69,6 +82,26 @@ export function ControlImportExcel({
         }
     };
 
+    // Compare the parsed rows with the controls already in the domain
+    const loadImportDiff = async (data: ControlRow[]) => {
+        try {
+            setIsDiffLoading(true);
+            setImportDiff(await getControlImportDiff(frameworkId, domainId, data));
+        } catch (error) {
+            console.error("Error comparing controls:", error);
+            setImportDiff(null);
+        } finally {
+            setIsDiffLoading(false);
+        }
+    };
+
+    // Rows that will be rejected on import: missing ID or name, or an unknown dimension
+    const invalidRowCount = previewData.filter(row =>
+        !row.controlId ||
+        (!row.nameEn && !row.nameAr) ||
+        !["plan", "implement", "operate"].includes(row.dimension?.toLowerCase())
+    ).length;
+
     // Handle file drop
     const handleDrop = (e: React.DragEvent) => {
         e.preventDefault();
@@ -108,6 +141,9 @@ export function ControlImportExcel({
         setPreviewData([]);
         setImportErrors([]);
         setImportStats(null);
+        setImportDiff(null);
+        setImportMode("create-only");
+        setImportJob(null);
         if (fileInputRef.current) {
             fileInputRef.current.value = "";
         }
@@ -115,16 +151,26 @@ export function ControlImportExcel({
 
     // Import data
     const importData = async () => {
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
         setLoading(true);
         setImportErrors([]);
+        setImportProgress({ processedRows: 0, totalRows: previewData.length });
 
         try {
-            const result = await importControlsToFirestore(frameworkId, domainId, previewData);
+            const result = await importControlsToFirestore(frameworkId, domainId, previewData, importMode, {
+                signal: abortController.signal,
+                onProgress: setImportProgress
+            });
+
+            setImportJob({ jobId: result.jobId, status: result.status, rollbackReason: result.rollbackReason });
 
             setImportStats({
                 total: result.totalRows,
                 success: result.successCount,
                 failed: result.failedCount,
+                skipped: result.skippedCount,
+                removed: result.removedCount,
             });
 
             if (result.errors.length > 0) {
@@ -134,17 +180,26 @@ export function ControlImportExcel({
                 })));
             }
 
-            if (result.successCount > 0) {
+            if (result.successCount > 0 || result.removedCount > 0) {
                 onImportComplete();
             }
         } catch (error) {
             console.error("Error importing controls:", error);
             setImportErrors([{ row: 0, error: "Failed to import controls" }]);
         } finally {
+            abortControllerRef.current = null;
             setLoading(false);
+            setIsAborting(false);
+            setImportProgress(null);
         }
     };
 
+    // Remaining chunks are skipped and everything already written is rolled back
+    const handleAbort = () => {
+        setIsAborting(true);
+        abortControllerRef.current?.abort();
+    };
+
     // Handle click on browse button
     const handleBrowseClick = () => {
         fileInputRef.current?.click();
@@ -220,7 +275,15 @@ export function ControlImportExcel({
                     ) : importStats ? (
                         <div className="py-4">
                             <div className="mb-6 text-center">
-                                {importStats.failed === 0 ? (
+                                {importJob && importJob.status !== "completed" ? (
+                                    <div className="mb-4">
+                                        <ImportRollbackNotice
+                                            jobId={importJob.jobId}
+                                            status={importJob.status}
+                                            rollbackReason={importJob.rollbackReason}
+                                        />
+                                    </div>
+                                ) : importStats.failed === 0 ? (
                                     <div className="bg-green-100 text-green-800 rounded-lg p-4 mb-4">
                                         <h3 className="text-lg font-semibold">{t("importSuccess")}</h3>
                                         <p>{t("importSummary", importStats)}</p>
@@ -231,6 +294,12 @@ export function ControlImportExcel({
                                         <p>{t("importSummary", importStats)}</p>
                                     </div>
                                 )}
+                                {(importStats.skipped > 0 || importStats.removed > 0) && (
+                                    <p className="text-sm text-gray-600">{t("importSkippedRemoved", {
+                                        skipped: importStats.skipped,
+                                        removed: importStats.removed
+                                    })}</p>
+                                )}
                             </div>
 
                             {importErrors.length > 0 && (
@@ -281,51 +350,34 @@ export function ControlImportExcel({
                                         variant="outline"
                                         size="sm"
                                         onClick={resetState}
+                                        disabled={loading}
                                     >
                                         {t("changeFile")}
                                     </Button>
                                 </div>
                             </div>
 
-                            <div className="border rounded-lg overflow-hidden mb-4">
-                                <div className="overflow-x-auto">
-                                    <table className="w-full">
-                                        <thead className="bg-gray-50 text-xs uppercase text-gray-700">
-                                            <tr>
-                                                <th className="px-4 py-2 border-b">{t("controlId")}</th>
-                                                <th className="px-4 py-2 border-b">{t("nameEn")}</th>
-                                                <th className="px-4 py-2 border-b">{t("nameAr")}</th>
-                                                <th className="px-4 py-2 border-b">{t("dimension")}</th>
-                                            </tr>
-                                        </thead>
-                                        <tbody>
-                                            {previewData.slice(0, 5).map((row, index) => (
-                                                <tr key={index} className="border-b">
-                                                    <td className="px-4 py-2">{row.controlId || t("missing")}</td>
-                                                    <td className="px-4 py-2">{row.nameEn || t("missing")}</td>
-                                                    <td className="px-4 py-2" dir="rtl">{row.nameAr || t("missing")}</td>
-                                                    <td className="px-4 py-2">
-                                                        {row.dimension && ["plan", "implement", "operate"].includes(row.dimension.toLowerCase()) ? (
-                                                            <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-200 border-0">
-                                                                {row.dimension.toLowerCase()}
-                                                            </Badge>
-                                                        ) : (
-                                                            <Badge className="bg-red-100 text-red-800 hover:bg-red-200 border-0">
-                                                                {row.dimension || t("missing")}
-                                                            </Badge>
-                                                        )}
-                                                    </td>
-                                                </tr>
-                                            ))}
-                                        </tbody>
-                                    </table>
+                            {invalidRowCount > 0 && (
+                                <div className="flex items-center gap-2 rounded-md bg-amber-50 p-3 mb-4 text-sm text-amber-700">
+                                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                                    <span>{t("invalidRows", { count: invalidRowCount })}</span>
                                 </div>
-                                {previewData.length > 5 && (
-                                    <div className="px-4 py-2 bg-gray-50 text-xs text-gray-500">
-                                        {t("showingPreview", { count: 5, total: previewData.length })}
-                                    </div>
-                                )}
-                            </div>
+                            )}
+
+                            {loading ? (
+                                <ImportJobProgress
+                                    progress={importProgress}
+                                    aborting={isAborting}
+                                    onAbort={handleAbort}
+                                />
+                            ) : (
+                                <ImportDiffPreview
+                                    diff={importDiff}
+                                    loading={isDiffLoading}
+                                    mode={importMode}
+                                    onModeChange={setImportMode}
+                                />
+                            )}
                         </div>
                     )}
                 </div>
@@ -342,7 +394,7 @@ export function ControlImportExcel({
                         </Button>
                         <Button
                             onClick={importData}
-                            disabled={loading}
+                            disabled={loading || isDiffLoading}
                             className="bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700"
                         >
                             {loading ? (
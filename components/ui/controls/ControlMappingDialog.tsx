@@ -0,0 +1,294 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import Spinner from "@/components/ui/spinner";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { getAllFrameworks, getFrameworkTree } from "@/lib/services/frameworkService";
+import { Framework } from "@/types/firebase";
+import { Specification } from "@/hooks/useSpecifications";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import {
+    MAPPING_RELATIONSHIPS,
+    MappingEndpoint,
+    MappingRelationship
+} from "@/types/control-mapping";
+
+interface ControlMappingDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    control: MappingEndpoint; // Control the mapping is added from
+    specifications: Specification[];
+    onSubmit: (
+        source: MappingEndpoint,
+        target: MappingEndpoint,
+        relationship: MappingRelationship,
+        note: string
+    ) => Promise<void>;
+}
+
+// Select value for mapping the whole control rather than one specification
+const WHOLE_CONTROL = "__control";
+
+export function ControlMappingDialog({
+    open,
+    onOpenChange,
+    control,
+    specifications,
+    onSubmit
+}: ControlMappingDialogProps) {
+    const t = useTranslations("ControlMappings");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const [frameworks, setFrameworks] = useState<Framework[]>([]);
+    const [targetTree, setTargetTree] = useState<FrameworkTreeDomain[]>([]);
+    const [isTreeLoading, setIsTreeLoading] = useState(false);
+    const [sourceSpecificationId, setSourceSpecificationId] = useState(WHOLE_CONTROL);
+    const [targetFrameworkId, setTargetFrameworkId] = useState("");
+    const [targetDomainId, setTargetDomainId] = useState("");
+    const [targetControlId, setTargetControlId] = useState("");
+    const [targetSpecificationId, setTargetSpecificationId] = useState(WHOLE_CONTROL);
+    const [relationship, setRelationship] = useState<MappingRelationship>("equivalent");
+    const [note, setNote] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Start blank each time the dialog opens
+    useEffect(() => {
+        if (!open) return;
+
+        setSourceSpecificationId(WHOLE_CONTROL);
+        setTargetFrameworkId("");
+        setTargetTree([]);
+        setRelationship("equivalent");
+        setNote("");
+
+        getAllFrameworks()
+            .then(items => setFrameworks(items.filter(item => item.id !== control.frameworkId)))
+            .catch(error => console.error("Error fetching frameworks:", error));
+    }, [open, control.frameworkId]);
+
+    // Load the hierarchy of the framework mapped to
+    useEffect(() => {
+        setTargetDomainId("");
+        setTargetControlId("");
+        setTargetSpecificationId(WHOLE_CONTROL);
+        if (!targetFrameworkId) return;
+
+        setIsTreeLoading(true);
+        getFrameworkTree(targetFrameworkId)
+            .then(setTargetTree)
+            .catch(error => {
+                console.error("Error fetching framework tree:", error);
+                setTargetTree([]);
+            })
+            .finally(() => setIsTreeLoading(false));
+    }, [targetFrameworkId]);
+
+    const targetDomain = targetTree.find(domain => domain.domainId === targetDomainId);
+    const targetControl = targetDomain?.controls.find(item => item.controlId === targetControlId);
+
+    const isFormValid = !!targetFrameworkId && !!targetDomainId && !!targetControlId;
+
+    const handleSubmit = async () => {
+        if (!isFormValid) return;
+
+        setIsSubmitting(true);
+        try {
+            await onSubmit(
+                {
+                    ...control,
+                    specificationId: sourceSpecificationId === WHOLE_CONTROL ? null : sourceSpecificationId
+                },
+                {
+                    frameworkId: targetFrameworkId,
+                    domainId: targetDomainId,
+                    controlId: targetControlId,
+                    specificationId: targetSpecificationId === WHOLE_CONTROL ? null : targetSpecificationId
+                },
+                relationship,
+                note
+            );
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto" style={{ direction: isRtl ? "rtl" : "ltr" }}>
+                <DialogHeader>
+                    <DialogTitle>{t("addMapping")}</DialogTitle>
+                    <DialogDescription>{t("addMappingDescription")}</DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label>{t("mappedItem")}</Label>
+                        <Select value={sourceSpecificationId} onValueChange={setSourceSpecificationId}>
+                            <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={WHOLE_CONTROL}>{t("wholeControl")}</SelectItem>
+                                {specifications.map(spec => (
+                                    <SelectItem key={spec.id} value={spec.id}>
+                                        {spec.number} - {spec.name[lang] || spec.name.en}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>{t("targetFramework")}</Label>
+                        <Select value={targetFrameworkId} onValueChange={setTargetFrameworkId}>
+                            <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                <SelectValue placeholder={t("selectFramework")} />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {frameworks.map(framework => (
+                                    <SelectItem key={framework.id} value={framework.id}>{framework.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    {isTreeLoading ? (
+                        <div className="flex justify-center py-2">
+                            <Spinner size="sm" />
+                        </div>
+                    ) : targetFrameworkId && (
+                        <>
+                            <div className="space-y-2">
+                                <Label>{t("targetDomain")}</Label>
+                                <Select
+                                    value={targetDomainId}
+                                    onValueChange={(value) => {
+                                        setTargetDomainId(value);
+                                        setTargetControlId("");
+                                        setTargetSpecificationId(WHOLE_CONTROL);
+                                    }}
+                                >
+                                    <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                        <SelectValue placeholder={t("selectDomain")} />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {targetTree.map(domain => (
+                                            <SelectItem key={domain.domainId} value={domain.domainId}>
+                                                {domain.name[lang] || domain.name.en}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {targetDomain && (
+                                <div className="space-y-2">
+                                    <Label>{t("targetControl")}</Label>
+                                    <Select
+                                        value={targetControlId}
+                                        onValueChange={(value) => {
+                                            setTargetControlId(value);
+                                            setTargetSpecificationId(WHOLE_CONTROL);
+                                        }}
+                                    >
+                                        <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                            <SelectValue placeholder={t("selectControl")} />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {targetDomain.controls.map(item => (
+                                                <SelectItem key={item.controlId} value={item.controlId}>
+                                                    {item.controlId} - {item.name[lang] || item.name.en}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+
+                            {targetControl && (
+                                <div className="space-y-2">
+                                    <Label>{t("targetSpecification")}</Label>
+                                    <Select value={targetSpecificationId} onValueChange={setTargetSpecificationId}>
+                                        <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={WHOLE_CONTROL}>{t("wholeControl")}</SelectItem>
+                                            {targetControl.specifications.map(spec => (
+                                                <SelectItem key={spec.id} value={spec.id}>
+                                                    {spec.number} - {spec.name[lang] || spec.name.en}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label>{t("relationship")}</Label>
+                        <Select value={relationship} onValueChange={(value) => setRelationship(value as MappingRelationship)}>
+                            <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {MAPPING_RELATIONSHIPS.map(item => (
+                                    <SelectItem key={item} value={item}>{t(`relationships.${item}`)}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500">{t(`relationshipHints.${relationship}`)}</p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="mapping-note">{t("note")}</Label>
+                        <Textarea
+                            id="mapping-note"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder={t("notePlaceholder")}
+                            rows={3}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter className={isRtl ? "flex-row-reverse" : ""}>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        {commonT("cancel")}
+                    </Button>
+                    <Button
+                        onClick={handleSubmit}
+                        disabled={!isFormValid || isSubmitting}
+                        className="bg-blue-600 hover:bg-blue-700"
+                    >
+                        {isSubmitting && <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />}
+                        {commonT("save")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
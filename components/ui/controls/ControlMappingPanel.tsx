@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import Link from "next/link";
+import { ArrowLeftRight, Plus, Trash2, FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import { ControlMappingDialog } from "@/components/ui/controls/ControlMappingDialog";
+import { MappingImportExcel } from "@/components/ui/controls/MappingImportExcel";
+import { Specification } from "@/hooks/useSpecifications";
+import {
+    getControlMappings,
+    saveControlMapping,
+    deleteControlMapping
+} from "@/lib/services/controlMappingService";
+import {
+    ControlMapping,
+    MappingEndpoint,
+    MappingRelationship,
+    formatMappingEndpoint,
+    getMappedEndpoint
+} from "@/types/control-mapping";
+
+interface ControlMappingPanelProps {
+    control: MappingEndpoint;
+    specifications: Specification[];
+    canEdit: boolean;
+}
+
+// Badge color for each relationship
+const getRelationshipColor = (relationship: MappingRelationship) => {
+    switch (relationship) {
+        case "equivalent":
+            return "bg-green-100 text-green-800";
+        case "partial":
+            return "bg-amber-100 text-amber-800";
+        default:
+            return "bg-gray-100 text-gray-700";
+    }
+};
+
+export function ControlMappingPanel({ control, specifications, canEdit }: ControlMappingPanelProps) {
+    const t = useTranslations("ControlMappings");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const { toast } = useToast();
+
+    const [mappings, setMappings] = useState<ControlMapping[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
+    const { frameworkId, domainId, controlId } = control;
+
+    const fetchMappings = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            setMappings(await getControlMappings({ frameworkId, domainId, controlId }));
+        } catch (error) {
+            console.error("Error fetching control mappings:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [frameworkId, domainId, controlId]);
+
+    useEffect(() => {
+        fetchMappings();
+    }, [fetchMappings]);
+
+    // Label of this control's side: the whole control or one of its specifications
+    const getOwnLabel = (endpoint: MappingEndpoint) => {
+        if (!endpoint.specificationId) return t("wholeControl");
+        const spec = specifications.find(item => item.id === endpoint.specificationId);
+        return spec ? spec.number : endpoint.specificationId;
+    };
+
+    const getEndpointHref = (endpoint: MappingEndpoint) =>
+        `/${locale}/frameworks/${endpoint.frameworkId}/domains/${endpoint.domainId}/controls/${endpoint.controlId}`;
+
+    const handleSave = async (
+        source: MappingEndpoint,
+        target: MappingEndpoint,
+        relationship: MappingRelationship,
+        note: string
+    ) => {
+        try {
+            await saveControlMapping(source, target, relationship, note);
+            toast({ title: t("mappingSaved") });
+            setIsDialogOpen(false);
+            fetchMappings();
+        } catch (error) {
+            console.error("Error saving control mapping:", error);
+            toast({
+                variant: "destructive",
+                title: t("saveError"),
+                description: t("saveErrorDescription"),
+            });
+        }
+    };
+
+    const handleDelete = async (mappingId: string) => {
+        try {
+            await deleteControlMapping(mappingId);
+            setMappings(prev => prev.filter(mapping => mapping.id !== mappingId));
+        } catch (error) {
+            console.error("Error deleting control mapping:", error);
+            toast({
+                variant: "destructive",
+                title: t("deleteError"),
+                description: t("deleteErrorDescription"),
+            });
+        }
+    };
+
+    return (
+        <div className="bg-white border rounded-lg shadow-sm p-4 mt-6" dir={isRtl ? "rtl" : "ltr"}>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <div className="flex items-center gap-2">
+                    <ArrowLeftRight className="h-5 w-5 text-[var(--primary-blue)]" />
+                    <h2 className="text-xl font-semibold">{t("title")}</h2>
+                </div>
+                {canEdit && (
+                    <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setIsImportOpen(true)}>
+                            <FileSpreadsheet className={`h-4 w-4 ${isRtl ? "ml-1" : "mr-1"}`} />
+                            {t("importMappings")}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setIsDialogOpen(true)}>
+                            <Plus className={`h-4 w-4 ${isRtl ? "ml-1" : "mr-1"}`} />
+                            {t("addMapping")}
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-4">
+                    <Spinner size="sm" />
+                </div>
+            ) : mappings.length === 0 ? (
+                <p className="text-gray-500 italic text-sm">{t("noMappings")}</p>
+            ) : (
+                <ul className="divide-y">
+                    {mappings.map(mapping => {
+                        const { own, other } = getMappedEndpoint(mapping, frameworkId);
+
+                        return (
+                            <li key={mapping.id} className="flex flex-wrap items-start justify-between gap-2 py-3">
+                                <div className="min-w-0 space-y-1">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <span className="font-medium">{getOwnLabel(own)}</span>
+                                        <Badge className={`${getRelationshipColor(mapping.relationship)} border-0 text-xs`}>
+                                            {t(`relationships.${mapping.relationship}`)}
+                                        </Badge>
+                                        <Link
+                                            href={getEndpointHref(other)}
+                                            className="text-[var(--primary-blue)] hover:underline break-all"
+                                        >
+                                            {formatMappingEndpoint(other)}
+                                        </Link>
+                                    </div>
+                                    {mapping.note && (
+                                        <p className="text-sm text-gray-600">{mapping.note}</p>
+                                    )}
+                                </div>
+                                {canEdit && (
+                                    <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600 flex-shrink-0"
+                                        onClick={() => handleDelete(mapping.id)} aria-label={t("deleteMapping")}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <ControlMappingDialog
+                open={isDialogOpen}
+                onOpenChange={setIsDialogOpen}
+                control={control}
+                specifications={specifications}
+                onSubmit={handleSave}
+            />
+
+            <MappingImportExcel
+                open={isImportOpen}
+                onOpenChange={setIsImportOpen}
+                onImportComplete={fetchMappings}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import Spinner from "@/components/ui/spinner";
+import { FileSpreadsheet, Upload, AlertTriangle, FileX, Download } from "lucide-react";
+import { parseMappingFile, MappingRow, importMappingsToFirestore, getMappingImportDiff, downloadMappingTemplate, validateMappingRow } from "@/lib/firestore/importMappings";
+import { ImportDiff, ImportMode } from "@/lib/firestore/importDiff";
+import { ImportDiffPreview } from "@/components/ui/import/ImportDiffPreview";
+import { ImportJobProgress, ImportRollbackNotice } from "@/components/ui/import/ImportJobProgress";
+import { ImportJobProgress as ImportJobProgressState, ImportJobResult } from "@/lib/firestore/importJobs";
+
+interface MappingImportExcelProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onImportComplete: () => void;
+}
+
+export function MappingImportExcel({
+    open,
+    onOpenChange,
+    onImportComplete,
+}: MappingImportExcelProps) {
+    const t = useTranslations("MappingImport");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // States
+    const [dragOver, setDragOver] = useState(false);
+    const [file, setFile] = useState<File | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [previewData, setPreviewData] = useState<MappingRow[]>([]);
+    const [importErrors, setImportErrors] = useState<{ row: number; error: string }[]>([]);
+    const [importStats, setImportStats] = useState<{
+        total: number;
+        success: number;
+        failed: number;
+        skipped: number;
+        removed: number;
+    } | null>(null);
+    const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+    const [isDiffLoading, setIsDiffLoading] = useState(false);
+    const [importMode, setImportMode] = useState<ImportMode>("create-only");
+    const [importJob, setImportJob] = useState<Pick<ImportJobResult, "jobId" | "status" | "rollbackReason"> | null>(null);
+    const [importProgress, setImportProgress] = useState<ImportJobProgressState | null>(null);
+    const [isAborting, setIsAborting] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Handle file selection
+    const handleFileSelect = (newFile: File) => {
+        setFile(newFile);
+        parseExcelData(newFile);
+    };
+
+    // Parse Excel file
+    const parseExcelData = async (file: File) => {
+        setLoading(true);
+        try {
+            const data = await parseMappingFile(file);
+            setPreviewData(data);
+            loadImportDiff(data);
+        } catch (error) {
+            console.error("Error parsing Excel:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Compare the parsed rows with the mappings already stored between the same frameworks
+    const loadImportDiff = async (data: MappingRow[]) => {
+        try {
+            setIsDiffLoading(true);
+            setImportDiff(await getMappingImportDiff(data));
+        } catch (error) {
+            console.error("Error comparing mappings:", error);
+            setImportDiff(null);
+        } finally {
+            setIsDiffLoading(false);
+        }
+    };
+
+    // Rows that will be rejected on import: missing IDs, a single framework, or an unknown relationship
+    const invalidRowCount = previewData.filter(row => validateMappingRow(row)).length;
+
+    // Handle file drop
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragOver(false);
+
+        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+            const file = e.dataTransfer.files[0];
+            if (isValidFileType(file)) {
+                handleFileSelect(file);
+            }
+        }
+    };
+
+    // Check if file type is valid
+    const isValidFileType = (file: File): boolean => {
+        const validTypes = [
+            "application/vnd.ms-excel",
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+            "text/csv",
+        ];
+        return validTypes.includes(file.type);
+    };
+
+    // Handle file change from input
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files.length > 0) {
+            const file = e.target.files[0];
+            if (isValidFileType(file)) {
+                handleFileSelect(file);
+            }
+        }
+    };
+
+    // Reset state
+    const resetState = () => {
+        setFile(null);
+        setPreviewData([]);
+        setImportErrors([]);
+        setImportStats(null);
+        setImportDiff(null);
+        setImportMode("create-only");
+        setImportJob(null);
+        if (fileInputRef.current) {
+            fileInputRef.current.value = "";
+        }
+    };
+
+    // Import data
+    const importData = async () => {
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        setLoading(true);
+        setImportErrors([]);
+        setImportProgress({ processedRows: 0, totalRows: previewData.length });
+
+        try {
+            const result = await importMappingsToFirestore(previewData, importMode, {
+                signal: abortController.signal,
+                onProgress: setImportProgress
+            });
+
+            setImportJob({ jobId: result.jobId, status: result.status, rollbackReason: result.rollbackReason });
+
+            setImportStats({
+                total: result.totalRows,
+                success: result.successCount,
+                failed: result.failedCount,
+                skipped: result.skippedCount,
+                removed: result.removedCount,
+            });
+
+            if (result.errors.length > 0) {
+                setImportErrors(result.errors);
+            }
+
+            if (result.successCount > 0 || result.removedCount > 0) {
+                onImportComplete();
+            }
+        } catch (error) {
+            console.error("Error importing mappings:", error);
+            setImportErrors([{ row: 0, error: "Failed to import mappings" }]);
+        } finally {
+            abortControllerRef.current = null;
+            setLoading(false);
+            setIsAborting(false);
+            setImportProgress(null);
+        }
+    };
+
+    // Remaining chunks are skipped and everything already written is rolled back
+    const handleAbort = () => {
+        setIsAborting(true);
+        abortControllerRef.current?.abort();
+    };
+
+    // Handle click on browse button
+    const handleBrowseClick = () => {
+        fileInputRef.current?.click();
+    };
+
+    // Handle download template
+    const handleDownloadTemplate = () => {
+        downloadMappingTemplate();
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(open) => {
+            if (!open) resetState();
+            onOpenChange(open);
+        }}>
+            <DialogContent
+                className="max-w-[95vw] md:max-w-2xl max-h-[90vh] overflow-y-auto"
+                style={{ direction: isRtl ? "rtl" : "ltr" }}
+            >
+                <DialogHeader className="bg-gradient-to-r from-blue-600 to-green-600 -m-6 mb-6 p-6 text-white rounded-t-lg">
+                    <DialogTitle className="text-xl">{t("importFromExcel")}</DialogTitle>
+                    <DialogDescription className="text-white/80">
+                        {t("importDescription")}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    {!file ? (
+                        <div
+                            className={`border-2 border-dashed rounded-lg p-8 text-center ${dragOver ? "border-blue-500 bg-blue-50" : "border-gray-300"
+                                }`}
+                            onDragOver={(e) => {
+                                e.preventDefault();
+                                setDragOver(true);
+                            }}
+                            onDragLeave={() => setDragOver(false)}
+                            onDrop={handleDrop}
+                        >
+                            <FileSpreadsheet className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                            <p className="text-lg font-medium mb-2">{t("dragAndDrop")}</p>
+                            <p className="text-sm text-gray-500 mb-4">{t("acceptedFormats")}</p>
+                            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    onClick={handleBrowseClick}
+                                >
+                                    <Upload className="w-4 h-4 mr-2" />
+                                    {t("selectFile")}
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    onClick={handleDownloadTemplate}
+                                    className="flex items-center gap-2 text-blue-600 border-blue-200 hover:bg-blue-50"
+                                >
+                                    <Download className="h-4 w-4 mr-2" />
+                                    {t("downloadTemplate")}
+                                </Button>
+                            </div>
+                            <input
+                                type="file"
+                                ref={fileInputRef}
+                                className="hidden"
+                                accept=".xlsx,.xls,.csv"
+                                onChange={handleFileChange}
+                            />
+                        </div>
+                    ) : loading && !previewData.length ? (
+                        <div className="text-center py-8">
+                            <Spinner className="w-10 h-10 mx-auto mb-4" />
+                            <p className="text-lg font-medium">{t("processing")}</p>
+                        </div>
+                    ) : importStats ? (
+                        <div className="py-4">
+                            <div className="mb-6 text-center">
+                                {importJob && importJob.status !== "completed" ? (
+                                    <div className="mb-4">
+                                        <ImportRollbackNotice
+                                            jobId={importJob.jobId}
+                                            status={importJob.status}
+                                            rollbackReason={importJob.rollbackReason}
+                                        />
+                                    </div>
+                                ) : importStats.failed === 0 ? (
+                                    <div className="bg-green-100 text-green-800 rounded-lg p-4 mb-4">
+                                        <h3 className="text-lg font-semibold">{t("importSuccess")}</h3>
+                                        <p>{t("importSummary", importStats)}</p>
+                                    </div>
+                                ) : (
+                                    <div className="bg-yellow-100 text-yellow-800 rounded-lg p-4 mb-4">
+                                        <h3 className="text-lg font-semibold">{t("importPartial")}</h3>
+                                        <p>{t("importSummary", importStats)}</p>
+                                    </div>
+                                )}
+                                {(importStats.skipped > 0 || importStats.removed > 0) && (
+                                    <p className="text-sm text-gray-600">{t("importSkippedRemoved", {
+                                        skipped: importStats.skipped,
+                                        removed: importStats.removed
+                                    })}</p>
+                                )}
+                            </div>
+
+                            {importErrors.length > 0 && (
+                                <div className="border rounded-lg overflow-hidden">
+                                    <div className="bg-red-50 p-3 border-b">
+                                        <h3 className="font-medium text-red-800 flex items-center">
+                                            <AlertTriangle className="w-4 h-4 mr-2" />
+                                            {t("errors")}
+                                        </h3>
+                                    </div>
+                                    <div className="p-3 max-h-[200px] overflow-y-auto">
+                                        <ul className="space-y-1">
+                                            {importErrors.slice(0, 5).map((error, index) => (
+                                                <li key={index} className="text-sm text-gray-700">
+                                                    <span className="font-medium">Row {error.row}:</span>{" "}
+                                                    {error.error}
+                                                </li>
+                                            ))}
+                                            {importErrors.length > 5 && (
+                                                <li className="text-sm text-gray-500 italic">
+                                                    {t("moreErrors", { count: importErrors.length - 5 })}
+                                                </li>
+                                            )}
+                                        </ul>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="mt-6 flex justify-end">
+                                <Button onClick={() => onOpenChange(false)}>{t("close")}</Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div>
+                            <div className="flex justify-between items-center mb-4">
+                                <h3 className="font-medium text-lg">{t("previewData")}</h3>
+                                <div className="flex gap-2">
+                                    <Button
+                                        variant="outline"
+                                        onClick={handleDownloadTemplate}
+                                        size="sm"
+                                        className="flex items-center gap-2"
+                                    >
+                                        <Download className="h-4 w-4" />
+                                        {t("downloadTemplate")}
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={resetState}
+                                        disabled={loading}
+                                    >
+                                        {t("changeFile")}
+                                    </Button>
+                                </div>
+                            </div>
+
+                            {invalidRowCount > 0 && (
+                                <div className="flex items-center gap-2 rounded-md bg-amber-50 p-3 mb-4 text-sm text-amber-700">
+                                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                                    <span>{t("invalidRows", { count: invalidRowCount })}</span>
+                                </div>
+                            )}
+
+                            {loading ? (
+                                <ImportJobProgress
+                                    progress={importProgress}
+                                    aborting={isAborting}
+                                    onAbort={handleAbort}
+                                />
+                            ) : (
+                                <ImportDiffPreview
+                                    diff={importDiff}
+                                    loading={isDiffLoading}
+                                    mode={importMode}
+                                    onModeChange={setImportMode}
+                                />
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                {file && previewData.length > 0 && !importStats && (
+                    <DialogFooter className={`gap-2 ${isRtl ? 'flex-row-reverse' : ''}`}>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={loading}
+                        >
+                            {t("cancel")}
+                        </Button>
+                        <Button
+                            onClick={importData}
+                            disabled={loading || isDiffLoading}
+                            className="bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700"
+                        >
+                            {loading ? (
+                                <>
+                                    <Spinner className="mr-2 h-4 w-4" />
+                                    {t("importing")}
+                                </>
+                            ) : (
+                                t("import")
+                            )}
+                        </Button>
+                    </DialogFooter>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+} 
\ No newline at end of file
@@ -0,0 +1,200 @@
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { AlertCircle, ChevronDown, ChevronRight, History, RotateCcw } from "lucide-react";
+import { Domain } from "@/types/assessment-criteria";
+import { CriteriaHistoryEntry, CriteriaHistoryReason } from "@/types/criteria-template";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CriteriaSpinner } from "./CriteriaSpinner";
+
+interface CriteriaHistoryProps {
+    history: CriteriaHistoryEntry[];
+    domains: Domain[];
+    loading: boolean;
+    error: string | null;
+    restoring: string | null;
+    onRestore: (entry: CriteriaHistoryEntry) => Promise<boolean>;
+}
+
+const REASON_STYLES: Record<CriteriaHistoryReason, string> = {
+    update: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+    restore: "bg-purple-100 text-purple-800 hover:bg-purple-100",
+    delete: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+/**
+ * Previous criteria configurations of a framework, each with its levels and weights and a restore action
+ */
+export const CriteriaHistory: React.FC<CriteriaHistoryProps> = ({
+    history,
+    domains,
+    loading,
+    error,
+    restoring,
+    onRestore,
+}) => {
+    const t = useTranslations("CriteriaBuilder");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [confirmEntry, setConfirmEntry] = useState<CriteriaHistoryEntry | null>(null);
+
+    const formatReplacedAt = (entry: CriteriaHistoryEntry) =>
+        entry.replacedAt?.toDate ? format(entry.replacedAt.toDate(), "MMM d, yyyy HH:mm", { locale: isRtl ? ar : enUS }) : "";
+
+    const getDomainName = (domainId: string): string => {
+        const domain = domains.find((d) => d.id === domainId);
+        return domain ? domain.name[lang] : domainId;
+    };
+
+    const handleRestore = async () => {
+        if (!confirmEntry) return;
+        if (await onRestore(confirmEntry)) {
+            setConfirmEntry(null);
+        }
+    };
+
+    return (
+        <div className="p-6 border-t" dir={isRtl ? "rtl" : "ltr"}>
+            <div className="flex items-center gap-2 mb-2">
+                <History className="h-5 w-5 text-gray-600" />
+                <h3 className="text-xl font-medium">{t("history.title")}</h3>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">{t("history.description")}</p>
+
+            {error && (
+                <p className="flex items-center gap-2 text-sm text-red-600 mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    {t("history.error")}
+                </p>
+            )}
+
+            {loading ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <CriteriaSpinner size="sm" />
+                    {t("history.loading")}
+                </div>
+            ) : history.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">{t("history.empty")}</p>
+            ) : (
+                <div className="space-y-2">
+                    {history.map(entry => {
+                        const expanded = expandedId === entry.id;
+                        const ExpandIcon = expanded ? ChevronDown : ChevronRight;
+                        const criteria = entry.criteria;
+
+                        return (
+                            <div key={entry.id} className="border rounded-lg bg-white dark:bg-gray-800">
+                                <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                                    <button
+                                        type="button"
+                                        className="flex items-center gap-2 text-start"
+                                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                                    >
+                                        <ExpandIcon className={`h-4 w-4 text-gray-500 ${!expanded && isRtl ? "rotate-180" : ""}`} />
+                                        <span className="text-sm font-medium">
+                                            {t(`typeSelector.types.${criteria.type}.title`)}
+                                        </span>
+                                        <span className="text-sm text-gray-500">{formatReplacedAt(entry)}</span>
+                                        <Badge className={REASON_STYLES[entry.reason]}>{t(`history.reasons.${entry.reason}`)}</Badge>
+                                    </button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setConfirmEntry(entry)}
+                                        disabled={restoring !== null}
+                                        className="flex items-center gap-2"
+                                    >
+                                        <RotateCcw className="h-4 w-4" />
+                                        {t("history.restore")}
+                                    </Button>
+                                </div>
+
+                                {expanded && (
+                                    <div className="border-t px-4 py-3 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                        <div>
+                                            <h4 className="font-medium mb-2">{t("summary.domainWeights")}</h4>
+                                            <ul className="space-y-1">
+                                                {criteria.domainWeights.map(domainWeight => (
+                                                    <li key={domainWeight.domainId} className="flex justify-between gap-3">
+                                                        <span>{getDomainName(domainWeight.domainId)}</span>
+                                                        <span className="font-medium">{domainWeight.weight}%</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                            {((criteria.controlWeights?.length || 0) > 0 || (criteria.specificationWeights?.length || 0) > 0) && (
+                                                <p className="mt-2 text-gray-500">
+                                                    {t("history.itemWeights", {
+                                                        controls: criteria.controlWeights?.length || 0,
+                                                        specifications: criteria.specificationWeights?.length || 0
+                                                    })}
+                                                </p>
+                                            )}
+                                        </div>
+                                        {criteria.type !== "percentage" && criteria.levels && criteria.levels.length > 0 && (
+                                            <div>
+                                                <h4 className="font-medium mb-2">{t(`summary.${criteria.type}Levels`)}</h4>
+                                                {criteria.template && (
+                                                    <p className="text-gray-500 mb-2">
+                                                        {t("templates.basedOn", {
+                                                            name: criteria.template.name[lang] || criteria.template.name.en,
+                                                            version: criteria.template.version
+                                                        })}
+                                                    </p>
+                                                )}
+                                                <div className="flex flex-wrap gap-2">
+                                                    {criteria.levels.map((level, index) => (
+                                                        <Badge key={index} variant="outline">
+                                                            {level.label[lang] || level.label.en} ({level.value}%)
+                                                        </Badge>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <AlertDialog open={confirmEntry !== null} onOpenChange={(open) => !open && setConfirmEntry(null)}>
+                <AlertDialogContent dir={isRtl ? "rtl" : "ltr"}>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t("history.restoreConfirm.title")}</AlertDialogTitle>
+                        <AlertDialogDescription>{t("history.restoreConfirm.description")}</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={restoring !== null}>{t("history.restoreConfirm.cancel")}</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleRestore();
+                            }}
+                            disabled={restoring !== null}
+                            className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white"
+                        >
+                            {restoring !== null ? t("history.restoreConfirm.restoring") : t("history.restoreConfirm.confirm")}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+};
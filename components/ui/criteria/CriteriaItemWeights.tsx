@@ -0,0 +1,330 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { AlertCircle, ChevronDown, ChevronRight, ShieldAlert } from "lucide-react";
+import { ControlWeight, SpecificationWeight } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+
+interface CriteriaItemWeightsProps {
+    tree: FrameworkTreeDomain[];
+    controlWeights: ControlWeight[];
+    specificationWeights: SpecificationWeight[];
+    mustHaveCap: number;
+    onChange: (updates: {
+        controlWeights?: ControlWeight[];
+        specificationWeights?: SpecificationWeight[];
+        mustHaveCap?: number;
+    }) => void;
+    error?: string;
+}
+
+// Split 100% over the given ids, giving the rounding remainder to the first one
+function distributeEvenly(ids: string[]): Map<string, number> {
+    const equalWeight = Math.floor(100 / ids.length);
+    const remainingWeight = 100 - (equalWeight * ids.length);
+    return new Map(ids.map((id, index) => [id, index === 0 ? equalWeight + remainingWeight : equalWeight]));
+}
+
+// Total of the weights of a set of entries, or null when they count equally
+function getCustomTotal(entries: { weight?: number }[]): number | null {
+    return entries.some(entry => entry.weight !== undefined)
+        ? entries.reduce((sum, entry) => sum + (entry.weight || 0), 0)
+        : null;
+}
+
+export const CriteriaItemWeights: React.FC<CriteriaItemWeightsProps> = ({
+    tree,
+    controlWeights,
+    specificationWeights,
+    mustHaveCap,
+    onChange,
+    error,
+}) => {
+    const t = useTranslations("CriteriaBuilder");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const [expandedControls, setExpandedControls] = useState<Set<string>>(new Set());
+
+    const toggleExpanded = (key: string) => {
+        setExpandedControls(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const getControlEntry = (domainId: string, controlId: string): ControlWeight =>
+        controlWeights.find(entry => entry.domainId === domainId && entry.controlId === controlId)
+        || { domainId, controlId };
+
+    const getSpecificationEntry = (domainId: string, controlId: string, specificationId: string): SpecificationWeight =>
+        specificationWeights.find(entry =>
+            entry.domainId === domainId && entry.controlId === controlId && entry.specificationId === specificationId)
+        || { domainId, controlId, specificationId };
+
+    // Replace the entry of one control, keeping the others in place
+    const updateControl = (domainId: string, controlId: string, updates: Partial<ControlWeight>) => {
+        const others = controlWeights.filter(entry => !(entry.domainId === domainId && entry.controlId === controlId));
+        onChange({ controlWeights: [...others, { ...getControlEntry(domainId, controlId), ...updates }] });
+    };
+
+    const updateSpecification = (domainId: string, controlId: string, specificationId: string, updates: Partial<SpecificationWeight>) => {
+        const others = specificationWeights.filter(entry =>
+            !(entry.domainId === domainId && entry.controlId === controlId && entry.specificationId === specificationId));
+        onChange({
+            specificationWeights: [...others, { ...getSpecificationEntry(domainId, controlId, specificationId), ...updates }]
+        });
+    };
+
+    // Switch the controls of a domain between equal and custom weights
+    const toggleControlWeights = (domain: FrameworkTreeDomain, custom: boolean) => {
+        const weights = distributeEvenly(domain.controls.map(control => control.controlId));
+        const others = controlWeights.filter(entry => entry.domainId !== domain.domainId);
+        const entries = domain.controls.map(control => ({
+            ...getControlEntry(domain.domainId, control.controlId),
+            weight: custom ? weights.get(control.controlId) : undefined
+        }));
+        onChange({ controlWeights: [...others, ...entries] });
+    };
+
+    // Switch the specifications of a control between equal and custom weights
+    const toggleSpecificationWeights = (domainId: string, control: FrameworkTreeDomain["controls"][number], custom: boolean) => {
+        const weights = distributeEvenly(control.specifications.map(spec => spec.id));
+        const others = specificationWeights.filter(entry =>
+            !(entry.domainId === domainId && entry.controlId === control.controlId));
+        const entries = control.specifications.map(spec => ({
+            ...getSpecificationEntry(domainId, control.controlId, spec.id),
+            weight: custom ? weights.get(spec.id) : undefined
+        }));
+        onChange({ specificationWeights: [...others, ...entries] });
+    };
+
+    const renderWeightInput = (value: number, onValueChange: (weight: number) => void) => (
+        <div className="w-20 flex items-center">
+            <Input
+                type="number"
+                min={0}
+                max={100}
+                value={value}
+                onChange={(e) => onValueChange(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+                className="w-16 h-8 text-center"
+            />
+            <span className={isRtl ? "mr-1" : "ml-1"}>%</span>
+        </div>
+    );
+
+    const renderTotal = (total: number | null) => total !== null && (
+        <span className={`text-sm font-medium ${Math.round(total) === 100 ? "text-green-600" : "text-red-500"}`}>
+            {t("itemWeights.total", { total: Math.round(total) })}
+        </span>
+    );
+
+    // Animation variants
+    const containerVariants = {
+        hidden: { opacity: 0 },
+        visible: {
+            opacity: 1,
+            transition: {
+                staggerChildren: 0.1,
+            },
+        },
+    };
+
+    const itemVariants = {
+        hidden: { opacity: 0, y: 20 },
+        visible: { opacity: 1, y: 0 },
+    };
+
+    return (
+        <div className="px-1 py-4">
+            <h2 className="text-2xl font-semibold mb-6 text-center">
+                {t("itemWeights.title")}
+            </h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6 text-center max-w-lg mx-auto">
+                {t("itemWeights.description")}
+            </p>
+
+            {error && (
+                <Alert variant="destructive" className="mb-6">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+
+            {/* Must-have cap */}
+            <div className="bg-white dark:bg-gray-800 border rounded-lg shadow-sm p-6 mb-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                        <ShieldAlert className="h-5 w-5 text-amber-500 mt-0.5 flex-shrink-0" />
+                        <div>
+                            <Label htmlFor="must-have-cap" className="text-base font-medium">
+                                {t("itemWeights.mustHaveCap")}
+                            </Label>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {t("itemWeights.mustHaveCapDescription")}
+                            </p>
+                        </div>
+                    </div>
+                    <div className="w-24 flex items-center">
+                        <Input
+                            id="must-have-cap"
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={mustHaveCap}
+                            onChange={(e) => onChange({ mustHaveCap: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                            className="w-16 text-center"
+                        />
+                        <span className={isRtl ? "mr-1" : "ml-1"}>%</span>
+                    </div>
+                </div>
+            </div>
+
+            <motion.div
+                className="space-y-6"
+                variants={containerVariants}
+                initial="hidden"
+                animate="visible"
+            >
+                {tree.map(domain => {
+                    const domainEntries = controlWeights.filter(entry => entry.domainId === domain.domainId);
+                    const controlTotal = getCustomTotal(domainEntries);
+
+                    return (
+                        <motion.div
+                            key={domain.domainId}
+                            className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-800"
+                            variants={itemVariants}
+                        >
+                            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                                <div>
+                                    <h4 className="font-medium">{domain.name[lang] || domain.name.en}</h4>
+                                    <p className="text-sm text-gray-500">ID: {domain.domainId}</p>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    {renderTotal(controlTotal)}
+                                    <Label className="flex items-center gap-2 text-sm font-normal">
+                                        <Checkbox
+                                            checked={controlTotal !== null}
+                                            onCheckedChange={(checked) => toggleControlWeights(domain, checked === true)}
+                                            disabled={domain.controls.length === 0}
+                                        />
+                                        {t("itemWeights.customControlWeights")}
+                                    </Label>
+                                </div>
+                            </div>
+
+                            {domain.controls.length === 0 ? (
+                                <p className="text-sm text-gray-500 italic">{t("itemWeights.noControls")}</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {domain.controls.map(control => {
+                                        const key = `${domain.domainId}/${control.controlId}`;
+                                        const controlEntry = getControlEntry(domain.domainId, control.controlId);
+                                        const controlSpecificationEntries = specificationWeights.filter(entry =>
+                                            entry.domainId === domain.domainId && entry.controlId === control.controlId);
+                                        const specificationTotal = getCustomTotal(controlSpecificationEntries);
+                                        const expanded = expandedControls.has(key);
+                                        const ExpandIcon = expanded ? ChevronDown : ChevronRight;
+
+                                        return (
+                                            <div key={key} className="bg-white dark:bg-gray-900 border rounded-md">
+                                                <div className="flex flex-wrap items-center justify-between gap-3 px-3 py-2">
+                                                    <button
+                                                        type="button"
+                                                        className="flex items-center gap-2 min-w-0 text-start"
+                                                        onClick={() => toggleExpanded(key)}
+                                                    >
+                                                        <ExpandIcon className={`h-4 w-4 text-gray-500 flex-shrink-0 ${!expanded && isRtl ? "rotate-180" : ""}`} />
+                                                        <span className="text-sm">
+                                                            <span className="text-gray-500">{control.controlId}</span>{" "}
+                                                            {control.name[lang] || control.name.en}
+                                                        </span>
+                                                    </button>
+                                                    <div className="flex items-center gap-4">
+                                                        <Label className="flex items-center gap-2 text-sm font-normal">
+                                                            <Checkbox
+                                                                checked={!!controlEntry.mustHave}
+                                                                onCheckedChange={(checked) =>
+                                                                    updateControl(domain.domainId, control.controlId, { mustHave: checked === true })
+                                                                }
+                                                            />
+                                                            {t("itemWeights.mustHave")}
+                                                        </Label>
+                                                        {controlTotal !== null && renderWeightInput(
+                                                            controlEntry.weight ?? 0,
+                                                            (weight) => updateControl(domain.domainId, control.controlId, { weight })
+                                                        )}
+                                                    </div>
+                                                </div>
+
+                                                {expanded && (
+                                                    <div className="border-t px-3 py-2 space-y-2 bg-gray-50/60 dark:bg-gray-800">
+                                                        <div className="flex flex-wrap items-center justify-end gap-3">
+                                                            {renderTotal(specificationTotal)}
+                                                            <Label className="flex items-center gap-2 text-sm font-normal">
+                                                                <Checkbox
+                                                                    checked={specificationTotal !== null}
+                                                                    onCheckedChange={(checked) =>
+                                                                        toggleSpecificationWeights(domain.domainId, control, checked === true)
+                                                                    }
+                                                                    disabled={control.specifications.length === 0}
+                                                                />
+                                                                {t("itemWeights.customSpecificationWeights")}
+                                                            </Label>
+                                                        </div>
+                                                        {control.specifications.length === 0 && (
+                                                            <p className="text-sm text-gray-500 italic">{t("itemWeights.noSpecifications")}</p>
+                                                        )}
+                                                        {control.specifications.map(spec => {
+                                                            const specEntry = getSpecificationEntry(domain.domainId, control.controlId, spec.id);
+
+                                                            return (
+                                                                <div key={spec.id} className="flex flex-wrap items-center justify-between gap-3">
+                                                                    <span className="text-sm min-w-0">
+                                                                        <span className="text-gray-500">{spec.number}</span>{" "}
+                                                                        {spec.name[lang] || spec.name.en}
+                                                                    </span>
+                                                                    <div className="flex items-center gap-4">
+                                                                        <Label className="flex items-center gap-2 text-sm font-normal">
+                                                                            <Checkbox
+                                                                                checked={!!specEntry.mustHave}
+                                                                                onCheckedChange={(checked) =>
+                                                                                    updateSpecification(domain.domainId, control.controlId, spec.id, { mustHave: checked === true })
+                                                                                }
+                                                                            />
+                                                                            {t("itemWeights.mustHave")}
+                                                                        </Label>
+                                                                        {specificationTotal !== null && renderWeightInput(
+                                                                            specEntry.weight ?? 0,
+                                                                            (weight) => updateSpecification(domain.domainId, control.controlId, spec.id, { weight })
+                                                                        )}
+                                                                    </div>
+                                                                </div>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </motion.div>
+                    );
+                })}
+            </motion.div>
+        </div>
+    );
+};
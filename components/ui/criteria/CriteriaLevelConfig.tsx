@@ -11,17 +11,20 @@ import {
     ArrowRightToLine,
     ArrowLeftToLine
 } from "lucide-react";
-import { CriteriaLevel } from "@/types/assessment-criteria";
+import { CriteriaLevel, CriteriaTemplateReference } from "@/types/assessment-criteria";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CriteriaTemplatePanel } from "./CriteriaTemplatePanel";
 
 interface CriteriaLevelConfigProps {
     criteriaType: "maturity" | "compliance";
     levels: CriteriaLevel[];
     onChange: (levels: CriteriaLevel[]) => void;
+    template?: CriteriaTemplateReference;
+    onApplyTemplate: (levels: CriteriaLevel[], template: CriteriaTemplateReference) => void;
     error?: string;
 }
 
@@ -29,6 +32,8 @@ export const CriteriaLevelConfig: React.FC<CriteriaLevelConfigProps> = ({
     criteriaType,
     levels,
     onChange,
+    template,
+    onApplyTemplate,
     error,
 }) => {
     const t = useTranslations("CriteriaBuilder");
@@ -148,6 +153,14 @@ export const CriteriaLevelConfig: React.FC<CriteriaLevelConfigProps> = ({
                 </Alert>
             )}
 
+            {/* Template Library */}
+            <CriteriaTemplatePanel
+                criteriaType={criteriaType}
+                levels={levels}
+                template={template}
+                onApply={onApplyTemplate}
+            />
+
             {/* Existing Levels */}
             {levels.length > 0 && (
                 <motion.div
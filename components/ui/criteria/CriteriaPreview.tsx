@@ -4,18 +4,24 @@ import { useTranslations } from "next-intl";
 import { useLocale } from "next-intl";
 import { CheckCircle2, AlertCircle, BatteryFull, Percent, FileCheck } from "lucide-react";
 import { Domain } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain } from "@/types/assessment";
 import { CriteriaFormState } from "@/hooks/useCriteriaBuilder";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CriteriaSimulator } from "./CriteriaSimulator";
 
 interface CriteriaPreviewProps {
+    frameworkId: string;
     formState: CriteriaFormState;
     domains: Domain[];
+    tree: FrameworkTreeDomain[];
     error?: string;
 }
 
 export const CriteriaPreview: React.FC<CriteriaPreviewProps> = ({
+    frameworkId,
     formState,
     domains,
+    tree,
     error,
 }) => {
     const t = useTranslations("CriteriaBuilder");
@@ -241,6 +247,19 @@ export const CriteriaPreview: React.FC<CriteriaPreviewProps> = ({
                         </div>
                     </motion.div>
                 )}
+
+                {/* Scoring Simulator */}
+                <motion.div
+                    variants={itemVariants}
+                    className="bg-white dark:bg-gray-800 border rounded-lg shadow-sm p-6"
+                >
+                    <CriteriaSimulator
+                        frameworkId={frameworkId}
+                        formState={formState}
+                        domains={domains}
+                        tree={tree}
+                    />
+                </motion.div>
             </motion.div>
         </div>
     );
@@ -0,0 +1,299 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { AlertCircle, Plus, Sparkles, Target, Trash2 } from "lucide-react";
+import {
+    CriteriaLevel,
+    CriteriaType,
+    Domain,
+    DomainTarget,
+    PERCENTAGE_STEPS,
+    ResultBand
+} from "@/types/assessment-criteria";
+import { ResultBandBadge } from "@/components/ui/assessment/ResultBandBadge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+
+interface CriteriaResultBandsProps {
+    criteriaType: CriteriaType;
+    levels: CriteriaLevel[];
+    domains: Domain[];
+    resultBands: ResultBand[];
+    domainTargets: DomainTarget[];
+    onChange: (updates: { resultBands?: ResultBand[]; domainTargets?: DomainTarget[] }) => void;
+    error?: string;
+}
+
+// Value of a domain's target select while the domain has no target
+const NO_TARGET = "none";
+
+// Verdict colors from lowest to highest band
+const BAND_COLORS = ["#dc2626", "#ea580c", "#d97706", "#65a30d", "#16a34a"];
+
+// Bands suggested for criteria without levels
+const PERCENTAGE_BANDS: ResultBand[] = [
+    { label: { en: "Non-compliant", ar: "غير ممتثل" }, color: "#dc2626", min: 0, max: 49 },
+    { label: { en: "Partially compliant", ar: "ممتثل جزئيًا" }, color: "#d97706", min: 50, max: 79 },
+    { label: { en: "Compliant", ar: "ممتثل" }, color: "#16a34a", min: 80, max: 100 },
+];
+
+// One band per level, from its value up to the next level's; without levels the percentage bands
+function getSuggestedBands(criteriaType: CriteriaType, levels: CriteriaLevel[]): ResultBand[] {
+    if (criteriaType === "percentage" || levels.length === 0) {
+        return PERCENTAGE_BANDS.map(band => ({ ...band, label: { ...band.label } }));
+    }
+
+    const sorted = [...levels].sort((a, b) => a.value - b.value);
+    return sorted.map((level, index) => ({
+        label: { ...level.label },
+        color: BAND_COLORS[Math.round((index / Math.max(1, sorted.length - 1)) * (BAND_COLORS.length - 1))],
+        min: index === 0 ? 0 : level.value,
+        max: index === sorted.length - 1 ? 100 : Math.max(level.value, sorted[index + 1].value - 1)
+    }));
+}
+
+/**
+ * Result bands that turn scores into verdicts, and the level each domain is expected to reach
+ */
+export const CriteriaResultBands: React.FC<CriteriaResultBandsProps> = ({
+    criteriaType,
+    levels,
+    domains,
+    resultBands,
+    domainTargets,
+    onChange,
+    error,
+}) => {
+    const t = useTranslations("CriteriaBuilder");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const updateBand = (index: number, updates: Partial<ResultBand>) => {
+        onChange({ resultBands: resultBands.map((band, i) => (i === index ? { ...band, ...updates } : band)) });
+    };
+
+    const addBand = () => {
+        const lastMax = resultBands.reduce((max, band) => Math.max(max, band.max), -1);
+        const min = Math.min(100, lastMax + 1);
+        onChange({
+            resultBands: [
+                ...resultBands,
+                { label: { en: "", ar: "" }, color: BAND_COLORS[resultBands.length % BAND_COLORS.length], min, max: 100 }
+            ]
+        });
+    };
+
+    const removeBand = (index: number) => {
+        onChange({ resultBands: resultBands.filter((_, i) => i !== index) });
+    };
+
+    // Targets are levels for maturity and compliance criteria, percentage steps otherwise
+    const targetOptions = criteriaType === "percentage"
+        ? PERCENTAGE_STEPS.map(value => ({ key: String(value), label: `${value}%` }))
+        : levels.map((level, index) => ({
+            key: String(index),
+            label: `${level.label[lang] || level.label.en} (${level.value}%)`
+        }));
+
+    const getTargetKey = (domainId: string): string => {
+        const target = domainTargets.find(entry => entry.domainId === domainId);
+        const key = criteriaType === "percentage" ? target?.value : target?.levelIndex;
+        return key !== undefined && targetOptions.some(option => option.key === String(key)) ? String(key) : NO_TARGET;
+    };
+
+    const setTarget = (domainId: string, selected: string) => {
+        const others = domainTargets.filter(entry => entry.domainId !== domainId);
+        if (selected === NO_TARGET) {
+            onChange({ domainTargets: others });
+            return;
+        }
+        const target: DomainTarget = criteriaType === "percentage"
+            ? { domainId, value: Number(selected) }
+            : { domainId, levelIndex: Number(selected) };
+        onChange({ domainTargets: [...others, target] });
+    };
+
+    const setAllTargets = (selected: string) => {
+        onChange({
+            domainTargets: selected === NO_TARGET
+                ? []
+                : domains.map(domain => criteriaType === "percentage"
+                    ? { domainId: domain.id, value: Number(selected) }
+                    : { domainId: domain.id, levelIndex: Number(selected) })
+        });
+    };
+
+    // Animation variants
+    const itemVariants = {
+        hidden: { opacity: 0, y: 20 },
+        visible: { opacity: 1, y: 0 },
+    };
+
+    return (
+        <div className="px-1 py-4">
+            <h2 className="text-2xl font-semibold mb-6 text-center">
+                {t("resultBands.title")}
+            </h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6 text-center max-w-lg mx-auto">
+                {t("resultBands.description")}
+            </p>
+
+            {error && (
+                <Alert variant="destructive" className="mb-6">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+
+            {/* Result bands */}
+            <motion.div
+                className="bg-white dark:bg-gray-800 border rounded-lg shadow-sm p-6 mb-6"
+                variants={itemVariants}
+                initial="hidden"
+                animate="visible"
+            >
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h3 className="text-lg font-medium">{t("resultBands.bands")}</h3>
+                    <div className="flex items-center gap-2">
+                        <Button
+                            variant="outline"
+                            onClick={() => onChange({ resultBands: getSuggestedBands(criteriaType, levels) })}
+                            className="flex items-center gap-2"
+                        >
+                            <Sparkles className="h-4 w-4" />
+                            {criteriaType === "percentage" ? t("resultBands.suggest") : t("resultBands.suggestFromLevels")}
+                        </Button>
+                        <Button
+                            onClick={addBand}
+                            className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white flex items-center gap-2"
+                        >
+                            <Plus className="h-4 w-4" />
+                            {t("resultBands.addBand")}
+                        </Button>
+                    </div>
+                </div>
+
+                {resultBands.length === 0 ? (
+                    <p className="text-sm text-gray-500 italic">{t("resultBands.noBands")}</p>
+                ) : (
+                    <div className="space-y-3">
+                        {resultBands.map((band, index) => (
+                            <div
+                                key={index}
+                                className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_auto_auto_auto] items-center gap-2 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                            >
+                                <Input
+                                    type="color"
+                                    value={band.color}
+                                    onChange={(e) => updateBand(index, { color: e.target.value })}
+                                    className="w-12 h-9 p-1"
+                                    title={t("resultBands.color")}
+                                />
+                                <Input
+                                    value={band.label.en}
+                                    onChange={(e) => updateBand(index, { label: { ...band.label, en: e.target.value } })}
+                                    placeholder={t("resultBands.labelEn")}
+                                    dir="ltr"
+                                />
+                                <Input
+                                    value={band.label.ar}
+                                    onChange={(e) => updateBand(index, { label: { ...band.label, ar: e.target.value } })}
+                                    placeholder={t("resultBands.labelAr")}
+                                    dir="rtl"
+                                />
+                                <div className="flex items-center gap-1">
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        max={100}
+                                        value={band.min}
+                                        onChange={(e) => updateBand(index, { min: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                                        className="w-16 h-9 text-center"
+                                        title={t("resultBands.min")}
+                                    />
+                                    <span className="text-gray-500">–</span>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        max={100}
+                                        value={band.max}
+                                        onChange={(e) => updateBand(index, { max: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                                        className="w-16 h-9 text-center"
+                                        title={t("resultBands.max")}
+                                    />
+                                    <span className="text-gray-500">%</span>
+                                </div>
+                                <ResultBandBadge band={band} className="justify-center min-w-[6rem]" />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => removeBand(index)}
+                                    className="text-red-600 hover:text-red-700"
+                                    title={t("resultBands.removeBand")}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </motion.div>
+
+            {/* Domain targets */}
+            <motion.div
+                className="bg-white dark:bg-gray-800 border rounded-lg shadow-sm p-6"
+                variants={itemVariants}
+                initial="hidden"
+                animate="visible"
+            >
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+                    <div className="flex items-center gap-2">
+                        <Target className="h-5 w-5 text-[var(--primary-blue)]" />
+                        <h3 className="text-lg font-medium">{t("resultBands.targets")}</h3>
+                    </div>
+                    <Select value="" onValueChange={setAllTargets}>
+                        <SelectTrigger className="w-[220px]" dir={isRtl ? "rtl" : "ltr"}>
+                            <SelectValue placeholder={t("resultBands.setAllTargets")} />
+                        </SelectTrigger>
+                        <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                            <SelectItem value={NO_TARGET}>{t("resultBands.noTarget")}</SelectItem>
+                            {targetOptions.map(option => (
+                                <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">{t("resultBands.targetsDescription")}</p>
+
+                <div className="space-y-2">
+                    {domains.map(domain => (
+                        <div key={domain.id} className="flex items-center justify-between gap-3">
+                            <span className="text-sm flex-1 min-w-0 truncate">{domain.name[lang] || domain.name.en}</span>
+                            <Select value={getTargetKey(domain.id)} onValueChange={(selected) => setTarget(domain.id, selected)}>
+                                <SelectTrigger className="w-[220px]" dir={isRtl ? "rtl" : "ltr"}>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                                    <SelectItem value={NO_TARGET}>{t("resultBands.noTarget")}</SelectItem>
+                                    {targetOptions.map(option => (
+                                        <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    ))}
+                </div>
+            </motion.div>
+        </div>
+    );
+};
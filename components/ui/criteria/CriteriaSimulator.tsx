@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { AlertCircle, FlaskConical, RotateCcw } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Domain, PERCENTAGE_STEPS } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import { CriteriaFormState } from "@/hooks/useCriteriaBuilder";
+import { useSampleProjectRatings } from "@/hooks/useSampleProjectRatings";
+import { computeProjectScore, getResultBand } from "@/lib/services/assessmentScoring";
+import {
+    SimulatedDomainScores,
+    getDraftCriteria,
+    getWeightSensitivity,
+    simulateCriteria
+} from "@/lib/services/criteriaSimulation";
+import { formatScore } from "@/components/ui/assessment/AssessmentScoreSummary";
+import { ResultBandBadge } from "@/components/ui/assessment/ResultBandBadge";
+import { ProjectSelect } from "@/components/ui/projects/ProjectSelect";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { CriteriaSpinner } from "./CriteriaSpinner";
+
+interface CriteriaSimulatorProps {
+    frameworkId: string;
+    formState: CriteriaFormState;
+    domains: Domain[];
+    tree: FrameworkTreeDomain[];
+}
+
+// Value of a domain select while the domain is left unrated
+const NOT_RATED = "none";
+
+// Weight changes (in points) the sensitivity can be shown for
+const SENSITIVITY_STEPS = [5, 10, 20];
+
+// Change of the overall score, with one decimal so small effects stay visible
+const formatDelta = (score: number | null, base: number | null): string => {
+    if (score === null || base === null) return "—";
+    const delta = Math.round((score - base) * 10) / 10;
+    return `${delta > 0 ? "+" : ""}${delta}`;
+};
+
+const deltaClass = (score: number | null, base: number | null): string => {
+    if (score === null || base === null) return "text-gray-400";
+    const delta = Math.round((score - base) * 10) / 10;
+    return delta > 0 ? "text-green-600" : delta < 0 ? "text-red-600" : "text-gray-500";
+};
+
+/**
+ * Try the criteria being built before saving: give each domain a hypothetical score (or take those
+ * of a sample project) and see the overall score, what each domain contributes to it and how much
+ * it moves when a domain's weight changes
+ */
+export const CriteriaSimulator: React.FC<CriteriaSimulatorProps> = ({
+    frameworkId,
+    formState,
+    domains,
+    tree,
+}) => {
+    const t = useTranslations("CriteriaBuilder");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const [scores, setScores] = useState<SimulatedDomainScores>({});
+    const [projectId, setProjectId] = useState<string | null>(null);
+    const [step, setStep] = useState(10);
+
+    const { ratings, loading, error } = useSampleProjectRatings(projectId);
+
+    // Score the sample project with the draft criteria, so control and specification weights count too
+    useEffect(() => {
+        if (!ratings) return;
+        const projectScore = computeProjectScore(tree, getDraftCriteria(frameworkId, formState), ratings);
+        setScores(Object.fromEntries(projectScore.domains.map(domain => [domain.domainId, domain.score])));
+    }, [ratings]);
+
+    // Values a domain can be given: the levels being configured, or the percentage steps
+    const options = useMemo(() => {
+        if (formState.type === "percentage") {
+            return PERCENTAGE_STEPS.map(value => ({ value, label: `${value}%` }));
+        }
+        const byValue = new Map<number, string>();
+        [...formState.levels]
+            .sort((a, b) => a.value - b.value)
+            .forEach(level => {
+                if (!byValue.has(level.value)) {
+                    byValue.set(level.value, `${level.label[lang] || level.label.en} (${level.value}%)`);
+                }
+            });
+        return Array.from(byValue, ([value, label]) => ({ value, label }));
+    }, [formState.type, formState.levels, lang]);
+
+    const simulation = useMemo(
+        () => simulateCriteria(formState.domainWeights, scores),
+        [formState.domainWeights, scores]
+    );
+    const band = getResultBand(simulation.overall, getDraftCriteria(frameworkId, formState));
+    const sensitivity = useMemo(
+        () => getWeightSensitivity(formState.domainWeights, scores, step),
+        [formState.domainWeights, scores, step]
+    );
+
+    const getDomainName = (domainId: string): string => {
+        const domain = domains.find((d) => d.id === domainId);
+        return domain ? domain.name[lang] : domainId;
+    };
+
+    const setScore = (domainId: string, selected: string) => {
+        setScores({ ...scores, [domainId]: selected === NOT_RATED ? null : Number(selected) });
+    };
+
+    const setAllScores = (selected: string) => {
+        const value = selected === NOT_RATED ? null : Number(selected);
+        setScores(Object.fromEntries(formState.domainWeights.map(domain => [domain.domainId, value])));
+    };
+
+    const handleReset = () => {
+        setProjectId(null);
+        setScores({});
+    };
+
+    const chartData = simulation.domains
+        .filter(domain => domain.contribution !== null)
+        .map(domain => ({
+            name: getDomainName(domain.domainId),
+            contribution: Math.round((domain.contribution as number) * 10) / 10
+        }));
+
+    return (
+        <div dir={isRtl ? "rtl" : "ltr"}>
+            <div className="flex items-center gap-2 mb-2">
+                <FlaskConical className="h-5 w-5 text-[var(--primary-blue)]" />
+                <h3 className="text-xl font-medium">{t("simulator.title")}</h3>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">{t("simulator.description")}</p>
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-4">
+                <ProjectSelect frameworkId={frameworkId} value={projectId} onChange={setProjectId} />
+                <Select value="" onValueChange={setAllScores}>
+                    <SelectTrigger className="bg-white sm:w-[220px]" dir={isRtl ? "rtl" : "ltr"}>
+                        <SelectValue placeholder={t("simulator.setAll")} />
+                    </SelectTrigger>
+                    <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                        <SelectItem value={NOT_RATED}>{t("simulator.notRated")}</SelectItem>
+                        {options.map(option => (
+                            <SelectItem key={option.value} value={String(option.value)}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={handleReset} className="flex items-center gap-2">
+                    <RotateCcw className="h-4 w-4" />
+                    {t("simulator.reset")}
+                </Button>
+            </div>
+
+            {loading && (
+                <div className="flex items-center gap-2 text-sm text-gray-500 mb-4">
+                    <CriteriaSpinner size="sm" />
+                    {t("simulator.loadingProject")}
+                </div>
+            )}
+            {error && (
+                <p className="flex items-center gap-2 text-sm text-red-600 mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    {t("simulator.projectFailed")}
+                </p>
+            )}
+            {projectId && ratings && !loading && (
+                <p className="text-sm text-gray-500 mb-4">{t("simulator.projectImported")}</p>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Hypothetical domain scores */}
+                <div className="space-y-2">
+                    {formState.domainWeights.map(domainWeight => {
+                        const score = scores[domainWeight.domainId] ?? null;
+                        const custom = score !== null && !options.some(option => option.value === score);
+
+                        return (
+                            <div key={domainWeight.domainId} className="flex items-center justify-between gap-3">
+                                <span className="text-sm flex-1 min-w-0 truncate">
+                                    {getDomainName(domainWeight.domainId)}
+                                    <span className="text-gray-400"> · {domainWeight.weight}%</span>
+                                </span>
+                                <Select
+                                    value={score === null ? NOT_RATED : String(score)}
+                                    onValueChange={(selected) => setScore(domainWeight.domainId, selected)}
+                                >
+                                    <SelectTrigger className="bg-white w-[200px]" dir={isRtl ? "rtl" : "ltr"}>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                                        <SelectItem value={NOT_RATED}>{t("simulator.notRated")}</SelectItem>
+                                        {custom && (
+                                            <SelectItem value={String(score)}>
+                                                {t("simulator.projectScore", { score: formatScore(score) })}
+                                            </SelectItem>
+                                        )}
+                                        {options.map(option => (
+                                            <SelectItem key={option.value} value={String(option.value)}>
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Overall score and contributions */}
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{t("simulator.overall")}</p>
+                    <p className="text-4xl font-bold text-gray-900 dark:text-gray-100 my-2">{formatScore(simulation.overall)}</p>
+                    {band && <ResultBandBadge band={band} className="text-sm" />}
+                    <p className="text-sm font-medium mt-4 mb-2">{t("simulator.contribution")}</p>
+                    {chartData.length === 0 ? (
+                        <p className="text-sm text-gray-500 italic">{t("simulator.noScores")}</p>
+                    ) : (
+                        <div style={{ width: "100%", height: chartData.length * 36 + 40 }} dir="ltr">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                                    <XAxis type="number" domain={[0, 100]} unit="%" />
+                                    <YAxis type="category" dataKey="name" width={120} orientation={isRtl ? "right" : "left"} />
+                                    <Tooltip formatter={(value) => [`${value}%`, t("simulator.points")]} />
+                                    <Bar dataKey="contribution" fill="#0284c7" radius={[0, 4, 4, 0]} />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Sensitivity to weight changes */}
+            <div className="mt-6">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+                    <p className="text-sm font-medium">{t("simulator.sensitivity")}</p>
+                    <Select value={String(step)} onValueChange={(selected) => setStep(Number(selected))}>
+                        <SelectTrigger className="bg-white w-[160px]" dir={isRtl ? "rtl" : "ltr"}>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                            {SENSITIVITY_STEPS.map(value => (
+                                <SelectItem key={value} value={String(value)}>
+                                    {t("simulator.step", { step: value })}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">{t("simulator.sensitivityDescription", { step })}</p>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="bg-gray-50 dark:bg-gray-700">
+                                <th className="p-2 text-start">{t("preview.table.domain")}</th>
+                                <th className="p-2 text-start">{t("simulator.table.score")}</th>
+                                <th className="p-2 text-start">{t("preview.table.weight")}</th>
+                                <th className="p-2 text-start">{t("simulator.table.contribution")}</th>
+                                <th className="p-2 text-start">{t("simulator.table.decrease", { step })}</th>
+                                <th className="p-2 text-start">{t("simulator.table.increase", { step })}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {simulation.domains.map(domain => {
+                                const entry = sensitivity.find(item => item.domainId === domain.domainId);
+                                return (
+                                    <tr key={domain.domainId} className="border-t border-gray-100 dark:border-gray-700">
+                                        <td className="p-2">{getDomainName(domain.domainId)}</td>
+                                        <td className="p-2">{formatScore(domain.score)}</td>
+                                        <td className="p-2">{domain.weight}%</td>
+                                        <td className="p-2">
+                                            {domain.contribution === null ? "—" : Math.round(domain.contribution * 10) / 10}
+                                        </td>
+                                        <td className={`p-2 ${deltaClass(entry?.decreased ?? null, simulation.overall)}`}>
+                                            {formatDelta(entry?.decreased ?? null, simulation.overall)}
+                                        </td>
+                                        <td className={`p-2 ${deltaClass(entry?.increased ?? null, simulation.overall)}`}>
+                                            {formatDelta(entry?.increased ?? null, simulation.overall)}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -2,9 +2,11 @@ import React, { useState } from "react";
 import { motion } from "framer-motion";
 import { useTranslations } from "next-intl";
 import { useLocale } from "next-intl";
-import { Edit2, Trash2, BarChart, AlertCircle, Gauge, PercentIcon, FileCheck } from "lucide-react";
-import { AssessmentCriteria, Domain } from "@/types/assessment-criteria";
+import { Edit2, Trash2, BarChart, AlertCircle, Gauge, PercentIcon, FileCheck, ShieldAlert, Target } from "lucide-react";
+import { AssessmentCriteria, Domain, DEFAULT_MUST_HAVE_CAP } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain } from "@/types/assessment";
 import { CriteriaFormState } from "@/hooks/useCriteriaBuilder";
+import { ResultBandBadge } from "@/components/ui/assessment/ResultBandBadge";
 import { Button } from "@/components/ui/button";
 import {
     AlertDialog,
@@ -20,6 +22,7 @@ import {
 interface CriteriaSummaryProps {
     criteria: AssessmentCriteria;
     domains: Domain[];
+    tree: FrameworkTreeDomain[];
     onEdit: () => void;
     onDelete: () => Promise<boolean>;
     isDeleting: boolean;
@@ -30,6 +33,7 @@ interface CriteriaSummaryProps {
 export const CriteriaSummary: React.FC<CriteriaSummaryProps> = ({
     criteria,
     domains,
+    tree,
     onEdit,
     onDelete,
     isDeleting,
@@ -46,6 +50,55 @@ export const CriteriaSummary: React.FC<CriteriaSummaryProps> = ({
         return domain ? domain.name[locale === "ar" ? "ar" : "en"] : domainId;
     };
 
+    // Target of a domain as configured: the level's label, or the percentage
+    const formatTarget = (target: NonNullable<AssessmentCriteria["domainTargets"]>[number]): string => {
+        if (criteria.type === "percentage") {
+            return `${target.value}%`;
+        }
+        const level = target.levelIndex !== undefined ? criteria.levels?.[target.levelIndex] : undefined;
+        return level ? `${level.label[locale === "ar" ? "ar" : "en"] || level.label.en} (${level.value}%)` : "—";
+    };
+
+    // Control and specification weights grouped by domain, in framework order
+    const controlWeights = criteria.controlWeights || [];
+    const specificationWeights = criteria.specificationWeights || [];
+    const hasMustHaves = [...controlWeights, ...specificationWeights].some(entry => entry.mustHave);
+    const weightedDomains = tree
+        .map(domain => ({
+            domain,
+            controls: domain.controls
+                .map(control => ({
+                    control,
+                    entry: controlWeights.find(entry =>
+                        entry.domainId === domain.domainId && entry.controlId === control.controlId),
+                    specifications: control.specifications
+                        .map(spec => ({
+                            spec,
+                            entry: specificationWeights.find(entry =>
+                                entry.domainId === domain.domainId &&
+                                entry.controlId === control.controlId &&
+                                entry.specificationId === spec.id)
+                        }))
+                        .filter(item => item.entry)
+                }))
+                .filter(item => item.entry || item.specifications.length > 0)
+        }))
+        .filter(item => item.controls.length > 0);
+
+    // Weight and must-have badges of a control or specification
+    const renderItemWeight = (entry?: { weight?: number; mustHave?: boolean }) => (
+        <div className="flex items-center gap-2 flex-shrink-0">
+            {entry?.mustHave && (
+                <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">
+                    {t("itemWeights.mustHave")}
+                </span>
+            )}
+            <span className="px-2 py-0.5 rounded-full bg-gray-200 dark:bg-gray-600 text-sm font-medium">
+                {entry?.weight !== undefined ? `${entry.weight}%` : t("itemWeights.equal")}
+            </span>
+        </div>
+    );
+
     // Calculate total domain weight
     const totalWeight = criteria.domainWeights.reduce(
         (sum, domain) => sum + domain.weight,
@@ -188,15 +241,75 @@ export const CriteriaSummary: React.FC<CriteriaSummaryProps> = ({
                     </div>
                 </motion.div>
 
+                {/* Control and Specification Weights */}
+                {weightedDomains.length > 0 && (
+                    <motion.div
+                        variants={itemVariants}
+                        className="bg-white dark:bg-gray-800 border rounded-lg shadow-sm p-6"
+                    >
+                        <h3 className="text-xl font-medium mb-2">
+                            {t("summary.itemWeights")}
+                        </h3>
+                        {hasMustHaves && (
+                            <p className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-300 mb-4">
+                                <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                                {t("summary.mustHaveCap", { cap: criteria.mustHaveCap ?? DEFAULT_MUST_HAVE_CAP })}
+                            </p>
+                        )}
+
+                        <div className="space-y-4" dir={isRtl ? "rtl" : "ltr"}>
+                            {weightedDomains.map(({ domain, controls }) => (
+                                <div key={domain.domainId} className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-700">
+                                    <h4 className="font-medium mb-3">{getDomainName(domain.domainId)}</h4>
+                                    <ul className="space-y-2">
+                                        {controls.map(({ control, entry, specifications }) => (
+                                            <li key={control.controlId} className="text-sm">
+                                                <div className="flex items-center justify-between gap-3">
+                                                    <span className="min-w-0">
+                                                        <span className="text-gray-500">{control.controlId}</span>{" "}
+                                                        {control.name[locale === "ar" ? "ar" : "en"]}
+                                                    </span>
+                                                    {renderItemWeight(entry)}
+                                                </div>
+                                                {specifications.length > 0 && (
+                                                    <ul className={`mt-2 space-y-1 ${isRtl ? "pr-4 border-r" : "pl-4 border-l"}`}>
+                                                        {specifications.map(({ spec, entry: specEntry }) => (
+                                                            <li key={spec.id} className="flex items-center justify-between gap-3">
+                                                                <span className="min-w-0 text-gray-700 dark:text-gray-300">
+                                                                    <span className="text-gray-500">{spec.number}</span>{" "}
+                                                                    {spec.name[locale === "ar" ? "ar" : "en"]}
+                                                                </span>
+                                                                {renderItemWeight(specEntry)}
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                    </motion.div>
+                )}
+
                 {/* Maturity/Compliance Levels */}
                 {criteria.type !== "percentage" && criteria.levels && criteria.levels.length > 0 && (
                     <motion.div
                         variants={itemVariants}
                         className="bg-white dark:bg-gray-800 border rounded-lg shadow-sm p-6"
                     >
-                        <h3 className="text-xl font-medium mb-4">
+                        <h3 className={`text-xl font-medium ${criteria.template ? "mb-1" : "mb-4"}`}>
                             {t(`summary.${criteria.type}Levels`)}
                         </h3>
+                        {criteria.template && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                                {t("templates.basedOn", {
+                                    name: criteria.template.name[locale === "ar" ? "ar" : "en"] || criteria.template.name.en,
+                                    version: criteria.template.version
+                                })}
+                            </p>
+                        )}
 
                         <div className="space-y-3" dir={isRtl ? "rtl" : "ltr"}>
                             {criteria.levels
@@ -230,6 +343,50 @@ export const CriteriaSummary: React.FC<CriteriaSummaryProps> = ({
                         </div>
                     </motion.div>
                 )}
+
+                {/* Result Bands and Domain Targets */}
+                {((criteria.resultBands?.length || 0) > 0 || (criteria.domainTargets?.length || 0) > 0) && (
+                    <motion.div
+                        variants={itemVariants}
+                        className="bg-white dark:bg-gray-800 border rounded-lg shadow-sm p-6"
+                    >
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6" dir={isRtl ? "rtl" : "ltr"}>
+                            <div>
+                                <h3 className="text-xl font-medium mb-4">{t("summary.resultBands")}</h3>
+                                {(criteria.resultBands || []).length === 0 ? (
+                                    <p className="text-sm text-gray-500 italic">{t("summary.noResultBands")}</p>
+                                ) : (
+                                    <ul className="space-y-2">
+                                        {(criteria.resultBands || []).map((band, index) => (
+                                            <li key={index} className="flex items-center justify-between gap-3 text-sm">
+                                                <ResultBandBadge band={band} />
+                                                <span className="font-medium">{band.min}–{band.max}%</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                            <div>
+                                <h3 className="flex items-center gap-2 text-xl font-medium mb-4">
+                                    <Target className="h-5 w-5 text-[var(--primary-blue)]" />
+                                    {t("summary.domainTargets")}
+                                </h3>
+                                {(criteria.domainTargets || []).length === 0 ? (
+                                    <p className="text-sm text-gray-500 italic">{t("summary.noDomainTargets")}</p>
+                                ) : (
+                                    <ul className="space-y-2">
+                                        {(criteria.domainTargets || []).map(target => (
+                                            <li key={target.domainId} className="flex items-center justify-between gap-3 text-sm">
+                                                <span>{getDomainName(target.domainId)}</span>
+                                                <span className="font-medium">{formatTarget(target)}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
             </motion.div>
 
             {/* Delete Confirmation Dialog */}
@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { AlertCircle, Library, Save, Trash2, Download } from "lucide-react";
+import { CriteriaLevel, CriteriaTemplateReference } from "@/types/assessment-criteria";
+import { CriteriaTemplateVersion, LevelCriteriaType } from "@/types/criteria-template";
+import { useCriteriaTemplates } from "@/hooks/useCriteriaTemplates";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CriteriaTemplateSaveDialog } from "./CriteriaTemplateSaveDialog";
+import { CriteriaSpinner } from "./CriteriaSpinner";
+
+interface CriteriaTemplatePanelProps {
+    criteriaType: LevelCriteriaType;
+    levels: CriteriaLevel[];
+    template?: CriteriaTemplateReference;
+    onApply: (levels: CriteriaLevel[], template: CriteriaTemplateReference) => void;
+}
+
+// Copies of the levels, so later edits in the wizard never change a loaded template version
+const cloneLevels = (levels: CriteriaLevel[]): CriteriaLevel[] =>
+    levels.map(level => ({ ...level, label: { ...level.label }, description: { ...level.description } }));
+
+export const CriteriaTemplatePanel: React.FC<CriteriaTemplatePanelProps> = ({
+    criteriaType,
+    levels,
+    template,
+    onApply,
+}) => {
+    const t = useTranslations("CriteriaBuilder");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const { templates, loading, error, fetchVersions, saveTemplate, removeTemplate } = useCriteriaTemplates(criteriaType);
+
+    const [selectedId, setSelectedId] = useState<string>("");
+    const [versions, setVersions] = useState<CriteriaTemplateVersion[]>([]);
+    const [selectedVersion, setSelectedVersion] = useState<string>("");
+    const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+    const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+    const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const selectedTemplate = templates.find(item => item.id === selectedId);
+    const version = versions.find(item => String(item.version) === selectedVersion);
+
+    // Load the versions of the selected template, offering the latest one first
+    useEffect(() => {
+        if (!selectedId) {
+            setVersions([]);
+            setSelectedVersion("");
+            return;
+        }
+
+        const loadVersions = async () => {
+            setIsLoadingVersions(true);
+            try {
+                const versionsData = await fetchVersions(selectedId);
+                setVersions(versionsData);
+                setSelectedVersion(versionsData.length > 0 ? String(versionsData[0].version) : "");
+            } catch (err) {
+                console.error("Error fetching criteria template versions:", err);
+                setVersions([]);
+            } finally {
+                setIsLoadingVersions(false);
+            }
+        };
+
+        loadVersions();
+    }, [selectedId]);
+
+    const handleApply = () => {
+        if (!selectedTemplate || !version) return;
+        onApply(cloneLevels(version.levels), {
+            templateId: selectedTemplate.id,
+            version: version.version,
+            name: selectedTemplate.name
+        });
+    };
+
+    const handleSave: React.ComponentProps<typeof CriteriaTemplateSaveDialog>["onSave"] = async (target, note) => {
+        const saved = await saveTemplate(levels, target, note);
+        // The criteria now follow the version just saved
+        onApply(levels, { templateId: saved.id, version: saved.version, name: saved.name });
+    };
+
+    const handleDelete = async () => {
+        if (!selectedId) return;
+        setIsDeleting(true);
+        try {
+            await removeTemplate(selectedId);
+            setSelectedId("");
+            setIsDeleteDialogOpen(false);
+        } catch (err) {
+            console.error("Error deleting criteria template:", err);
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <div className="bg-blue-50/60 dark:bg-blue-900/10 border border-blue-100 dark:border-blue-900 rounded-lg p-4 mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-2">
+                    <Library className="h-5 w-5 text-[var(--primary-blue)]" />
+                    <h3 className="text-lg font-medium">{t("templates.title")}</h3>
+                </div>
+                <Button
+                    variant="outline"
+                    onClick={() => setIsSaveDialogOpen(true)}
+                    disabled={levels.length === 0}
+                    className="flex items-center gap-2 bg-white"
+                >
+                    <Save className="h-4 w-4" />
+                    {t("templates.saveAsTemplate")}
+                </Button>
+            </div>
+
+            {template && (
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                    {t("templates.basedOn", { name: template.name[lang] || template.name.en, version: template.version })}
+                </p>
+            )}
+
+            {error && (
+                <p className="flex items-center gap-2 text-sm text-red-600 mb-3">
+                    <AlertCircle className="h-4 w-4" />
+                    {t("templates.fetchFailed")}
+                </p>
+            )}
+
+            {loading ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <CriteriaSpinner size="sm" />
+                    {t("templates.loading")}
+                </div>
+            ) : templates.length === 0 ? (
+                <p className="text-sm text-gray-500">{t("templates.noTemplates")}</p>
+            ) : (
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <Select value={selectedId} onValueChange={setSelectedId}>
+                        <SelectTrigger className="bg-white sm:flex-1" dir={isRtl ? "rtl" : "ltr"}>
+                            <SelectValue placeholder={t("templates.selectTemplate")} />
+                        </SelectTrigger>
+                        <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                            {templates.map(item => (
+                                <SelectItem key={item.id} value={item.id}>
+                                    {item.name[lang] || item.name.en}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select
+                        value={selectedVersion}
+                        onValueChange={setSelectedVersion}
+                        disabled={!selectedId || isLoadingVersions || versions.length === 0}
+                    >
+                        <SelectTrigger className="bg-white sm:w-[160px]" dir={isRtl ? "rtl" : "ltr"}>
+                            <SelectValue placeholder={t("templates.selectVersion")} />
+                        </SelectTrigger>
+                        <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                            {versions.map(item => (
+                                <SelectItem key={item.id} value={String(item.version)}>
+                                    {item.version === selectedTemplate?.version
+                                        ? t("templates.latestVersion", { version: item.version })
+                                        : t("templates.version", { version: item.version })}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Button
+                        onClick={handleApply}
+                        disabled={!version}
+                        className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white flex items-center gap-2"
+                    >
+                        <Download className="h-4 w-4" />
+                        {t("templates.apply")}
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setIsDeleteDialogOpen(true)}
+                        disabled={!selectedId}
+                        className="bg-white text-red-600 hover:text-red-700"
+                        title={t("templates.delete")}
+                    >
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            )}
+
+            {/* Preview of the selected version */}
+            {version && (
+                <div className="mt-3 bg-white dark:bg-gray-800 border rounded-md p-3">
+                    {(selectedTemplate?.description[lang] || selectedTemplate?.description.en) && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+                            {selectedTemplate?.description[lang] || selectedTemplate?.description.en}
+                        </p>
+                    )}
+                    {version.note && (
+                        <p className="text-xs text-gray-500 mb-2">{version.note}</p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                        {version.levels.map((level, index) => (
+                            <Badge key={index} variant="outline">
+                                {level.label[lang] || level.label.en} ({level.value}%)
+                            </Badge>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <CriteriaTemplateSaveDialog
+                isOpen={isSaveDialogOpen}
+                onClose={() => setIsSaveDialogOpen(false)}
+                templates={templates}
+                levels={levels}
+                defaultTemplateId={template?.templateId}
+                onSave={handleSave}
+            />
+
+            <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+                <AlertDialogContent dir={isRtl ? "rtl" : "ltr"}>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t("templates.deleteConfirm.title")}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {t("templates.deleteConfirm.description", {
+                                name: selectedTemplate ? selectedTemplate.name[lang] || selectedTemplate.name.en : ""
+                            })}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isDeleting}>{t("templates.cancel")}</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleDelete();
+                            }}
+                            disabled={isDeleting}
+                            className="bg-red-600 hover:bg-red-700 text-white"
+                        >
+                            {t("templates.delete")}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+};
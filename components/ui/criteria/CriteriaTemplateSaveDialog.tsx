@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { AlertCircle, Save } from "lucide-react";
+import { CriteriaLevel, LocalizedText } from "@/types/assessment-criteria";
+import { CriteriaTemplate } from "@/types/criteria-template";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { CriteriaSpinner } from "./CriteriaSpinner";
+
+interface CriteriaTemplateSaveDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    templates: CriteriaTemplate[];
+    levels: CriteriaLevel[];
+    defaultTemplateId?: string; // Template the levels were applied from, offered for a new version
+    onSave: (
+        target: { templateId: string } | { name: LocalizedText; description: LocalizedText },
+        note?: string
+    ) => Promise<void>;
+}
+
+// Value of the template select when the levels are saved as a new template
+const NEW_TEMPLATE = "new";
+
+export const CriteriaTemplateSaveDialog: React.FC<CriteriaTemplateSaveDialogProps> = ({
+    isOpen,
+    onClose,
+    templates,
+    levels,
+    defaultTemplateId,
+    onSave,
+}) => {
+    const t = useTranslations("CriteriaBuilder");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const [targetId, setTargetId] = useState(NEW_TEMPLATE);
+    const [name, setName] = useState<LocalizedText>({ en: "", ar: "" });
+    const [description, setDescription] = useState<LocalizedText>({ en: "", ar: "" });
+    const [note, setNote] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from the applied template when it is still in the library
+    useEffect(() => {
+        if (isOpen) {
+            setTargetId(defaultTemplateId && templates.some(template => template.id === defaultTemplateId)
+                ? defaultTemplateId
+                : NEW_TEMPLATE);
+            setName({ en: "", ar: "" });
+            setDescription({ en: "", ar: "" });
+            setNote("");
+            setError(null);
+        }
+    }, [isOpen]);
+
+    const isNew = targetId === NEW_TEMPLATE;
+    const canSave = levels.length > 0 && (!isNew || (name.en.trim() !== "" && name.ar.trim() !== ""));
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave(
+                isNew
+                    ? {
+                        name: { en: name.en.trim(), ar: name.ar.trim() },
+                        description: { en: description.en.trim(), ar: description.ar.trim() }
+                    }
+                    : { templateId: targetId },
+                note.trim() || undefined
+            );
+            onClose();
+        } catch (err) {
+            console.error("Error saving criteria template:", err);
+            setError(t("templates.saveFailed"));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onClose}>
+            <DialogContent className="max-w-lg" dir={isRtl ? "rtl" : "ltr"}>
+                <DialogHeader>
+                    <DialogTitle>{t("templates.saveTitle")}</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    {error && (
+                        <Alert variant="destructive">
+                            <AlertCircle className="h-4 w-4" />
+                            <AlertDescription>{error}</AlertDescription>
+                        </Alert>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label>{t("templates.saveAs")}</Label>
+                        <Select value={targetId} onValueChange={setTargetId}>
+                            <SelectTrigger dir={isRtl ? "rtl" : "ltr"}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                                <SelectItem value={NEW_TEMPLATE}>{t("templates.newTemplate")}</SelectItem>
+                                {templates.map(template => (
+                                    <SelectItem key={template.id} value={template.id}>
+                                        {t("templates.nextVersionOf", {
+                                            name: template.name[lang] || template.name.en,
+                                            version: template.version + 1
+                                        })}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    {isNew && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="template-name-en">{t("templates.nameEn")}</Label>
+                                <Input
+                                    id="template-name-en"
+                                    value={name.en}
+                                    onChange={(e) => setName({ ...name, en: e.target.value })}
+                                    dir="ltr"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="template-name-ar">{t("templates.nameAr")}</Label>
+                                <Input
+                                    id="template-name-ar"
+                                    value={name.ar}
+                                    onChange={(e) => setName({ ...name, ar: e.target.value })}
+                                    dir="rtl"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="template-description-en">{t("templates.descriptionEn")}</Label>
+                                <Textarea
+                                    id="template-description-en"
+                                    value={description.en}
+                                    onChange={(e) => setDescription({ ...description, en: e.target.value })}
+                                    dir="ltr"
+                                    rows={2}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="template-description-ar">{t("templates.descriptionAr")}</Label>
+                                <Textarea
+                                    id="template-description-ar"
+                                    value={description.ar}
+                                    onChange={(e) => setDescription({ ...description, ar: e.target.value })}
+                                    dir="rtl"
+                                    rows={2}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label htmlFor="template-note">{t("templates.note")}</Label>
+                        <Input
+                            id="template-note"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder={t("templates.notePlaceholder")}
+                        />
+                    </div>
+
+                    <p className="text-sm text-gray-500">{t("templates.levelCount", { count: levels.length })}</p>
+                </div>
+
+                <DialogFooter className="gap-2">
+                    <Button variant="outline" onClick={onClose} disabled={isSaving}>
+                        {t("templates.cancel")}
+                    </Button>
+                    <Button
+                        onClick={handleSave}
+                        disabled={!canSave || isSaving}
+                        className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white flex items-center gap-2"
+                    >
+                        {isSaving ? <CriteriaSpinner className="h-4 w-4 text-white" size="sm" /> : <Save className="h-4 w-4" />}
+                        {t("templates.save")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
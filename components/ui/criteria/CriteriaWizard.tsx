@@ -11,13 +11,16 @@ import {
     ArrowRight
 } from "lucide-react";
 import { Domain, DomainWeight } from "@/types/assessment-criteria";
-import { CriteriaFormState } from "@/hooks/useCriteriaBuilder";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import { CriteriaFormState, WizardStep } from "@/hooks/useCriteriaBuilder";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CriteriaTypeSelector } from "./CriteriaTypeSelector";
 import { CriteriaLevelConfig } from "./CriteriaLevelConfig";
 import { CriteriaDomainWeight } from "./CriteriaDomainWeight";
+import { CriteriaItemWeights } from "./CriteriaItemWeights";
+import { CriteriaResultBands } from "./CriteriaResultBands";
 import { CriteriaPreview } from "./CriteriaPreview";
 import { CriteriaSpinner } from "./CriteriaSpinner";
 
@@ -25,12 +28,14 @@ interface CriteriaWizardProps {
     isOpen: boolean;
     onClose: () => void;
     onSave: (state: CriteriaFormState) => Promise<boolean>;
+    frameworkId: string;
     domains: Domain[];
+    tree: FrameworkTreeDomain[];
     formState: CriteriaFormState;
     isLoading: boolean;
     isSaving: boolean;
-    currentStep: "type" | "levels" | "domains" | "preview";
-    errors: { levels?: string; domains?: string; general?: string };
+    currentStep: WizardStep;
+    errors: { levels?: string; domains?: string; weights?: string; bands?: string; general?: string };
     goToNextStep: () => boolean;
     goToPrevStep: () => void;
     updateForm: (updates: Partial<CriteriaFormState>) => void;
@@ -40,7 +45,9 @@ export const CriteriaWizard: React.FC<CriteriaWizardProps> = ({
     isOpen,
     onClose,
     onSave,
+    frameworkId,
     domains,
+    tree,
     formState,
     isLoading,
     isSaving,
@@ -58,11 +65,15 @@ export const CriteriaWizard: React.FC<CriteriaWizardProps> = ({
     const calculateProgress = (): number => {
         switch (currentStep) {
             case "type":
-                return 25;
+                return 17;
             case "levels":
-                return 50;
+                return 33;
             case "domains":
-                return 75;
+                return 50;
+            case "weights":
+                return 67;
+            case "bands":
+                return 83;
             case "preview":
                 return 100;
             default:
@@ -91,6 +102,10 @@ export const CriteriaWizard: React.FC<CriteriaWizardProps> = ({
                 return t("wizard.steps.levels");
             case "domains":
                 return t("wizard.steps.domains");
+            case "weights":
+                return t("wizard.steps.weights");
+            case "bands":
+                return t("wizard.steps.bands");
             case "preview":
                 return t("wizard.steps.preview");
             default:
@@ -122,7 +137,9 @@ export const CriteriaWizard: React.FC<CriteriaWizardProps> = ({
                     <CriteriaLevelConfig
                         criteriaType={formState.type as "maturity" | "compliance"}
                         levels={formState.levels}
-                        onChange={(levels) => updateForm({ levels })}
+                        onChange={(levels) => updateForm({ levels, template: undefined })}
+                        template={formState.template}
+                        onApplyTemplate={(levels, template) => updateForm({ levels, template })}
                         error={errors.levels}
                     />
                 );
@@ -135,11 +152,36 @@ export const CriteriaWizard: React.FC<CriteriaWizardProps> = ({
                         error={errors.domains}
                     />
                 );
+            case "weights":
+                return (
+                    <CriteriaItemWeights
+                        tree={tree}
+                        controlWeights={formState.controlWeights}
+                        specificationWeights={formState.specificationWeights}
+                        mustHaveCap={formState.mustHaveCap}
+                        onChange={updateForm}
+                        error={errors.weights}
+                    />
+                );
+            case "bands":
+                return (
+                    <CriteriaResultBands
+                        criteriaType={formState.type}
+                        levels={formState.levels}
+                        domains={domains}
+                        resultBands={formState.resultBands}
+                        domainTargets={formState.domainTargets}
+                        onChange={updateForm}
+                        error={errors.bands}
+                    />
+                );
             case "preview":
                 return (
                     <CriteriaPreview
+                        frameworkId={frameworkId}
                         formState={formState}
                         domains={domains}
+                        tree={tree}
                         error={errors.general}
                     />
                 );
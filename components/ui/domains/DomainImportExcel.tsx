@@ -15,7 +15,11 @@ import {
 import { Button } from "@/components/ui/button";
 import { FileSpreadsheet, Upload, CheckCircle, AlertCircle, X, Download, AlertTriangle } from "lucide-react";
 import Spinner from "@/components/ui/spinner";
-import { parseExcelFile, DomainRow, importDomainsToFirestore, ImportResult, downloadDomainTemplate } from "@/lib/firestore/importDomains";
+import { parseExcelFile, DomainRow, importDomainsToFirestore, getDomainImportDiff, ImportResult, downloadDomainTemplate } from "@/lib/firestore/importDomains";
+import { ImportDiff, ImportMode } from "@/lib/firestore/importDiff";
+import { ImportDiffPreview } from "@/components/ui/import/ImportDiffPreview";
+import { ImportJobProgress, ImportRollbackNotice } from "@/components/ui/import/ImportJobProgress";
+import { ImportJobProgress as ImportJobProgressState } from "@/lib/firestore/importJobs";
 
 interface DomainImportExcelProps {
     frameworkId: string;
@@ -40,10 +44,29 @@ export function DomainImportExcel({
     const [isUploading, setIsUploading] = useState(false);
     const [previewData, setPreviewData] = useState<DomainRow[]>([]);
     const [importResult, setImportResult] = useState<ImportResult | null>(null);
+    const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+    const [isDiffLoading, setIsDiffLoading] = useState(false);
+    const [importMode, setImportMode] = useState<ImportMode>("create-only");
+    const [importProgress, setImportProgress] = useState<ImportJobProgressState | null>(null);
+    const [isAborting, setIsAborting] = useState(false);
     const [step, setStep] = useState<"upload" | "preview" | "result">("upload");
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
     const [dragOver, setDragOver] = useState(false);
 
+    // Compare the parsed rows with the domains already in the framework
+    const loadImportDiff = async (data: DomainRow[]) => {
+        try {
+            setIsDiffLoading(true);
+            setImportDiff(await getDomainImportDiff(frameworkId, data));
+        } catch (error) {
+            console.error("Error comparing domains:", error);
+            setImportDiff(null);
+        } finally {
+            setIsDiffLoading(false);
+        }
+    };
+
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files.length > 0) {
             const selectedFile = e.target.files[0];
@@ -60,6 +83,7 @@ export function DomainImportExcel({
                 const data = await parseExcelFile(selectedFile);
                 setPreviewData(data);
                 setStep("preview");
+                loadImportDiff(data);
             } catch (error) {
                 console.error("Error parsing Excel file:", error);
             } finally {
@@ -79,6 +103,8 @@ export function DomainImportExcel({
         setFileName("");
         setPreviewData([]);
         setImportResult(null);
+        setImportDiff(null);
+        setImportMode("create-only");
         setStep("upload");
         if (fileInputRef.current) {
             fileInputRef.current.value = "";
@@ -88,23 +114,42 @@ export function DomainImportExcel({
     const handleImport = async () => {
         if (!frameworkId || !previewData.length) return;
 
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+
         try {
             setIsUploading(true);
-            const result = await importDomainsToFirestore(frameworkId, previewData);
+            setImportProgress({ processedRows: 0, totalRows: previewData.length });
+            const result = await importDomainsToFirestore(frameworkId, previewData, importMode, {
+                signal: abortController.signal,
+                onProgress: setImportProgress
+            });
             setImportResult(result);
             setStep("result");
 
             // If import was successful or partially successful, trigger the onImportComplete callback
-            if (result.successCount > 0) {
+            if (result.successCount > 0 || result.removedCount > 0) {
                 onImportComplete();
             }
         } catch (error) {
             console.error("Error importing domains:", error);
         } finally {
+            abortControllerRef.current = null;
             setIsUploading(false);
+            setIsAborting(false);
+            setImportProgress(null);
         }
     };
 
+    // Remaining chunks are skipped and everything already written is rolled back
+    const handleAbort = () => {
+        setIsAborting(true);
+        abortControllerRef.current?.abort();
+    };
+
+    // Rows without ID or name are reported as errors on import and left out of the comparison
+    const invalidRowCount = previewData.filter(row => !row.domainId || (!row.nameEn && !row.nameAr)).length;
+
     const handleDownloadTemplate = () => {
         downloadDomainTemplate();
     };
@@ -133,6 +178,7 @@ export function DomainImportExcel({
                 parseExcelFile(selectedFile).then(data => {
                     setPreviewData(data);
                     setStep("preview");
+                    loadImportDiff(data);
                     setIsLoading(false);
                 }).catch(error => {
                     console.error("Error parsing Excel file:", error);
@@ -243,53 +289,49 @@ export function DomainImportExcel({
                                         variant="outline"
                                         size="sm"
                                         onClick={() => setStep("upload")}
+                                        disabled={isUploading}
                                     >
                                         {t("changeFile")}
                                     </Button>
                                 </div>
                             </div>
 
-                            <div className="border rounded-lg overflow-hidden">
-                                <div className="overflow-x-auto">
-                                    <table className="w-full">
-                                        <thead className="bg-gray-50 text-xs uppercase text-gray-700">
-                                            <tr>
-                                                <th className="px-4 py-2 border-b">{t("domainId")}</th>
-                                                <th className="px-4 py-2 border-b">{t("nameEn")}</th>
-                                                <th className="px-4 py-2 border-b">{t("nameAr")}</th>
-                                            </tr>
-                                        </thead>
-                                        <tbody>
-                                            {previewData.slice(0, 5).map((row, index) => (
-                                                <tr key={index} className="border-b">
-                                                    <td className="px-4 py-2">
-                                                        {row.domainId || <span className="text-red-500">{t("missing")}</span>}
-                                                    </td>
-                                                    <td className="px-4 py-2">
-                                                        {row.nameEn || <span className="text-red-500">{t("missing")}</span>}
-                                                    </td>
-                                                    <td className="px-4 py-2" dir="rtl">
-                                                        {row.nameAr || <span className="text-red-500">{t("missing")}</span>}
-                                                    </td>
-                                                </tr>
-                                            ))}
-                                        </tbody>
-                                    </table>
+                            {invalidRowCount > 0 && (
+                                <div className="flex items-center gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-700">
+                                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                                    <span>{t("invalidRows", { count: invalidRowCount })}</span>
                                 </div>
+                            )}
 
-                                {previewData.length > 5 && (
-                                    <div className="px-4 py-2 bg-gray-50 text-xs text-gray-500">
-                                        {t("showingPreview", { count: 5, total: previewData.length })}
-                                    </div>
-                                )}
-                            </div>
+                            {isUploading ? (
+                                <ImportJobProgress
+                                    progress={importProgress}
+                                    aborting={isAborting}
+                                    onAbort={handleAbort}
+                                />
+                            ) : (
+                                <ImportDiffPreview
+                                    diff={importDiff}
+                                    loading={isDiffLoading}
+                                    mode={importMode}
+                                    onModeChange={setImportMode}
+                                />
+                            )}
                         </div>
                     )}
 
                     {step === "result" && importResult && (
                         <div className="py-4">
                             <div className="mb-6 text-center">
-                                {importResult.success ? (
+                                {importResult.status !== "completed" ? (
+                                    <div className="mb-4">
+                                        <ImportRollbackNotice
+                                            jobId={importResult.jobId}
+                                            status={importResult.status}
+                                            rollbackReason={importResult.rollbackReason}
+                                        />
+                                    </div>
+                                ) : importResult.success ? (
                                     <div className="bg-green-100 text-green-800 rounded-lg p-4 mb-4">
                                         <h3 className="text-lg font-semibold">{t("importSuccess")}</h3>
                                         <p>{t("importSummary", {
@@ -308,6 +350,12 @@ export function DomainImportExcel({
                                         })}</p>
                                     </div>
                                 )}
+                                {(importResult.skippedCount > 0 || importResult.removedCount > 0) && (
+                                    <p className="text-sm text-gray-600">{t("importSkippedRemoved", {
+                                        skipped: importResult.skippedCount,
+                                        removed: importResult.removedCount
+                                    })}</p>
+                                )}
                             </div>
 
                             {importResult.errors.length > 0 && (
@@ -352,7 +400,7 @@ export function DomainImportExcel({
                         </Button>
                         <Button
                             onClick={handleImport}
-                            disabled={isUploading || previewData.length === 0}
+                            disabled={isUploading || isDiffLoading || previewData.length === 0}
                             className="bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700"
                         >
                             {isUploading ? (
@@ -0,0 +1,206 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Upload, FileUp, AlertCircle } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import {
+    FrameworkBundle,
+    parseFrameworkBundleFile,
+    importFrameworkBundle,
+} from "@/lib/firestore/frameworkBundle";
+
+interface FrameworkBundleImportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onImportComplete: (frameworkId: string) => void;
+}
+
+export function FrameworkBundleImportDialog({
+    open,
+    onOpenChange,
+    onImportComplete
+}: FrameworkBundleImportDialogProps) {
+    const t = useTranslations("FrameworkManagement");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const { toast } = useToast();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [bundle, setBundle] = useState<FrameworkBundle | null>(null);
+    const [frameworkId, setFrameworkId] = useState("");
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [parsing, setParsing] = useState(false);
+    const [importing, setImporting] = useState(false);
+
+    const resetForm = () => {
+        setBundle(null);
+        setFrameworkId("");
+        setParseError(null);
+        if (fileInputRef.current) {
+            fileInputRef.current.value = "";
+        }
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        if (!isOpen) {
+            resetForm();
+        }
+        onOpenChange(isOpen);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            setParsing(true);
+            setParseError(null);
+            const parsed = await parseFrameworkBundleFile(file);
+            setBundle(parsed);
+            setFrameworkId(parsed.framework.id);
+        } catch (error) {
+            console.error("Error parsing framework file:", error);
+            setBundle(null);
+            setParseError(error instanceof Error ? error.message : t("importParseError"));
+        } finally {
+            setParsing(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!bundle || !frameworkId.trim()) return;
+
+        try {
+            setImporting(true);
+            const result = await importFrameworkBundle(bundle, { frameworkId: frameworkId.trim() });
+
+            toast({
+                title: t("frameworkImported"),
+                description: t("frameworkImportedDescription", {
+                    domains: result.domainCount,
+                    controls: result.controlCount,
+                    specifications: result.specificationCount
+                }),
+            });
+
+            onImportComplete(result.frameworkId);
+            handleOpenChange(false);
+        } catch (error) {
+            console.error("Error importing framework:", error);
+            toast({
+                variant: "destructive",
+                title: t("importError"),
+                description: error instanceof Error ? error.message : t("importErrorDescription"),
+            });
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const controlCount = bundle?.domains.reduce((sum, domain) => sum + domain.controls.length, 0) ?? 0;
+    const specificationCount = bundle?.domains.reduce((sum, domain) =>
+        sum + domain.controls.reduce((controlSum, control) => controlSum + control.specifications.length, 0), 0) ?? 0;
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent dir={isRtl ? "rtl" : "ltr"}>
+                <DialogHeader>
+                    <DialogTitle>{t("importFramework")}</DialogTitle>
+                    <DialogDescription>{t("importFrameworkDescription")}</DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,.xlsx,.xls"
+                        onChange={handleFileChange}
+                        className="hidden"
+                    />
+                    <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={parsing || importing}
+                    >
+                        {parsing ? (
+                            <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />
+                        ) : (
+                            <FileUp className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                        )}
+                        {t("chooseFrameworkFile")}
+                    </Button>
+
+                    {parseError && (
+                        <div className="flex items-center gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+                            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                            <span>{parseError}</span>
+                        </div>
+                    )}
+
+                    {bundle && (
+                        <>
+                            <div className="rounded-lg bg-gray-50 p-3 text-sm">
+                                <p className="font-medium">{bundle.framework.data.name}</p>
+                                <p className="text-gray-600">
+                                    {t("versionCounts", {
+                                        domains: bundle.domains.length,
+                                        controls: controlCount,
+                                        specifications: specificationCount
+                                    })}
+                                </p>
+                                <p className="text-gray-600">
+                                    {bundle.criteria ? t("importIncludesCriteria") : t("importWithoutCriteria")}
+                                </p>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="import-framework-id">{t("importFrameworkId")}</Label>
+                                <Input
+                                    id="import-framework-id"
+                                    value={frameworkId}
+                                    onChange={(e) => setFrameworkId(e.target.value)}
+                                    dir="ltr"
+                                />
+                                <p className="text-xs text-gray-500">{t("importFrameworkIdHint")}</p>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+                        {commonT("cancel")}
+                    </Button>
+                    <Button
+                        className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white"
+                        onClick={handleImport}
+                        disabled={!bundle || !frameworkId.trim() || importing}
+                    >
+                        {importing ? (
+                            <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />
+                        ) : (
+                            <Upload className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                        )}
+                        {t("import")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
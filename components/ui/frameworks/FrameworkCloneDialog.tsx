@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Copy } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import { cloneFramework } from "@/lib/services/frameworkService";
+import { Framework } from "@/types/firebase";
+
+interface FrameworkCloneDialogProps {
+    framework: Framework | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onCloned: (frameworkId: string) => void;
+}
+
+export function FrameworkCloneDialog({
+    framework,
+    open,
+    onOpenChange,
+    onCloned
+}: FrameworkCloneDialogProps) {
+    const t = useTranslations("FrameworkManagement");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const { toast } = useToast();
+
+    const [name, setName] = useState("");
+    const [newId, setNewId] = useState("");
+    const [cloning, setCloning] = useState(false);
+
+    // Suggest a name for the copy whenever the dialog opens
+    useEffect(() => {
+        if (open && framework) {
+            setName(t("cloneDefaultName", { name: framework.name }));
+            setNewId("");
+        }
+    }, [open, framework, t]);
+
+    const handleClone = async () => {
+        if (!framework || !name.trim()) return;
+
+        try {
+            setCloning(true);
+            const result = await cloneFramework(framework.id, name.trim(), newId.trim() || undefined);
+
+            toast({
+                title: t("frameworkCloned"),
+                description: t("frameworkClonedDescription", { count: result.copiedCount }),
+            });
+
+            onCloned(result.frameworkId);
+            onOpenChange(false);
+        } catch (error) {
+            toast({
+                variant: "destructive",
+                title: t("cloneError"),
+                description: error instanceof Error ? error.message : t("cloneErrorDescription"),
+            });
+        } finally {
+            setCloning(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent dir={isRtl ? "rtl" : "ltr"}>
+                <DialogHeader>
+                    <DialogTitle>{t("cloneFramework")}</DialogTitle>
+                    <DialogDescription>{t("cloneFrameworkDescription")}</DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="clone-name">{t("cloneName")}</Label>
+                        <Input
+                            id="clone-name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="clone-id">{t("cloneId")}</Label>
+                        <Input
+                            id="clone-id"
+                            value={newId}
+                            onChange={(e) => setNewId(e.target.value)}
+                            placeholder={t("cloneIdPlaceholder")}
+                            dir="ltr"
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={cloning}>
+                        {commonT("cancel")}
+                    </Button>
+                    <Button
+                        className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white"
+                        onClick={handleClone}
+                        disabled={cloning || !name.trim()}
+                    >
+                        {cloning ? (
+                            <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />
+                        ) : (
+                            <Copy className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                        )}
+                        {t("clone")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
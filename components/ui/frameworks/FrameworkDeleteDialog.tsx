@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { AlertTriangle, FileX, Briefcase, GitBranch } from "lucide-react";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import Spinner from "@/components/ui/spinner";
+import { previewFrameworkDeletion } from "@/lib/services/frameworkService";
+import { CascadeDeletePlan } from "@/types/cascade-delete";
+import { getLocalizedValue } from "@/types/firebase";
+
+interface FrameworkDeleteDialogProps {
+    frameworkId: string | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onConfirm: (blockIfReferenced: boolean) => void;
+}
+
+export function FrameworkDeleteDialog({
+    frameworkId,
+    open,
+    onOpenChange,
+    onConfirm
+}: FrameworkDeleteDialogProps) {
+    const t = useTranslations("FrameworkManagement");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+
+    const [plan, setPlan] = useState<CascadeDeletePlan | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [previewError, setPreviewError] = useState(false);
+    const [forceDelete, setForceDelete] = useState(false);
+
+    // Load the dry-run preview whenever the dialog opens
+    useEffect(() => {
+        const fetchPreview = async () => {
+            if (!frameworkId) return;
+            setLoading(true);
+            setPreviewError(false);
+            setForceDelete(false);
+            try {
+                setPlan(await previewFrameworkDeletion(frameworkId));
+            } catch (error) {
+                console.error("Error previewing framework deletion:", error);
+                setPreviewError(true);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        if (open) {
+            fetchPreview();
+        } else {
+            setPlan(null);
+        }
+    }, [open, frameworkId]);
+
+    const hasReferences = (plan?.referencingProjects.length ?? 0) > 0;
+    const hasPinned = (plan?.pinnedProjects.length ?? 0) > 0;
+    const canDelete = !loading && !previewError && !hasPinned && (!hasReferences || forceDelete);
+
+    return (
+        <AlertDialog open={open} onOpenChange={onOpenChange}>
+            <AlertDialogContent dir={isRtl ? "rtl" : "ltr"}>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>{t("deleteFrameworkConfirmation")}</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        {t("deleteFrameworkWarning")}
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+
+                {loading ? (
+                    <div className="flex justify-center py-4">
+                        <Spinner size="sm" />
+                    </div>
+                ) : previewError ? (
+                    <p className="text-sm text-red-600">{t("deletePreviewError")}</p>
+                ) : plan && (
+                    <div className="space-y-3 text-sm">
+                        {/* Documents removed */}
+                        <div className="flex items-start gap-2">
+                            <FileX className="h-4 w-4 text-gray-500 mt-0.5 flex-shrink-0" />
+                            <div className="flex-1">
+                                <p>{t("deletePreviewDocuments", { count: plan.documents.length + plan.mappings.length + (plan.criteriaChange === "delete" ? 1 : 0) })}</p>
+                                <ScrollArea className="max-h-32 mt-1 rounded border bg-gray-50">
+                                    <ul className="p-2 font-mono text-xs text-gray-600" dir="ltr">
+                                        {plan.documents.map(path => <li key={path}>{path}</li>)}
+                                        {plan.mappings.map(path => <li key={path}>{path}</li>)}
+                                        {plan.criteriaChange === "delete" && <li>assessmentCriteria/{plan.target.frameworkId}</li>}
+                                    </ul>
+                                </ScrollArea>
+                            </div>
+                        </div>
+
+                        {/* Projects pinned to a published version, which would lose their snapshot */}
+                        {hasPinned ? (
+                            <div className="rounded-lg bg-red-50 p-3 text-red-800">
+                                <div className="flex items-center gap-2 font-medium mb-1">
+                                    <GitBranch className="h-4 w-4" />
+                                    <span>{t("deletePreviewPinnedProjects", { count: plan.pinnedProjects.length })}</span>
+                                </div>
+                                <ul className="space-y-1">
+                                    {plan.pinnedProjects.map(project => (
+                                        <li key={project.id} className="flex items-center gap-2">
+                                            <Briefcase className="h-3 w-3" />
+                                            <span>{getLocalizedValue(project.name, locale) || project.id}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ) : hasReferences && (
+                            <div className="rounded-lg bg-amber-50 p-3 text-amber-800">
+                                <div className="flex items-center gap-2 font-medium mb-1">
+                                    <AlertTriangle className="h-4 w-4" />
+                                    <span>{t("deletePreviewProjects", { count: plan.referencingProjects.length })}</span>
+                                </div>
+                                <ul className="space-y-1 mb-2">
+                                    {plan.referencingProjects.map(project => (
+                                        <li key={project.id} className="flex items-center gap-2">
+                                            <Briefcase className="h-3 w-3" />
+                                            <span>{getLocalizedValue(project.name, locale) || project.id}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <Checkbox
+                                        checked={forceDelete}
+                                        onCheckedChange={(checked) => setForceDelete(checked === true)}
+                                    />
+                                    <span>{t("deleteDespiteProjects")}</span>
+                                </label>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <AlertDialogFooter>
+                    <AlertDialogCancel>{commonT("cancel")}</AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={() => onConfirm(!forceDelete)}
+                        disabled={!canDelete}
+                        className="bg-red-500 hover:bg-red-600 focus:ring-red-500"
+                    >
+                        {commonT("delete")}
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
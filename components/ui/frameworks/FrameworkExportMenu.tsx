@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Download, FileJson, FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from "@/components/ui/popover";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import { exportFrameworkBundle, downloadFrameworkBundle } from "@/lib/firestore/frameworkBundle";
+
+interface FrameworkExportMenuProps {
+    frameworkId: string;
+}
+
+export function FrameworkExportMenu({ frameworkId }: FrameworkExportMenuProps) {
+    const t = useTranslations("FrameworkManagement");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const { toast } = useToast();
+
+    const [open, setOpen] = useState(false);
+    const [exporting, setExporting] = useState(false);
+
+    const handleExport = async (format: "xlsx" | "json") => {
+        try {
+            setExporting(true);
+            setOpen(false);
+            const bundle = await exportFrameworkBundle(frameworkId);
+            downloadFrameworkBundle(bundle, format);
+
+            toast({
+                title: t("frameworkExported"),
+            });
+        } catch (error) {
+            console.error("Error exporting framework:", error);
+            toast({
+                variant: "destructive",
+                title: t("exportError"),
+                description: t("exportErrorDescription"),
+            });
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white flex-1 sm:flex-none"
+                    disabled={exporting}
+                >
+                    {exporting ? (
+                        <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />
+                    ) : (
+                        <Download className={`h-4 w-4 ${isRtl ? 'ml-2' : 'mr-2'}`} />
+                    )}
+                    <span>{t("exportFramework")}</span>
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-1" align="end">
+                <button
+                    className="flex w-full items-start gap-2 rounded-md p-2 text-sm hover:bg-gray-100 text-start"
+                    onClick={() => handleExport("xlsx")}
+                >
+                    <FileSpreadsheet className="h-4 w-4 mt-0.5 text-green-600" />
+                    <span>
+                        <span className="block font-medium">{t("exportWorkbook")}</span>
+                        <span className="block text-xs text-gray-500">{t("exportWorkbookDescription")}</span>
+                    </span>
+                </button>
+                <button
+                    className="flex w-full items-start gap-2 rounded-md p-2 text-sm hover:bg-gray-100 text-start"
+                    onClick={() => handleExport("json")}
+                >
+                    <FileJson className="h-4 w-4 mt-0.5 text-blue-600" />
+                    <span>
+                        <span className="block font-medium">{t("exportJson")}</span>
+                        <span className="block text-xs text-gray-500">{t("exportJsonDescription")}</span>
+                    </span>
+                </button>
+            </PopoverContent>
+        </Popover>
+    );
+}
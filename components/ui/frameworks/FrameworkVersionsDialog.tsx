@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { GitBranch, Lock } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import { getFrameworkVersions, publishFrameworkVersion } from "@/lib/services/frameworkVersionService";
+import { Framework } from "@/types/firebase";
+import { FrameworkVersion } from "@/types/framework-version";
+
+interface FrameworkVersionsDialogProps {
+    framework: Framework | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function FrameworkVersionsDialog({
+    framework,
+    open,
+    onOpenChange
+}: FrameworkVersionsDialogProps) {
+    const t = useTranslations("FrameworkManagement");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const { toast } = useToast();
+
+    const [versions, setVersions] = useState<FrameworkVersion[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [publishing, setPublishing] = useState(false);
+    const [note, setNote] = useState("");
+
+    const fetchVersions = async (frameworkId: string) => {
+        try {
+            setLoading(true);
+            setVersions(await getFrameworkVersions(frameworkId));
+        } catch (error) {
+            console.error("Error fetching framework versions:", error);
+            toast({
+                variant: "destructive",
+                title: t("versionsFetchError"),
+            });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Load the published versions whenever the dialog opens
+    useEffect(() => {
+        if (open && framework) {
+            setNote("");
+            fetchVersions(framework.id);
+        }
+    }, [open, framework]);
+
+    const handlePublish = async () => {
+        if (!framework) return;
+
+        try {
+            setPublishing(true);
+            const result = await publishFrameworkVersion(framework.id, note.trim() || undefined);
+
+            toast({
+                title: t("versionPublished", { version: result.id }),
+                description: t("versionPublishedDescription"),
+            });
+
+            setNote("");
+            await fetchVersions(framework.id);
+        } catch (error) {
+            toast({
+                variant: "destructive",
+                title: t("publishError"),
+                description: error instanceof Error ? error.message : t("publishErrorDescription"),
+            });
+        } finally {
+            setPublishing(false);
+        }
+    };
+
+    // Format date for display
+    const formatDate = (timestamp: any) => {
+        if (!timestamp || !timestamp.toDate) return '';
+        return format(timestamp.toDate(), 'dd MMM yyyy', { locale: locale === 'ar' ? ar : enUS });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg" dir={isRtl ? "rtl" : "ltr"}>
+                <DialogHeader>
+                    <DialogTitle>{t("frameworkVersions", { name: framework?.name || "" })}</DialogTitle>
+                    <DialogDescription>{t("frameworkVersionsDescription")}</DialogDescription>
+                </DialogHeader>
+
+                {/* Publish the live framework as the next version */}
+                <div className="space-y-2">
+                    <Textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder={t("versionNotePlaceholder")}
+                        rows={2}
+                    />
+                    <div className="flex justify-end">
+                        <Button
+                            className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white"
+                            onClick={handlePublish}
+                            disabled={publishing || !framework}
+                        >
+                            {publishing ? (
+                                <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />
+                            ) : (
+                                <GitBranch className={`h-4 w-4 ${isRtl ? "ml-2" : "mr-2"}`} />
+                            )}
+                            {t("publishVersion")}
+                        </Button>
+                    </div>
+                </div>
+
+                {/* Published versions, newest first */}
+                {loading ? (
+                    <div className="flex justify-center py-4">
+                        <Spinner size="sm" />
+                    </div>
+                ) : versions.length === 0 ? (
+                    <p className="text-sm text-gray-500 italic">{t("noVersions")}</p>
+                ) : (
+                    <ScrollArea className="max-h-64">
+                        <ul className="space-y-2">
+                            {versions.map(version => (
+                                <li key={version.id} className="rounded-lg border p-3 text-sm">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <div className="flex items-center gap-2 font-medium">
+                                            <Lock className="h-3 w-3 text-gray-400" />
+                                            <span>{version.label}</span>
+                                        </div>
+                                        <span className="text-xs text-gray-500">{formatDate(version.publishedAt)}</span>
+                                    </div>
+                                    {version.note && <p className="mt-1 text-gray-600">{version.note}</p>}
+                                    <p className="mt-1 text-xs text-gray-500">
+                                        {t("versionCounts", {
+                                            domains: version.domainCount,
+                                            controls: version.controlCount,
+                                            specifications: version.specificationCount
+                                        })}
+                                    </p>
+                                </li>
+                            ))}
+                        </ul>
+                    </ScrollArea>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { AlertTriangle } from "lucide-react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import Spinner from "@/components/ui/spinner";
+import { ImportDiff, ImportDiffStatus, ImportMode } from "@/lib/firestore/importDiff";
+
+interface ImportDiffPreviewProps {
+    diff: ImportDiff | null;
+    loading: boolean;
+    mode: ImportMode;
+    onModeChange: (mode: ImportMode) => void;
+}
+
+const STATUS_STYLES: Record<ImportDiffStatus, string> = {
+    new: "bg-green-100 text-green-800",
+    changed: "bg-blue-100 text-blue-800",
+    unchanged: "bg-gray-100 text-gray-600",
+    removed: "bg-red-100 text-red-800",
+};
+
+const IMPORT_MODES: ImportMode[] = ["create-only", "upsert", "replace"];
+
+export function ImportDiffPreview({
+    diff,
+    loading,
+    mode,
+    onModeChange
+}: ImportDiffPreviewProps) {
+    const t = useTranslations("ImportDiff");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const [statusFilter, setStatusFilter] = useState<ImportDiffStatus | null>(null);
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-500">
+                <Spinner size="sm" />
+                <span>{t("comparing")}</span>
+            </div>
+        );
+    }
+
+    if (!diff) return null;
+
+    const visibleEntries = statusFilter
+        ? diff.entries.filter(entry => entry.status === statusFilter)
+        : diff.entries;
+
+    // What happens to each row under the chosen mode
+    const getOutcome = (status: ImportDiffStatus) => {
+        if (status === "removed") return mode === "replace" ? t("outcomeRemove") : t("outcomeKeep");
+        if (status === "new") return t("outcomeCreate");
+        if (mode === "create-only") return t("outcomeSkip");
+        return status === "changed" ? t("outcomeUpdate") : t("outcomeRewrite");
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Counts per status, also used as filter */}
+            <div className="flex flex-wrap gap-2">
+                {(Object.keys(diff.counts) as ImportDiffStatus[]).map(status => (
+                    <button
+                        key={status}
+                        type="button"
+                        onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+                        className={`rounded-full px-3 py-1 text-xs font-medium ${STATUS_STYLES[status]} ${statusFilter === status ? "ring-2 ring-offset-1 ring-gray-400" : ""}`}
+                    >
+                        {t(`status.${status}`)}: {diff.counts[status]}
+                    </button>
+                ))}
+            </div>
+
+            {/* Import mode */}
+            <RadioGroup
+                value={mode}
+                onValueChange={(value) => onModeChange(value as ImportMode)}
+                className="space-y-2"
+                dir={isRtl ? "rtl" : "ltr"}
+            >
+                {IMPORT_MODES.map(option => (
+                    <div key={option} className="flex items-start gap-2">
+                        <RadioGroupItem value={option} id={`import-mode-${option}`} className="mt-1" />
+                        <Label htmlFor={`import-mode-${option}`} className="cursor-pointer">
+                            <span className="block font-medium">{t(`mode.${option}`)}</span>
+                            <span className="block text-xs font-normal text-gray-500">{t(`modeDescription.${option}`)}</span>
+                        </Label>
+                    </div>
+                ))}
+            </RadioGroup>
+
+            {mode === "replace" && diff.counts.removed > 0 && (
+                <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-sm text-red-700">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    <span>{t("replaceWarning", { count: diff.counts.removed })}</span>
+                </div>
+            )}
+
+            {/* Row by row comparison */}
+            <div className="max-h-64 overflow-auto rounded-md border">
+                <table className="w-full text-xs sm:text-sm">
+                    <thead className="sticky top-0 bg-gray-50 text-gray-700">
+                        <tr>
+                            <th className="px-3 py-2 text-start font-medium">{t("id")}</th>
+                            <th className="px-3 py-2 text-start font-medium">{t("name")}</th>
+                            <th className="px-3 py-2 text-start font-medium">{t("statusLabel")}</th>
+                            <th className="px-3 py-2 text-start font-medium">{t("result")}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleEntries.map(entry => (
+                            <tr key={`${entry.status}-${entry.id}`} className="border-t">
+                                <td className="px-3 py-2 font-mono" dir="ltr">{entry.id}</td>
+                                <td className="px-3 py-2">{(isRtl ? entry.label.ar : entry.label.en) || entry.label.en || entry.label.ar}</td>
+                                <td className="px-3 py-2">
+                                    <span className={`rounded px-2 py-0.5 text-xs ${STATUS_STYLES[entry.status]}`}>
+                                        {t(`status.${entry.status}`)}
+                                    </span>
+                                    {entry.changedFields.length > 0 && (
+                                        <span className="block mt-1 text-xs text-gray-500" dir="ltr">
+                                            {entry.changedFields.join(", ")}
+                                        </span>
+                                    )}
+                                </td>
+                                <td className="px-3 py-2 text-gray-600">{getOutcome(entry.status)}</td>
+                            </tr>
+                        ))}
+                        {visibleEntries.length === 0 && (
+                            <tr>
+                                <td colSpan={4} className="px-3 py-4 text-center text-gray-500 italic">{t("noRows")}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
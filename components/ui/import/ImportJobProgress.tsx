@@ -0,0 +1,97 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { AlertTriangle, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+    DEFAULT_MAX_ERROR_RATE,
+    ImportJobProgress as ImportJobProgressState,
+    ImportJobStatus,
+    ImportRollbackReason
+} from "@/lib/firestore/importJobs";
+
+interface ImportJobProgressProps {
+    progress: ImportJobProgressState | null;
+    aborting: boolean;
+    onAbort: () => void;
+}
+
+export function ImportJobProgress({
+    progress,
+    aborting,
+    onAbort
+}: ImportJobProgressProps) {
+    const t = useTranslations("ImportJob");
+    const percent = progress && progress.totalRows > 0
+        ? Math.round((progress.processedRows / progress.totalRows) * 100)
+        : 0;
+
+    return (
+        <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center justify-between gap-4 text-sm">
+                <span className="font-medium">{t("writing")}</span>
+                {progress && (
+                    <span className="text-gray-500">{t("progress", {
+                        processed: progress.processedRows,
+                        total: progress.totalRows
+                    })}</span>
+                )}
+            </div>
+            <Progress value={percent} className="h-2" />
+            <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-gray-500">
+                    {t("thresholdNote", { percent: Math.round(DEFAULT_MAX_ERROR_RATE * 100) })}
+                </p>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onAbort}
+                    disabled={aborting}
+                    className="flex-shrink-0 text-red-600 hover:text-red-700"
+                >
+                    {aborting ? t("aborting") : t("abort")}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+interface ImportRollbackNoticeProps {
+    jobId: string;
+    status: ImportJobStatus;
+    rollbackReason?: ImportRollbackReason;
+}
+
+// Shown instead of the import summary when nothing the job wrote was kept
+export function ImportRollbackNotice({
+    jobId,
+    status,
+    rollbackReason
+}: ImportRollbackNoticeProps) {
+    const t = useTranslations("ImportJob");
+
+    if (status === "failed") {
+        return (
+            <div className="rounded-lg bg-red-100 p-4 text-red-800">
+                <h3 className="flex items-center justify-center gap-2 text-lg font-semibold">
+                    <AlertTriangle className="h-5 w-5" />
+                    {t("rollbackFailed")}
+                </h3>
+                <p className="mt-1 text-sm">{t("rollbackFailedDescription", { jobId })}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="rounded-lg bg-amber-100 p-4 text-amber-800">
+            <h3 className="flex items-center justify-center gap-2 text-lg font-semibold">
+                <Undo2 className="h-5 w-5" />
+                {t("rolledBack")}
+            </h3>
+            {rollbackReason && (
+                <p className="mt-1 text-sm">{t(`rollbackReason.${rollbackReason}`)}</p>
+            )}
+        </div>
+    );
+}
@@ -3,10 +3,13 @@
 import { motion } from "framer-motion";
 import { useLocale } from "next-intl";
 import { useTranslations } from "next-intl";
-import { Calendar, Briefcase, Clock, Users, Link2, Pencil, Trash2, Info } from "lucide-react";
+import { Calendar, Briefcase, Clock, Users, Link2, Pencil, Trash2, Info, ClipboardList, History, ArrowRightLeft } from "lucide-react";
+import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
 import { Project, Organization, Framework } from "@/types/firebase";
 import { getLocalizedValue } from "@/types/firebase";
+import { ProjectStatusChange } from "@/types/project-lifecycle";
+import { getProjectScheduleState } from "@/types/project-milestone";
 import { format } from "date-fns";
 import { ar, enUS } from "date-fns/locale";
 import {
@@ -28,8 +31,9 @@ interface ProjectCardProps {
     project: Project;
     organization?: Organization | null;
     framework?: Framework | null;
-    onEdit: (project: Project) => void;
-    onDelete: (projectId: string) => void;
+    onEdit?: (project: Project) => void; // Edit and delete buttons are hidden when omitted
+    onDelete?: (projectId: string) => void;
+    onChangeStatus?: (project: Project) => void; // Hidden when the user has no status change available
 }
 
 // Card hover animation
@@ -44,7 +48,8 @@ export function ProjectCard({
     organization,
     framework,
     onEdit,
-    onDelete
+    onDelete,
+    onChangeStatus
 }: ProjectCardProps) {
     const [showDetails, setShowDetails] = useState(false);
     const t = useTranslations("ProjectManagement");
@@ -71,11 +76,23 @@ export function ProjectCard({
     const startDate = project.startDate ? format(new Date(project.startDate), "MMM d, yyyy", { locale: locale === 'ar' ? ar : enUS }) : "";
     const deadlineDate = project.projectDeadline ? format(new Date(project.projectDeadline), "MMM d, yyyy", { locale: locale === 'ar' ? ar : enUS }) : "";
 
+    // Overdue or at risk against the deadline and open milestones
+    const scheduleState = getProjectScheduleState(project);
+
+    // Status changes, latest first
+    const statusHistory = [...(project.statusHistory || [])].reverse();
+    const formatChangedAt = (change: ProjectStatusChange) =>
+        change.changedAt?.toDate ? format(change.changedAt.toDate(), "MMM d, yyyy HH:mm", { locale: locale === 'ar' ? ar : enUS }) : "";
+
     // Get status badge color
     const getStatusBadgeColor = () => {
         switch (project.status) {
+            case "draft":
+                return "bg-gray-500/80 text-white hover:bg-gray-500/90 border-0";
             case "open":
                 return "bg-green-500/80 text-white hover:bg-green-500/90 border-0";
+            case "in-review":
+                return "bg-indigo-500/80 text-white hover:bg-indigo-500/90 border-0";
             case "closed":
                 return "bg-blue-500/80 text-white hover:bg-blue-500/90 border-0";
             case "on-holding":
@@ -88,8 +105,12 @@ export function ProjectCard({
     // Get localized status
     const getStatusText = () => {
         switch (project.status) {
+            case "draft":
+                return t("status_draft");
             case "open":
                 return t("status_open");
+            case "in-review":
+                return t("status_in-review");
             case "closed":
                 return t("status_closed");
             case "on-holding":
@@ -124,9 +145,16 @@ export function ProjectCard({
                     <p className="text-sm opacity-80 line-clamp-3 overflow-hidden">{projectDescription}</p>
 
                     {/* Status Badge */}
-                    <Badge className={`w-fit ${getStatusBadgeColor()}`}>
-                        {getStatusText()}
-                    </Badge>
+                    <div className="flex flex-wrap gap-2">
+                        <Badge className={`w-fit ${getStatusBadgeColor()}`}>
+                            {getStatusText()}
+                        </Badge>
+                        {scheduleState !== "onTrack" && (
+                            <Badge className={`w-fit border-0 text-white ${scheduleState === "overdue" ? "bg-red-500/80 hover:bg-red-500/90" : "bg-amber-500/80 hover:bg-amber-500/90"}`}>
+                                {t(`schedule_${scheduleState}`)}
+                            </Badge>
+                        )}
+                    </div>
 
                     <div className="space-y-2 text-sm">
                         {/* Organization */}
@@ -180,25 +208,51 @@ export function ProjectCard({
                         </motion.button>
 
                         <div className="flex gap-2">
-                            <motion.button
-                                className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
-                                whileHover={{ scale: 1.05 }}
-                                whileTap={{ scale: 0.95 }}
-                                onClick={() => onEdit(project)}
-                                aria-label={t("editProject")}
-                            >
-                                <Pencil className="h-4 w-4" />
-                            </motion.button>
-
-                            <motion.button
-                                className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
-                                whileHover={{ scale: 1.05 }}
-                                whileTap={{ scale: 0.95 }}
-                                onClick={() => onDelete(project.id)}
-                                aria-label={t("deleteProject")}
-                            >
-                                <Trash2 className="h-4 w-4" />
-                            </motion.button>
+                            <Link href={`/${locale}/projects/${project.id}`} aria-label={t("openAssessment")}>
+                                <motion.div
+                                    className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                >
+                                    <ClipboardList className="h-4 w-4" />
+                                </motion.div>
+                            </Link>
+
+                            {onChangeStatus && (
+                                <motion.button
+                                    className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                    onClick={() => onChangeStatus(project)}
+                                    aria-label={t("changeStatus")}
+                                >
+                                    <ArrowRightLeft className="h-4 w-4" />
+                                </motion.button>
+                            )}
+
+                            {onEdit && (
+                                <motion.button
+                                    className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                    onClick={() => onEdit(project)}
+                                    aria-label={t("editProject")}
+                                >
+                                    <Pencil className="h-4 w-4" />
+                                </motion.button>
+                            )}
+
+                            {onDelete && (
+                                <motion.button
+                                    className="w-10 h-10 flex items-center justify-center text-sm bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30"
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                    onClick={() => onDelete(project.id)}
+                                    aria-label={t("deleteProject")}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </motion.button>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -266,6 +320,33 @@ export function ProjectCard({
                                 </div>
                             )}
                         </div>
+
+                        {/* Status History */}
+                        {statusHistory.length > 0 && (
+                            <div className="pt-2">
+                                <div className="flex items-center gap-2 text-sm mb-2">
+                                    <History size={16} className="text-white/80" />
+                                    <span className="opacity-80">{t("statusHistory")}</span>
+                                </div>
+                                <ol className="space-y-2 max-h-[200px] overflow-y-auto">
+                                    {statusHistory.map((change, index) => (
+                                        <li key={index} className="rounded-lg bg-white/10 px-3 py-2 text-sm">
+                                            <div className="font-medium">
+                                                {change.from
+                                                    ? `${t(`status_${change.from}`)} → ${t(`status_${change.to}`)}`
+                                                    : t("statusCreatedAs", { status: t(`status_${change.to}`) })}
+                                            </div>
+                                            {change.reason && (
+                                                <div className="opacity-80 break-words">{change.reason}</div>
+                                            )}
+                                            <div className="text-xs opacity-70">
+                                                {[change.changedByName, formatChangedAt(change)].filter(Boolean).join(" · ")}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                        )}
                     </div>
                     <motion.div
                         className="mt-5 flex justify-center"
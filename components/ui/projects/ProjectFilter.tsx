@@ -13,12 +13,16 @@ import {
 } from "@/components/ui/select";
 import { Organization, Framework } from "@/types/firebase";
 import { getLocalizedValue } from "@/types/firebase";
+import { PROJECT_STATUSES } from "@/types/project-lifecycle";
+import { SCHEDULE_STATES } from "@/types/project-milestone";
 
 interface ProjectFilterProps {
     searchTerm: string;
     onSearchChange: (value: string) => void;
     selectedStatus: string;
     onStatusChange: (value: string) => void;
+    selectedSchedule: string;
+    onScheduleChange: (value: string) => void;
     selectedOrganization: string;
     onOrganizationChange: (value: string) => void;
     selectedFramework: string;
@@ -32,6 +36,8 @@ export function ProjectFilter({
     onSearchChange,
     selectedStatus,
     onStatusChange,
+    selectedSchedule,
+    onScheduleChange,
     selectedOrganization,
     onOrganizationChange,
     selectedFramework,
@@ -67,9 +73,25 @@ export function ProjectFilter({
                     </SelectTrigger>
                     <SelectContent>
                         <SelectItem value="all">{t("allStatuses")}</SelectItem>
-                        <SelectItem value="open">{t("status_open")}</SelectItem>
-                        <SelectItem value="closed">{t("status_closed")}</SelectItem>
-                        <SelectItem value="on-holding">{t("status_on-holding")}</SelectItem>
+                        {PROJECT_STATUSES.map(status => (
+                            <SelectItem key={status} value={status}>{t(`status_${status}`)}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+
+                {/* Schedule filter (overdue / at risk against the deadline and milestones) */}
+                <Select
+                    value={selectedSchedule}
+                    onValueChange={onScheduleChange}
+                >
+                    <SelectTrigger className={`w-[140px] bg-gray-50 border-gray-200 ${isRtl ? "text-right" : ""}`}>
+                        <SelectValue placeholder={t("filterBySchedule")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">{t("allSchedules")}</SelectItem>
+                        {SCHEDULE_STATES.map(state => (
+                            <SelectItem key={state} value={state}>{t(`schedule_${state}`)}</SelectItem>
+                        ))}
                     </SelectContent>
                 </Select>
 
@@ -23,6 +23,7 @@ import {
 import {
     Form,
     FormControl,
+    FormDescription,
     FormField,
     FormItem,
     FormLabel,
@@ -47,10 +48,16 @@ import { Calendar as CalendarIcon } from "lucide-react";
 // Services
 import { getAllOrganizations } from "@/lib/services/organizationService";
 import { getAllFrameworks } from "@/lib/services/frameworkService";
+import { getFrameworkVersions } from "@/lib/services/frameworkVersionService";
 
 // Types
 import { Organization, Framework } from "@/types/firebase";
 import { getLocalizedValue } from "@/types/firebase";
+import { FrameworkVersion } from "@/types/framework-version";
+import { PROJECT_STATUSES, ProjectStatus } from "@/types/project-lifecycle";
+
+// Select value standing for "not pinned to a published version"
+const LIVE_FRAMEWORK_VERSION = "live";
 
 export interface ProjectFormValues {
     id?: string;
@@ -65,8 +72,9 @@ export interface ProjectFormValues {
     owner: string; // Organization ID
     startDate: Date;
     projectDeadline: Date;
-    status: string;
+    status: ProjectStatus; // Only set on create; later changes go through the status workflow
     frameworkId: string;
+    frameworkVersion: number | null; // Published version the assessment is pinned to; null follows the live framework
 }
 
 // Form schema with localized validation
@@ -83,8 +91,9 @@ const createFormSchema = (t: ReturnType<typeof useTranslations>) => z.object({
     owner: z.string().min(1, { message: t("validation.requiredOwner") }),
     startDate: z.date({ required_error: t("validation.requiredStartDate") }),
     projectDeadline: z.date({ required_error: t("validation.requiredDeadline") }),
-    status: z.string().min(1, { message: t("validation.requiredStatus") }),
+    status: z.enum(PROJECT_STATUSES, { required_error: t("validation.requiredStatus") }),
     frameworkId: z.string().min(1, { message: t("validation.requiredFramework") }),
+    frameworkVersion: z.number().nullable(),
 });
 
 interface ProjectFormModalProps {
@@ -109,6 +118,7 @@ export function ProjectFormModal({
     // State for data
     const [organizations, setOrganizations] = useState<Organization[]>([]);
     const [frameworks, setFrameworks] = useState<Framework[]>([]);
+    const [frameworkVersions, setFrameworkVersions] = useState<FrameworkVersion[]>([]);
     const [isLoading, setIsLoading] = useState(true);
 
     // Create form schema with translations
@@ -131,6 +141,7 @@ export function ProjectFormModal({
             projectDeadline: defaultValues?.projectDeadline || new Date(),
             status: defaultValues?.status || "open",
             frameworkId: defaultValues?.frameworkId || "",
+            frameworkVersion: defaultValues?.frameworkVersion ?? null,
         },
     });
 
@@ -150,6 +161,7 @@ export function ProjectFormModal({
             projectDeadline: defaultValues?.projectDeadline || new Date(),
             status: defaultValues?.status || "open",
             frameworkId: defaultValues?.frameworkId || "",
+            frameworkVersion: defaultValues?.frameworkVersion ?? null,
         });
     }, [defaultValues, form]);
 
@@ -187,6 +199,31 @@ export function ProjectFormModal({
         fetchFrameworks();
     }, []);
 
+    // Fetch the published versions of the selected framework
+    const selectedFrameworkId = form.watch("frameworkId");
+    useEffect(() => {
+        const fetchFrameworkVersions = async () => {
+            if (!selectedFrameworkId) {
+                setFrameworkVersions([]);
+                return;
+            }
+            try {
+                const data = await getFrameworkVersions(selectedFrameworkId);
+                setFrameworkVersions(data);
+
+                // New projects are pinned to the latest published version by default
+                if (mode === "create" && form.getValues("frameworkVersion") === null && data.length > 0) {
+                    form.setValue("frameworkVersion", data[0].version);
+                }
+            } catch (error) {
+                console.error("Error fetching framework versions:", error);
+                setFrameworkVersions([]);
+            }
+        };
+
+        fetchFrameworkVersions();
+    }, [selectedFrameworkId, mode, form]);
+
     // Handle form submission
     const handleFormSubmit = async (data: ProjectFormValues) => {
         try {
@@ -322,7 +359,13 @@ export function ProjectFormModal({
                                         <FormLabel>{t("framework")}</FormLabel>
                                         <Select
                                             value={field.value}
-                                            onValueChange={field.onChange}
+                                            onValueChange={(value) => {
+                                                // A version pin only applies to the framework it was chosen for
+                                                if (value !== field.value) {
+                                                    form.setValue("frameworkVersion", null);
+                                                }
+                                                field.onChange(value);
+                                            }}
                                             disabled={isLoading}
                                         >
                                             <FormControl>
@@ -355,6 +398,39 @@ export function ProjectFormModal({
                                 )}
                             />
 
+                            {/* Framework version field */}
+                            {frameworkVersions.length > 0 && (
+                                <FormField
+                                    control={form.control}
+                                    name="frameworkVersion"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{t("frameworkVersion")}</FormLabel>
+                                            <Select
+                                                value={field.value === null ? LIVE_FRAMEWORK_VERSION : String(field.value)}
+                                                onValueChange={(value) => field.onChange(value === LIVE_FRAMEWORK_VERSION ? null : Number(value))}
+                                            >
+                                                <FormControl>
+                                                    <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                </FormControl>
+                                                <SelectContent>
+                                                    {frameworkVersions.map((version) => (
+                                                        <SelectItem key={version.id} value={String(version.version)}>
+                                                            {version.note ? `${version.label} – ${version.note}` : version.label}
+                                                        </SelectItem>
+                                                    ))}
+                                                    <SelectItem value={LIVE_FRAMEWORK_VERSION}>{t("liveFramework")}</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                            <FormDescription>{t("frameworkVersionDescription")}</FormDescription>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            )}
+
                             {/* Start Date field */}
                             <FormField
                                 control={form.control}
@@ -429,32 +505,33 @@ export function ProjectFormModal({
                                 )}
                             />
 
-                            {/* Status field */}
-                            <FormField
-                                control={form.control}
-                                name="status"
-                                render={({ field }) => (
-                                    <FormItem>
-                                        <FormLabel>{t("status")}</FormLabel>
-                                        <Select
-                                            value={field.value}
-                                            onValueChange={field.onChange}
-                                        >
-                                            <FormControl>
-                                                <SelectTrigger className={isRtl ? "text-right" : ""}>
-                                                    <SelectValue placeholder={t("selectStatus")} />
-                                                </SelectTrigger>
-                                            </FormControl>
-                                            <SelectContent>
-                                                <SelectItem value="open">{t("statusOpen")}</SelectItem>
-                                                <SelectItem value="closed">{t("statusClosed")}</SelectItem>
-                                                <SelectItem value="on-holding">{t("statusHold")}</SelectItem>
-                                            </SelectContent>
-                                        </Select>
-                                        <FormMessage />
-                                    </FormItem>
-                                )}
-                            />
+                            {/* Status field, only when creating; existing projects change status through the workflow */}
+                            {mode === "create" && (
+                                <FormField
+                                    control={form.control}
+                                    name="status"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>{t("status")}</FormLabel>
+                                            <Select
+                                                value={field.value}
+                                                onValueChange={field.onChange}
+                                            >
+                                                <FormControl>
+                                                    <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                                        <SelectValue placeholder={t("selectStatus")} />
+                                                    </SelectTrigger>
+                                                </FormControl>
+                                                <SelectContent>
+                                                    <SelectItem value="draft">{t("statusDraft")}</SelectItem>
+                                                    <SelectItem value="open">{t("statusOpen")}</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            )}
                         </div>
 
                         <DialogFooter className={isRtl ? "flex-row-reverse" : ""}>
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MultiSelect } from "@/components/ui/multi-select";
+import Spinner from "@/components/ui/spinner";
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { User } from "@/lib/services/userService";
+import { createMilestoneId } from "@/lib/services/projectService";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import { ProjectMilestone, toScheduleDate } from "@/types/project-milestone";
+
+interface ProjectMilestoneDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    milestone: ProjectMilestone | null; // null to add a new milestone
+    users: User[];
+    domains: FrameworkTreeDomain[];
+    onSubmit: (milestone: ProjectMilestone) => Promise<void>;
+}
+
+export function ProjectMilestoneDialog({
+    open,
+    onOpenChange,
+    milestone,
+    users,
+    domains,
+    onSubmit
+}: ProjectMilestoneDialogProps) {
+    const t = useTranslations("ProjectMilestones");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const [name, setName] = useState("");
+    const [dueDate, setDueDate] = useState("");
+    const [ownerId, setOwnerId] = useState("");
+    const [domainIds, setDomainIds] = useState<string[]>([]);
+    const [completed, setCompleted] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Load the milestone being edited, or start blank
+    useEffect(() => {
+        if (open) {
+            setName(milestone?.name || "");
+            setDueDate(milestone?.dueDate || "");
+            setOwnerId(milestone?.ownerId || "");
+            setDomainIds(milestone?.domainIds || []);
+            setCompleted(!!milestone?.completedAt);
+        }
+    }, [open, milestone]);
+
+    const isFormValid = name.trim() !== "" && dueDate !== "" && ownerId !== "";
+
+    const handleSubmit = async () => {
+        if (!isFormValid) return;
+
+        const owner = users.find(user => user.id === ownerId);
+        setIsSubmitting(true);
+        try {
+            await onSubmit({
+                id: milestone?.id || createMilestoneId(),
+                name: name.trim(),
+                dueDate,
+                ownerId,
+                ...(owner ? { ownerName: owner.name } : {}),
+                domainIds,
+                // Keep the original completion date when the milestone stays completed
+                completedAt: completed ? milestone?.completedAt || toScheduleDate(new Date()) : null
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[500px]" style={{ direction: isRtl ? "rtl" : "ltr" }}>
+                <DialogHeader>
+                    <DialogTitle>{milestone ? t("editMilestone") : t("addMilestone")}</DialogTitle>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="milestone-name">{t("name")}</Label>
+                        <Input
+                            id="milestone-name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder={t("namePlaceholder")}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="milestone-due-date">{t("dueDate")}</Label>
+                        <Input
+                            id="milestone-due-date"
+                            type="date"
+                            value={dueDate}
+                            onChange={(e) => setDueDate(e.target.value)}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>{t("owner")}</Label>
+                        <Select value={ownerId} onValueChange={setOwnerId}>
+                            <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                <SelectValue placeholder={t("selectOwner")} />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {users.map(user => (
+                                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>{t("domains")}</Label>
+                        <MultiSelect
+                            options={domains.map(domain => ({
+                                label: domain.name[lang] || domain.name.en,
+                                value: domain.domainId
+                            }))}
+                            selected={domainIds}
+                            onChange={setDomainIds}
+                            placeholder={t("selectDomains")}
+                            emptyPlaceholder={t("noDomains")}
+                        />
+                    </div>
+
+                    {milestone && (
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="milestone-completed"
+                                checked={completed}
+                                onCheckedChange={(checked) => setCompleted(checked === true)}
+                            />
+                            <Label htmlFor="milestone-completed">{t("completed")}</Label>
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter className={isRtl ? "flex-row-reverse" : ""}>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        {commonT("cancel")}
+                    </Button>
+                    <Button
+                        onClick={handleSubmit}
+                        disabled={!isFormValid || isSubmitting}
+                        className="bg-blue-600 hover:bg-blue-700"
+                    >
+                        {isSubmitting && <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />}
+                        {commonT("save")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
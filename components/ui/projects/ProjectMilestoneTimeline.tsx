@@ -0,0 +1,240 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { Flag, Plus, Pencil, Trash2, CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { ProjectMilestoneDialog } from "@/components/ui/projects/ProjectMilestoneDialog";
+import { getAllUsers, User } from "@/lib/services/userService";
+import { Project } from "@/types/firebase";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import {
+    ProjectMilestone,
+    ScheduleState,
+    getMilestoneScheduleState,
+    getProjectScheduleState,
+    getScheduleState,
+    isMilestoneOpen
+} from "@/types/project-milestone";
+import { isProjectReadOnly } from "@/types/project-lifecycle";
+
+interface ProjectMilestoneTimelineProps {
+    project: Project;
+    domains: FrameworkTreeDomain[];
+    canEdit: boolean;
+    onSave: (milestones: ProjectMilestone[]) => Promise<boolean>;
+}
+
+// Entry of the timeline: the project start and deadline, and each milestone
+interface TimelineEntry {
+    key: string;
+    date: string;
+    state: ScheduleState | null; // null for the project start
+    milestone?: ProjectMilestone;
+    label: string;
+}
+
+// Get the color of the timeline dot and badge for a schedule state
+const getStateColor = (state: ScheduleState | null, completed: boolean) => {
+    if (completed) return "bg-green-500";
+    switch (state) {
+        case "overdue":
+            return "bg-red-500";
+        case "atRisk":
+            return "bg-amber-500";
+        case "onTrack":
+            return "bg-blue-500";
+        default:
+            return "bg-gray-400";
+    }
+};
+
+export function ProjectMilestoneTimeline({ project, domains, canEdit, onSave }: ProjectMilestoneTimelineProps) {
+    const t = useTranslations("ProjectMilestones");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+    const { toast } = useToast();
+
+    const [users, setUsers] = useState<User[]>([]);
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [editingMilestone, setEditingMilestone] = useState<ProjectMilestone | null>(null);
+
+    const milestones = project.milestones || [];
+    const tracked = !isProjectReadOnly(project.status);
+    const projectState = getProjectScheduleState(project);
+
+    // Owners are only picked when editing
+    useEffect(() => {
+        if (!canEdit) return;
+
+        getAllUsers()
+            .then(setUsers)
+            .catch(error => console.error("Error fetching milestone owners:", error));
+    }, [canEdit]);
+
+    const formatDate = (date: string) =>
+        format(new Date(date), "MMM d, yyyy", { locale: isRtl ? ar : enUS });
+
+    const getDomainName = (domainId: string) => {
+        const domain = domains.find(item => item.domainId === domainId);
+        return domain ? domain.name[lang] || domain.name.en : domainId;
+    };
+
+    const entries: TimelineEntry[] = [
+        ...(project.startDate
+            ? [{ key: "start", date: project.startDate, state: null, label: t("projectStart") }]
+            : []),
+        ...milestones.map(milestone => ({
+            key: milestone.id,
+            date: milestone.dueDate,
+            state: tracked ? getMilestoneScheduleState(milestone) : null,
+            milestone,
+            label: milestone.name
+        })),
+        ...(project.projectDeadline
+            ? [{
+                key: "deadline",
+                date: project.projectDeadline,
+                state: tracked ? getScheduleState(project.projectDeadline) : null,
+                label: t("projectDeadline")
+            }]
+            : [])
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    const saveMilestones = async (updated: ProjectMilestone[]) => {
+        const saved = await onSave(updated);
+        if (!saved) {
+            toast({
+                variant: "destructive",
+                title: t("saveError"),
+                description: t("saveErrorDescription"),
+            });
+        }
+        return saved;
+    };
+
+    const handleAdd = () => {
+        setEditingMilestone(null);
+        setDialogOpen(true);
+    };
+
+    const handleEdit = (milestone: ProjectMilestone) => {
+        setEditingMilestone(milestone);
+        setDialogOpen(true);
+    };
+
+    const handleSubmit = async (milestone: ProjectMilestone) => {
+        const exists = milestones.some(item => item.id === milestone.id);
+        const saved = await saveMilestones(exists
+            ? milestones.map(item => item.id === milestone.id ? milestone : item)
+            : [...milestones, milestone]);
+        if (saved) {
+            setDialogOpen(false);
+        }
+    };
+
+    const handleDelete = (milestoneId: string) => {
+        saveMilestones(milestones.filter(item => item.id !== milestoneId));
+    };
+
+    return (
+        <div className="bg-white border rounded-lg shadow-sm p-4" dir={isRtl ? "rtl" : "ltr"}>
+            <div className="flex items-center justify-between gap-2 mb-4">
+                <div className="flex items-center gap-2">
+                    <CalendarClock className="h-5 w-5 text-[var(--primary-blue)]" />
+                    <h2 className="text-xl font-semibold">{t("title")}</h2>
+                    {tracked && projectState !== "onTrack" && (
+                        <Badge className={`${getStateColor(projectState, false)} text-white border-0`}>
+                            {t(`state.${projectState}`)}
+                        </Badge>
+                    )}
+                </div>
+                {canEdit && (
+                    <Button size="sm" variant="outline" onClick={handleAdd}>
+                        <Plus className={`h-4 w-4 ${isRtl ? "ml-1" : "mr-1"}`} />
+                        {t("addMilestone")}
+                    </Button>
+                )}
+            </div>
+
+            {milestones.length === 0 && (
+                <p className="text-gray-500 italic text-sm mb-4">{t("noMilestones")}</p>
+            )}
+
+            <ol className={`relative ${isRtl ? "border-r mr-2" : "border-l ml-2"} border-gray-200 space-y-4`}>
+                {entries.map(entry => {
+                    const completed = !!entry.milestone && !isMilestoneOpen(entry.milestone);
+
+                    return (
+                        <li key={entry.key} className={isRtl ? "mr-4" : "ml-4"}>
+                            <span
+                                className={`absolute w-3 h-3 rounded-full mt-1.5 ${isRtl ? "-right-1.5" : "-left-1.5"} ${getStateColor(entry.state, completed)}`}
+                            />
+                            <div className="flex flex-wrap items-start justify-between gap-2">
+                                <div className="min-w-0">
+                                    <time className="text-xs text-gray-500">{formatDate(entry.date)}</time>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {entry.milestone && <Flag className="h-4 w-4 text-gray-500" />}
+                                        <span className={`font-medium ${completed ? "line-through text-gray-500" : ""}`}>
+                                            {entry.label}
+                                        </span>
+                                        {completed ? (
+                                            <Badge className="bg-green-100 text-green-800 border-0">{t("completed")}</Badge>
+                                        ) : entry.state && entry.state !== "onTrack" && (
+                                            <Badge className={`${getStateColor(entry.state, false)} text-white border-0`}>
+                                                {t(`state.${entry.state}`)}
+                                            </Badge>
+                                        )}
+                                    </div>
+                                    {entry.milestone && (
+                                        <div className="text-sm text-gray-600 space-y-1 mt-1">
+                                            {entry.milestone.ownerName && (
+                                                <div>{t("ownedBy", { name: entry.milestone.ownerName })}</div>
+                                            )}
+                                            {entry.milestone.domainIds.length > 0 && (
+                                                <div className="flex flex-wrap gap-1">
+                                                    {entry.milestone.domainIds.map(domainId => (
+                                                        <Badge key={domainId} variant="outline" className="text-xs">
+                                                            {getDomainName(domainId)}
+                                                        </Badge>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                                {canEdit && entry.milestone && (
+                                    <div className="flex gap-1 flex-shrink-0">
+                                        <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500"
+                                            onClick={() => handleEdit(entry.milestone as ProjectMilestone)} aria-label={t("editMilestone")}>
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600"
+                                            onClick={() => handleDelete(entry.key)} aria-label={t("deleteMilestone")}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ol>
+
+            <ProjectMilestoneDialog
+                open={dialogOpen}
+                onOpenChange={setDialogOpen}
+                milestone={editingMilestone}
+                users={users}
+                domains={domains}
+                onSubmit={handleSubmit}
+            />
+        </div>
+    );
+}
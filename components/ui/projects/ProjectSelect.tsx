@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Briefcase } from "lucide-react";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { useAuthContext } from "@/context/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getAccessibleProjects } from "@/lib/services/projectService";
+import { Project, getLocalizedValue } from "@/types/firebase";
+import { getProjectAccessScope } from "@/types/permissions";
+
+interface ProjectSelectProps {
+    frameworkId: string;
+    value: string | null;
+    onChange: (projectId: string | null) => void;
+}
+
+// Value used when no project is selected
+const NO_PROJECT = "none";
+
+/**
+ * Select one of the projects assessed against a framework, among those the user has access to
+ */
+export function ProjectSelect({ frameworkId, value, onChange }: ProjectSelectProps) {
+    const t = useTranslations("ProjectManagement");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const { user, isLoading: userLoading } = useAuthContext();
+    const { permissions, loading: permissionsLoading } = usePermissions();
+    const [projects, setProjects] = useState<Project[]>([]);
+
+    // The security rules only allow queries within the user's access scope
+    useEffect(() => {
+        const fetchProjects = async () => {
+            try {
+                const accessible = user
+                    ? await getAccessibleProjects(getProjectAccessScope(user, permissions))
+                    : [];
+                setProjects(accessible.filter(project => project.frameworkId === frameworkId));
+            } catch (error) {
+                console.error("Error fetching framework projects:", error);
+            }
+        };
+
+        if (frameworkId && !userLoading && !permissionsLoading) {
+            fetchProjects();
+        }
+    }, [frameworkId, user, permissions, userLoading, permissionsLoading]);
+
+    return (
+        <Select
+            value={value ?? NO_PROJECT}
+            onValueChange={(selected) => onChange(selected === NO_PROJECT ? null : selected)}
+        >
+            <SelectTrigger className="bg-white w-full sm:w-[250px]" dir={isRtl ? "rtl" : "ltr"}>
+                <Briefcase className={`h-4 w-4 flex-shrink-0 ${isRtl ? "ml-2" : "mr-2"}`} />
+                <SelectValue placeholder={t("selectProject")} />
+            </SelectTrigger>
+            <SelectContent dir={isRtl ? "rtl" : "ltr"}>
+                <SelectItem value={NO_PROJECT}>{t("noProjectSelected")}</SelectItem>
+                {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>
+                        {getLocalizedValue(project.name, locale)}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
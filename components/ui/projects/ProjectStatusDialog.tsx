@@ -0,0 +1,135 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import Spinner from "@/components/ui/spinner";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Project } from "@/types/firebase";
+import { Permission } from "@/types/permissions";
+import { ProjectStatus, getAvailableTransitions } from "@/types/project-lifecycle";
+
+interface ProjectStatusDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    project: Project | null;
+    permissions: Permission[];
+    onSubmit: (project: Project, status: ProjectStatus, reason?: string) => Promise<void>;
+}
+
+export function ProjectStatusDialog({
+    open,
+    onOpenChange,
+    project,
+    permissions,
+    onSubmit
+}: ProjectStatusDialogProps) {
+    const t = useTranslations("ProjectManagement");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+
+    const [status, setStatus] = useState<ProjectStatus | "">("");
+    const [reason, setReason] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Start from a blank choice every time the dialog opens
+    useEffect(() => {
+        if (open) {
+            setStatus("");
+            setReason("");
+        }
+    }, [open, project]);
+
+    const transitions = project ? getAvailableTransitions(project.status, permissions) : [];
+    const transition = transitions.find(item => item.to === status);
+    const reasonMissing = !!transition?.requiresReason && !reason.trim();
+
+    const handleSubmit = async () => {
+        if (!project || !transition || reasonMissing) return;
+
+        setIsSubmitting(true);
+        try {
+            await onSubmit(project, transition.to, reason.trim() || undefined);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[450px]" style={{ direction: isRtl ? "rtl" : "ltr" }}>
+                <DialogHeader>
+                    <DialogTitle>{t("changeStatus")}</DialogTitle>
+                    {project && (
+                        <DialogDescription>
+                            {t("currentStatus")}: {t(`status_${project.status}`)}
+                        </DialogDescription>
+                    )}
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label>{t("newStatus")}</Label>
+                        <Select value={status} onValueChange={value => setStatus(value as ProjectStatus)}>
+                            <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                <SelectValue placeholder={t("selectNewStatus")} />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {transitions.map(item => (
+                                    <SelectItem key={item.to} value={item.to}>
+                                        {t(`status_${item.to}`)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="status-reason">
+                            {transition?.requiresReason ? t("statusReasonRequired") : t("statusReason")}
+                        </Label>
+                        <Textarea
+                            id="status-reason"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            placeholder={t("statusReasonPlaceholder")}
+                            rows={3}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter className={isRtl ? "flex-row-reverse" : ""}>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        {commonT("cancel")}
+                    </Button>
+                    <Button
+                        onClick={handleSubmit}
+                        disabled={!transition || reasonMissing || isSubmitting}
+                        className="bg-blue-600 hover:bg-blue-700"
+                    >
+                        {isSubmitting && <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />}
+                        {t("changeStatus")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
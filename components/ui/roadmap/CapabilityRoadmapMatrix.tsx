@@ -0,0 +1,95 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { CapabilityRoadmap, RoadmapCounts } from "@/types/capability-roadmap";
+import { getAchievedPercentage } from "@/lib/services/capabilityRoadmap";
+import { formatScore } from "@/components/ui/assessment/AssessmentScoreSummary";
+
+interface CapabilityRoadmapMatrixProps {
+    roadmap: CapabilityRoadmap;
+    showAchieved: boolean; // A project is selected
+}
+
+// Same colors as the capability level badges
+const LEVEL_COLORS: Record<string, string> = {
+    foundational: "bg-blue-100 text-blue-800",
+    advanced: "bg-green-100 text-green-800",
+    veryAdvanced: "bg-orange-100 text-orange-800",
+};
+
+/**
+ * Specification counts per capability level (rows) and control dimension (columns)
+ */
+export function CapabilityRoadmapMatrix({ roadmap, showAchieved }: CapabilityRoadmapMatrixProps) {
+    const t = useTranslations("CapabilityRoadmap");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+
+    const renderCounts = (counts: RoadmapCounts, strong = false) => (
+        <div>
+            <div className={strong ? "font-semibold text-gray-900" : "text-gray-900"}>
+                {counts.count}
+                <span className={`text-xs text-gray-500 ${isRtl ? "mr-1" : "ml-1"}`}>
+                    ({formatScore(counts.count > 0 ? counts.percentage : null)})
+                </span>
+            </div>
+            {showAchieved && counts.count > 0 && (
+                <div className="mt-1">
+                    <div className="text-xs text-gray-500">
+                        {t("achievedOf", { achieved: counts.achievedCount, total: counts.applicableCount })}
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                        <div
+                            className="bg-[var(--primary-green)] h-1.5 rounded-full"
+                            style={{ width: `${getAchievedPercentage(counts) ?? 0}%` }}
+                        ></div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="bg-white border rounded-lg shadow-sm overflow-x-auto" dir={isRtl ? "rtl" : "ltr"}>
+            <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                        <th className="px-4 py-3 text-start font-medium">{t("capabilityLevel")}</th>
+                        {roadmap.dimensions.map(dimension => (
+                            <th key={dimension.dimension} className="px-4 py-3 text-start font-medium">
+                                {t(`dimensions.${dimension.dimension}`)}
+                            </th>
+                        ))}
+                        <th className="px-4 py-3 text-start font-medium">{t("total")}</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y">
+                    {roadmap.phases.map((phase, index) => (
+                        <tr key={phase.capabilityLevel}>
+                            <td className="px-4 py-3 align-top">
+                                <div className="text-xs text-gray-500">{t("phase", { number: index + 1 })}</div>
+                                <span className={`inline-block mt-1 rounded px-2 py-0.5 text-xs font-medium ${LEVEL_COLORS[phase.capabilityLevel]}`}>
+                                    {t(`levels.${phase.capabilityLevel}`)}
+                                </span>
+                            </td>
+                            {phase.cells.map(cell => (
+                                <td key={cell.dimension} className="px-4 py-3 align-top">{renderCounts(cell)}</td>
+                            ))}
+                            <td className="px-4 py-3 align-top bg-gray-50/60">{renderCounts(phase, true)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+                <tfoot className="border-t bg-gray-50/60">
+                    <tr>
+                        <td className="px-4 py-3 font-medium">{t("total")}</td>
+                        {roadmap.dimensions.map(dimension => (
+                            <td key={dimension.dimension} className="px-4 py-3 align-top">{renderCounts(dimension, true)}</td>
+                        ))}
+                        <td className="px-4 py-3 align-top">{renderCounts(roadmap, true)}</td>
+                    </tr>
+                </tfoot>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import Link from "next/link";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { RoadmapPhase, RoadmapStatus } from "@/types/capability-roadmap";
+import { getAchievedPercentage } from "@/lib/services/capabilityRoadmap";
+import { formatScore } from "@/components/ui/assessment/AssessmentScoreSummary";
+
+interface CapabilityRoadmapPhaseProps {
+    phase: RoadmapPhase;
+    number: number; // Position of the phase in the roadmap, from 1
+    frameworkId: string;
+    showAchieved: boolean; // A project is selected
+}
+
+const STATUS_STYLES: Record<RoadmapStatus, string> = {
+    achieved: "bg-green-100 text-green-800 hover:bg-green-100",
+    inProgress: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+    notStarted: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+    notApplicable: "bg-gray-50 text-gray-500 hover:bg-gray-50",
+};
+
+/**
+ * Specifications of one capability level, grouped by control dimension
+ */
+export function CapabilityRoadmapPhase({ phase, number, frameworkId, showAchieved }: CapabilityRoadmapPhaseProps) {
+    const t = useTranslations("CapabilityRoadmap");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+    const [expanded, setExpanded] = useState(false);
+
+    const ExpandIcon = expanded ? ChevronDown : ChevronRight;
+
+    return (
+        <div className="bg-white border rounded-lg shadow-sm overflow-hidden" dir={isRtl ? "rtl" : "ltr"}>
+            <button
+                className="w-full flex items-center justify-between gap-4 p-4 hover:bg-gray-50 transition-colors"
+                onClick={() => setExpanded(!expanded)}
+            >
+                <div className="flex items-center gap-2 text-start">
+                    <ExpandIcon className={`h-5 w-5 text-gray-500 ${!expanded && isRtl ? "rotate-180" : ""}`} />
+                    <span className="font-medium text-gray-900">
+                        {t("phaseTitle", { number, level: t(`levels.${phase.capabilityLevel}`) })}
+                    </span>
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                    <span className="text-gray-500">{t("specificationCount", { count: phase.count })}</span>
+                    {showAchieved && (
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                            {t("achievedPercentage", { percentage: formatScore(getAchievedPercentage(phase)) })}
+                        </Badge>
+                    )}
+                </div>
+            </button>
+
+            {expanded && (
+                <div className="border-t divide-y">
+                    {phase.count === 0 && (
+                        <p className="p-4 text-sm text-gray-500 italic">{t("noSpecifications")}</p>
+                    )}
+                    {phase.cells.filter(cell => cell.count > 0).map(cell => (
+                        <div key={cell.dimension} className="p-4 bg-gray-50/50">
+                            <h4 className="font-medium text-gray-800 mb-3">
+                                {t(`dimensions.${cell.dimension}`)}
+                                <span className={`text-sm font-normal text-gray-500 ${isRtl ? "mr-2" : "ml-2"}`}>
+                                    {showAchieved
+                                        ? t("achievedOf", { achieved: cell.achievedCount, total: cell.applicableCount })
+                                        : t("specificationCount", { count: cell.count })}
+                                </span>
+                            </h4>
+                            <ul className="space-y-2">
+                                {cell.items.map(item => (
+                                    <li
+                                        key={`${item.domainId}/${item.controlId}/${item.specification.id}`}
+                                        className="flex flex-wrap items-center justify-between gap-2 bg-white border rounded-md px-3 py-2 text-sm"
+                                    >
+                                        <Link
+                                            href={`/${locale}/frameworks/${frameworkId}/domains/${item.domainId}/controls/${item.controlId}`}
+                                            className="min-w-0 hover:underline"
+                                        >
+                                            <span className="text-gray-500">{item.specification.number}</span>{" "}
+                                            <span className="text-gray-900">
+                                                {item.specification.name[lang] || item.specification.name.en}
+                                            </span>
+                                            <span className="block text-xs text-gray-500">
+                                                {item.controlId} · {item.controlName[lang] || item.controlName.en}
+                                            </span>
+                                        </Link>
+                                        {item.status && (
+                                            <Badge className={STATUS_STYLES[item.status]}>{t(`statuses.${item.status}`)}</Badge>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
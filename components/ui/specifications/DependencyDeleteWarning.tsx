@@ -0,0 +1,35 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { AlertTriangle } from "lucide-react";
+import { DependencyGraphNode, getDependencyKey } from "@/types/specification-dependency";
+
+interface DependencyDeleteWarningProps {
+    dependents: DependencyGraphNode[]; // Specifications left depending on what is deleted
+}
+
+export function DependencyDeleteWarning({ dependents }: DependencyDeleteWarningProps) {
+    const t = useTranslations("SpecificationDependencies");
+    const locale = useLocale();
+    const lang = locale === "ar" ? "ar" : "en";
+
+    if (dependents.length === 0) return null;
+
+    return (
+        <div className="rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+            <div className="flex items-center gap-2 font-medium mb-1">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span>{t("deleteWarning", { count: dependents.length })}</span>
+            </div>
+            <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+                {dependents.map(node => (
+                    <li key={getDependencyKey(node.ref)}>
+                        <span className="font-mono text-xs" dir="ltr">{getDependencyKey(node.ref)}</span>
+                        {node.name && <span> — {node.name[lang] || node.name.en}</span>}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useMemo } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { CapabilityLevel } from "@/hooks/useSpecifications";
+import {
+    DependencyGraph,
+    DependencyScope,
+    SpecificationDependency,
+    findCyclicDependencies,
+    formatDependencyReference,
+    getDependencyKey,
+    isInDependencyScope
+} from "@/types/specification-dependency";
+
+interface SpecificationDependencyGraphProps {
+    graph: DependencyGraph;
+    scope: DependencyScope; // Domain or control whose specifications are shown
+    onSelect?: (ref: SpecificationDependency) => void; // Called for specifications inside the scope
+}
+
+interface LaidOutNode {
+    key: string;
+    ref: SpecificationDependency;
+    label: string;
+    name: string;
+    capabilityLevel?: CapabilityLevel;
+    external: boolean; // Dependency outside the scope
+    missing: boolean; // Dependency on a specification that no longer exists
+    cyclic: boolean;
+    x: number;
+    y: number;
+}
+
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 46;
+const COLUMN_GAP = 70;
+const ROW_GAP = 16;
+const MAX_NAME_LENGTH = 28;
+
+// Same colors as the capability level badges
+const LEVEL_STYLES: Record<CapabilityLevel, { fill: string; stroke: string }> = {
+    foundational: { fill: "#dbeafe", stroke: "#3b82f6" },
+    advanced: { fill: "#dcfce7", stroke: "#22c55e" },
+    veryAdvanced: { fill: "#ffedd5", stroke: "#f97316" },
+};
+
+const truncate = (text: string) => text.length > MAX_NAME_LENGTH ? `${text.slice(0, MAX_NAME_LENGTH - 1)}…` : text;
+
+export function SpecificationDependencyGraph({ graph, scope, onSelect }: SpecificationDependencyGraphProps) {
+    const t = useTranslations("SpecificationDependencies");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+
+    const layout = useMemo(() => {
+        const cyclic = findCyclicDependencies(graph);
+        const inScope = [...graph.values()].filter(node => isInDependencyScope(node.ref, scope));
+
+        // Specifications of the scope and the specifications they depend on elsewhere
+        const refs = new Map<string, SpecificationDependency>();
+        inScope.forEach(node => {
+            refs.set(getDependencyKey(node.ref), node.ref);
+            node.dependsOn.forEach(dependency => refs.set(getDependencyKey(dependency), dependency));
+        });
+
+        const edges = inScope.flatMap(node => node.dependsOn.map(dependency => ({
+            from: getDependencyKey(dependency),
+            to: getDependencyKey(node.ref)
+        })));
+
+        // Column = length of the longest dependency chain below the specification, so prerequisites come first
+        const depths = new Map<string, number>();
+        const getDepth = (key: string, visiting: Set<string>): number => {
+            if (depths.has(key)) return depths.get(key) as number;
+            if (visiting.has(key) || !isInDependencyScope(refs.get(key) as SpecificationDependency, scope)) return 0;
+
+            visiting.add(key);
+            const dependencies = graph.get(key)?.dependsOn || [];
+            const depth = dependencies.length === 0
+                ? 0
+                : 1 + Math.max(...dependencies.map(dependency => getDepth(getDependencyKey(dependency), visiting)));
+            visiting.delete(key);
+            depths.set(key, depth);
+            return depth;
+        };
+
+        const columns: string[][] = [];
+        [...refs.keys()].sort().forEach(key => {
+            const depth = getDepth(key, new Set());
+            (columns[depth] = columns[depth] || []).push(key);
+        });
+
+        const width = Math.max(columns.length, 1) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+        const height = Math.max(...columns.map(column => column?.length || 0), 1) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+        const nodes = new Map<string, LaidOutNode>();
+        columns.forEach((column, depth) => (column || []).forEach((key, row) => {
+            const ref = refs.get(key) as SpecificationDependency;
+            const node = graph.get(key);
+            const x = depth * (NODE_WIDTH + COLUMN_GAP);
+
+            nodes.set(key, {
+                key,
+                ref,
+                label: formatDependencyReference(ref, scope.controlId ? { domainId: scope.domainId, controlId: scope.controlId } : undefined),
+                name: node?.name ? truncate(node.name[lang] || node.name.en) : "",
+                capabilityLevel: node?.capabilityLevel,
+                external: !isInDependencyScope(ref, scope),
+                missing: !node,
+                cyclic: cyclic.has(key),
+                // Prerequisites start on the reading side
+                x: isRtl ? width - x - NODE_WIDTH : x,
+                y: row * (NODE_HEIGHT + ROW_GAP),
+            });
+        }));
+
+        return { nodes: [...nodes.values()], edges, nodesByKey: nodes, width, height };
+    }, [graph, scope.domainId, scope.controlId, scope.specificationId, isRtl, lang]);
+
+    if (layout.edges.length === 0) {
+        return <p className="text-sm text-gray-500 italic">{t("noDependencies")}</p>;
+    }
+
+    const hasCycles = layout.nodes.some(node => node.cyclic);
+
+    return (
+        <div className="space-y-3">
+            {hasCycles && (
+                <p className="text-sm text-red-600">{t("cycleWarning")}</p>
+            )}
+
+            <div className="overflow-x-auto rounded-md border bg-white p-4">
+                <svg
+                    width={layout.width}
+                    height={layout.height}
+                    viewBox={`0 0 ${layout.width} ${layout.height}`}
+                    role="img"
+                    aria-label={t("graphLabel")}
+                >
+                    <defs>
+                        <marker id="dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+                        </marker>
+                    </defs>
+
+                    {/* Edges from each prerequisite to the specification that depends on it */}
+                    {layout.edges.map(edge => {
+                        const from = layout.nodesByKey.get(edge.from);
+                        const to = layout.nodesByKey.get(edge.to);
+                        if (!from || !to) return null;
+
+                        const leftToRight = from.x <= to.x;
+                        const x1 = leftToRight ? from.x + NODE_WIDTH : from.x;
+                        const x2 = leftToRight ? to.x : to.x + NODE_WIDTH;
+                        const y1 = from.y + NODE_HEIGHT / 2;
+                        const y2 = to.y + NODE_HEIGHT / 2;
+                        const bend = (x2 - x1) / 2;
+                        const isCycleEdge = from.cyclic && to.cyclic;
+
+                        return (
+                            <path
+                                key={`${edge.from}->${edge.to}`}
+                                d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                                fill="none"
+                                stroke={isCycleEdge ? "#dc2626" : "#9ca3af"}
+                                strokeWidth={1.5}
+                                markerEnd="url(#dependency-arrow)"
+                            />
+                        );
+                    })}
+
+                    {layout.nodes.map(node => {
+                        const style = node.capabilityLevel && !node.external
+                            ? LEVEL_STYLES[node.capabilityLevel]
+                            : { fill: "#f9fafb", stroke: "#9ca3af" };
+                        const clickable = !!onSelect && !node.external;
+
+                        return (
+                            <g
+                                key={node.key}
+                                transform={`translate(${node.x}, ${node.y})`}
+                                onClick={clickable ? () => onSelect?.(node.ref) : undefined}
+                                className={clickable ? "cursor-pointer" : undefined}
+                            >
+                                <title>{node.missing ? t("missingSpecification", { reference: node.key }) : node.key}</title>
+                                <rect
+                                    width={NODE_WIDTH}
+                                    height={NODE_HEIGHT}
+                                    rx={6}
+                                    fill={style.fill}
+                                    stroke={node.cyclic || node.missing ? "#dc2626" : style.stroke}
+                                    strokeWidth={node.cyclic ? 2 : 1}
+                                    strokeDasharray={node.external ? "4 3" : undefined}
+                                />
+                                <text x={NODE_WIDTH / 2} y={18} textAnchor="middle" fontSize={12} fontWeight={600} fill="#111827">
+                                    {node.label}
+                                </text>
+                                <text x={NODE_WIDTH / 2} y={35} textAnchor="middle" fontSize={11} fill="#4b5563">
+                                    {node.missing ? t("missing") : node.name}
+                                </text>
+                            </g>
+                        );
+                    })}
+                </svg>
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                {(Object.keys(LEVEL_STYLES) as CapabilityLevel[]).map(level => (
+                    <span key={level} className="flex items-center gap-1">
+                        <span
+                            className="inline-block h-3 w-3 rounded-sm border"
+                            style={{ backgroundColor: LEVEL_STYLES[level].fill, borderColor: LEVEL_STYLES[level].stroke }}
+                        />
+                        {t(`levels.${level}`)}
+                    </span>
+                ))}
+                <span className="flex items-center gap-1">
+                    <span className="inline-block h-3 w-3 rounded-sm border border-dashed border-gray-400 bg-gray-50" />
+                    {t("external")}
+                </span>
+                <span>{t("direction")}</span>
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,19 @@
 "use client";
 
+import { useState } from "react";
 import { useTranslations } from "next-intl";
 import { useLocale } from "next-intl";
-import { Specification, CapabilityLevel } from "@/hooks/useSpecifications";
+import { RotateCcw } from "lucide-react";
+import { Specification, CapabilityLevel, VersionHistory } from "@/hooks/useSpecifications";
+import { getSpecificationContent, isSameSpecificationContent } from "@/types/specification-version";
+import {
+    DependencyGraph,
+    SpecificationDependency,
+    findDependents,
+    formatDependencyReference,
+    getDependencyKey,
+    normalizeDependencies
+} from "@/types/specification-dependency";
 import { format } from "date-fns";
 import { ar, enUS } from "date-fns/locale";
 
@@ -18,11 +29,19 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import Spinner from "@/components/ui/spinner";
+import { SpecificationEvidencePanel } from "@/components/ui/specifications/SpecificationEvidencePanel";
+import { SpecificationVersionDiff } from "@/components/ui/specifications/SpecificationVersionDiff";
 
 interface SpecificationDetailsDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     specification: Specification | null;
+    domainId?: string;
+    controlId?: string;
+    projectId?: string | null; // Project whose evidence is listed
+    onRestoreVersion?: (version: string) => Promise<void>; // Shown to framework editors
+    dependencyGraph?: DependencyGraph; // Names of dependencies and the specifications depending on this one
 }
 
 // Get level color based on capability level
@@ -48,12 +67,18 @@ const getLocalizedLevelName = (level: CapabilityLevel, isRtl: boolean): string =
 export function SpecificationDetailsDialog({
     open,
     onOpenChange,
-    specification
+    specification,
+    domainId,
+    controlId,
+    projectId = null,
+    onRestoreVersion,
+    dependencyGraph
 }: SpecificationDetailsDialogProps) {
     const t = useTranslations("SpecificationDetails");
     const levelT = useTranslations("SpecificationManagement");
     const locale = useLocale();
     const isRtl = locale === "ar";
+    const [restoringVersion, setRestoringVersion] = useState<string | null>(null);
 
     if (!specification) return null;
 
@@ -67,6 +92,54 @@ export function SpecificationDetailsDialog({
         }
     };
 
+    const versionHistory = specification.versionHistory || [];
+    const snapshots = versionHistory.filter(version => version.content);
+    const currentContent = getSpecificationContent(specification);
+
+    // Versions whose content differs from the current content can be restored
+    const canRestore = (version: VersionHistory) =>
+        !!onRestoreVersion && !!version.content && !isSameSpecificationContent(version.content, currentContent);
+
+    // Dependencies of this specification and the specifications that depend on it
+    const dependsOn = normalizeDependencies(specification.dependsOn);
+    const requiredBy = dependencyGraph && domainId && controlId
+        ? findDependents(dependencyGraph, { domainId, controlId, specificationId: specification.number }).map(node => node.ref)
+        : [];
+    const from = domainId && controlId ? { domainId, controlId } : undefined;
+
+    const renderDependencies = (refs: SpecificationDependency[]) => (
+        <ul className="space-y-1">
+            {refs.map(ref => {
+                const node = dependencyGraph?.get(getDependencyKey(ref));
+                return (
+                    <li key={getDependencyKey(ref)} className="flex items-center gap-2 text-sm sm:text-base">
+                        <Badge variant="outline" className={node || !dependencyGraph ? "" : "border-red-300 text-red-700"}>
+                            {formatDependencyReference(ref, from)}
+                        </Badge>
+                        <span className="text-gray-700">
+                            {node?.name
+                                ? node.name[isRtl ? 'ar' : 'en'] || node.name.en
+                                : dependencyGraph && <span className="text-red-600">{t("missingDependency")}</span>}
+                        </span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+
+    const handleRestore = async (version: string) => {
+        if (!onRestoreVersion) return;
+
+        setRestoringVersion(version);
+        try {
+            await onRestoreVersion(version);
+        } catch (_) {
+            // The page reports the error
+        } finally {
+            setRestoringVersion(null);
+        }
+    };
+
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
             <DialogContent
@@ -99,10 +172,25 @@ export function SpecificationDetailsDialog({
                         </p>
                     </div>
 
-                    {/* Dependency */}
+                    {/* Dependencies */}
+                    {dependsOn.length > 0 && (
+                        <div className="mb-4 sm:mb-6">
+                            <h3 className="text-base sm:text-lg font-medium mb-1 sm:mb-2">{t("dependsOn")}</h3>
+                            {renderDependencies(dependsOn)}
+                        </div>
+                    )}
+
+                    {requiredBy.length > 0 && (
+                        <div className="mb-4 sm:mb-6">
+                            <h3 className="text-base sm:text-lg font-medium mb-1 sm:mb-2">{t("requiredBy")}</h3>
+                            {renderDependencies(requiredBy)}
+                        </div>
+                    )}
+
+                    {/* Free-text dependency notes from before structured dependencies */}
                     {(specification.dependency?.en || specification.dependency?.ar) && (
                         <div className="mb-4 sm:mb-6">
-                            <h3 className="text-base sm:text-lg font-medium mb-1 sm:mb-2">{t("dependency")}</h3>
+                            <h3 className="text-base sm:text-lg font-medium mb-1 sm:mb-2">{t("dependencyNotes")}</h3>
                             <p className="text-gray-700 text-sm sm:text-base">
                                 {specification.dependency[isRtl ? 'ar' : 'en']}
                             </p>
@@ -131,19 +219,40 @@ export function SpecificationDetailsDialog({
                     {/* Version History */}
                     <div>
                         <h3 className="text-base sm:text-lg font-medium mb-1 sm:mb-2">{t("versionHistory")}</h3>
-                        {specification.versionHistory?.length ? (
+                        {versionHistory.length ? (
                             <div className="space-y-2 sm:space-y-3">
-                                {specification.versionHistory.map((version, index) => (
-                                    <div key={index} className={`flex items-start ${isRtl ? '' : 'flex-row text-left'}`}>
+                                {[...versionHistory].reverse().map(version => (
+                                    <div key={version.version} className={`flex items-start ${isRtl ? '' : 'flex-row text-left'}`}>
                                         <div className={`bg-blue-100 text-blue-800 px-2 py-1 rounded-md ${isRtl ? 'ml-2 sm:ml-3' : 'mr-2 sm:mr-3'} font-medium text-xs sm:text-sm`}>
                                             {version.version}
                                         </div>
-                                        <div>
-                                            <div className="text-xs sm:text-sm text-gray-500 mb-0.5 sm:mb-1">{formatDate(version.date.toString())}</div>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-xs sm:text-sm text-gray-500 mb-0.5 sm:mb-1">
+                                                {[
+                                                    formatDate(typeof version.date === 'string' ? version.date : version.date.toDate().toISOString()),
+                                                    version.changedByName
+                                                ].filter(Boolean).join(" · ")}
+                                            </div>
+                                            {version.restoredFrom && (
+                                                <p className="text-gray-700 text-sm sm:text-base">{t("restoredFrom", { version: version.restoredFrom })}</p>
+                                            )}
                                             {version.note && (
-                                                <p className="text-gray-700 text-sm sm:text-base">{version.note[isRtl ? 'ar' : 'en']}</p>
+                                                <p className="text-gray-700 text-sm sm:text-base">{version.note[isRtl ? 'ar' : 'en'] || version.note.en}</p>
                                             )}
                                         </div>
+                                        {canRestore(version) && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => handleRestore(version.version)}
+                                                disabled={restoringVersion !== null}
+                                            >
+                                                {restoringVersion === version.version
+                                                    ? <Spinner size="sm" className={isRtl ? "ml-1" : "mr-1"} />
+                                                    : <RotateCcw className={`h-4 w-4 ${isRtl ? "ml-1" : "mr-1"}`} />}
+                                                {t("restoreVersion")}
+                                            </Button>
+                                        )}
                                     </div>
                                 ))}
                             </div>
@@ -151,6 +260,27 @@ export function SpecificationDetailsDialog({
                             <p className="text-gray-500 italic text-sm">{t("noVersionHistory")}</p>
                         )}
                     </div>
+
+                    {/* Comparison of two versions */}
+                    {snapshots.length > 0 && (
+                        <div className="mt-4 sm:mt-6">
+                            <h3 className="text-base sm:text-lg font-medium mb-1 sm:mb-2">{t("compareVersions")}</h3>
+                            <SpecificationVersionDiff
+                                versions={snapshots}
+                                getLevelName={level => getLocalizedLevelName(level, isRtl)}
+                            />
+                        </div>
+                    )}
+
+                    {/* Evidence for the selected project */}
+                    {domainId && controlId && (
+                        <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t">
+                            <SpecificationEvidencePanel
+                                projectId={projectId}
+                                target={{ domainId, controlId, specificationId: specification.id }}
+                            />
+                        </div>
+                    )}
                 </ScrollArea>
 
                 <DialogFooter className={`p-3 sm:p-4 border-t ${isRtl ? 'flex-row-reverse justify-end' : 'justify-end'}`}>
@@ -0,0 +1,249 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { FileText, Link2, StickyNote, Check, X, Trash2, Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import { useEvidence } from "@/hooks/useEvidence";
+import { useAuthContext } from "@/context/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { EvidenceType, EvidenceReviewStatus } from "@/types/assessment";
+import { EvidenceTarget } from "@/lib/services/evidenceService";
+import { getProjectById } from "@/lib/services/projectService";
+import { isProjectReadOnly } from "@/types/project-lifecycle";
+
+interface SpecificationEvidencePanelProps {
+    projectId: string | null;
+    target: EvidenceTarget;
+}
+
+// Icon for each evidence type
+const evidenceIcons: Record<EvidenceType, typeof FileText> = {
+    file: FileText,
+    link: Link2,
+    note: StickyNote,
+};
+
+// Badge color for each review status
+const getStatusColor = (status: EvidenceReviewStatus): string => {
+    switch (status) {
+        case "accepted": return "bg-green-100 text-green-800 hover:bg-green-100";
+        case "rejected": return "bg-red-100 text-red-800 hover:bg-red-100";
+        default: return "bg-amber-100 text-amber-800 hover:bg-amber-100";
+    }
+};
+
+export function SpecificationEvidencePanel({ projectId, target }: SpecificationEvidencePanelProps) {
+    const t = useTranslations("SpecificationEvidence");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const { toast } = useToast();
+    const { user } = useAuthContext();
+    const { can } = usePermissions();
+
+    const [newType, setNewType] = useState<EvidenceType>("link");
+    const [title, setTitle] = useState("");
+    const [url, setUrl] = useState("");
+    const [note, setNote] = useState("");
+    const [file, setFile] = useState<File | null>(null);
+
+    const uploader = user ? { id: user.id, name: user.name } : undefined;
+    const [projectStatus, setProjectStatus] = useState<string | null>(null);
+
+    // Evidence of closed projects can only be changed by users who can edit projects
+    const readOnly = !!projectStatus && isProjectReadOnly(projectStatus) && !can("project:edit");
+    const canReview = can("evidence:review") && !readOnly;
+
+    const {
+        evidence,
+        loading,
+        submitting,
+        canSubmit,
+        addLink,
+        addNote,
+        addFile,
+        setReviewStatus,
+        removeEvidence
+    } = useEvidence(projectId, target, uploader);
+
+    useEffect(() => {
+        if (!projectId) {
+            setProjectStatus(null);
+            return;
+        }
+
+        getProjectById(projectId)
+            .then(project => setProjectStatus(project?.status ?? null))
+            .catch(error => console.error("Error fetching evidence project:", error));
+    }, [projectId]);
+
+    const resetForm = () => {
+        setTitle("");
+        setUrl("");
+        setNote("");
+        setFile(null);
+    };
+
+    const handleSubmit = async () => {
+        let added = false;
+        if (newType === "link") {
+            added = await addLink(title, url, note || undefined);
+        } else if (newType === "note") {
+            added = await addNote(title, note);
+        } else if (file) {
+            added = await addFile(file, title || undefined, note || undefined);
+        }
+
+        if (added) {
+            resetForm();
+            toast({ title: t("evidenceAdded") });
+        } else {
+            toast({
+                variant: "destructive",
+                title: t("addError"),
+                description: t("addErrorDescription"),
+            });
+        }
+    };
+
+    const isFormValid = newType === "file"
+        ? file !== null
+        : title.trim() !== "" && (newType === "link" ? url.trim() !== "" : note.trim() !== "");
+
+    if (!projectId) {
+        return (
+            <div>
+                <h3 className="text-base sm:text-lg font-medium mb-1 sm:mb-2">{t("title")}</h3>
+                <p className="text-gray-500 italic text-sm">{t("selectProject")}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div dir={isRtl ? "rtl" : "ltr"}>
+            <h3 className="text-base sm:text-lg font-medium mb-1 sm:mb-2">
+                {t("title")} {evidence.length > 0 && <span className="text-gray-400">({evidence.length})</span>}
+            </h3>
+
+            {/* Evidence List */}
+            {loading ? (
+                <div className="flex justify-center py-4">
+                    <Spinner size="sm" />
+                </div>
+            ) : evidence.length === 0 ? (
+                <p className="text-gray-500 italic text-sm mb-4">{t("noEvidence")}</p>
+            ) : (
+                <div className="space-y-2 mb-4">
+                    {evidence.map(item => {
+                        const Icon = evidenceIcons[item.type];
+                        const uploadedAt = item.uploadedAt?.toDate
+                            ? format(item.uploadedAt.toDate(), "PPP", { locale: isRtl ? ar : enUS })
+                            : "";
+
+                        return (
+                            <div key={item.id} className="flex items-start gap-3 bg-gray-50 p-3 rounded-md border">
+                                <Icon className="h-5 w-5 text-gray-500 flex-shrink-0 mt-0.5" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {item.url ? (
+                                            <a href={item.url} target="_blank" rel="noopener noreferrer" className="font-medium text-sm text-[var(--primary-blue)] hover:underline break-all">
+                                                {item.title}
+                                            </a>
+                                        ) : (
+                                            <span className="font-medium text-sm">{item.title}</span>
+                                        )}
+                                        <Badge className={`${getStatusColor(item.reviewStatus)} text-xs`}>
+                                            {t(`status.${item.reviewStatus}`)}
+                                        </Badge>
+                                    </div>
+                                    {item.note && (
+                                        <p className="text-gray-600 text-xs sm:text-sm whitespace-pre-line mt-1">{item.note}</p>
+                                    )}
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        {t("uploadedBy", { name: item.uploaderName || item.uploadedBy, date: uploadedAt })}
+                                    </p>
+                                </div>
+                                <div className="flex gap-1 flex-shrink-0">
+                                    {canReview && item.reviewStatus !== "accepted" && (
+                                        <Button variant="ghost" size="icon" className="h-8 w-8 text-green-600" disabled={submitting}
+                                            onClick={() => setReviewStatus(item.id, "accepted")} aria-label={t("accept")}>
+                                            <Check className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                    {canReview && item.reviewStatus !== "rejected" && (
+                                        <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" disabled={submitting}
+                                            onClick={() => setReviewStatus(item.id, "rejected")} aria-label={t("reject")}>
+                                            <X className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                    {!readOnly && (can("project:edit") || user?.id === item.uploadedBy) && (
+                                        <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500" disabled={submitting}
+                                            onClick={() => removeEvidence(item.id)} aria-label={t("delete")}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {readOnly && (
+                <p className="text-gray-500 italic text-sm">{t("projectClosed")}</p>
+            )}
+
+            {/* Add Evidence */}
+            {canSubmit && !readOnly && (
+                <Tabs value={newType} onValueChange={(value) => setNewType(value as EvidenceType)} dir={isRtl ? "rtl" : "ltr"}>
+                    <TabsList className="mb-2">
+                        <TabsTrigger value="link">{t("types.link")}</TabsTrigger>
+                        <TabsTrigger value="file">{t("types.file")}</TabsTrigger>
+                        <TabsTrigger value="note">{t("types.note")}</TabsTrigger>
+                    </TabsList>
+                    <div className="space-y-2">
+                        <Input
+                            placeholder={newType === "file" ? t("titleOptionalPlaceholder") : t("titlePlaceholder")}
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                        />
+                        <TabsContent value="link" className="mt-0">
+                            <Input placeholder="https://" value={url} onChange={(e) => setUrl(e.target.value)} dir="ltr" />
+                        </TabsContent>
+                        <TabsContent value="file" className="mt-0">
+                            <label className="flex items-center gap-2 text-sm text-gray-600 border rounded-md px-3 py-2 cursor-pointer hover:bg-gray-50">
+                                <Paperclip className="h-4 w-4" />
+                                <span className="truncate">{file ? file.name : t("chooseFile")}</span>
+                                <input type="file" className="hidden" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+                            </label>
+                        </TabsContent>
+                        <Textarea
+                            placeholder={newType === "note" ? t("notePlaceholder") : t("noteOptionalPlaceholder")}
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            rows={2}
+                        />
+                        <div className="flex justify-end">
+                            <Button
+                                onClick={handleSubmit}
+                                disabled={!isFormValid || submitting}
+                                className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)] text-white"
+                            >
+                                {submitting ? t("adding") : t("addEvidence")}
+                            </Button>
+                        </div>
+                    </div>
+                </Tabs>
+            )}
+        </div>
+    );
+}
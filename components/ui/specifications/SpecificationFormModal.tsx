@@ -36,7 +36,17 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import Spinner from "@/components/ui/spinner";
+import { MultiSelect } from "@/components/ui/multi-select";
 import { Specification } from "@/hooks/useSpecifications";
+import {
+  DependencyGraph,
+  DependencyProblem,
+  SpecificationDependency,
+  formatDependencyReference,
+  getDependencyKey,
+  parseDependencyKey,
+  validateSpecificationDependencies
+} from "@/types/specification-dependency";
 import { Trash2, Plus } from "lucide-react";
 
 // Types
@@ -51,15 +61,6 @@ export interface SubSpecFormValue {
   };
 }
 
-export interface VersionHistoryFormValue {
-  version: string;
-  date: string;
-  note?: {
-    en: string;
-    ar: string;
-  };
-}
-
 export interface SpecificationFormValues {
   number: string;
   name: {
@@ -71,12 +72,16 @@ export interface SpecificationFormValues {
     ar: string;
   };
   capabilityLevel: CapabilityLevel;
-  dependency?: {
+  dependency?: { // Legacy free-text notes, kept as they are
     en: string;
     ar: string;
   };
+  dependsOn?: SpecificationDependency[];
   subSpecifications?: SubSpecFormValue[];
-  versionHistory?: VersionHistoryFormValue[];
+  versionNote?: { // Note recorded with the version this save creates
+    en: string;
+    ar: string;
+  };
 }
 
 // Form schema with localized validation
@@ -97,6 +102,13 @@ const createFormSchema = (t: ReturnType<typeof useTranslations>) => z.object({
     en: z.string().optional(),
     ar: z.string().optional(),
   }).optional(),
+  dependsOn: z.array(
+    z.object({
+      domainId: z.string(),
+      controlId: z.string(),
+      specificationId: z.string(),
+    })
+  ).optional(),
   subSpecifications: z.array(
     z.object({
       name: z.object({
@@ -109,16 +121,10 @@ const createFormSchema = (t: ReturnType<typeof useTranslations>) => z.object({
       }).optional(),
     })
   ).optional(),
-  versionHistory: z.array(
-    z.object({
-      version: z.string().min(1, { message: t("validation.requiredVersionNumber") }),
-      date: z.string().min(1, { message: t("validation.requiredVersionDate") }),
-      note: z.object({
-        en: z.string().optional(),
-        ar: z.string().optional(),
-      }).optional(),
-    })
-  ).optional(),
+  versionNote: z.object({
+    en: z.string(),
+    ar: z.string(),
+  }).optional(),
 });
 
 interface SpecificationFormModalProps {
@@ -128,6 +134,9 @@ interface SpecificationFormModalProps {
   defaultValues?: Partial<SpecificationFormValues>;
   onSubmit: (data: SpecificationFormValues, originalSpecId?: string) => Promise<void>;
   existingSpecificationIds?: string[];
+  nextVersion?: string; // Version number the save will record
+  dependencyGraph?: DependencyGraph; // Specifications of the framework that can be depended on
+  dependencyScope?: { domainId: string; controlId: string }; // Control the specification belongs to
 }
 
 export function SpecificationFormModal({
@@ -136,13 +145,17 @@ export function SpecificationFormModal({
   mode = "create",
   defaultValues,
   onSubmit,
-  existingSpecificationIds = []
+  existingSpecificationIds = [],
+  nextVersion,
+  dependencyGraph,
+  dependencyScope
 }: SpecificationFormModalProps) {
   const t = useTranslations("SpecificationForm");
   const locale = useLocale();
   const isRtl = locale === "ar";
   const [isLoading, setIsLoading] = useState(false);
   const [specIdError, setSpecIdError] = useState<string | null>(null);
+  const [dependencyErrors, setDependencyErrors] = useState<string[]>([]);
 
   // Create form schema with translations
   const formSchema = createFormSchema(t);
@@ -165,18 +178,16 @@ export function SpecificationFormModal({
         en: "",
         ar: "",
       },
+      dependsOn: defaultValues?.dependsOn || [],
       subSpecifications: defaultValues?.subSpecifications || [],
-      versionHistory: defaultValues?.versionHistory || []
+      versionNote: { en: "", ar: "" }
     },
   });
 
-  // Set up field arrays for sub-specifications and version history
+  // Set up field array for sub-specifications
   const { fields: subSpecFields, append: appendSubSpec, remove: removeSubSpec } =
     useFieldArray({ control: form.control, name: "subSpecifications" });
 
-  const { fields: versionFields, append: appendVersion, remove: removeVersion } =
-    useFieldArray({ control: form.control, name: "versionHistory" });
-
   // When the component initializes or default values change, reset the form
   useEffect(() => {
     form.reset({
@@ -194,12 +205,40 @@ export function SpecificationFormModal({
         en: "",
         ar: "",
       },
+      dependsOn: defaultValues?.dependsOn || [],
       subSpecifications: defaultValues?.subSpecifications || [],
-      versionHistory: defaultValues?.versionHistory || []
+      versionNote: { en: "", ar: "" }
     });
     setSpecIdError(null);
+    setDependencyErrors([]);
   }, [defaultValues, form, open]);
 
+  // Every other specification of the framework can be picked as a dependency
+  const sourceKey = dependencyScope && defaultValues?.number
+    ? getDependencyKey({ ...dependencyScope, specificationId: defaultValues.number })
+    : null;
+  const dependencyOptions = [...(dependencyGraph?.values() || [])]
+    .filter(node => getDependencyKey(node.ref) !== sourceKey)
+    .map(node => ({
+      value: getDependencyKey(node.ref),
+      label: `${formatDependencyReference(node.ref, dependencyScope)} — ${node.name?.[isRtl ? "ar" : "en"] || node.name?.en || ""}`
+    }))
+    .sort((a, b) => a.value.localeCompare(b.value));
+
+  const describeProblem = (problem: DependencyProblem) => {
+    const reference = formatDependencyReference(problem.dependency, dependencyScope);
+    switch (problem.type) {
+      case "self": return t("validation.dependencySelf");
+      case "missing": return t("validation.dependencyMissing", { reference });
+      case "cycle": return t("validation.dependencyCycle", {
+        reference,
+        path: problem.cycle
+          .map(key => formatDependencyReference(parseDependencyKey(key) as SpecificationDependency, dependencyScope))
+          .join(" → ")
+      });
+    }
+  };
+
   // Add a new sub-specification
   const handleAddSubSpec = () => {
     appendSubSpec({
@@ -208,15 +247,6 @@ export function SpecificationFormModal({
     });
   };
 
-  // Add a new version history item
-  const handleAddVersion = () => {
-    appendVersion({
-      version: "",
-      date: new Date().toISOString().split('T')[0],
-      note: { en: "", ar: "" }
-    });
-  };
-
   // Handle form submission
   const handleFormSubmit = async (data: SpecificationFormValues) => {
     // Handle specification ID uniqueness check for create mode
@@ -225,6 +255,17 @@ export function SpecificationFormModal({
       return;
     }
 
+    // Dependencies must exist and must not lead back to the specification
+    if (dependencyGraph && dependencyScope) {
+      const problems = validateSpecificationDependencies(
+        dependencyGraph,
+        { ...dependencyScope, specificationId: data.number },
+        data.dependsOn || []
+      );
+      setDependencyErrors(problems.map(describeProblem));
+      if (problems.length > 0) return;
+    }
+
     setIsLoading(true);
     try {
       await onSubmit(data, mode === "edit" ? defaultValues?.number : undefined);
@@ -399,40 +440,27 @@ export function SpecificationFormModal({
                 )}
               />
 
-              {/* English Dependency */}
-              <FormField
-                control={form.control}
-                name="dependency.en"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{t("dependencyEn")}</FormLabel>
-                    <FormControl>
-                      <Input
-                        {...field}
-                        placeholder={t("dependencyEnPlaceholder")}
-                        disabled={isLoading}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {/* Arabic Dependency */}
+              {/* Dependencies on other specifications of the framework */}
               <FormField
                 control={form.control}
-                name="dependency.ar"
+                name="dependsOn"
                 render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{t("dependencyAr")}</FormLabel>
-                    <FormControl>
-                      <Input
-                        {...field}
-                        placeholder={t("dependencyArPlaceholder")}
-                        disabled={isLoading}
-                        dir="rtl"
-                      />
-                    </FormControl>
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>{t("dependsOn")}</FormLabel>
+                    <MultiSelect
+                      options={dependencyOptions}
+                      selected={(field.value || []).map(getDependencyKey)}
+                      onChange={(keys) => field.onChange(keys
+                        .map(parseDependencyKey)
+                        .filter((ref): ref is SpecificationDependency => ref !== null))}
+                      placeholder={t("dependsOnPlaceholder")}
+                      emptyPlaceholder={t("noDependencyOptions")}
+                      disabled={isLoading || !dependencyGraph}
+                    />
+                    <p className="text-xs text-gray-500">{t("dependsOnHint")}</p>
+                    {dependencyErrors.map(error => (
+                      <p key={error} className="text-sm font-medium text-red-500">{error}</p>
+                    ))}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -562,126 +590,54 @@ export function SpecificationFormModal({
               )}
             </div>
 
-            {/* Version History */}
+            {/* Version note - every save records the content as a new version */}
             <div className="border rounded-md p-4">
-              <div className="flex justify-between items-center mb-4">
+              <div className="mb-4">
                 <h3 className="font-medium text-lg">{t("versionHistory")}</h3>
-                <Button
-                  type="button"
-                  onClick={handleAddVersion}
-                  variant="outline"
-                  size="sm"
-                  className="flex items-center"
-                  disabled={isLoading}
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  {t("addVersion")}
-                </Button>
+                {nextVersion && (
+                  <p className="text-sm text-gray-500">{t("nextVersion", { version: nextVersion })}</p>
+                )}
               </div>
 
-              {versionFields.length === 0 ? (
-                <div className="text-center py-4 text-gray-500">
-                  {t("addVersion")}
-                </div>
-              ) : (
-                <div className="space-y-6">
-                  {versionFields.map((field, index) => (
-                    <div key={field.id} className="p-4 border rounded-md bg-gray-50">
-                      <div className="flex justify-between items-center mb-4">
-                        <h4 className="font-medium">Version #{index + 1}</h4>
-                        <Button
-                          type="button"
-                          onClick={() => removeVersion(index)}
-                          variant="ghost"
-                          size="sm"
-                          className="text-red-600 hover:text-red-800 hover:bg-red-50"
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Version Note (EN) */}
+                <FormField
+                  control={form.control}
+                  name="versionNote.en"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("versionNoteEn")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder={t("versionNotePlaceholder")}
                           disabled={isLoading}
-                        >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          {t("removeVersion")}
-                        </Button>
-                      </div>
-
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {/* Version Number */}
-                        <FormField
-                          control={form.control}
-                          name={`versionHistory.${index}.version`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>{t("versionNumber")}</FormLabel>
-                              <FormControl>
-                                <Input
-                                  {...field}
-                                  placeholder={t("versionNumberPlaceholder")}
-                                  disabled={isLoading}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        {/* Version Date */}
-                        <FormField
-                          control={form.control}
-                          name={`versionHistory.${index}.date`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>{t("versionDate")}</FormLabel>
-                              <FormControl>
-                                <Input
-                                  {...field}
-                                  type="date"
-                                  disabled={isLoading}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
                         />
-
-                        {/* Version Note (EN) */}
-                        <FormField
-                          control={form.control}
-                          name={`versionHistory.${index}.note.en`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>{t("versionNoteEn")}</FormLabel>
-                              <FormControl>
-                                <Input
-                                  {...field}
-                                  disabled={isLoading}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        {/* Version Note (AR) */}
-                        <FormField
-                          control={form.control}
-                          name={`versionHistory.${index}.note.ar`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>{t("versionNoteAr")}</FormLabel>
-                              <FormControl>
-                                <Input
-                                  {...field}
-                                  disabled={isLoading}
-                                  dir="rtl"
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Version Note (AR) */}
+                <FormField
+                  control={form.control}
+                  name="versionNote.ar"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("versionNoteAr")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          disabled={isLoading}
+                          dir="rtl"
                         />
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              )}
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
             </div>
 
             <DialogFooter className={isRtl ? "flex-row-reverse" : ""}>
@@ -8,9 +8,14 @@ import {
   generateSpecificationsTemplate,
   parseExcelFile,
   importSpecificationsToFirestore,
+  getSpecificationImportDiff,
   SpecificationRow
 } from "@/lib/firestore/importExcel";
-import useSpecifications, { CapabilityLevel } from "@/hooks/useSpecifications";
+import { ImportDiff, ImportMode } from "@/lib/firestore/importDiff";
+import { CapabilityLevel } from "@/hooks/useSpecifications";
+import { ImportDiffPreview } from "@/components/ui/import/ImportDiffPreview";
+import { ImportJobProgress, ImportRollbackNotice } from "@/components/ui/import/ImportJobProgress";
+import { ImportJobProgress as ImportJobProgressState, ImportJobResult } from "@/lib/firestore/importJobs";
 
 // UI Components
 import {
@@ -78,7 +83,6 @@ export function SpecificationImportExcel({
   const isRtl = locale === "ar";
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
-  const { importSpecifications } = useSpecifications(controlId, frameworkId, domainId);
 
   // States
   const [dragOver, setDragOver] = useState(false);
@@ -90,8 +94,18 @@ export function SpecificationImportExcel({
     total: number;
     success: number;
     failed: number;
+    skipped: number;
+    removed: number;
   } | null>(null);
   const [showErrors, setShowErrors] = useState(false);
+  const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>("create-only");
+  const [importJob, setImportJob] = useState<Pick<ImportJobResult, "jobId" | "status" | "rollbackReason"> | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportJobProgressState | null>(null);
+  const [isAborting, setIsAborting] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Download template
   const handleDownloadTemplate = () => {
@@ -140,6 +154,7 @@ export function SpecificationImportExcel({
 
       // Set preview data
       setPreviewData(data);
+      loadImportDiff(data);
 
       // Show toast if needed
       if (errors.length > 0 && data.length === 0) {
@@ -167,6 +182,19 @@ export function SpecificationImportExcel({
     }
   };
 
+  // Compare the parsed rows with the specifications already under the control
+  const loadImportDiff = async (data: SpecificationRow[]) => {
+    try {
+      setIsDiffLoading(true);
+      setImportDiff(await getSpecificationImportDiff(controlId, frameworkId, domainId, data));
+    } catch (error) {
+      console.error("Error comparing specifications:", error);
+      setImportDiff(null);
+    } finally {
+      setIsDiffLoading(false);
+    }
+  };
+
   // Handle file drop
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
@@ -219,6 +247,9 @@ export function SpecificationImportExcel({
     setImportErrors([]);
     setImportStats(null);
     setShowErrors(false);
+    setImportDiff(null);
+    setImportMode("create-only");
+    setImportJob(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -228,78 +259,32 @@ export function SpecificationImportExcel({
   const importData = async () => {
     if (previewData.length === 0) return;
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setLoading(true);
+    setIsImporting(true);
+    setImportProgress({ processedRows: 0, totalRows: previewData.length });
 
     try {
-      // Use the import function from the hook if available
-      if (importSpecifications) {
-        // Format data for hook
-        const formattedData = previewData.map(spec => ({
-          number: spec.number,
-          name: {
-            en: spec.name_en,
-            ar: spec.name_ar
-          },
-          description: {
-            en: spec.description_en || '',
-            ar: spec.description_ar || ''
-          },
-          dependency: {
-            en: spec.dependency_en || '',
-            ar: spec.dependency_ar || ''
-          },
-          capabilityLevel: spec.capabilityLevel as CapabilityLevel,
-          // Add sub-specifications mapping
-          subSpecifications: spec.subSpecs ? spec.subSpecs.map(subSpec => ({
-            name: {
-              en: subSpec.name_en || '',
-              ar: subSpec.name_ar || ''
-            },
-            description: {
-              en: subSpec.description_en || '',
-              ar: subSpec.description_ar || ''
-            }
-          })) : [],
-          // Add version history mapping
-          versionHistory: spec.version ? [{
-            version: spec.version,
-            date: spec.versionDate || new Date().toISOString().split('T')[0],
-            note: {
-              en: spec.versionNote_en || '',
-              ar: spec.versionNote_ar || ''
-            }
-          }] : []
-        }));
-
-        await importSpecifications(formattedData);
-      } else {
-        // Use the direct Firestore import as fallback
-        const result = await importSpecificationsToFirestore(controlId, frameworkId, domainId, previewData);
-
-        setImportStats({
-          total: result.totalRows,
-          success: result.successCount,
-          failed: result.failedCount
-        });
-
-        if (result.errors.length > 0) {
-          setImportErrors(result.errors);
-        }
+      const result = await importSpecificationsToFirestore(controlId, frameworkId, domainId, previewData, importMode, {
+        signal: abortController.signal,
+        onProgress: setImportProgress
+      });
 
-        if (result.success) {
-          onImportComplete();
-        }
-      }
+      setImportJob({ jobId: result.jobId, status: result.status, rollbackReason: result.rollbackReason });
 
-      // Set import stats
       setImportStats({
-        total: previewData.length,
-        success: previewData.length,
-        failed: 0
+        total: result.totalRows,
+        success: result.successCount,
+        failed: result.failedCount,
+        skipped: result.skippedCount,
+        removed: result.removedCount
       });
+      setImportErrors(result.errors);
 
-      // Call the complete handler
-      onImportComplete();
+      if (result.successCount > 0 || result.removedCount > 0) {
+        onImportComplete();
+      }
     } catch (error) {
       console.error("Error importing specifications:", error);
 
@@ -307,7 +292,9 @@ export function SpecificationImportExcel({
       setImportStats({
         total: previewData.length,
         success: 0,
-        failed: previewData.length
+        failed: previewData.length,
+        skipped: 0,
+        removed: 0
       });
 
       toast({
@@ -316,10 +303,20 @@ export function SpecificationImportExcel({
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
+      setIsImporting(false);
+      setIsAborting(false);
+      setImportProgress(null);
     }
   };
 
+  // Remaining chunks are skipped and everything already written is rolled back
+  const handleAbort = () => {
+    setIsAborting(true);
+    abortControllerRef.current?.abort();
+  };
+
   const handleBrowseClick = () => {
     if (fileInputRef.current) {
       fileInputRef.current.click();
@@ -342,11 +339,11 @@ export function SpecificationImportExcel({
           </DialogDescription>
         </DialogHeader>
 
-        {loading && (
+        {loading && !isImporting && (
           <div className="absolute inset-0 flex items-center justify-center bg-white/80 z-10 rounded-lg">
             <div className="text-center">
               <Spinner className="h-8 w-8 mx-auto mb-2" />
-              <p>{importStats ? t("importing") : t("processing")}</p>
+              <p>{t("processing")}</p>
             </div>
           </div>
         )}
@@ -415,7 +412,7 @@ export function SpecificationImportExcel({
                     {t("preview", { count: Math.min(previewData.length, 5) })}
                   </p>
                 </div>
-                <Button variant="outline" size="sm" onClick={resetState}>
+                <Button variant="outline" size="sm" onClick={resetState} disabled={loading}>
                   {t("uploadAnother")}
                 </Button>
               </div>
@@ -456,6 +453,21 @@ export function SpecificationImportExcel({
                 </div>
               )}
 
+              {isImporting ? (
+                <ImportJobProgress
+                  progress={importProgress}
+                  aborting={isAborting}
+                  onAbort={handleAbort}
+                />
+              ) : (
+                <ImportDiffPreview
+                  diff={importDiff}
+                  loading={isDiffLoading}
+                  mode={importMode}
+                  onModeChange={setImportMode}
+                />
+              )}
+
               {/* Preview Table */}
               {previewData.length > 0 && (
                 <div className="mt-6">
@@ -508,26 +520,41 @@ export function SpecificationImportExcel({
           {/* Results View */}
           {importStats && (
             <div className="p-4">
-              <div className="text-center mb-6">
-                {importStats.failed === 0 ? (
-                  <div className="inline-flex items-center justify-center h-12 w-12 rounded-full bg-green-100 text-green-600 mb-4">
-                    <CheckCircle2 className="h-6 w-6" />
-                  </div>
-                ) : importStats.success === 0 ? (
-                  <div className="inline-flex items-center justify-center h-12 w-12 rounded-full bg-red-100 text-red-600 mb-4">
-                    <XCircle className="h-6 w-6" />
-                  </div>
-                ) : (
-                  <div className="inline-flex items-center justify-center h-12 w-12 rounded-full bg-amber-100 text-amber-600 mb-4">
-                    <AlertTriangle className="h-6 w-6" />
-                  </div>
-                )}
+              {importJob && importJob.status !== "completed" ? (
+                <div className="mb-6 text-center">
+                  <ImportRollbackNotice
+                    jobId={importJob.jobId}
+                    status={importJob.status}
+                    rollbackReason={importJob.rollbackReason}
+                  />
+                </div>
+              ) : (
+                <div className="text-center mb-6">
+                  {importStats.failed === 0 ? (
+                    <div className="inline-flex items-center justify-center h-12 w-12 rounded-full bg-green-100 text-green-600 mb-4">
+                      <CheckCircle2 className="h-6 w-6" />
+                    </div>
+                  ) : importStats.success === 0 ? (
+                    <div className="inline-flex items-center justify-center h-12 w-12 rounded-full bg-red-100 text-red-600 mb-4">
+                      <XCircle className="h-6 w-6" />
+                    </div>
+                  ) : (
+                    <div className="inline-flex items-center justify-center h-12 w-12 rounded-full bg-amber-100 text-amber-600 mb-4">
+                      <AlertTriangle className="h-6 w-6" />
+                    </div>
+                  )}
 
-                <h3 className="text-lg font-medium">{t("importComplete")}</h3>
-                <p className="text-gray-600 mt-1">
-                  {importStats && t("importStats", { success: importStats.success, failed: importStats.failed })}
-                </p>
-              </div>
+                  <h3 className="text-lg font-medium">{t("importComplete")}</h3>
+                  <p className="text-gray-600 mt-1">
+                    {importStats && t("importStats", { success: importStats.success, failed: importStats.failed })}
+                  </p>
+                  {(importStats.skipped > 0 || importStats.removed > 0) && (
+                    <p className="text-sm text-gray-500 mt-1">
+                      {t("importSkippedRemoved", { skipped: importStats.skipped, removed: importStats.removed })}
+                    </p>
+                  )}
+                </div>
+              )}
 
               {importErrors.length > 0 && (
                 <div className="mb-4 bg-amber-50 border border-amber-200 rounded-md p-3">
@@ -583,7 +610,7 @@ export function SpecificationImportExcel({
               </Button>
               <Button
                 onClick={importData}
-                disabled={loading || previewData.length === 0}
+                disabled={loading || isDiffLoading || previewData.length === 0}
                 className="bg-[var(--primary-blue)] hover:bg-[var(--secondary-blue)]"
               >
                 {t("importNow")}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { ArrowRight } from "lucide-react";
+import { CapabilityLevel, VersionHistory } from "@/hooks/useSpecifications";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { diffSpecificationContent, diffText, TextDiffSegment } from "@/types/specification-version";
+
+interface SpecificationVersionDiffProps {
+    versions: VersionHistory[]; // Versions with a content snapshot, oldest first
+    getLevelName: (level: CapabilityLevel) => string;
+}
+
+const SEGMENT_STYLES: Record<TextDiffSegment["type"], string> = {
+    same: "",
+    removed: "bg-red-100 text-red-800 line-through",
+    added: "bg-green-100 text-green-800",
+};
+
+export function SpecificationVersionDiff({ versions, getLevelName }: SpecificationVersionDiffProps) {
+    const t = useTranslations("SpecificationDetails");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const [fromVersion, setFromVersion] = useState("");
+    const [toVersion, setToVersion] = useState("");
+    const [showUnchanged, setShowUnchanged] = useState(false);
+
+    // Compare the two latest versions by default, again whenever a version is added
+    const versionKey = versions.map(version => version.version).join("|");
+    useEffect(() => {
+        setFromVersion(versions[Math.max(versions.length - 2, 0)]?.version || "");
+        setToVersion(versions[versions.length - 1]?.version || "");
+    }, [versionKey]);
+
+    if (versions.length < 2) {
+        return <p className="text-gray-500 italic text-sm">{t("notEnoughVersions")}</p>;
+    }
+
+    const from = versions.find(version => version.version === fromVersion);
+    const to = versions.find(version => version.version === toVersion);
+    const rows = from?.content && to?.content ? diffSpecificationContent(from.content, to.content) : [];
+    const visibleRows = showUnchanged ? rows : rows.filter(row => row.changed);
+
+    const renderSegments = (segments: TextDiffSegment[], hidden: TextDiffSegment["type"]) =>
+        segments
+            .filter(segment => segment.type !== hidden)
+            .map((segment, index) => (
+                <span key={index} className={SEGMENT_STYLES[segment.type]}>{segment.text}</span>
+            ));
+
+    const renderVersionSelect = (value: string, onChange: (value: string) => void, label: string) => (
+        <Select value={value} onValueChange={onChange}>
+            <SelectTrigger className="w-full sm:w-40" aria-label={label}>
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                {versions.map(version => (
+                    <SelectItem key={version.version} value={version.version}>{version.version}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                {renderVersionSelect(fromVersion, setFromVersion, t("compareFrom"))}
+                <ArrowRight className={`h-4 w-4 text-gray-400 hidden sm:block ${isRtl ? "rotate-180" : ""}`} />
+                {renderVersionSelect(toVersion, setToVersion, t("compareTo"))}
+                <div className={`flex items-center gap-2 ${isRtl ? "sm:mr-auto" : "sm:ml-auto"}`}>
+                    <Checkbox
+                        id="version-diff-unchanged"
+                        checked={showUnchanged}
+                        onCheckedChange={(checked) => setShowUnchanged(checked === true)}
+                    />
+                    <Label htmlFor="version-diff-unchanged" className="text-sm font-normal">{t("showUnchanged")}</Label>
+                </div>
+            </div>
+
+            {visibleRows.length === 0 ? (
+                <p className="text-gray-500 italic text-sm">{t("noDifferences")}</p>
+            ) : (
+                <div className="border rounded-md divide-y text-sm">
+                    <div className="grid grid-cols-2 gap-4 bg-gray-50 px-3 py-2 font-medium text-gray-600">
+                        <div>{t("versionLabel", { version: fromVersion })}</div>
+                        <div>{t("versionLabel", { version: toVersion })}</div>
+                    </div>
+                    {visibleRows.map(row => {
+                        const segments = row.language ? diffText(row.before, row.after) : [];
+                        const formatValue = (value: string) => row.field === "capabilityLevel"
+                            ? getLevelName(value as CapabilityLevel)
+                            : value || "—";
+
+                        return (
+                            <div key={`${row.field}-${row.language}`} className={`px-3 py-2 ${row.changed ? "" : "opacity-60"}`}>
+                                <div className="text-xs font-medium text-gray-500 mb-1">
+                                    {t(`diffFields.${row.field}`)}
+                                    {row.language && ` · ${t(`languages.${row.language}`)}`}
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    {row.language ? (
+                                        <>
+                                            <div className="whitespace-pre-line break-words" dir={row.language === "ar" ? "rtl" : "ltr"}>
+                                                {row.before ? renderSegments(segments, "added") : <span className="text-gray-400">—</span>}
+                                            </div>
+                                            <div className="whitespace-pre-line break-words" dir={row.language === "ar" ? "rtl" : "ltr"}>
+                                                {row.after ? renderSegments(segments, "removed") : <span className="text-gray-400">—</span>}
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <div className={`whitespace-pre-line ${row.changed ? SEGMENT_STYLES.removed : ""}`} dir="auto">
+                                                {formatValue(row.before)}
+                                            </div>
+                                            <div className={`whitespace-pre-line ${row.changed ? SEGMENT_STYLES.added : ""}`} dir="auto">
+                                                {formatValue(row.after)}
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -7,7 +7,6 @@ import { Users, UserCheck, UserX, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { motion } from "framer-motion";
-import { useState, useEffect } from "react";
 import { useDashboardStats } from "@/context/DashboardStatsContext";
 
 export interface UserStatsCardProps {
@@ -16,40 +15,16 @@ export interface UserStatsCardProps {
 
 export function UserStatsCard({ onRefreshed }: UserStatsCardProps) {
     const t = useTranslations("AdminDashboard");
-    const { totalUsers, activeUsers, inactiveUsers, isLoading, error, refreshStats, lastUpdated } = useUserStats();
-    const [isRefreshing, setIsRefreshing] = useState(false);
-    const { notifyRefresh, subscribeToRefresh } = useDashboardStats();
-
-    // Subscribe to dashboard-wide refresh events
-    useEffect(() => {
-        // Create the listener function
-        const handleDashboardRefresh = () => {
-            if (!isRefreshing) {
-                handleRefresh();
-            }
-        };
-
-        // Subscribe to refresh events
-        const unsubscribe = subscribeToRefresh(handleDashboardRefresh);
-
-        // Cleanup on unmount
-        return () => {
-            unsubscribe();
-        };
-    }, [subscribeToRefresh, isRefreshing]);
+    const { totalUsers, activeUsers, inactiveUsers, isLoading, error, lastUpdated } = useUserStats();
+    const { notifyRefresh } = useDashboardStats();
 
     // Format numbers with commas
     const formatNumber = (num: number) => {
         return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
     };
 
-    // Handle refresh
-    const handleRefresh = async () => {
-        setIsRefreshing(true);
-        await refreshStats();
-        setIsRefreshing(false);
-
-        // Notify the dashboard context that user data has been refreshed
+    // Handle refresh: reporting the users as refreshed reloads every card that shows them
+    const handleRefresh = () => {
         notifyRefresh('users');
 
         if (onRefreshed) {
@@ -92,15 +67,15 @@ export function UserStatsCard({ onRefreshed }: UserStatsCardProps) {
                                 size="sm"
                                 className="h-8 w-8 p-0 rounded-full bg-white/50 hover:bg-white/80 shadow-sm"
                                 onClick={handleRefresh}
-                                disabled={isRefreshing || isLoading}
+                                disabled={isLoading}
                             >
                                 <RefreshCw
-                                    className={`h-4 w-4 text-gray-600 ${isRefreshing ? "animate-spin" : ""}`}
+                                    className={`h-4 w-4 text-gray-600 ${isLoading ? "animate-spin" : ""}`}
                                 />
                             </Button>
                         </TooltipTrigger>
                         <TooltipContent>
-                            <p>{isRefreshing ? t("refreshing") : t("refreshData")}</p>
+                            <p>{isLoading ? t("refreshing") : t("refreshData")}</p>
                         </TooltipContent>
                     </Tooltip>
                 </TooltipProvider>
@@ -0,0 +1,121 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { ChevronDown, ChevronRight, RotateCw } from "lucide-react";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { WEBHOOK_MAX_ATTEMPTS, WebhookDelivery, WebhookDeliveryStatus } from "@/types/webhook";
+
+interface WebhookDeliveryLogProps {
+    deliveries: WebhookDelivery[];
+    redeliveringId: string | null;
+    onRedeliver: (delivery: WebhookDelivery) => void;
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+    pending: "bg-amber-100 text-amber-800",
+    succeeded: "bg-green-100 text-green-800",
+    failed: "bg-red-100 text-red-800",
+};
+
+export function WebhookDeliveryLog({ deliveries, redeliveringId, onRedeliver }: WebhookDeliveryLogProps) {
+    const t = useTranslations("Webhooks");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const formatDate = (value: string | null) =>
+        value ? format(new Date(value), "PPp", { locale: isRtl ? ar : enUS }) : "—";
+
+    if (deliveries.length === 0) {
+        return <p className="p-6 text-sm text-gray-500 italic">{t("noDeliveries")}</p>;
+    }
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                        <th className="px-4 py-3 w-8"></th>
+                        <th className="px-4 py-3 text-start font-medium">{t("event")}</th>
+                        <th className="px-4 py-3 text-start font-medium">{t("url")}</th>
+                        <th className="px-4 py-3 text-start font-medium">{t("status")}</th>
+                        <th className="px-4 py-3 text-start font-medium">{t("attempts")}</th>
+                        <th className="px-4 py-3 text-start font-medium">{t("lastAttempt")}</th>
+                        <th className="px-4 py-3"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {deliveries.map(delivery => {
+                        const isExpanded = expandedId === delivery.id;
+
+                        return (
+                            <Fragment key={delivery.id}>
+                                <tr className="border-t align-top">
+                                    <td className="px-4 py-3">
+                                        <button
+                                            onClick={() => setExpandedId(isExpanded ? null : delivery.id)}
+                                            className="text-gray-500 hover:text-gray-900"
+                                            aria-label={t("showPayload")}
+                                        >
+                                            {isExpanded
+                                                ? <ChevronDown className="h-4 w-4" />
+                                                : <ChevronRight className={`h-4 w-4 ${isRtl ? "rotate-180" : ""}`} />}
+                                        </button>
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <div className="font-mono text-xs">{delivery.eventType}</div>
+                                        <div className="text-xs text-gray-500">{formatDate(delivery.createdAt)}</div>
+                                    </td>
+                                    <td className="px-4 py-3 max-w-xs break-all text-xs" dir="ltr">{delivery.url}</td>
+                                    <td className="px-4 py-3">
+                                        <Badge className={`${STATUS_STYLES[delivery.status]} border-0`}>{t(`deliveryStatuses.${delivery.status}`)}</Badge>
+                                        {delivery.status === "pending" && delivery.nextAttemptAt && (
+                                            <div className="text-xs text-gray-500 mt-1">{t("nextAttempt", { date: formatDate(delivery.nextAttemptAt) })}</div>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap">
+                                        {t("attemptsOf", { attempts: delivery.attempts, max: WEBHOOK_MAX_ATTEMPTS })}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <div className="whitespace-nowrap">{formatDate(delivery.lastAttemptAt)}</div>
+                                        {delivery.responseStatus !== null && (
+                                            <div className="text-xs text-gray-500">{t("responseStatus", { status: delivery.responseStatus })}</div>
+                                        )}
+                                        {delivery.lastError && (
+                                            <div className="text-xs text-red-600 break-all max-w-xs" dir="ltr">{delivery.lastError}</div>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-end">
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => onRedeliver(delivery)}
+                                            disabled={redeliveringId === delivery.id}
+                                        >
+                                            <RotateCw className={`h-4 w-4 ${isRtl ? "ml-1" : "mr-1"} ${redeliveringId === delivery.id ? "animate-spin" : ""}`} />
+                                            {t("redeliver")}
+                                        </Button>
+                                    </td>
+                                </tr>
+                                {isExpanded && (
+                                    <tr className="bg-gray-50">
+                                        <td colSpan={7} className="px-4 py-3">
+                                            <pre className="max-h-72 overflow-auto rounded-md bg-gray-900 p-4 text-xs text-gray-100" dir="ltr">
+                                                {JSON.stringify(delivery.payload, null, 2)}
+                                            </pre>
+                                        </td>
+                                    </tr>
+                                )}
+                            </Fragment>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
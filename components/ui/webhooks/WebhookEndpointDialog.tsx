@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useLocale } from "next-intl";
+import { Copy, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import Spinner from "@/components/ui/spinner";
+import { useToast } from "@/components/ui/use-toast";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Organization } from "@/types/firebase";
+import {
+    WEBHOOK_EVENT_TYPES,
+    WebhookEndpoint,
+    WebhookEndpointInput,
+    WebhookEventType
+} from "@/types/webhook";
+
+interface WebhookEndpointDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    endpoint: WebhookEndpoint | null; // null to add a new endpoint
+    organizations: Organization[];
+    onSubmit: (input: WebhookEndpointInput) => Promise<string | null>; // Resolves with the secret of a new endpoint
+}
+
+export function WebhookEndpointDialog({
+    open,
+    onOpenChange,
+    endpoint,
+    organizations,
+    onSubmit
+}: WebhookEndpointDialogProps) {
+    const t = useTranslations("Webhooks");
+    const commonT = useTranslations("Common");
+    const locale = useLocale();
+    const isRtl = locale === "ar";
+    const lang = isRtl ? "ar" : "en";
+    const { toast } = useToast();
+
+    const [organizationId, setOrganizationId] = useState("");
+    const [url, setUrl] = useState("");
+    const [description, setDescription] = useState("");
+    const [events, setEvents] = useState<WebhookEventType[]>([]);
+    const [active, setActive] = useState(true);
+    const [secret, setSecret] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Load the endpoint being edited, or start blank
+    useEffect(() => {
+        if (open) {
+            setOrganizationId(endpoint?.organizationId || "");
+            setUrl(endpoint?.url || "");
+            setDescription(endpoint?.description || "");
+            setEvents(endpoint?.events || []);
+            setActive(endpoint ? endpoint.active : true);
+            setSecret(null);
+        }
+    }, [open, endpoint]);
+
+    const isUrlValid = /^https?:\/\/\S+$/.test(url.trim());
+    const isFormValid = organizationId !== "" && isUrlValid && events.length > 0;
+
+    const toggleEvent = (event: WebhookEventType, subscribed: boolean) => {
+        setEvents(prev => subscribed
+            ? WEBHOOK_EVENT_TYPES.filter(item => item === event || prev.includes(item))
+            : prev.filter(item => item !== event));
+    };
+
+    const handleSubmit = async () => {
+        if (!isFormValid) return;
+
+        setIsSubmitting(true);
+        try {
+            const newSecret = await onSubmit({
+                organizationId,
+                url: url.trim(),
+                description: description.trim(),
+                events,
+                active
+            });
+            if (newSecret) {
+                setSecret(newSecret);
+            } else {
+                onOpenChange(false);
+            }
+        } catch (_) {
+            // The page reports the error and the form stays open
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!secret) return;
+        try {
+            await navigator.clipboard.writeText(secret);
+            toast({ title: t("secretCopied") });
+        } catch (error) {
+            console.error("Error copying webhook secret:", error);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto" style={{ direction: isRtl ? "rtl" : "ltr" }}>
+                <DialogHeader>
+                    <DialogTitle>{secret ? t("endpointCreated") : endpoint ? t("editEndpoint") : t("addEndpoint")}</DialogTitle>
+                    <DialogDescription>{secret ? t("endpointCreatedDescription") : t("endpointDescription")}</DialogDescription>
+                </DialogHeader>
+
+                {secret ? (
+                    <div className="space-y-3 py-2">
+                        <div className="flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <span>{t("secretWarning")}</span>
+                        </div>
+                        <div className="flex gap-2">
+                            <Input value={secret} readOnly dir="ltr" className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                            <Button variant="outline" size="icon" onClick={handleCopy} aria-label={t("copySecret")}>
+                                <Copy className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-4 py-2">
+                        <div className="space-y-2">
+                            <Label>{t("organization")}</Label>
+                            <Select value={organizationId} onValueChange={setOrganizationId}>
+                                <SelectTrigger className={isRtl ? "text-right" : ""}>
+                                    <SelectValue placeholder={t("selectOrganization")} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {organizations.map(organization => (
+                                        <SelectItem key={organization.id} value={organization.id}>
+                                            {organization.name[lang] || organization.name.en}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="webhook-url">{t("url")}</Label>
+                            <Input
+                                id="webhook-url"
+                                value={url}
+                                onChange={(e) => setUrl(e.target.value)}
+                                placeholder="https://example.com/webhooks"
+                                dir="ltr"
+                            />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="webhook-description">{t("endpointDescriptionLabel")}</Label>
+                            <Input
+                                id="webhook-description"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                placeholder={t("endpointDescriptionPlaceholder")}
+                            />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>{t("events")}</Label>
+                            <div className="space-y-2 rounded-md border p-3">
+                                {WEBHOOK_EVENT_TYPES.map(event => (
+                                    <div key={event} className="flex items-start gap-2">
+                                        <Checkbox
+                                            id={`webhook-${event}`}
+                                            checked={events.includes(event)}
+                                            onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                                        />
+                                        <Label htmlFor={`webhook-${event}`} className="font-normal leading-tight">
+                                            <span className="font-medium">{t(`eventTypes.${event}.label`)}</span>
+                                            <span className="block text-xs text-gray-500">{t(`eventTypes.${event}.description`)}</span>
+                                        </Label>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="webhook-active"
+                                checked={active}
+                                onCheckedChange={(checked) => setActive(checked === true)}
+                            />
+                            <Label htmlFor="webhook-active">{t("activeLabel")}</Label>
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter className={isRtl ? "flex-row-reverse" : ""}>
+                    {secret ? (
+                        <Button onClick={() => onOpenChange(false)}>{t("done")}</Button>
+                    ) : (
+                        <>
+                            <Button variant="outline" onClick={() => onOpenChange(false)}>
+                                {commonT("cancel")}
+                            </Button>
+                            <Button
+                                onClick={handleSubmit}
+                                disabled={!isFormValid || isSubmitting}
+                                className="bg-blue-600 hover:bg-blue-700"
+                            >
+                                {isSubmitting && <Spinner size="sm" className={isRtl ? "ml-2" : "mr-2"} />}
+                                {commonT("save")}
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { DashboardDataType } from '@/types/dashboard-stats';
 
 interface DashboardStatsContextType {
     // Track last refresh timestamps for different data types
@@ -10,7 +11,7 @@ interface DashboardStatsContextType {
         frameworks: Date | null;
     };
     // Method to notify the dashboard that data has been refreshed
-    notifyRefresh: (dataType: 'users' | 'projects' | 'frameworks') => void;
+    notifyRefresh: (dataType: DashboardDataType) => void;
     // Subscribers can use this to trigger refreshes in other components
     refreshAll: () => void;
     // Subscribe to refresh events
@@ -51,7 +52,7 @@ export function DashboardStatsProvider({ children }: DashboardStatsProviderProps
     const [refreshListeners] = useState(new Set<() => void>());
 
     // Method to update the last refreshed timestamp for a data type
-    const notifyRefresh = useCallback((dataType: 'users' | 'projects' | 'frameworks') => {
+    const notifyRefresh = useCallback((dataType: DashboardDataType) => {
         setLastRefreshed(prev => ({
             ...prev,
             [dataType]: new Date()
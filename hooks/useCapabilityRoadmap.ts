@@ -0,0 +1,86 @@
+import { useState, useEffect, useMemo } from "react";
+import { AssessmentCriteria } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain, SpecificationRating } from "@/types/assessment";
+import { getFrameworkTree } from "@/lib/services/frameworkService";
+import { getAssessmentCriteria } from "@/lib/services/assessmentCriteriaService";
+import { getFrameworkVersionSnapshot } from "@/lib/services/frameworkVersionService";
+import { getProjectById } from "@/lib/services/projectService";
+import { getProjectRatings } from "@/lib/services/assessmentService";
+import { buildCapabilityRoadmap } from "@/lib/services/capabilityRoadmap";
+
+/**
+ * Specifications of a framework, or of one of its domains, grouped by capability level and control dimension.
+ * With a project, each specification is marked achieved or not from the project's ratings; projects pinned
+ * to a published version are shown against that version, like their assessment.
+ */
+export function useCapabilityRoadmap(frameworkId: string, domainId: string | null, projectId: string | null) {
+  const [tree, setTree] = useState<FrameworkTreeDomain[]>([]);
+  const [criteria, setCriteria] = useState<AssessmentCriteria | null>(null);
+  const [ratings, setRatings] = useState<SpecificationRating[] | null>(null);
+  const [pinnedVersion, setPinnedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRoadmap = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const project = projectId ? await getProjectById(projectId) : null;
+
+      if (project?.frameworkVersion) {
+        const [snapshot, ratingsData] = await Promise.all([
+          getFrameworkVersionSnapshot(frameworkId, project.frameworkVersion),
+          getProjectRatings(project.id)
+        ]);
+        if (!snapshot) {
+          setError("Pinned framework version not found");
+          return;
+        }
+
+        setTree(snapshot.tree);
+        setCriteria(snapshot.version.criteria);
+        setRatings(ratingsData);
+        setPinnedVersion(project.frameworkVersion);
+        return;
+      }
+
+      const [treeData, criteriaData, ratingsData] = await Promise.all([
+        getFrameworkTree(frameworkId),
+        getAssessmentCriteria(frameworkId),
+        project ? getProjectRatings(project.id) : Promise.resolve(null)
+      ]);
+
+      setTree(treeData);
+      setCriteria(criteriaData);
+      setRatings(ratingsData);
+      setPinnedVersion(null);
+    } catch (err) {
+      console.error("Error fetching capability roadmap:", err);
+      setError("Failed to fetch capability roadmap");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (frameworkId) {
+      fetchRoadmap();
+    }
+  }, [frameworkId, projectId]);
+
+  const roadmap = useMemo(
+    () => buildCapabilityRoadmap(tree, domainId, ratings, criteria),
+    [tree, domainId, ratings, criteria]
+  );
+
+  return {
+    tree,
+    roadmap,
+    criteria,
+    pinnedVersion,
+    hasProject: ratings !== null,
+    loading,
+    error,
+    fetchRoadmap
+  };
+}
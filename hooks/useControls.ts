@@ -12,6 +12,8 @@ import {
   where 
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { requestCascadeDelete } from "@/lib/services/frameworkService";
+import { recordAuditLog } from "@/lib/services/auditLogService";
 
 export interface Control {
   controlId: string;
@@ -83,10 +85,12 @@ export function useControls(frameworkId: string, domainId: string) {
       }
       
       // Create control with specific ID
-      await setDoc(controlRef, {
+      const controlData = {
         ...control,
         controlId
-      });
+      };
+      await setDoc(controlRef, controlData);
+      await recordAuditLog({ action: "create", entityPath: controlRef.path, after: controlData });
       
       await fetchControls();
       return true;
@@ -100,7 +104,9 @@ export function useControls(frameworkId: string, domainId: string) {
   const updateControl = async (controlId: string, data: Partial<Control>): Promise<boolean> => {
     try {
       const controlRef = doc(db, `frameworks/${frameworkId}/domains/${domainId}/controls`, controlId);
+      const before = (await getDoc(controlRef)).data() || {};
       await updateDoc(controlRef, data);
+      await recordAuditLog({ action: "update", entityPath: controlRef.path, before, after: { ...before, ...data } });
       await fetchControls();
       return true;
     } catch (err) {
@@ -112,8 +118,8 @@ export function useControls(frameworkId: string, domainId: string) {
 
   const deleteControl = async (controlId: string): Promise<boolean> => {
     try {
-      const controlRef = doc(db, `frameworks/${frameworkId}/domains/${domainId}/controls`, controlId);
-      await deleteDoc(controlRef);
+      // Remove the whole subtree and any assessment data recorded under it
+      await requestCascadeDelete({ frameworkId, domainId, controlId });
       await fetchControls();
       return true;
     } catch (err) {
@@ -4,22 +4,32 @@ import {
   CriteriaType, 
   CriteriaLevel, 
   DomainWeight,
-  Domain
+  ControlWeight,
+  SpecificationWeight,
+  CriteriaTemplateReference,
+  ResultBand,
+  DomainTarget,
+  Domain,
+  DEFAULT_MUST_HAVE_CAP
 } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain } from "@/types/assessment";
 import { 
   getAssessmentCriteria, 
   saveAssessmentCriteria,
   deleteAssessmentCriteria,
   getFrameworkDomains
 } from "@/lib/services/assessmentCriteriaService";
+import { getFrameworkTree } from "@/lib/services/frameworkService";
 import { useTranslations } from "next-intl";
 
 // Steps in the criteria wizard
-export type WizardStep = "type" | "levels" | "domains" | "preview";
+export type WizardStep = "type" | "levels" | "domains" | "weights" | "bands" | "preview";
 
 interface ValidationErrors {
   levels?: string;
   domains?: string;
+  weights?: string;
+  bands?: string;
   general?: string;
 }
 
@@ -27,6 +37,24 @@ export interface CriteriaFormState {
   type: CriteriaType;
   levels: CriteriaLevel[];
   domainWeights: DomainWeight[];
+  controlWeights: ControlWeight[];
+  specificationWeights: SpecificationWeight[];
+  mustHaveCap: number;
+  template?: CriteriaTemplateReference; // Cleared once the applied levels are edited
+  resultBands: ResultBand[];
+  domainTargets: DomainTarget[];
+}
+
+// Total of the custom weights of each parent that has any, keyed by the parent
+function getCustomWeightTotals<T extends { weight?: number }>(entries: T[], getParentKey: (entry: T) => string) {
+  const totals = new Map<string, number>();
+  entries.forEach(entry => {
+    if (entry.weight !== undefined) {
+      const key = getParentKey(entry);
+      totals.set(key, (totals.get(key) || 0) + entry.weight);
+    }
+  });
+  return totals;
 }
 
 export function useCriteriaBuilder(frameworkId: string) {
@@ -37,7 +65,12 @@ export function useCriteriaBuilder(frameworkId: string) {
   const [formState, setFormState] = useState<CriteriaFormState>({
     type: "percentage",
     levels: [],
-    domainWeights: []
+    domainWeights: [],
+    controlWeights: [],
+    specificationWeights: [],
+    mustHaveCap: DEFAULT_MUST_HAVE_CAP,
+    resultBands: [],
+    domainTargets: []
   });
 
   // Wizard state
@@ -49,19 +82,22 @@ export function useCriteriaBuilder(frameworkId: string) {
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [hasCriteria, setHasCriteria] = useState(false);
   const [domains, setDomains] = useState<Domain[]>([]);
+  const [tree, setTree] = useState<FrameworkTreeDomain[]>([]);
 
   // Fetch existing criteria and domains when the component mounts
   useEffect(() => {
     const fetchCriteriaAndDomains = async () => {
       try {
         setIsLoading(true);
-        const [criteriaData, domainsData] = await Promise.all([
+        const [criteriaData, domainsData, treeData] = await Promise.all([
           getAssessmentCriteria(frameworkId),
-          getFrameworkDomains(frameworkId)
+          getFrameworkDomains(frameworkId),
+          getFrameworkTree(frameworkId)
         ]);
 
-        // Set domains
+        // Set domains, with their controls and specifications for the weights step
         setDomains(domainsData);
+        setTree(treeData);
 
         // Initialize domain weights if not already set
         if (formState.domainWeights.length === 0 && domainsData.length > 0) {
@@ -84,7 +120,13 @@ export function useCriteriaBuilder(frameworkId: string) {
           setFormState({
             type: criteriaData.type,
             levels: criteriaData.levels || [],
-            domainWeights: criteriaData.domainWeights
+            domainWeights: criteriaData.domainWeights,
+            controlWeights: criteriaData.controlWeights || [],
+            specificationWeights: criteriaData.specificationWeights || [],
+            mustHaveCap: criteriaData.mustHaveCap ?? DEFAULT_MUST_HAVE_CAP,
+            template: criteriaData.template,
+            resultBands: criteriaData.resultBands || [],
+            domainTargets: criteriaData.domainTargets || []
           });
           setHasCriteria(true);
         }
@@ -137,6 +179,42 @@ export function useCriteriaBuilder(frameworkId: string) {
           isValid = false;
         }
         break;
+
+      case "weights": {
+        // Custom control and specification weights must sum to 100% within their domain or control
+        const controlTotals = getCustomWeightTotals(formState.controlWeights, entry => entry.domainId);
+        const specificationTotals = getCustomWeightTotals(
+          formState.specificationWeights,
+          entry => `${entry.domainId}/${entry.controlId}`
+        );
+        const invalidTotal = [...controlTotals.entries(), ...specificationTotals.entries()]
+          .find(([, total]) => Math.round(total) !== 100);
+
+        if (invalidTotal) {
+          newErrors.weights = t("errors.itemWeightSum", { parent: invalidTotal[0], sum: invalidTotal[1] });
+          isValid = false;
+        } else if (formState.mustHaveCap < 0 || formState.mustHaveCap > 100) {
+          newErrors.weights = t("errors.mustHaveCapRange");
+          isValid = false;
+        }
+        break;
+      }
+
+      case "bands": {
+        // Bands need both labels and must not overlap, so every score has at most one verdict
+        const bands = [...formState.resultBands].sort((a, b) => a.min - b.min);
+        if (bands.some(band => !band.label.en.trim() || !band.label.ar.trim())) {
+          newErrors.bands = t("errors.bandLabel");
+          isValid = false;
+        } else if (bands.some(band => band.min < 0 || band.max > 100 || band.min > band.max)) {
+          newErrors.bands = t("errors.bandRange");
+          isValid = false;
+        } else if (bands.some((band, i) => i > 0 && band.min <= bands[i - 1].max)) {
+          newErrors.bands = t("errors.bandOverlap");
+          isValid = false;
+        }
+        break;
+      }
     }
 
     setErrors(newErrors);
@@ -157,6 +235,12 @@ export function useCriteriaBuilder(frameworkId: string) {
         setCurrentStep("domains");
         break;
       case "domains":
+        setCurrentStep("weights");
+        break;
+      case "weights":
+        setCurrentStep("bands");
+        break;
+      case "bands":
         setCurrentStep("preview");
         break;
       case "preview":
@@ -176,9 +260,15 @@ export function useCriteriaBuilder(frameworkId: string) {
       case "domains":
         setCurrentStep(formState.type === "percentage" ? "type" : "levels");
         break;
-      case "preview":
+      case "weights":
         setCurrentStep("domains");
         break;
+      case "bands":
+        setCurrentStep("weights");
+        break;
+      case "preview":
+        setCurrentStep("bands");
+        break;
     }
   };
 
@@ -202,7 +292,15 @@ export function useCriteriaBuilder(frameworkId: string) {
         frameworkId,
         formState.type,
         formState.domainWeights,
-        formState.type !== "percentage" ? formState.levels : undefined
+        formState.type !== "percentage" ? formState.levels : undefined,
+        {
+          controlWeights: formState.controlWeights,
+          specificationWeights: formState.specificationWeights,
+          mustHaveCap: formState.mustHaveCap,
+          template: formState.template,
+          resultBands: formState.resultBands,
+          domainTargets: formState.domainTargets
+        }
       );
 
       setHasCriteria(true);
@@ -257,6 +355,7 @@ export function useCriteriaBuilder(frameworkId: string) {
     errors,
     hasCriteria,
     domains,
+    tree,
     goToNextStep,
     goToPrevStep,
     saveCriteria,
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from "react";
+import { CriteriaHistoryEntry } from "@/types/criteria-template";
+import { getCriteriaHistory, restoreAssessmentCriteria } from "@/lib/services/assessmentCriteriaService";
+
+/**
+ * Previous criteria configurations of a framework, with restore
+ */
+export function useCriteriaHistory(frameworkId: string) {
+  const [history, setHistory] = useState<CriteriaHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!frameworkId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setHistory(await getCriteriaHistory(frameworkId));
+    } catch (err) {
+      console.error("Error fetching criteria history:", err);
+      setError("Failed to fetch criteria history");
+    } finally {
+      setLoading(false);
+    }
+  }, [frameworkId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  // Make an entry the current criteria; the replaced configuration is added to the history
+  const restoreEntry = async (entry: CriteriaHistoryEntry): Promise<boolean> => {
+    setRestoring(entry.id);
+    try {
+      await restoreAssessmentCriteria(frameworkId, entry);
+      await fetchHistory();
+      return true;
+    } catch (err) {
+      console.error("Error restoring criteria:", err);
+      setError("Failed to restore criteria");
+      return false;
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return {
+    history,
+    loading,
+    error,
+    restoring,
+    fetchHistory,
+    restoreEntry
+  };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from "react";
+import { CriteriaLevel, LocalizedText } from "@/types/assessment-criteria";
+import { CriteriaTemplate, CriteriaTemplateVersion, LevelCriteriaType } from "@/types/criteria-template";
+import {
+  getCriteriaTemplates,
+  getCriteriaTemplateVersions,
+  createCriteriaTemplate,
+  saveCriteriaTemplateVersion,
+  deleteCriteriaTemplate
+} from "@/lib/services/criteriaTemplateService";
+
+/**
+ * Criteria templates of one criteria type, to apply their levels to a framework or save levels as a template
+ */
+export function useCriteriaTemplates(type: LevelCriteriaType) {
+  const [templates, setTemplates] = useState<CriteriaTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTemplates(await getCriteriaTemplates(type));
+    } catch (err) {
+      console.error("Error fetching criteria templates:", err);
+      setError("Failed to fetch criteria templates");
+    } finally {
+      setLoading(false);
+    }
+  }, [type]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const fetchVersions = async (templateId: string): Promise<CriteriaTemplateVersion[]> => {
+    return getCriteriaTemplateVersions(templateId);
+  };
+
+  // Save levels as a new template, or as the next version of an existing one
+  const saveTemplate = async (
+    levels: CriteriaLevel[],
+    target: { templateId: string } | { name: LocalizedText; description: LocalizedText },
+    note?: string
+  ): Promise<CriteriaTemplate> => {
+    const saved = "templateId" in target
+      ? await saveCriteriaTemplateVersion(target.templateId, levels, note)
+      : await createCriteriaTemplate({ ...target, type, levels }, note);
+    await fetchTemplates();
+    return saved;
+  };
+
+  const removeTemplate = async (templateId: string) => {
+    await deleteCriteriaTemplate(templateId);
+    setTemplates(prev => prev.filter(template => template.id !== templateId));
+  };
+
+  return {
+    templates,
+    loading,
+    error,
+    fetchTemplates,
+    fetchVersions,
+    saveTemplate,
+    removeTemplate
+  };
+}
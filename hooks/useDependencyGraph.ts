@@ -0,0 +1,52 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import { getFrameworkTree } from "@/lib/services/frameworkService";
+import {
+  DependencyGraph,
+  DependencyScope,
+  buildDependencyGraph,
+  findDependents
+} from "@/types/specification-dependency";
+
+/**
+ * Dependency graph of every specification in a framework, used to pick, validate and show dependencies
+ * and to warn before deleting something other specifications depend on
+ */
+export function useDependencyGraph(frameworkId: string) {
+  const [tree, setTree] = useState<FrameworkTreeDomain[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!frameworkId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setTree(await getFrameworkTree(frameworkId));
+    } catch (err) {
+      console.error("Error fetching framework dependency graph:", err);
+      setError("Failed to fetch specification dependencies");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [frameworkId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const graph: DependencyGraph = useMemo(() => buildDependencyGraph(tree), [tree]);
+
+  // Specifications left depending on a removed domain, control or specification
+  const getDependents = useCallback((removed: DependencyScope) => findDependents(graph, removed), [graph]);
+
+  return {
+    tree,
+    graph,
+    isLoading,
+    error,
+    refresh,
+    getDependents,
+  };
+}
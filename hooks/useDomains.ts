@@ -12,6 +12,8 @@ import {
   where 
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { requestCascadeDelete } from "@/lib/services/frameworkService";
+import { recordAuditLog } from "@/lib/services/auditLogService";
 
 export interface Domain {
   domainId: string;
@@ -87,10 +89,12 @@ export function useDomains(frameworkId: string) {
       }
       
       // Create domain with specific ID
-      await setDoc(domainRef, {
+      const domainData = {
         ...domain,
         domainId
-      });
+      };
+      await setDoc(domainRef, domainData);
+      await recordAuditLog({ action: "create", entityPath: domainRef.path, after: domainData });
       
       await fetchDomains();
       return true;
@@ -104,7 +108,9 @@ export function useDomains(frameworkId: string) {
   const updateDomain = async (domainId: string, data: Partial<Domain>): Promise<boolean> => {
     try {
       const domainRef = doc(db, `frameworks/${frameworkId}/domains`, domainId);
+      const before = (await getDoc(domainRef)).data() || {};
       await updateDoc(domainRef, data);
+      await recordAuditLog({ action: "update", entityPath: domainRef.path, before, after: { ...before, ...data } });
       await fetchDomains();
       return true;
     } catch (err) {
@@ -116,8 +122,8 @@ export function useDomains(frameworkId: string) {
 
   const deleteDomain = async (domainId: string): Promise<boolean> => {
     try {
-      const domainRef = doc(db, `frameworks/${frameworkId}/domains`, domainId);
-      await deleteDoc(domainRef);
+      // Remove the whole subtree and any assessment data recorded under it
+      await requestCascadeDelete({ frameworkId, domainId });
       await fetchDomains();
       return true;
     } catch (err) {
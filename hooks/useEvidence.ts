@@ -0,0 +1,92 @@
+import { useState, useEffect } from "react";
+import { Evidence, EvidenceReviewStatus } from "@/types/assessment";
+import {
+  getSpecificationEvidence,
+  addLinkEvidence,
+  addNoteEvidence,
+  addFileEvidence,
+  updateEvidenceReviewStatus,
+  deleteEvidence,
+  EvidenceTarget,
+  EvidenceUploader
+} from "@/lib/services/evidenceService";
+
+export function useEvidence(projectId: string | null, target: EvidenceTarget | null, uploader?: EvidenceUploader) {
+  const [evidence, setEvidence] = useState<Evidence[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvidence = async () => {
+    if (!projectId || !target) {
+      setEvidence([]);
+      return [];
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const evidenceList = await getSpecificationEvidence(projectId, target);
+      setEvidence(evidenceList);
+      return evidenceList;
+    } catch (err) {
+      console.error("Error fetching evidence:", err);
+      setError("Failed to fetch evidence");
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a mutation and refresh the list afterwards
+  const mutate = async (action: () => Promise<unknown>, errorMessage: string): Promise<boolean> => {
+    if (!projectId || !target) return false;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await action();
+      await fetchEvidence();
+      return true;
+    } catch (err) {
+      console.error(errorMessage, err);
+      setError(errorMessage);
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const addLink = (title: string, url: string, note?: string) =>
+    mutate(() => addLinkEvidence(projectId!, target!, uploader!, title, url, note), "Failed to add link");
+
+  const addNote = (title: string, note: string) =>
+    mutate(() => addNoteEvidence(projectId!, target!, uploader!, title, note), "Failed to add note");
+
+  const addFile = (file: File, title?: string, note?: string) =>
+    mutate(() => addFileEvidence(projectId!, target!, uploader!, file, title, note), "Failed to upload file");
+
+  const setReviewStatus = (evidenceId: string, status: EvidenceReviewStatus, comment?: string) =>
+    mutate(() => updateEvidenceReviewStatus(projectId!, evidenceId, status, uploader!.id, comment), "Failed to update review status");
+
+  const removeEvidence = (evidenceId: string) =>
+    mutate(() => deleteEvidence(projectId!, evidenceId), "Failed to delete evidence");
+
+  useEffect(() => {
+    fetchEvidence();
+  }, [projectId, target?.domainId, target?.controlId, target?.specificationId]);
+
+  return {
+    evidence,
+    loading,
+    submitting,
+    error,
+    canSubmit: Boolean(projectId && target && uploader),
+    fetchEvidence,
+    addLink,
+    addNote,
+    addFile,
+    setReviewStatus,
+    removeEvidence
+  };
+}
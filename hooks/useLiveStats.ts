@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useDashboardStats } from "@/context/DashboardStatsContext";
+import { DashboardDataType } from "@/types/dashboard-stats";
+
+export interface LiveStats<T> {
+    data: T | null;
+    isLoading: boolean;
+    error: string | null;
+    lastUpdated: Date;
+}
+
+/**
+ * Load dashboard statistics and reload them whenever the data type is reported
+ * refreshed through DashboardStatsContext (notifyRefresh) or the whole dashboard is refreshed (refreshAll).
+ * Nothing is loaded while enabled is false, e.g. until the user's permissions allow the queries.
+ */
+export function useLiveStats<T>(dataType: DashboardDataType, fetchStats: () => Promise<T>, enabled: boolean = true) {
+    const { lastRefreshed, subscribeToRefresh } = useDashboardStats();
+    const [stats, setStats] = useState<LiveStats<T>>({
+        data: null,
+        isLoading: enabled,
+        error: null,
+        lastUpdated: new Date()
+    });
+
+    // Keep the latest fetcher without re-running the effects when the caller passes a new function
+    const fetchStatsRef = useRef(fetchStats);
+    fetchStatsRef.current = fetchStats;
+
+    const refreshStats = useCallback(async () => {
+        try {
+            setStats(prev => ({ ...prev, isLoading: true, error: null }));
+            const data = await fetchStatsRef.current();
+            setStats({
+                data,
+                isLoading: false,
+                error: null,
+                lastUpdated: new Date()
+            });
+        } catch (error) {
+            console.error(`Error fetching ${dataType} stats:`, error);
+            setStats(prev => ({
+                ...prev,
+                isLoading: false,
+                error: error instanceof Error ? error.message : `An error occurred fetching ${dataType} data`
+            }));
+        }
+    }, [dataType]);
+
+    // Fetch on mount and every time the data type is reported refreshed
+    useEffect(() => {
+        if (enabled) refreshStats();
+    }, [enabled, refreshStats, lastRefreshed[dataType]]);
+
+    // Refresh with the rest of the dashboard
+    useEffect(() => enabled ? subscribeToRefresh(refreshStats) : undefined, [enabled, subscribeToRefresh, refreshStats]);
+
+    return {
+        ...stats,
+        refreshStats
+    };
+}
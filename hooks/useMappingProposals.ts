@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from "react";
+import { Project } from "@/types/firebase";
+import { ProjectAccessScope } from "@/types/permissions";
+import { AssessmentCriteria } from "@/types/assessment-criteria";
+import { SpecificationRating, FrameworkTreeDomain } from "@/types/assessment";
+import {
+  MappingProposal,
+  PROPOSING_RELATIONSHIPS,
+  getMappedEndpoint
+} from "@/types/control-mapping";
+import { getFrameworkMappings } from "@/lib/services/controlMappingService";
+import { getAccessibleProjects } from "@/lib/services/projectService";
+import { getProjectRatings } from "@/lib/services/assessmentService";
+import { getAssessmentCriteria } from "@/lib/services/assessmentCriteriaService";
+import { getFrameworkVersionSnapshot } from "@/lib/services/frameworkVersionService";
+import { getRatingKey, resolveRatingValue, toRatingInput } from "@/lib/services/assessmentScoring";
+
+// Assessment of a mapped framework within the same organization
+interface SourceAssessment {
+  project: Project;
+  criteria: AssessmentCriteria | null;
+  ratings: SpecificationRating[];
+}
+
+// Most recently updated project of each framework
+function getLatestProjectByFramework(projects: Project[]): Map<string, Project> {
+  const latest = new Map<string, Project>();
+  projects.forEach(project => {
+    const current = latest.get(project.frameworkId);
+    if (!current || (project.updatedAt?.toMillis() ?? 0) > (current.updatedAt?.toMillis() ?? 0)) {
+      latest.set(project.frameworkId, project);
+    }
+  });
+  return latest;
+}
+
+async function loadSourceAssessment(project: Project): Promise<SourceAssessment> {
+  const [ratings, criteria] = await Promise.all([
+    getProjectRatings(project.id),
+    // Pinned projects are rated against the criteria published with their version
+    project.frameworkVersion
+      ? getFrameworkVersionSnapshot(project.frameworkId, project.frameworkVersion)
+        .then(snapshot => snapshot?.version.criteria ?? null)
+      : getAssessmentCriteria(project.frameworkId)
+  ]);
+  return { project, criteria, ratings };
+}
+
+/**
+ * Propose ratings for a project's specifications from the assessments of other
+ * frameworks in the same organization, through equivalent and partial mappings.
+ * Equivalent mappings win over partial ones when both propose for a specification.
+ */
+export function useMappingProposals(
+  project: Project | null,
+  tree: FrameworkTreeDomain[],
+  criteria: AssessmentCriteria | null,
+  scope: ProjectAccessScope | null
+) {
+  const [proposals, setProposals] = useState<Map<string, MappingProposal>>(new Map());
+  const [loading, setLoading] = useState(false);
+
+  const fetchProposals = useCallback(async () => {
+    if (!project || !scope || tree.length === 0) {
+      setProposals(new Map());
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const mappings = (await getFrameworkMappings(project.frameworkId))
+        .filter(mapping => PROPOSING_RELATIONSHIPS.includes(mapping.relationship));
+      if (mappings.length === 0) {
+        setProposals(new Map());
+        return;
+      }
+
+      const mappedFrameworkIds = new Set(mappings.map(mapping =>
+        getMappedEndpoint(mapping, project.frameworkId).other.frameworkId
+      ));
+      const sourceProjects = getLatestProjectByFramework(
+        (await getAccessibleProjects(scope)).filter(item =>
+          item.id !== project.id &&
+          item.organizationId === project.organizationId &&
+          mappedFrameworkIds.has(item.frameworkId)
+        )
+      );
+
+      const sources = new Map<string, SourceAssessment>();
+      await Promise.all(Array.from(sourceProjects.values()).map(async sourceProject => {
+        try {
+          sources.set(sourceProject.frameworkId, await loadSourceAssessment(sourceProject));
+        } catch (error) {
+          // A project whose ratings cannot be read proposes nothing
+          console.error(`Error loading assessment of project ${sourceProject.id}:`, error);
+        }
+      }));
+
+      const result = new Map<string, MappingProposal>();
+      mappings.forEach(mapping => {
+        const { own, other } = getMappedEndpoint(mapping, project.frameworkId);
+        const source = sources.get(other.frameworkId);
+        if (!source) return;
+
+        // A mapped control stands for the average of its rated specifications
+        const sourceRatings = source.ratings.filter(rating =>
+          rating.domainId === other.domainId &&
+          rating.controlId === other.controlId &&
+          (!other.specificationId || rating.specificationId === other.specificationId)
+        );
+        if (sourceRatings.length === 0) return;
+
+        const values = sourceRatings
+          .map(rating => resolveRatingValue(rating, source.criteria))
+          .filter((value): value is number => value !== null);
+        const percentage = values.length > 0
+          ? values.reduce((sum, value) => sum + value, 0) / values.length
+          : null;
+
+        const ownControl = tree
+          .find(domain => domain.domainId === own.domainId)
+          ?.controls.find(control => control.controlId === own.controlId);
+        const specificationIds = own.specificationId
+          ? [own.specificationId]
+          : ownControl?.specifications.map(spec => spec.id) || [];
+
+        specificationIds.forEach(specificationId => {
+          const key = getRatingKey(own.domainId, own.controlId, specificationId);
+          if (result.get(key)?.relationship === "equivalent" && mapping.relationship !== "equivalent") return;
+
+          result.set(key, {
+            input: toRatingInput(percentage, criteria),
+            relationship: mapping.relationship,
+            source: other,
+            projectId: source.project.id,
+            projectName: source.project.name
+          });
+        });
+      });
+
+      setProposals(result);
+    } catch (err) {
+      console.error("Error fetching mapping proposals:", err);
+      setProposals(new Map());
+    } finally {
+      setLoading(false);
+    }
+  }, [project, tree, criteria, scope]);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [fetchProposals]);
+
+  // Proposal for a specification, if any of its mapped items has been assessed
+  const getProposal = (domainId: string, controlId: string, specificationId: string) =>
+    proposals.get(getRatingKey(domainId, controlId, specificationId)) || null;
+
+  return {
+    loading,
+    getProposal
+  };
+}
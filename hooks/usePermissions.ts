@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuthContext } from "@/context/AuthContext";
+import { Permission } from "@/types/permissions";
+import { getPermissionsForRole } from "@/lib/services/permissionService";
+
+// Permissions of the signed-in user's role, for showing or hiding actions in the UI.
+// The API routes and security rules enforce the same permissions on their side.
+export function usePermissions() {
+  const { user, isLoading: userLoading } = useAuthContext();
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (userLoading) return;
+
+    if (!user?.role) {
+      setPermissions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    getPermissionsForRole(user.role)
+      .then(rolePermissions => {
+        if (!cancelled) setPermissions(rolePermissions);
+      })
+      .catch(err => {
+        console.error("Error fetching permissions:", err);
+        if (!cancelled) setPermissions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.role, userLoading]);
+
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+  return { permissions, can, loading };
+}
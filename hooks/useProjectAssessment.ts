@@ -0,0 +1,171 @@
+import { useState, useEffect, useMemo } from "react";
+import { Project } from "@/types/firebase";
+import { AssessmentCriteria } from "@/types/assessment-criteria";
+import { SpecificationRating, FrameworkTreeDomain } from "@/types/assessment";
+import { FrameworkVersion } from "@/types/framework-version";
+import { ProjectMilestone, getNextDueDate } from "@/types/project-milestone";
+import { getProjectById, updateProject } from "@/lib/services/projectService";
+import { getFrameworkTree } from "@/lib/services/frameworkService";
+import { getAssessmentCriteria } from "@/lib/services/assessmentCriteriaService";
+import { getFrameworkVersionSnapshot } from "@/lib/services/frameworkVersionService";
+import {
+  getProjectRatings,
+  saveSpecificationRating,
+  deleteSpecificationRating
+} from "@/lib/services/assessmentService";
+import { computeProjectScore, getRatingKey } from "@/lib/services/assessmentScoring";
+
+export type RatingInput = Pick<SpecificationRating, "levelIndex" | "value" | "notApplicable" | "comment">;
+
+export function useProjectAssessment(projectId: string, userId?: string) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [tree, setTree] = useState<FrameworkTreeDomain[]>([]);
+  const [criteria, setCriteria] = useState<AssessmentCriteria | null>(null);
+  const [frameworkVersion, setFrameworkVersion] = useState<FrameworkVersion | null>(null);
+  const [ratings, setRatings] = useState<SpecificationRating[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAssessment = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const projectData = await getProjectById(projectId);
+      if (!projectData) {
+        setError("Project not found");
+        return;
+      }
+      setProject(projectData);
+
+      // Pinned projects are assessed against the published version, not the live framework
+      if (projectData.frameworkVersion) {
+        const [snapshot, ratingsData] = await Promise.all([
+          getFrameworkVersionSnapshot(projectData.frameworkId, projectData.frameworkVersion),
+          getProjectRatings(projectId)
+        ]);
+        if (!snapshot) {
+          setError("Pinned framework version not found");
+          return;
+        }
+
+        setFrameworkVersion(snapshot.version);
+        setTree(snapshot.tree);
+        setCriteria(snapshot.version.criteria);
+        setRatings(ratingsData);
+        return;
+      }
+
+      const [treeData, criteriaData, ratingsData] = await Promise.all([
+        getFrameworkTree(projectData.frameworkId),
+        getAssessmentCriteria(projectData.frameworkId),
+        getProjectRatings(projectId)
+      ]);
+
+      setFrameworkVersion(null);
+      setTree(treeData);
+      setCriteria(criteriaData);
+      setRatings(ratingsData);
+    } catch (err) {
+      console.error("Error fetching project assessment:", err);
+      setError("Failed to fetch project assessment");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Look up the rating of a specification, if any
+  const getRating = (domainId: string, controlId: string, specificationId: string) => {
+    const key = getRatingKey(domainId, controlId, specificationId);
+    return ratings.find(rating =>
+      getRatingKey(rating.domainId, rating.controlId, rating.specificationId) === key
+    ) || null;
+  };
+
+  const rateSpecification = async (
+    domainId: string,
+    controlId: string,
+    specificationId: string,
+    input: RatingInput
+  ): Promise<boolean> => {
+    const key = getRatingKey(domainId, controlId, specificationId);
+    try {
+      setSaving(key);
+      const rating = { domainId, controlId, specificationId, ...input, ratedBy: userId };
+      await saveSpecificationRating(projectId, rating);
+
+      setRatings(prev => [
+        ...prev.filter(existing =>
+          getRatingKey(existing.domainId, existing.controlId, existing.specificationId) !== key
+        ),
+        { ...rating, updatedAt: null }
+      ]);
+      return true;
+    } catch (err) {
+      console.error("Error rating specification:", err);
+      setError("Failed to save rating");
+      return false;
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const clearRating = async (domainId: string, controlId: string, specificationId: string): Promise<boolean> => {
+    const key = getRatingKey(domainId, controlId, specificationId);
+    try {
+      setSaving(key);
+      await deleteSpecificationRating(projectId, domainId, controlId, specificationId);
+      setRatings(prev => prev.filter(existing =>
+        getRatingKey(existing.domainId, existing.controlId, existing.specificationId) !== key
+      ));
+      return true;
+    } catch (err) {
+      console.error("Error clearing rating:", err);
+      setError("Failed to clear rating");
+      return false;
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const saveMilestones = async (milestones: ProjectMilestone[]): Promise<boolean> => {
+    if (!project) return false;
+    try {
+      await updateProject(projectId, { milestones });
+      setProject({ ...project, milestones, nextDueDate: getNextDueDate({ ...project, milestones }) });
+      return true;
+    } catch (err) {
+      console.error("Error saving milestones:", err);
+      setError("Failed to save milestones");
+      return false;
+    }
+  };
+
+  const score = useMemo(
+    () => computeProjectScore(tree, criteria, ratings),
+    [tree, criteria, ratings]
+  );
+
+  useEffect(() => {
+    if (projectId) {
+      fetchAssessment();
+    }
+  }, [projectId]);
+
+  return {
+    project,
+    tree,
+    criteria,
+    frameworkVersion,
+    ratings,
+    score,
+    loading,
+    saving,
+    error,
+    fetchAssessment,
+    getRating,
+    rateSpecification,
+    clearRating,
+    saveMilestones
+  };
+}
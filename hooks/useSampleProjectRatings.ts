@@ -0,0 +1,60 @@
+import { useState, useEffect } from "react";
+import { SpecificationRating } from "@/types/assessment";
+import { getAssessmentCriteria } from "@/lib/services/assessmentCriteriaService";
+import { getFrameworkVersionSnapshot } from "@/lib/services/frameworkVersionService";
+import { getProjectById } from "@/lib/services/projectService";
+import { getProjectRatings } from "@/lib/services/assessmentService";
+import { toValueRatings } from "@/lib/services/criteriaSimulation";
+
+/**
+ * Ratings of a project to try draft criteria against, resolved to percentages with the criteria
+ * the project was rated under (those of its pinned version, if any)
+ */
+export function useSampleProjectRatings(projectId: string | null) {
+  const [ratings, setRatings] = useState<SpecificationRating[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId) {
+      setRatings(null);
+      setError(null);
+      return;
+    }
+
+    const fetchRatings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const project = await getProjectById(projectId);
+        if (!project) {
+          setError("Project not found");
+          return;
+        }
+
+        const [criteria, ratingsData] = await Promise.all([
+          project.frameworkVersion
+            ? getFrameworkVersionSnapshot(project.frameworkId, project.frameworkVersion)
+              .then(snapshot => snapshot?.version.criteria ?? null)
+            : getAssessmentCriteria(project.frameworkId),
+          getProjectRatings(projectId)
+        ]);
+
+        setRatings(toValueRatings(ratingsData, criteria));
+      } catch (err) {
+        console.error("Error fetching sample project ratings:", err);
+        setError("Failed to fetch project ratings");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRatings();
+  }, [projectId]);
+
+  return {
+    ratings,
+    loading,
+    error
+  };
+}
@@ -10,10 +10,26 @@ import {
   updateDoc,
   deleteDoc,
   doc,
+  getDoc,
   Timestamp,
   setDoc,
 } from "firebase/firestore";
 import { useToast } from "@/components/ui/use-toast";
+import { auth } from "@/lib/firebase";
+import { recordAuditLog } from "@/lib/services/auditLogService";
+import { getFrameworkTree } from "@/lib/services/frameworkService";
+import {
+  DependencyProblem,
+  SpecificationDependency,
+  buildDependencyGraph,
+  normalizeDependencies,
+  validateSpecificationDependencies
+} from "@/types/specification-dependency";
+import {
+  SpecificationVersionDetails,
+  appendSpecificationVersion,
+  getSpecificationContent
+} from "@/types/specification-version";
 
 export interface VersionHistory {
   version: string;
@@ -22,6 +38,10 @@ export interface VersionHistory {
     en: string;
     ar: string;
   };
+  content?: SpecificationContent; // Snapshot saved as this version; imported entries have none
+  changedBy?: string; // User ID
+  changedByName?: string;
+  restoredFrom?: string; // Version whose content this version restored
 }
 
 export interface SubSpecification {
@@ -51,16 +71,23 @@ export interface Specification {
     ar: string;
   };
   capabilityLevel: CapabilityLevel;
-  dependency?: {
+  dependency?: { // Free-text notes from before dependsOn; kept for reference
     en: string;
     ar: string;
   };
+  dependsOn?: SpecificationDependency[]; // Specifications of the framework that have to be met first
   subSpecifications?: SubSpecification[];
   versionHistory?: VersionHistory[];
   createdAt: string | Timestamp;
   updatedAt: string | Timestamp;
 }
 
+// Fields of a specification recorded by each version
+export type SpecificationContent = Pick<
+  Specification,
+  "name" | "description" | "dependency" | "dependsOn" | "capabilityLevel" | "subSpecifications"
+>;
+
 // Helper function to convert legacy numeric levels to string levels
 export function convertLegacyCapabilityLevel(level: number | string): CapabilityLevel {
   if (typeof level === 'string' && (level === 'foundational' || level === 'advanced' || level === 'veryAdvanced')) {
@@ -172,8 +199,16 @@ export default function useSpecifications(controlId?: string, frameworkId?: stri
     }
   };
 
-  // Add a new specification
-  const addSpecification = async (data: Omit<Specification, "id" | "createdAt" | "updatedAt">) => {
+  // Signed-in user recorded with each saved version
+  const getVersionDetails = (
+    details: Omit<SpecificationVersionDetails, "changedBy">
+  ): SpecificationVersionDetails => ({ ...details, changedBy: auth.currentUser?.uid || "" });
+
+  // Add a new specification; with version details its content is recorded as the first version
+  const addSpecification = async (
+    data: Omit<Specification, "id" | "createdAt" | "updatedAt">,
+    version?: Omit<SpecificationVersionDetails, "changedBy">
+  ) => {
     if (!effectiveControlId || !effectiveFrameworkId || !effectiveDomainId) return;
 
     try {
@@ -185,6 +220,15 @@ export default function useSpecifications(controlId?: string, frameworkId?: stri
       const now = new Date().toISOString();
       const newSpecification = {
         ...data,
+        ...(version ? {
+          versionHistory: appendSpecificationVersion(
+            data.versionHistory || [],
+            null,
+            getSpecificationContent(data),
+            getVersionDetails(version),
+            now
+          )
+        } : {}),
         createdAt: now,
         updatedAt: now,
         // Ensure capabilityLevel is a valid string value
@@ -196,7 +240,14 @@ export default function useSpecifications(controlId?: string, frameworkId?: stri
       const specificationsPath = getSpecificationsPath();
       const specRef = doc(db, specificationsPath, specificationId);
       
+      const beforeSnap = await getDoc(specRef);
       await setDoc(specRef, newSpecification);
+      await recordAuditLog({
+        action: beforeSnap.exists() ? "update" : "create",
+        entityPath: specRef.path,
+        before: beforeSnap.data(),
+        after: newSpecification
+      });
       
       setSpecifications((prev) => [
         ...prev,
@@ -235,7 +286,9 @@ export default function useSpecifications(controlId?: string, frameworkId?: stri
         updatedAt: new Date().toISOString(),
       };
       
+      const before = (await getDoc(specRef)).data() || {};
       await updateDoc(specRef, updateData);
+      await recordAuditLog({ action: "update", entityPath: specRef.path, before, after: { ...before, ...updateData } });
       
       setSpecifications((prev) =>
         prev.map((spec) =>
@@ -260,6 +313,115 @@ export default function useSpecifications(controlId?: string, frameworkId?: stri
     }
   };
 
+  // Write content to a specification and record it as a new version, unless nothing changed
+  // or getContent returns null
+  const writeSpecificationVersion = async (
+    specId: string,
+    getContent: (stored: Specification) => SpecificationContent | null,
+    details: Omit<SpecificationVersionDetails, "changedBy">
+  ) => {
+    const specRef = doc(db, getSpecificationsPath(), specId);
+    const snapshot = await getDoc(specRef);
+    if (!snapshot.exists()) {
+      throw new Error(`Specification ${specId} not found`);
+    }
+
+    const before = snapshot.data();
+    const stored = {
+      ...before,
+      id: specId,
+      capabilityLevel: convertLegacyCapabilityLevel(before.capabilityLevel)
+    } as Specification;
+    const next = getContent(stored);
+    if (!next) return;
+
+    const content = getSpecificationContent(next);
+    const now = new Date().toISOString();
+    const versionHistory = appendSpecificationVersion(
+      stored.versionHistory || [],
+      { content: getSpecificationContent(stored), date: stored.updatedAt || now },
+      content,
+      getVersionDetails(details),
+      now
+    );
+
+    const updateData = { ...content, versionHistory, updatedAt: now };
+    await updateDoc(specRef, updateData);
+    await recordAuditLog({ action: "update", entityPath: specRef.path, before, after: { ...before, ...updateData } });
+
+    setSpecifications((prev) =>
+      prev.map((spec) =>
+        spec.id === specId ? { ...spec, ...updateData } as Specification : spec
+      )
+    );
+  };
+
+  // Save edited content as the next version of a specification
+  const saveSpecificationVersion = async (
+    specId: string,
+    content: SpecificationContent,
+    details: Omit<SpecificationVersionDetails, "changedBy" | "restoredFrom"> = {}
+  ) => {
+    if (!effectiveControlId || !effectiveFrameworkId || !effectiveDomainId) return;
+
+    try {
+      setRefreshing(specId);
+      await writeSpecificationVersion(specId, () => content, details);
+
+      toast({
+        title: "Success",
+        description: "Specification updated successfully",
+      });
+    } catch (err) {
+      console.error("Error saving specification version:", err);
+      toast({
+        title: "Error",
+        description: "Failed to update specification. Please try again.",
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setRefreshing(null);
+    }
+  };
+
+  // Restore the content of an earlier version, recorded as a new version.
+  // The version's dependencies are checked against the framework as it is now, like an edit;
+  // their problems are returned and nothing is written when there are any.
+  const restoreSpecificationVersion = async (
+    specId: string,
+    version: string,
+    changedByName?: string
+  ): Promise<DependencyProblem[]> => {
+    if (!effectiveControlId || !effectiveFrameworkId || !effectiveDomainId) return [];
+
+    try {
+      setRefreshing(specId);
+      const graph = buildDependencyGraph(await getFrameworkTree(effectiveFrameworkId));
+      let problems: DependencyProblem[] = [];
+
+      await writeSpecificationVersion(specId, stored => {
+        const entry = stored.versionHistory?.find(item => item.version === version);
+        if (!entry?.content) {
+          throw new Error(`Version ${version} of specification ${specId} has no content to restore`);
+        }
+
+        problems = validateSpecificationDependencies(
+          graph,
+          { domainId: effectiveDomainId, controlId: effectiveControlId, specificationId: stored.number },
+          normalizeDependencies(entry.content.dependsOn)
+        );
+        return problems.length > 0 ? null : entry.content;
+      }, { restoredFrom: version, changedByName });
+      return problems;
+    } catch (err) {
+      console.error("Error restoring specification version:", err);
+      throw err;
+    } finally {
+      setRefreshing(null);
+    }
+  };
+
   // Delete a specification
   const deleteSpecification = async (specId: string) => {
     if (!effectiveControlId || !effectiveFrameworkId || !effectiveDomainId) return;
@@ -269,7 +431,9 @@ export default function useSpecifications(controlId?: string, frameworkId?: stri
       
       const specificationsPath = getSpecificationsPath();
       const specRef = doc(db, specificationsPath, specId);
+      const before = (await getDoc(specRef)).data() || {};
       await deleteDoc(specRef);
+      await recordAuditLog({ action: "delete", entityPath: specRef.path, before });
       
       setSpecifications((prev) => prev.filter((spec) => spec.id !== specId));
       
@@ -317,7 +481,14 @@ export default function useSpecifications(controlId?: string, frameworkId?: stri
         const specificationId = spec.number;
         const specRef = doc(db, specificationsPath, specificationId);
         
+        const beforeSnap = await getDoc(specRef);
         await setDoc(specRef, newSpec);
+        await recordAuditLog({
+          action: beforeSnap.exists() ? "update" : "create",
+          entityPath: specRef.path,
+          before: beforeSnap.data(),
+          after: newSpec
+        });
         newSpecs.push({ ...newSpec, id: specificationId } as Specification);
       }
       
@@ -346,6 +517,8 @@ export default function useSpecifications(controlId?: string, frameworkId?: stri
     fetchSpecifications,
     addSpecification,
     updateSpecification,
+    saveSpecificationVersion,
+    restoreSpecificationVersion,
     deleteSpecification,
     importSpecifications,
   };
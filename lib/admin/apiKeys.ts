@@ -0,0 +1,200 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { db } from '@/lib/firebase-admin';
+import { DocumentSnapshot, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { Permission, isPermission } from '@/types/permissions';
+import { ApiKey, ApiKeyInput, formatApiKeyToken, parseApiKeyToken } from '@/types/api-key';
+import { AuditActor, writeAuditLog } from './auditLog';
+
+// Server-side only: the apiKeys collection is closed to clients by the security rules.
+
+const API_KEYS_COLLECTION = 'apiKeys';
+
+// Random bytes in a key's secret
+const SECRET_BYTES = 32;
+
+// Characters of the token kept in clear to tell keys apart
+const HINT_LENGTH = 4;
+
+// lastUsedAt is only rewritten when older than this, so busy keys do not write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Key a bearer token was verified against
+export interface VerifiedApiKey {
+  id: string;
+  organizationId: string;
+  permissions: Permission[];
+}
+
+// Change an API key caller makes to a user, as sent to the user management routes
+export interface ApiKeyUserChange {
+  role?: string;
+  organizationId?: string | null;
+  assignedProjectIds?: string[];
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toIsoString(value: unknown): string | null {
+  return value instanceof Timestamp ? value.toDate().toISOString() : null;
+}
+
+// API key without its secret hash, as returned to clients
+function toApiKey(snapshot: DocumentSnapshot): ApiKey {
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    name: data.name,
+    organizationId: data.organizationId,
+    permissions: data.permissions || [],
+    hint: data.hint,
+    createdBy: data.createdBy,
+    ...(data.createdByName ? { createdByName: data.createdByName } : {}),
+    createdAt: toIsoString(data.createdAt),
+    expiresAt: toIsoString(data.expiresAt),
+    lastUsedAt: toIsoString(data.lastUsedAt),
+    revokedAt: toIsoString(data.revokedAt)
+  };
+}
+
+/**
+ * Get every API key, newest first
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const snapshot = await db.collection(API_KEYS_COLLECTION).orderBy('createdAt', 'desc').get();
+  return snapshot.docs.map(toApiKey);
+}
+
+/**
+ * Issue a key. The returned token is the only copy of the secret; just its hash is stored.
+ */
+export async function issueApiKey(
+  input: ApiKeyInput,
+  actor: AuditActor & { name?: string }
+): Promise<{ apiKey: ApiKey; token: string }> {
+  const ref = db.collection(API_KEYS_COLLECTION).doc();
+  const secret = randomBytes(SECRET_BYTES).toString('base64url');
+  const token = formatApiKeyToken(ref.id, secret);
+
+  const document = {
+    name: input.name,
+    organizationId: input.organizationId,
+    permissions: input.permissions,
+    secretHash: hashSecret(secret),
+    hint: token.slice(-HINT_LENGTH),
+    createdBy: actor.userId,
+    ...(actor.name ? { createdByName: actor.name } : {}),
+    createdAt: FieldValue.serverTimestamp(),
+    expiresAt: input.expiresAt ? Timestamp.fromDate(new Date(`${input.expiresAt}T23:59:59.999Z`)) : null,
+    lastUsedAt: null,
+    revokedAt: null
+  };
+  await ref.create(document);
+
+  const { secretHash: _secretHash, ...audited } = document;
+  await writeAuditLog(actor, { action: 'create', entityPath: ref.path, after: audited });
+
+  return { apiKey: toApiKey(await ref.get()), token };
+}
+
+/**
+ * Revoke a key. Revoked keys stay listed so their use can still be traced.
+ * Returns null when the key does not exist.
+ */
+export async function revokeApiKey(keyId: string, actor: AuditActor): Promise<ApiKey | null> {
+  const ref = db.collection(API_KEYS_COLLECTION).doc(keyId);
+  const before = await ref.get();
+  if (!before.exists) {
+    return null;
+  }
+  if (before.get('revokedAt')) {
+    return toApiKey(before);
+  }
+
+  await ref.update({ revokedAt: FieldValue.serverTimestamp(), revokedBy: actor.userId });
+  await writeAuditLog(actor, {
+    action: 'update',
+    entityPath: ref.path,
+    before: { revokedAt: null },
+    after: { revokedAt: new Date().toISOString(), revokedBy: actor.userId }
+  });
+
+  return toApiKey(await ref.get());
+}
+
+/**
+ * Check a bearer token against the stored keys.
+ * Returns null for unknown, revoked and expired keys, or when the secret does not match.
+ */
+export async function verifyApiKey(token: string): Promise<VerifiedApiKey | null> {
+  const parsed = parseApiKeyToken(token);
+  if (!parsed) {
+    return null;
+  }
+
+  const snapshot = await db.collection(API_KEYS_COLLECTION).doc(parsed.keyId).get();
+  const data = snapshot.data();
+  if (!data) {
+    return null;
+  }
+
+  const expected = Buffer.from(data.secretHash, 'hex');
+  const actual = Buffer.from(hashSecret(parsed.secret), 'hex');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (data.revokedAt || (data.expiresAt instanceof Timestamp && data.expiresAt.toMillis() <= now)) {
+    return null;
+  }
+
+  // Not awaited: a failed bookkeeping write should not fail the request
+  const lastUsedAt = data.lastUsedAt instanceof Timestamp ? data.lastUsedAt.toMillis() : 0;
+  if (now - lastUsedAt > LAST_USED_RESOLUTION_MS) {
+    snapshot.ref.update({ lastUsedAt: FieldValue.serverTimestamp() }).catch(error => {
+      console.error(`Error recording use of API key ${snapshot.id}:`, error);
+    });
+  }
+
+  return {
+    id: snapshot.id,
+    organizationId: data.organizationId,
+    permissions: (data.permissions || []).filter(isPermission)
+  };
+}
+
+/**
+ * Check that a key may manage a user: keys act only on users and projects of their organization.
+ * userId is the user being changed, or null when creating one.
+ * Returns an error message for a change the key may not make.
+ */
+export async function checkApiKeyUserChange(
+  apiKey: { organizationId: string },
+  userId: string | null,
+  change: ApiKeyUserChange = {}
+): Promise<string | undefined> {
+  if (change.organizationId !== undefined && change.organizationId !== apiKey.organizationId) {
+    return 'API keys can only manage users of their organization';
+  }
+
+  if (userId) {
+    const user = await db.collection('users').doc(userId).get();
+    if (user.get('organizationId') !== apiKey.organizationId) {
+      return 'API keys can only manage users of their organization';
+    }
+  }
+
+  const projectIds = change.assignedProjectIds ?? [];
+  if (!Array.isArray(projectIds) || !projectIds.every(id => typeof id === 'string' && id !== '')) {
+    return 'assignedProjectIds must be an array of project IDs';
+  }
+  if (projectIds.length > 0) {
+    const projects = await db.getAll(...projectIds.map(id => db.collection('projects').doc(id)));
+    if (projects.some(project => project.get('organizationId') !== apiKey.organizationId)) {
+      return 'API keys can only assign projects of their organization';
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,56 @@
+import { db } from '@/lib/firebase-admin';
+import { BulkWriter, FieldValue } from 'firebase-admin/firestore';
+import { AuditChange, diffAuditFields, getAuditEntityType } from '@/types/audit-log';
+
+// Server-side only: audit entries written here bypass the security rules that keep the collection append-only.
+
+const AUDIT_LOGS_COLLECTION = 'auditLogs';
+
+// Caller of an admin route, as returned by authorize()
+export interface AuditActor {
+  userId: string;
+  role: string;
+}
+
+/**
+ * Build the audit log document for a change made through the Admin SDK
+ */
+export function buildAuditLog(actor: AuditActor, change: AuditChange): Record<string, any> {
+  return {
+    actorUid: actor.userId,
+    actorRole: actor.role,
+    action: change.action,
+    entityType: getAuditEntityType(change.entityPath),
+    entityPath: change.entityPath,
+    changes: diffAuditFields(change.before, change.after),
+    ...(change.source ? { source: change.source } : {}),
+    createdAt: FieldValue.serverTimestamp()
+  };
+}
+
+/**
+ * Record a change in the audit log. Updates without changed fields are not recorded.
+ * Failures are logged and not rethrown, since the change itself has already been written.
+ */
+export async function writeAuditLog(actor: AuditActor, change: AuditChange): Promise<void> {
+  try {
+    const auditLog = buildAuditLog(actor, change);
+    if (change.action === 'update' && auditLog.changes.length === 0) {
+      return;
+    }
+
+    await db.collection(AUDIT_LOGS_COLLECTION).add(auditLog);
+  } catch (error) {
+    console.error(`Error recording audit log for ${change.entityPath}:`, error);
+  }
+}
+
+/**
+ * Queue the audit log entry of a change on a BulkWriter that writes the change itself.
+ * A failed entry is logged and does not fail the caller.
+ */
+export function addAuditLog(writer: BulkWriter, actor: AuditActor, change: AuditChange): Promise<unknown> {
+  return writer.create(db.collection(AUDIT_LOGS_COLLECTION).doc(), buildAuditLog(actor, change)).catch(error => {
+    console.error(`Error recording audit log for ${change.entityPath}:`, error);
+  });
+}
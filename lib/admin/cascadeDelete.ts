@@ -0,0 +1,429 @@
+import admin, { db } from '@/lib/firebase-admin';
+import { BulkWriter, DocumentReference, Query } from 'firebase-admin/firestore';
+import {
+  CascadeDeleteTarget,
+  CascadeDeletePlan,
+  CascadeDeleteProjectReference,
+  CascadeDeleteResult,
+  ProjectDeleteResult
+} from '@/types/cascade-delete';
+import { FirestoreControlMapping, MappingEndpoint, getControlKey } from '@/types/control-mapping';
+import {
+  DependencyScope,
+  SpecificationDependency,
+  findDependents,
+  isInDependencyScope,
+  normalizeDependencies
+} from '@/types/specification-dependency';
+import { AuditActor, addAuditLog, writeAuditLog } from './auditLog';
+import { getSpecificationDocumentRef, loadDependencyGraph } from './specificationDependencies';
+
+// Server-side only: these helpers use the Admin SDK and bypass security rules.
+
+// Documents read per getAll() call to capture their data for the audit log
+const AUDIT_READ_BATCH_SIZE = 300;
+
+/**
+ * Keep a BulkWriter write with the path it changes, so failures can be
+ * reported after close() instead of surfacing as unhandled rejections
+ */
+function trackWrite(writes: Promise<string | null>[], path: string, write: Promise<unknown>): void {
+  writes.push(write.then(() => null, error => {
+    console.error(`Error writing ${path} in cascading delete:`, error);
+    return path;
+  }));
+}
+
+/**
+ * Delete documents with the writer, recording each one in the audit log when there is an actor
+ */
+async function deleteDocuments(
+  writer: BulkWriter,
+  writes: Promise<string | null>[],
+  paths: string[],
+  actor: AuditActor | undefined,
+  source: string
+): Promise<void> {
+  for (let i = 0; i < paths.length; i += AUDIT_READ_BATCH_SIZE) {
+    const refs = paths.slice(i, i + AUDIT_READ_BATCH_SIZE).map(path => db.doc(path));
+    const snapshots = actor && refs.length > 0 ? await db.getAll(...refs) : [];
+
+    refs.forEach(ref => trackWrite(writes, ref.path, writer.delete(ref)));
+    snapshots.forEach(snapshot => {
+      addAuditLog(writer, actor as AuditActor, {
+        action: 'delete',
+        entityPath: snapshot.ref.path,
+        before: snapshot.data() || {},
+        source
+      });
+    });
+  }
+}
+
+/**
+ * Resolve the document reference of the node being deleted
+ */
+function getTargetRef(target: CascadeDeleteTarget): DocumentReference {
+  let ref = db.collection('frameworks').doc(target.frameworkId);
+  if (target.domainId) {
+    ref = ref.collection('domains').doc(target.domainId);
+    if (target.controlId) {
+      ref = ref.collection('controls').doc(target.controlId);
+    }
+  }
+  return ref;
+}
+
+/**
+ * Collect the paths of a document and every document below it, including
+ * subcollections that are not part of the known hierarchy
+ */
+async function collectDocumentPaths(ref: DocumentReference, paths: string[]): Promise<void> {
+  const snapshot = await ref.get();
+  if (snapshot.exists) {
+    paths.push(ref.path);
+  }
+
+  const subcollections = await ref.listCollections();
+  for (const subcollection of subcollections) {
+    const documents = await subcollection.listDocuments();
+    for (const document of documents) {
+      await collectDocumentPaths(document, paths);
+    }
+  }
+}
+
+/**
+ * Find ratings and evidence of a project that point at the deleted domain or control
+ */
+async function collectAssessmentRecords(projectId: string, target: CascadeDeleteTarget): Promise<string[]> {
+  const paths: string[] = [];
+
+  for (const subcollection of ['ratings', 'evidence']) {
+    let query: Query = db.collection('projects').doc(projectId).collection(subcollection)
+      .where('domainId', '==', target.domainId);
+
+    if (target.controlId) {
+      query = query.where('controlId', '==', target.controlId);
+    }
+
+    const snapshot = await query.get();
+    snapshot.docs.forEach(doc => paths.push(doc.ref.path));
+  }
+
+  return paths;
+}
+
+/**
+ * Find the control mappings with an endpoint in the deleted framework, domain or control
+ */
+async function collectControlMappings(target: CascadeDeleteTarget): Promise<string[]> {
+  const mappings = db.collection('controlMappings');
+
+  if (target.domainId && target.controlId) {
+    const snapshot = await mappings
+      .where('controlKeys', 'array-contains', getControlKey({
+        frameworkId: target.frameworkId,
+        domainId: target.domainId,
+        controlId: target.controlId
+      }))
+      .get();
+    return snapshot.docs.map(doc => doc.ref.path);
+  }
+
+  // Mappings only list their frameworks and controls, so those of a domain are picked from the framework's
+  const snapshot = await mappings.where('frameworkIds', 'array-contains', target.frameworkId).get();
+  const isTargeted = (endpoint: MappingEndpoint) =>
+    endpoint.frameworkId === target.frameworkId && (!target.domainId || endpoint.domainId === target.domainId);
+
+  return snapshot.docs
+    .filter(doc => {
+      const mapping = doc.data() as FirestoreControlMapping;
+      return isTargeted(mapping.source) || isTargeted(mapping.target);
+    })
+    .map(doc => doc.ref.path);
+}
+
+/**
+ * Find the specifications outside the removed part of a framework that depend on something inside it
+ */
+async function collectDependentSpecifications(frameworkId: string, removed: DependencyScope): Promise<string[]> {
+  const graph = await loadDependencyGraph(frameworkId);
+  return findDependents(graph, removed).map(node => getSpecificationDocumentRef(frameworkId, node.ref).path);
+}
+
+/**
+ * Remove the dependsOn entries pointing into the removed part from the specifications that depend on it,
+ * with the writer of the delete
+ */
+async function removeDependencies(
+  writer: BulkWriter,
+  writes: Promise<string | null>[],
+  paths: string[],
+  removed: DependencyScope,
+  actor: AuditActor | undefined,
+  source: string
+): Promise<void> {
+  const snapshots = paths.length > 0 ? await db.getAll(...paths.map(path => db.doc(path))) : [];
+
+  snapshots.filter(snapshot => snapshot.exists).forEach(snapshot => {
+    const dependsOn = normalizeDependencies(snapshot.get('dependsOn'))
+      .filter(dependency => !isInDependencyScope(dependency, removed));
+    trackWrite(writes, snapshot.ref.path, writer.update(snapshot.ref, { dependsOn }));
+
+    if (actor) {
+      const before = snapshot.data() || {};
+      addAuditLog(writer, actor, { action: 'update', entityPath: snapshot.ref.path, before, after: { ...before, dependsOn }, source });
+    }
+  });
+}
+
+/**
+ * Criteria weight and target lists without the entries of the deleted domain or control
+ */
+function removeTargetWeights(criteria: admin.firestore.DocumentData, target: CascadeDeleteTarget) {
+  const isTargeted = (entry: { domainId: string; controlId?: string }) =>
+    entry.domainId === target.domainId && (!target.controlId || entry.controlId === target.controlId);
+
+  return {
+    // Domain weights only refer to domains, so a deleted control leaves them as they are
+    domainWeights: (criteria.domainWeights || []).filter((entry: { domainId: string }) => target.controlId || !isTargeted(entry)),
+    controlWeights: (criteria.controlWeights || []).filter((entry: { domainId: string; controlId: string }) => !isTargeted(entry)),
+    specificationWeights: (criteria.specificationWeights || []).filter((entry: { domainId: string; controlId: string }) => !isTargeted(entry)),
+    domainTargets: (criteria.domainTargets || []).filter((entry: { domainId: string }) => target.controlId || !isTargeted(entry))
+  };
+}
+
+/**
+ * Build a dry-run preview of a cascading delete without changing anything
+ */
+export async function planCascadeDelete(target: CascadeDeleteTarget): Promise<CascadeDeletePlan> {
+  const documents: string[] = [];
+  await collectDocumentPaths(getTargetRef(target), documents);
+
+  const projectsSnapshot = await db.collection('projects')
+    .where('frameworkId', '==', target.frameworkId)
+    .get();
+
+  const referencingProjects: CascadeDeleteProjectReference[] = [];
+  const pinnedProjects: CascadeDeleteProjectReference[] = [];
+  const assessmentRecords: string[] = [];
+
+  for (const projectDoc of projectsSnapshot.docs) {
+    const project = {
+      id: projectDoc.id,
+      name: projectDoc.data().name || {},
+      status: projectDoc.data().status || ''
+    };
+
+    // Deleting the framework leaves the project itself pointing at a missing framework,
+    // and removes the published versions pinned projects are assessed against
+    if (!target.domainId) {
+      referencingProjects.push(project);
+      if (projectDoc.data().frameworkVersion) {
+        pinnedProjects.push(project);
+      }
+      continue;
+    }
+
+    // Projects pinned to a published version keep assessing the pinned copy
+    if (projectDoc.data().frameworkVersion) {
+      continue;
+    }
+
+    // Deleting a domain or control orphans the assessment data recorded under it
+    const records = await collectAssessmentRecords(projectDoc.id, target);
+    if (records.length > 0) {
+      referencingProjects.push(project);
+      assessmentRecords.push(...records);
+    }
+  }
+
+  let criteriaChange: CascadeDeletePlan['criteriaChange'] = null;
+  const criteriaSnapshot = await db.collection('assessmentCriteria').doc(target.frameworkId).get();
+  if (criteriaSnapshot.exists) {
+    if (!target.domainId) {
+      criteriaChange = 'delete';
+    } else {
+      const criteria = criteriaSnapshot.data() || {};
+      const remaining = removeTargetWeights(criteria, target);
+      const changed = (Object.keys(remaining) as (keyof typeof remaining)[])
+        .some(field => remaining[field].length !== (criteria[field] || []).length);
+      if (changed) {
+        criteriaChange = 'update';
+      }
+    }
+  }
+
+  // Previous criteria configurations go with the framework, also when its criteria were already deleted
+  if (!target.domainId) {
+    const historyDocuments = await criteriaSnapshot.ref.collection('history').listDocuments();
+    documents.push(...historyDocuments.map(document => document.path));
+  }
+
+  const mappings = await collectControlMappings(target);
+
+  // Dependencies stay within a framework, so only a deleted domain or control leaves dependents behind
+  const dependents = target.domainId
+    ? await collectDependentSpecifications(target.frameworkId, { domainId: target.domainId, controlId: target.controlId })
+    : [];
+
+  return {
+    target,
+    documents,
+    assessmentRecords,
+    mappings,
+    dependents,
+    criteriaChange,
+    referencingProjects,
+    pinnedProjects
+  };
+}
+
+/**
+ * Delete a framework, domain or control with everything below it.
+ * With blockIfReferenced nothing is deleted while projects still reference the target;
+ * a framework with projects pinned to one of its versions is never deleted.
+ * With an actor every deleted document is recorded in the audit log.
+ */
+export async function executeCascadeDelete(
+  target: CascadeDeleteTarget,
+  options: { dryRun?: boolean; blockIfReferenced?: boolean; actor?: AuditActor } = {}
+): Promise<CascadeDeleteResult> {
+  const plan = await planCascadeDelete(target);
+  const blocked = plan.pinnedProjects.length > 0 ||
+    (Boolean(options.blockIfReferenced) && plan.referencingProjects.length > 0);
+
+  if (options.dryRun || blocked) {
+    return { success: !blocked, dryRun: Boolean(options.dryRun), blocked, deletedCount: 0, failedPaths: [], plan };
+  }
+
+  // Remove evidence files before their metadata disappears
+  const evidencePaths = plan.assessmentRecords.filter(path => path.includes('/evidence/'));
+  for (const path of evidencePaths) {
+    const storagePath = (await db.doc(path).get()).data()?.storagePath;
+    if (storagePath) {
+      await admin.storage().bucket().file(storagePath).delete().catch(error => {
+        console.error(`Error deleting evidence file ${storagePath}:`, error);
+      });
+    }
+  }
+
+  const writer = db.bulkWriter();
+  const writes: Promise<string | null>[] = [];
+  const deletedPaths = [...plan.documents, ...plan.assessmentRecords, ...plan.mappings];
+  const source = `cascade-delete:${getTargetRef(target).path}`;
+  await deleteDocuments(writer, writes, deletedPaths, options.actor, source);
+
+  if (target.domainId) {
+    await removeDependencies(
+      writer,
+      writes,
+      plan.dependents,
+      { domainId: target.domainId, controlId: target.controlId },
+      options.actor,
+      source
+    );
+  }
+
+  const criteriaRef = db.collection('assessmentCriteria').doc(target.frameworkId);
+  const criteriaSnapshot = plan.criteriaChange ? await criteriaRef.get() : null;
+  if (plan.criteriaChange === 'delete') {
+    trackWrite(writes, criteriaRef.path, writer.delete(criteriaRef));
+  } else if (plan.criteriaChange === 'update') {
+    trackWrite(writes, criteriaRef.path, writer.update(criteriaRef, removeTargetWeights(criteriaSnapshot?.data() || {}, target)));
+  }
+
+  if (options.actor && criteriaSnapshot?.exists) {
+    const before = criteriaSnapshot.data() || {};
+    addAuditLog(writer, options.actor, {
+      action: plan.criteriaChange === 'delete' ? 'delete' : 'update',
+      entityPath: criteriaRef.path,
+      before,
+      after: plan.criteriaChange === 'delete' ? null : {
+        ...before,
+        ...removeTargetWeights(before, target)
+      },
+      source
+    });
+  }
+
+  await writer.close();
+  const failedPaths = (await Promise.all(writes)).filter((path): path is string => path !== null);
+  const criteriaDeleted = plan.criteriaChange === 'delete' && !failedPaths.includes(criteriaRef.path);
+
+  return {
+    success: failedPaths.length === 0,
+    dryRun: false,
+    blocked: false,
+    deletedCount: deletedPaths.filter(path => !failedPaths.includes(path)).length + (criteriaDeleted ? 1 : 0),
+    failedPaths,
+    plan
+  };
+}
+
+/**
+ * Delete a specification and remove it from the dependsOn of the specifications that depend on it,
+ * in one BulkWriter. Returns null when the specification does not exist.
+ */
+export async function deleteSpecification(
+  frameworkId: string,
+  specification: SpecificationDependency,
+  actor: AuditActor
+): Promise<{ success: boolean; dependents: string[]; failedPaths: string[] } | null> {
+  const ref = getSpecificationDocumentRef(frameworkId, specification);
+  const before = await ref.get();
+  if (!before.exists) {
+    return null;
+  }
+
+  const dependents = await collectDependentSpecifications(frameworkId, specification);
+  const source = `specification-delete:${ref.path}`;
+  const writer = db.bulkWriter();
+  const writes: Promise<string | null>[] = [];
+
+  trackWrite(writes, ref.path, writer.delete(ref));
+  await removeDependencies(writer, writes, dependents, specification, actor, source);
+
+  await writer.close();
+  const failedPaths = (await Promise.all(writes)).filter((path): path is string => path !== null);
+  if (!failedPaths.includes(ref.path)) {
+    await writeAuditLog(actor, { action: 'delete', entityPath: ref.path, before: before.data(), source });
+  }
+
+  return { success: failedPaths.length === 0, dependents, failedPaths };
+}
+
+/**
+ * Delete projects with their ratings, evidence and any other subcollection, and their evidence files.
+ * A project whose files could not be removed is kept, so its evidence documents still point at them.
+ */
+export async function deleteProjects(projectIds: string[], actor: AuditActor, source: string): Promise<ProjectDeleteResult> {
+  const failedPaths: string[] = [];
+  const deletedPaths: string[] = [];
+
+  for (const projectId of projectIds) {
+    const prefix = `evidence/${projectId}/`;
+    try {
+      await admin.storage().bucket().deleteFiles({ prefix });
+    } catch (error) {
+      console.error(`Error deleting evidence files of project ${projectId}:`, error);
+      failedPaths.push(prefix);
+      continue;
+    }
+    await collectDocumentPaths(db.collection('projects').doc(projectId), deletedPaths);
+  }
+
+  const writer = db.bulkWriter();
+  const writes: Promise<string | null>[] = [];
+  await deleteDocuments(writer, writes, deletedPaths, actor, source);
+
+  await writer.close();
+  failedPaths.push(...(await Promise.all(writes)).filter((path): path is string => path !== null));
+
+  return {
+    success: failedPaths.length === 0,
+    deletedCount: deletedPaths.filter(path => !failedPaths.includes(path)).length,
+    failedPaths
+  };
+}
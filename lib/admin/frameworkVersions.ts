@@ -0,0 +1,289 @@
+import { db } from '@/lib/firebase-admin';
+import { BulkWriter, DocumentReference, FieldValue } from 'firebase-admin/firestore';
+import { CloneFrameworkResult, getFrameworkVersionId } from '@/types/framework-version';
+import { AuditActor, addAuditLog, writeAuditLog } from './auditLog';
+
+// Server-side only: these helpers use the Admin SDK and bypass security rules.
+
+const FRAMEWORKS_COLLECTION = 'frameworks';
+const CRITERIA_COLLECTION = 'assessmentCriteria';
+const VERSIONS_COLLECTION = 'versions';
+
+// Largest snapshot document written when publishing, below Firestore's 1 MiB document limit
+const MAX_SNAPSHOT_DOCUMENT_BYTES = 900 * 1024;
+
+/**
+ * Keep a BulkWriter write so its failure can be awaited after close() without
+ * being reported as an unhandled rejection in the meantime
+ */
+function trackWrite(writes: Promise<unknown>[], write: Promise<unknown>): void {
+  write.catch(() => undefined);
+  writes.push(write);
+}
+
+/**
+ * Copy every document below a reference to the same relative paths under another one,
+ * recording each copy in the audit log. Subcollections named in skip are left out at the top level only.
+ */
+async function copySubcollections(
+  source: DocumentReference,
+  target: DocumentReference,
+  writer: BulkWriter,
+  writes: Promise<unknown>[],
+  actor: AuditActor,
+  skip: string[] = []
+): Promise<number> {
+  let copied = 0;
+
+  const subcollections = await source.listCollections();
+  for (const subcollection of subcollections) {
+    if (skip.includes(subcollection.id)) continue;
+
+    const snapshot = await subcollection.get();
+    for (const document of snapshot.docs) {
+      const targetRef = target.collection(subcollection.id).doc(document.id);
+      trackWrite(writes, writer.create(targetRef, document.data()));
+      addAuditLog(writer, actor, {
+        action: 'create',
+        entityPath: targetRef.path,
+        after: document.data(),
+        source: `clone:${document.ref.path}`
+      });
+      copied++;
+      copied += await copySubcollections(document.ref, targetRef, writer, writes, actor);
+    }
+  }
+
+  return copied;
+}
+
+/**
+ * Deep-copy a framework with its domains, controls, specifications and assessment criteria
+ * to a new framework ID. Published versions stay with the source framework.
+ */
+export async function cloneFramework(
+  sourceId: string,
+  options: { name: string; newId?: string; actor: AuditActor }
+): Promise<CloneFrameworkResult> {
+  const sourceRef = db.collection(FRAMEWORKS_COLLECTION).doc(sourceId);
+  const sourceSnapshot = await sourceRef.get();
+  if (!sourceSnapshot.exists) {
+    throw new Error(`Framework ${sourceId} not found`);
+  }
+
+  const targetRef = options.newId
+    ? db.collection(FRAMEWORKS_COLLECTION).doc(options.newId)
+    : db.collection(FRAMEWORKS_COLLECTION).doc();
+
+  if ((await targetRef.get()).exists) {
+    throw new Error(`Framework ${targetRef.id} already exists`);
+  }
+
+  const writer = db.bulkWriter();
+  const writes: Promise<unknown>[] = [];
+
+  const frameworkData = {
+    ...sourceSnapshot.data(),
+    name: options.name,
+    clonedFrom: sourceId,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp()
+  };
+  trackWrite(writes, writer.create(targetRef, frameworkData));
+  addAuditLog(writer, options.actor, {
+    action: 'create',
+    entityPath: targetRef.path,
+    after: frameworkData,
+    source: `clone:${sourceRef.path}`
+  });
+
+  const copiedCount = await copySubcollections(sourceRef, targetRef, writer, writes, options.actor, [VERSIONS_COLLECTION]);
+
+  // Domain IDs are kept, so the domain weights carry over unchanged
+  const criteriaSnapshot = await db.collection(CRITERIA_COLLECTION).doc(sourceId).get();
+  if (criteriaSnapshot.exists) {
+    const criteriaRef = db.collection(CRITERIA_COLLECTION).doc(targetRef.id);
+    const criteriaData = {
+      ...criteriaSnapshot.data(),
+      frameworkId: targetRef.id,
+      createdAt: FieldValue.serverTimestamp()
+    };
+    trackWrite(writes, writer.set(criteriaRef, criteriaData));
+    addAuditLog(writer, options.actor, {
+      action: 'create',
+      entityPath: criteriaRef.path,
+      after: criteriaData,
+      source: `clone:${criteriaSnapshot.ref.path}`
+    });
+  }
+
+  // Surface the first failed write instead of reporting a partial copy as success
+  await writer.close();
+  await Promise.all(writes);
+
+  return {
+    frameworkId: targetRef.id,
+    copiedCount,
+    criteriaCopied: criteriaSnapshot.exists
+  };
+}
+
+/**
+ * Load the live hierarchy of a framework as plain data, one entry per domain
+ */
+async function readFrameworkDomains(frameworkRef: DocumentReference): Promise<Record<string, any>[]> {
+  const domainsSnapshot = await frameworkRef.collection('domains').get();
+
+  return Promise.all(domainsSnapshot.docs.map(async domainDoc => {
+    const controlsSnapshot = await domainDoc.ref.collection('controls').get();
+
+    const controls = await Promise.all(controlsSnapshot.docs.map(async controlDoc => {
+      const specificationsSnapshot = await controlDoc.ref.collection('specifications')
+        .orderBy('number', 'asc')
+        .get();
+
+      return {
+        ...controlDoc.data(),
+        controlId: controlDoc.id,
+        specifications: specificationsSnapshot.docs.map(specDoc => ({
+          ...specDoc.data(),
+          id: specDoc.id
+        }))
+      };
+    }));
+
+    return {
+      ...domainDoc.data(),
+      domainId: domainDoc.id,
+      controls
+    };
+  }));
+}
+
+/**
+ * Documents of a version snapshot: one per domain without its controls, and one per control
+ * with its specifications under domains/{domainId}/controls, so no document holds a whole domain
+ */
+function buildSnapshotDocuments(
+  versionRef: DocumentReference,
+  domains: Record<string, any>[]
+): { ref: DocumentReference; data: Record<string, any> }[] {
+  return domains.flatMap(({ controls, ...domain }) => {
+    const domainRef = versionRef.collection('domains').doc(domain.domainId);
+    return [
+      { ref: domainRef, data: domain },
+      ...controls.map((control: Record<string, any>) => ({
+        ref: domainRef.collection('controls').doc(control.controlId),
+        data: control
+      }))
+    ];
+  });
+}
+
+/**
+ * Approximate stored size of a document, to refuse a publish before anything is written
+ */
+function getDocumentSize(data: Record<string, any>): number {
+  return Buffer.byteLength(JSON.stringify(data), 'utf8');
+}
+
+/**
+ * Remove the snapshot documents a failed publish already wrote, so publishing can be retried
+ */
+async function removeSnapshotDocuments(refs: DocumentReference[]): Promise<void> {
+  const writer = db.bulkWriter();
+  refs.forEach(ref => {
+    writer.delete(ref).catch(error => {
+      console.error(`Error removing ${ref.path} after a failed publish:`, error);
+    });
+  });
+  await writer.close();
+}
+
+/**
+ * Publish the current state of a framework as the next immutable version.
+ * Fails instead of overwriting when another publish claimed the same version number,
+ * and removes what it wrote when any write fails.
+ */
+export async function publishFrameworkVersion(
+  frameworkId: string,
+  options: { actor: AuditActor; note?: string }
+): Promise<{ id: string; version: number }> {
+  const frameworkRef = db.collection(FRAMEWORKS_COLLECTION).doc(frameworkId);
+  const frameworkSnapshot = await frameworkRef.get();
+  if (!frameworkSnapshot.exists) {
+    throw new Error(`Framework ${frameworkId} not found`);
+  }
+
+  const latestSnapshot = await frameworkRef.collection(VERSIONS_COLLECTION)
+    .orderBy('version', 'desc')
+    .limit(1)
+    .get();
+  const version = latestSnapshot.empty ? 1 : (latestSnapshot.docs[0].data().version || 0) + 1;
+  const versionRef = frameworkRef.collection(VERSIONS_COLLECTION).doc(getFrameworkVersionId(version));
+
+  const domains = await readFrameworkDomains(frameworkRef);
+  const criteriaSnapshot = await db.collection(CRITERIA_COLLECTION).doc(frameworkId).get();
+  const framework = frameworkSnapshot.data() || {};
+
+  const controlCount = domains.reduce((sum, domain) => sum + domain.controls.length, 0);
+  const specificationCount = domains.reduce((sum, domain) =>
+    sum + domain.controls.reduce((controlSum: number, control: any) => controlSum + control.specifications.length, 0), 0);
+
+  const documents = buildSnapshotDocuments(versionRef, domains);
+  const oversized = documents.find(document => getDocumentSize(document.data) > MAX_SNAPSHOT_DOCUMENT_BYTES);
+  if (oversized) {
+    throw new Error(`${oversized.ref.path} is too large to be published`);
+  }
+
+  // The version document is written last so a listed version always has its full hierarchy.
+  // Only documents this publish created are removed on failure, never those of a concurrent publish.
+  const created: DocumentReference[] = [];
+  const writer = db.bulkWriter();
+  const writes: Promise<unknown>[] = [];
+  documents.forEach(document => {
+    trackWrite(writes, writer.create(document.ref, document.data).then(() => {
+      created.push(document.ref);
+    }));
+  });
+  await writer.close();
+
+  const failed = (await Promise.allSettled(writes)).find(result => result.status === 'rejected');
+  if (failed) {
+    await removeSnapshotDocuments(created);
+    throw (failed as PromiseRejectedResult).reason;
+  }
+
+  const versionData = {
+    frameworkId,
+    version,
+    label: getFrameworkVersionId(version),
+    ...(options.note ? { note: options.note } : {}),
+    framework: {
+      name: framework.name || '',
+      description: framework.description || {},
+      defaultLang: framework.defaultLang || 'en'
+    },
+    criteria: criteriaSnapshot.exists ? criteriaSnapshot.data() : null,
+    domainCount: domains.length,
+    controlCount,
+    specificationCount,
+    publishedBy: options.actor.userId,
+    publishedAt: FieldValue.serverTimestamp()
+  };
+  try {
+    await versionRef.create(versionData);
+  } catch (error) {
+    await removeSnapshotDocuments(created);
+    throw error;
+  }
+
+  // The per-domain documents are part of the version and not logged separately
+  await writeAuditLog(options.actor, {
+    action: 'create',
+    entityPath: versionRef.path,
+    after: { ...versionData, publishedAt: null }
+  });
+
+  return { id: versionRef.id, version };
+}
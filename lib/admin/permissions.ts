@@ -0,0 +1,48 @@
+import { db } from '@/lib/firebase-admin';
+import { LOCKED_ROLE, Permission, PERMISSIONS, getRolePermissions, isPermission } from '@/types/permissions';
+import { AuthorizedCaller } from '@/lib/middleware/authorize';
+import { ApiKeyUserChange, checkApiKeyUserChange } from './apiKeys';
+
+// Server-side only: reads the permission matrix with the Admin SDK.
+
+const ROLES_COLLECTION = 'roles';
+
+/**
+ * Get the permissions granted to a role, falling back to the defaults when the
+ * role has no roles/{role} document
+ */
+export async function getPermissionsForRole(role: string): Promise<Permission[]> {
+  if (role === LOCKED_ROLE) {
+    return [...PERMISSIONS];
+  }
+
+  const roleDoc = await db.collection(ROLES_COLLECTION).doc(role).get();
+  if (!roleDoc.exists) {
+    return getRolePermissions(role);
+  }
+
+  const saved: unknown[] = roleDoc.data()?.permissions || [];
+  return saved.filter(isPermission);
+}
+
+/**
+ * Check that a caller holding user:manage may make a change to a user. Only Admins assign the Admin role
+ * or change an Admin, since any role can be granted user:manage; API keys also stay in their organization.
+ * userId is the user being changed, or null when creating one. Returns an error message otherwise.
+ */
+export async function checkUserChange(
+  caller: AuthorizedCaller,
+  userId: string | null,
+  change: ApiKeyUserChange = {}
+): Promise<string | undefined> {
+  if (caller.role !== LOCKED_ROLE) {
+    if (change.role === LOCKED_ROLE) {
+      return `Only ${LOCKED_ROLE} users can assign the ${LOCKED_ROLE} role`;
+    }
+    if (userId && (await db.collection('users').doc(userId).get()).get('role') === LOCKED_ROLE) {
+      return `Only ${LOCKED_ROLE} users can change ${LOCKED_ROLE} users`;
+    }
+  }
+
+  return caller.apiKey ? checkApiKeyUserChange(caller.apiKey, userId, change) : undefined;
+}
@@ -0,0 +1,273 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  FieldPath,
+  FieldValue,
+  Query,
+  Timestamp
+} from 'firebase-admin/firestore';
+import { AuditActor, writeAuditLog } from './auditLog';
+
+// Server-side only: shared by the REST routes under /api/frameworks, /api/projects and /api/organizations.
+// Writes go through the Admin SDK, so each route checks permissions with authorize() first.
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Recorded as the audit log source of changes made through the REST API
+const API_AUDIT_SOURCE = 'api';
+
+// Document IDs given in a request body or URL
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+// How a resource is exposed: the fields a request may write and the list filters it supports
+export interface RestResource {
+  label: string; // Used in error messages, e.g. "Domain"
+  fields: string[]; // Writable fields; anything else in a request body is rejected
+  required: string[]; // Fields a create request must include
+  filters?: string[]; // Fields a list can be filtered on with ?<field>=<value>
+  idField?: string; // Field that repeats the document ID, e.g. domainId
+  timestamps?: boolean; // Maintain createdAt and updatedAt
+  validate?: (data: Record<string, any>, mode: 'create' | 'update') => string | undefined;
+  derive?: (document: Record<string, any>, changes: Record<string, any>) => Record<string, any>; // Fields kept in sync with the written ones
+}
+
+export interface ListOptions {
+  limit: number;
+  cursor: string | null; // ID of the last document of the previous page
+}
+
+export function errorResponse(error: string, status: number): NextResponse {
+  return NextResponse.json({ error }, { status });
+}
+
+export function isValidDocumentId(id: unknown): id is string {
+  return typeof id === 'string' && DOCUMENT_ID_PATTERN.test(id);
+}
+
+// Multilingual field such as { en: "...", ar: "..." }
+export function isLocalizedText(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(text => typeof text === 'string');
+}
+
+/**
+ * Convert Firestore values to JSON: timestamps become ISO strings
+ */
+function serializeValue(value: any): any {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, serializeValue(item)]));
+  }
+  return value;
+}
+
+export function serializeDocument(snapshot: DocumentSnapshot): Record<string, any> {
+  return { id: snapshot.id, ...serializeValue(snapshot.data() || {}) };
+}
+
+/**
+ * Read ?limit= and ?cursor= from a list request
+ */
+export function parseListOptions(req: NextRequest): ListOptions {
+  const url = new URL(req.url);
+  const limit = parseInt(url.searchParams.get('limit') || '', 10);
+
+  return {
+    limit: Number.isNaN(limit) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limit, 1), MAX_PAGE_SIZE),
+    cursor: url.searchParams.get('cursor')
+  };
+}
+
+// Equality filters of a list request, limited to the fields the resource allows
+export function getListFilters(req: NextRequest, resource: RestResource): [string, string][] {
+  const url = new URL(req.url);
+  return (resource.filters || [])
+    .filter(field => url.searchParams.has(field))
+    .map(field => [field, url.searchParams.get(field) as string]);
+}
+
+/**
+ * List one page of a collection ordered by document ID, with the resource's filters applied
+ */
+export async function listDocuments(
+  req: NextRequest,
+  collection: CollectionReference | Query,
+  resource: RestResource
+): Promise<NextResponse> {
+  const options = parseListOptions(req);
+  let query: Query = collection;
+  getListFilters(req, resource).forEach(([field, value]) => {
+    query = query.where(field, '==', value);
+  });
+
+  query = query.orderBy(FieldPath.documentId());
+  if (options.cursor) {
+    query = query.startAfter(options.cursor);
+  }
+
+  // One extra document tells whether there is a next page
+  const snapshot = await query.limit(options.limit + 1).get();
+  const docs = snapshot.docs.slice(0, options.limit);
+
+  return NextResponse.json({
+    items: docs.map(serializeDocument),
+    nextCursor: snapshot.docs.length > options.limit ? docs[docs.length - 1].id : null
+  }, { status: 200 });
+}
+
+/**
+ * Page documents that were already loaded and filtered, ordered by document ID
+ */
+export function paginateDocuments(docs: DocumentSnapshot[], options: ListOptions): NextResponse {
+  const sorted = [...docs].sort((a, b) => a.id.localeCompare(b.id));
+  const remaining = options.cursor ? sorted.filter(doc => doc.id > options.cursor!) : sorted;
+  const page = remaining.slice(0, options.limit);
+
+  return NextResponse.json({
+    items: page.map(serializeDocument),
+    nextCursor: remaining.length > options.limit ? page[page.length - 1].id : null
+  }, { status: 200 });
+}
+
+/**
+ * Read the JSON body of a write request and keep the resource's writable fields,
+ * along with the document ID a create request may choose.
+ * Returns an error message when the body cannot be stored.
+ */
+export async function readRequestData(
+  req: NextRequest,
+  resource: RestResource,
+  mode: 'create' | 'update'
+): Promise<{ id?: string; data: Record<string, any> } | { error: string }> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (_) {
+    return { error: 'Request body must be JSON' };
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const { id, ...fields } = body as Record<string, any>;
+  if (id !== undefined && (mode === 'update' || !isValidDocumentId(id))) {
+    return { error: mode === 'update' ? 'The ID cannot be changed' : 'ID may only contain letters, digits, ".", "-" and "_"' };
+  }
+
+  const unknownFields = Object.keys(fields).filter(field => !resource.fields.includes(field));
+  if (unknownFields.length > 0) {
+    return { error: `Unknown or read-only fields: ${unknownFields.join(', ')}` };
+  }
+
+  if (mode === 'create') {
+    const missing = resource.required.filter(field => fields[field] === undefined || fields[field] === '');
+    if (missing.length > 0) {
+      return { error: `Missing required fields: ${missing.join(', ')}` };
+    }
+  } else if (Object.keys(fields).length === 0) {
+    return { error: 'No fields to update' };
+  }
+
+  const error = resource.validate?.(fields, mode);
+  return error ? { error } : { id, data: fields };
+}
+
+/**
+ * Create a document with the given ID, refusing to overwrite an existing one
+ */
+export async function createDocument(
+  ref: DocumentReference,
+  data: Record<string, any>,
+  resource: RestResource,
+  actor: AuditActor
+): Promise<NextResponse> {
+  const document: DocumentData = {
+    ...data,
+    ...resource.derive?.(data, data),
+    ...(resource.idField ? { [resource.idField]: ref.id } : {}),
+    ...(resource.timestamps ? { createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() } : {})
+  };
+
+  try {
+    await ref.create(document);
+  } catch (error: any) {
+    // gRPC ALREADY_EXISTS
+    if (error.code === 6) {
+      return errorResponse(`${resource.label} ${ref.id} already exists`, 409);
+    }
+    throw error;
+  }
+
+  await writeAuditLog(actor, { action: 'create', entityPath: ref.path, after: document, source: API_AUDIT_SOURCE });
+  return NextResponse.json(serializeDocument(await ref.get()), { status: 201 });
+}
+
+/**
+ * Merge the given fields into an existing document
+ */
+export async function updateDocument(
+  ref: DocumentReference,
+  data: Record<string, any>,
+  resource: RestResource,
+  actor: AuditActor
+): Promise<NextResponse> {
+  const before = await ref.get();
+  if (!before.exists) {
+    return errorResponse(`${resource.label} not found`, 404);
+  }
+
+  const changes = {
+    ...data,
+    ...resource.derive?.({ ...before.data(), ...data }, data),
+    ...(resource.timestamps ? { updatedAt: FieldValue.serverTimestamp() } : {})
+  };
+  await ref.update(changes);
+  await writeAuditLog(actor, {
+    action: 'update',
+    entityPath: ref.path,
+    before: before.data(),
+    after: { ...before.data(), ...data },
+    source: API_AUDIT_SOURCE
+  });
+
+  return NextResponse.json(serializeDocument(await ref.get()), { status: 200 });
+}
+
+/**
+ * Delete a single document. Framework nodes with children go through the cascading delete instead.
+ */
+export async function deleteDocument(
+  ref: DocumentReference,
+  resource: RestResource,
+  actor: AuditActor
+): Promise<NextResponse> {
+  const before = await ref.get();
+  if (!before.exists) {
+    return errorResponse(`${resource.label} not found`, 404);
+  }
+
+  await ref.delete();
+  await writeAuditLog(actor, { action: 'delete', entityPath: ref.path, before: before.data(), source: API_AUDIT_SOURCE });
+  return NextResponse.json({ success: true, id: ref.id }, { status: 200 });
+}
+
+/**
+ * Return a single document as JSON
+ */
+export async function getDocument(ref: DocumentReference, resource: RestResource): Promise<NextResponse> {
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return errorResponse(`${resource.label} not found`, 404);
+  }
+  return NextResponse.json(serializeDocument(snapshot), { status: 200 });
+}
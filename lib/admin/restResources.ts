@@ -0,0 +1,352 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { DocumentReference, DocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { CascadeDeleteTarget } from '@/types/cascade-delete';
+import { ProjectAccessScope, getProjectAccessScope } from '@/types/permissions';
+import { PROJECT_STATUSES, INITIAL_PROJECT_STATUSES, ProjectStatus } from '@/types/project-lifecycle';
+import { getNextDueDate } from '@/types/project-milestone';
+import { getFrameworkVersionId } from '@/types/framework-version';
+import { appendSpecificationVersion, getSpecificationContent } from '@/types/specification-version';
+import {
+  SpecificationDependency,
+  describeDependencyProblem,
+  isSpecificationDependency,
+  normalizeDependencies,
+  validateSpecificationDependencies
+} from '@/types/specification-dependency';
+import { RestResource, errorResponse, isLocalizedText, isValidDocumentId } from './restApi';
+import { AuditActor } from './auditLog';
+import { executeCascadeDelete } from './cascadeDelete';
+import { loadDependencyGraph } from './specificationDependencies';
+import { AuthorizedCaller } from '@/lib/middleware/authorize';
+
+// Server-side only: resources exposed by the REST API and the checks specific to them.
+
+const CONTROL_DIMENSIONS = ['plan', 'implement', 'operate'];
+const CAPABILITY_LEVELS = ['foundational', 'advanced', 'veryAdvanced'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// First field of the given list that is present but not multilingual text
+function findInvalidLocalizedField(data: Record<string, any>, fields: string[]): string | undefined {
+  return fields.find(field => data[field] !== undefined && !isLocalizedText(data[field]));
+}
+
+function validateLocalizedFields(data: Record<string, any>, fields: string[]): string | undefined {
+  const invalid = findInvalidLocalizedField(data, fields);
+  return invalid ? `${invalid} must be an object of strings per language, e.g. { "en": "...", "ar": "..." }` : undefined;
+}
+
+// Problem with a project milestone, in the shape of ProjectMilestone
+function validateMilestone(milestone: any, index: number): string | undefined {
+  const prefix = `milestones[${index}]`;
+  if (typeof milestone !== 'object' || milestone === null || Array.isArray(milestone)) {
+    return `${prefix} must be an object`;
+  }
+  for (const field of ['id', 'name', 'ownerId']) {
+    if (typeof milestone[field] !== 'string' || milestone[field].trim() === '') {
+      return `${prefix}.${field} must be a non-empty string`;
+    }
+  }
+  if (typeof milestone.dueDate !== 'string' || !DATE_PATTERN.test(milestone.dueDate)) {
+    return `${prefix}.dueDate must be a yyyy-MM-dd date`;
+  }
+  if (milestone.completedAt !== undefined && milestone.completedAt !== null &&
+    (typeof milestone.completedAt !== 'string' || !DATE_PATTERN.test(milestone.completedAt))) {
+    return `${prefix}.completedAt must be a yyyy-MM-dd date or null`;
+  }
+  if (!Array.isArray(milestone.domainIds) || !milestone.domainIds.every((id: unknown) => typeof id === 'string')) {
+    return `${prefix}.domainIds must be an array of domain IDs`;
+  }
+  return undefined;
+}
+
+export const FRAMEWORK_RESOURCE: RestResource = {
+  label: 'Framework',
+  fields: ['name', 'description', 'defaultLang'],
+  required: ['name'],
+  timestamps: true,
+  validate: data => {
+    if (data.name !== undefined && (typeof data.name !== 'string' || !data.name.trim())) {
+      return 'name must be a non-empty string';
+    }
+    return validateLocalizedFields(data, ['description']);
+  }
+};
+
+export const DOMAIN_RESOURCE: RestResource = {
+  label: 'Domain',
+  fields: ['name', 'description', 'domainField', 'defaultLang'],
+  required: ['name'],
+  idField: 'domainId',
+  validate: data => validateLocalizedFields(data, ['name', 'description', 'domainField'])
+};
+
+export const CONTROL_RESOURCE: RestResource = {
+  label: 'Control',
+  fields: ['name', 'description', 'dimension'],
+  required: ['name', 'dimension'],
+  filters: ['dimension'],
+  idField: 'controlId',
+  validate: data => {
+    if (data.dimension !== undefined && !CONTROL_DIMENSIONS.includes(data.dimension)) {
+      return `dimension must be one of: ${CONTROL_DIMENSIONS.join(', ')}`;
+    }
+    return validateLocalizedFields(data, ['name', 'description']);
+  }
+};
+
+export const SPECIFICATION_RESOURCE: RestResource = {
+  label: 'Specification',
+  // versionHistory is only written by the server, see getSpecificationVersionHistory()
+  fields: ['name', 'description', 'capabilityLevel', 'dependency', 'dependsOn', 'subSpecifications'],
+  required: ['name', 'capabilityLevel'],
+  filters: ['capabilityLevel'],
+  idField: 'number', // Specifications use their number as document ID
+  timestamps: true,
+  validate: data => {
+    if (data.capabilityLevel !== undefined && !CAPABILITY_LEVELS.includes(data.capabilityLevel)) {
+      return `capabilityLevel must be one of: ${CAPABILITY_LEVELS.join(', ')}`;
+    }
+    if (data.subSpecifications !== undefined && !Array.isArray(data.subSpecifications)) {
+      return 'subSpecifications must be an array';
+    }
+    if (data.dependsOn !== undefined && (!Array.isArray(data.dependsOn) || !data.dependsOn.every(isSpecificationDependency))) {
+      return 'dependsOn must be an array of { "domainId", "controlId", "specificationId" } references';
+    }
+    return validateLocalizedFields(data, ['name', 'description', 'dependency']);
+  }
+};
+
+export const ORGANIZATION_RESOURCE: RestResource = {
+  label: 'Organization',
+  fields: ['name', 'description', 'defaultLang', 'logoUrl'],
+  required: ['name'],
+  timestamps: true,
+  validate: data => validateLocalizedFields(data, ['name', 'description'])
+};
+
+export const PROJECT_RESOURCE: RestResource = {
+  label: 'Project',
+  // Status changes go through the lifecycle; status is only accepted on create
+  fields: ['name', 'description', 'organizationId', 'frameworkId', 'frameworkVersion', 'startDate', 'projectDeadline', 'milestones', 'defaultLang', 'status'],
+  required: ['name', 'organizationId', 'frameworkId', 'startDate', 'projectDeadline'],
+  filters: ['status', 'organizationId', 'frameworkId'],
+  timestamps: true,
+  validate: (data, mode) => {
+    if (data.status !== undefined) {
+      if (mode === 'update') {
+        return 'status can only be changed through the project status lifecycle';
+      }
+      if (!PROJECT_STATUSES.includes(data.status) || !INITIAL_PROJECT_STATUSES.includes(data.status as ProjectStatus)) {
+        return `Projects can only be created with status: ${INITIAL_PROJECT_STATUSES.join(', ')}`;
+      }
+    }
+    for (const field of ['organizationId', 'frameworkId']) {
+      if (data[field] !== undefined && !isValidDocumentId(data[field])) {
+        return `${field} must be a document ID`;
+      }
+    }
+    for (const field of ['startDate', 'projectDeadline']) {
+      if (data[field] !== undefined && !DATE_PATTERN.test(data[field])) {
+        return `${field} must be a yyyy-MM-dd date`;
+      }
+    }
+    if (data.frameworkVersion !== undefined && data.frameworkVersion !== null && !Number.isInteger(data.frameworkVersion)) {
+      return 'frameworkVersion must be a version number or null';
+    }
+    if (data.milestones !== undefined) {
+      if (!Array.isArray(data.milestones)) {
+        return 'milestones must be an array';
+      }
+      const invalid = data.milestones.map(validateMilestone).find(Boolean);
+      if (invalid) return invalid;
+    }
+    return validateLocalizedFields(data, ['name', 'description']);
+  },
+  // Same as updateProject(): the dashboard queries rely on nextDueDate
+  derive: (document, changes) => 'projectDeadline' in changes || 'milestones' in changes
+    ? { nextDueDate: getNextDueDate({ projectDeadline: document.projectDeadline, milestones: document.milestones }) }
+    : {}
+};
+
+/**
+ * Check that the framework, pinned version and organization a project is about to be saved with exist.
+ * On update, current is the stored project: a new framework is checked against the version it keeps,
+ * and a new version against the framework it keeps. Returns an error message for the first missing one.
+ */
+export async function checkProjectReferences(
+  data: Record<string, any>,
+  current: Record<string, any> = {}
+): Promise<string | undefined> {
+  const frameworkId = data.frameworkId ?? current.frameworkId;
+  const frameworkVersion = data.frameworkVersion !== undefined ? data.frameworkVersion : current.frameworkVersion;
+  const frameworkChanged = data.frameworkId !== undefined || data.frameworkVersion !== undefined;
+
+  const [frameworkSnap, versionSnap, organizationSnap] = await Promise.all([
+    data.frameworkId !== undefined ? getFrameworkRef(frameworkId).get() : null,
+    frameworkChanged && frameworkVersion
+      ? getFrameworkRef(frameworkId).collection('versions').doc(getFrameworkVersionId(frameworkVersion)).get()
+      : null,
+    data.organizationId !== undefined ? db.collection('organizations').doc(data.organizationId).get() : null
+  ]);
+
+  if (frameworkSnap && !frameworkSnap.exists) {
+    return `Framework ${frameworkId} not found`;
+  }
+  if (versionSnap && !versionSnap.exists) {
+    return `Version ${getFrameworkVersionId(frameworkVersion)} of framework ${frameworkId} not found`;
+  }
+  if (organizationSnap && !organizationSnap.exists) {
+    return `Organization ${data.organizationId} not found`;
+  }
+  return undefined;
+}
+
+/**
+ * Version history of a specification after an update, appended like the app does when a specification
+ * is saved: a content change becomes the next version, made by the caller.
+ * Returns null when the content does not change.
+ */
+export function getSpecificationVersionHistory(
+  stored: Record<string, any>,
+  changes: Record<string, any>,
+  actor: AuditActor
+): ReturnType<typeof appendSpecificationVersion> | null {
+  const now = new Date().toISOString();
+  const history = stored.versionHistory || [];
+  const storedAt = stored.updatedAt instanceof Timestamp ? stored.updatedAt.toDate().toISOString() : stored.updatedAt;
+  const next = appendSpecificationVersion(
+    history,
+    { content: getSpecificationContent(stored), date: storedAt || now },
+    getSpecificationContent({ ...stored, ...changes }),
+    { changedBy: actor.userId },
+    now
+  );
+  return next === history ? null : next;
+}
+
+/**
+ * Check the dependencies a specification is about to be saved with against the rest of its framework.
+ * Returns an error message when one does not exist or would close a dependency cycle.
+ */
+export async function checkSpecificationDependencies(
+  frameworkId: string,
+  source: SpecificationDependency,
+  dependsOn: SpecificationDependency[]
+): Promise<string | undefined> {
+  if (dependsOn.length === 0) return undefined;
+
+  const graph = await loadDependencyGraph(frameworkId);
+  const problems = validateSpecificationDependencies(graph, source, normalizeDependencies(dependsOn));
+  return problems.length > 0 ? problems.map(describeDependencyProblem).join('; ') : undefined;
+}
+
+export function getFrameworkRef(frameworkId: string): DocumentReference {
+  return db.collection('frameworks').doc(frameworkId);
+}
+
+export function getDomainRef(frameworkId: string, domainId: string): DocumentReference {
+  return getFrameworkRef(frameworkId).collection('domains').doc(domainId);
+}
+
+export function getControlRef(frameworkId: string, domainId: string, controlId: string): DocumentReference {
+  return getDomainRef(frameworkId, domainId).collection('controls').doc(controlId);
+}
+
+/**
+ * Delete a framework, domain or control with everything below it, like /api/admin/cascade-delete.
+ * ?dryRun=true previews the delete and ?blockIfReferenced=true refuses it while projects use the item.
+ */
+export async function deleteFrameworkNode(
+  req: NextRequest,
+  ref: DocumentReference,
+  target: CascadeDeleteTarget,
+  resource: RestResource,
+  actor: AuditActor
+): Promise<NextResponse> {
+  if (!(await ref.get()).exists) {
+    return errorResponse(`${resource.label} not found`, 404);
+  }
+
+  const url = new URL(req.url);
+  const result = await executeCascadeDelete(target, {
+    dryRun: url.searchParams.get('dryRun') === 'true',
+    blockIfReferenced: url.searchParams.get('blockIfReferenced') === 'true',
+    actor
+  });
+
+  if (result.blocked) {
+    const error = result.plan.pinnedProjects.length > 0
+      ? 'Projects are pinned to a published version of this framework'
+      : 'Projects still reference this item';
+    return NextResponse.json({ ...result, error }, { status: 409 });
+  }
+  if (!result.success) {
+    return NextResponse.json({
+      ...result,
+      error: `${result.failedPaths.length} documents could not be deleted or updated`
+    }, { status: 500 });
+  }
+  return NextResponse.json(result, { status: 200 });
+}
+
+/**
+ * Projects the caller may read, resolved from their user document like the client does.
+ * An API key only ever reaches the projects of its organization, whatever its permissions.
+ */
+export async function getCallerProjectScope(caller: AuthorizedCaller): Promise<ProjectAccessScope> {
+  if (caller.apiKey) {
+    return {
+      allProjects: false,
+      projectIds: [],
+      organizationId: caller.permissions.some(permission => permission === 'project:view' || permission === 'project:edit')
+        ? caller.apiKey.organizationId
+        : null
+    };
+  }
+
+  const userDoc = await db.collection('users').doc(caller.userId).get();
+  const userData = userDoc.data() || {};
+
+  return getProjectAccessScope({
+    role: caller.role,
+    organizationId: userData.organizationId,
+    assignedProjectIds: userData.assignedProjectIds
+  }, caller.permissions);
+}
+
+/**
+ * Check that a project is created in or moved to an organization the caller may manage:
+ * API keys only manage projects of their own organization. Returns an error message otherwise.
+ */
+export function checkCallerProjectOrganization(caller: AuthorizedCaller, data: Record<string, any>): string | undefined {
+  if (caller.apiKey && data.organizationId !== undefined && data.organizationId !== caller.apiKey.organizationId) {
+    return 'API keys can only manage projects of their organization';
+  }
+  return undefined;
+}
+
+export function isProjectInScope(scope: ProjectAccessScope, project: DocumentSnapshot): boolean {
+  return scope.allProjects ||
+    scope.projectIds.includes(project.id) ||
+    (!!scope.organizationId && project.get('organizationId') === scope.organizationId);
+}
+
+/**
+ * Load the projects in a limited scope: the assigned ones plus those of the caller's organization
+ */
+export async function getScopedProjects(scope: ProjectAccessScope): Promise<DocumentSnapshot[]> {
+  const projects = db.collection('projects');
+  const [assigned, organization] = await Promise.all([
+    scope.projectIds.length > 0 ? db.getAll(...scope.projectIds.map(id => projects.doc(id))) : Promise.resolve([]),
+    scope.organizationId ? projects.where('organizationId', '==', scope.organizationId).get().then(snapshot => snapshot.docs) : Promise.resolve([])
+  ]);
+
+  const byId = new Map<string, DocumentSnapshot>();
+  [...assigned, ...organization].forEach(snapshot => {
+    if (snapshot.exists) {
+      byId.set(snapshot.id, snapshot);
+    }
+  });
+  return Array.from(byId.values());
+}
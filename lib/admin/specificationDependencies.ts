@@ -0,0 +1,38 @@
+import { db } from '@/lib/firebase-admin';
+import { DocumentReference } from 'firebase-admin/firestore';
+import {
+  DependencyGraph,
+  SpecificationDependency,
+  getDependencyKey,
+  normalizeDependencies
+} from '@/types/specification-dependency';
+
+// Server-side only: reads the specifications of a framework with the Admin SDK.
+
+export function getSpecificationDocumentRef(frameworkId: string, ref: SpecificationDependency): DocumentReference {
+  return db.collection('frameworks').doc(frameworkId)
+    .collection('domains').doc(ref.domainId)
+    .collection('controls').doc(ref.controlId)
+    .collection('specifications').doc(ref.specificationId);
+}
+
+/**
+ * Dependency graph of every specification in a framework, as stored
+ */
+export async function loadDependencyGraph(frameworkId: string): Promise<DependencyGraph> {
+  const graph: DependencyGraph = new Map();
+  const domains = await db.collection('frameworks').doc(frameworkId).collection('domains').get();
+
+  await Promise.all(domains.docs.map(async domain => {
+    const controls = await domain.ref.collection('controls').get();
+    await Promise.all(controls.docs.map(async control => {
+      const specifications = await control.ref.collection('specifications').get();
+      specifications.docs.forEach(specification => {
+        const ref = { domainId: domain.id, controlId: control.id, specificationId: specification.id };
+        graph.set(getDependencyKey(ref), { ref, dependsOn: normalizeDependencies(specification.get('dependsOn')) });
+      });
+    }));
+  }));
+
+  return graph;
+}
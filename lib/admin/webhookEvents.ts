@@ -0,0 +1,78 @@
+import { DocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { WebhookEvent } from './webhooks';
+
+// Server-side only: payloads are built from the stored documents, never from what a client reports.
+
+function toIsoString(value: unknown): string | null {
+  return value instanceof Timestamp ? value.toDate().toISOString() : null;
+}
+
+/**
+ * Latest status change of a project. Returns null when the project has no status history.
+ */
+export function buildProjectStatusChangedEvent(project: DocumentSnapshot): WebhookEvent | null {
+  const history: any[] = project.get('statusHistory') || [];
+  const change = history[history.length - 1];
+  if (!change) {
+    return null;
+  }
+
+  return {
+    type: 'project.status_changed',
+    key: `${project.id}:${history.length}`,
+    organizationId: project.get('organizationId') || null,
+    data: {
+      projectId: project.id,
+      name: project.get('name'),
+      frameworkId: project.get('frameworkId'),
+      from: change.from,
+      to: change.to,
+      reason: change.reason || null,
+      changedBy: change.changedBy,
+      changedAt: toIsoString(change.changedAt)
+    }
+  };
+}
+
+/**
+ * Update of a framework, one event per stored updatedAt. Frameworks are shared by every organization.
+ */
+export function buildFrameworkUpdatedEvent(framework: DocumentSnapshot, fields: string[] = []): WebhookEvent {
+  const updatedAt = framework.get('updatedAt');
+
+  return {
+    type: 'framework.updated',
+    key: `${framework.id}:${updatedAt instanceof Timestamp ? updatedAt.toMillis() : Date.now()}`,
+    organizationId: null,
+    data: {
+      frameworkId: framework.id,
+      name: framework.get('name'),
+      fields,
+      updatedAt: toIsoString(updatedAt)
+    }
+  };
+}
+
+/**
+ * Creation of a user of an organization. Returns null for users without one, e.g. consultants:
+ * endpoints belong to client organizations, which must not learn about staff accounts.
+ */
+export function buildUserCreatedEvent(userId: string, user: Record<string, any>): WebhookEvent | null {
+  if (!user.organizationId) {
+    return null;
+  }
+
+  return {
+    type: 'user.created',
+    key: userId,
+    organizationId: user.organizationId,
+    data: {
+      userId,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      status: user.status,
+      organizationId: user.organizationId
+    }
+  };
+}
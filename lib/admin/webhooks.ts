@@ -0,0 +1,429 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { after } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { DocumentReference, DocumentSnapshot, FieldValue, Query, Timestamp } from 'firebase-admin/firestore';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_PING_EVENT,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookPayload,
+  getWebhookRetryDelayMs,
+  isWebhookEventType
+} from '@/types/webhook';
+import { AuditActor, writeAuditLog } from './auditLog';
+import { isValidDocumentId, serializeDocument } from './restApi';
+
+// Server-side only: endpoints hold the signing secrets, so both collections are closed to clients by the security rules.
+
+const WEBHOOKS_COLLECTION = 'webhooks';
+const DELIVERIES_COLLECTION = 'webhookDeliveries';
+
+// Time an endpoint has to answer a delivery
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// A claimed delivery is not picked up again by another attempt for this long
+const ATTEMPT_LEASE_MS = 2 * 60 * 1000;
+
+// Due retries handled per call of processDueDeliveries()
+const RETRY_BATCH_SIZE = 20;
+
+// Characters of a failed response body kept in the delivery log
+const ERROR_BODY_LENGTH = 300;
+
+// Change that may be delivered to the endpoints subscribed to its type
+export interface WebhookEvent {
+  type: WebhookPayload['type'];
+  key: string; // Identifies this occurrence of the event, so notifying it twice delivers it once
+  organizationId: string | null; // null for events every subscribed endpoint receives
+  data: Record<string, any>;
+}
+
+function toWebhookEndpoint(snapshot: DocumentSnapshot): WebhookEndpoint {
+  const { secret: _secret, ...endpoint } = serializeDocument(snapshot);
+  return endpoint as WebhookEndpoint;
+}
+
+/**
+ * Check the endpoint fields of a create or update request.
+ * Returns an error message when the body cannot be stored.
+ */
+export function readWebhookEndpointInput(
+  body: Record<string, any>,
+  mode: 'create' | 'update'
+): { data: Partial<WebhookEndpointInput> } | { error: string } {
+  const { organizationId, url, description, events, active } = body || {};
+  const data: Partial<WebhookEndpointInput> = {};
+
+  if (organizationId !== undefined || mode === 'create') {
+    if (!isValidDocumentId(organizationId)) {
+      return { error: 'organizationId must be a document ID' };
+    }
+    data.organizationId = organizationId;
+  }
+
+  if (url !== undefined || mode === 'create') {
+    let protocol: string | null = null;
+    try {
+      protocol = new URL(url).protocol;
+    } catch (_) {
+      // Reported below
+    }
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      return { error: 'url must be an http or https URL' };
+    }
+    data.url = url;
+  }
+
+  if (events !== undefined || mode === 'create') {
+    if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEventType)) {
+      return { error: 'events must be a non-empty list of event types' };
+    }
+    data.events = Array.from(new Set(events));
+  }
+
+  if (description !== undefined) {
+    if (typeof description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    data.description = description.trim();
+  }
+
+  if (active !== undefined || mode === 'create') {
+    data.active = active === undefined ? true : active === true;
+  }
+
+  return Object.keys(data).length === 0 ? { error: 'No fields to update' } : { data };
+}
+
+/**
+ * Signature sent as X-Webhook-Signature: HMAC-SHA256 of "<timestamp>.<body>" with the endpoint secret
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// The functions below taking an organizationId only reach that organization's endpoints and
+// deliveries when it is set, as for API keys; anything outside it is reported as missing.
+
+function isInOrganization(snapshot: DocumentSnapshot, organizationId: string | null): boolean {
+  return snapshot.exists && (organizationId === null || snapshot.get('organizationId') === organizationId);
+}
+
+export async function listWebhookEndpoints(organizationId: string | null = null): Promise<WebhookEndpoint[]> {
+  let query: Query = db.collection(WEBHOOKS_COLLECTION);
+  if (organizationId) {
+    query = query.where('organizationId', '==', organizationId);
+  }
+
+  const snapshot = await query.orderBy('createdAt', 'desc').get();
+  return snapshot.docs.map(toWebhookEndpoint);
+}
+
+/**
+ * Create an endpoint. The returned secret is shown to the admin once to set up signature checks.
+ */
+export async function createWebhookEndpoint(
+  input: WebhookEndpointInput,
+  actor: AuditActor
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  const ref = db.collection(WEBHOOKS_COLLECTION).doc();
+  const secret = `whsec_${randomBytes(24).toString('base64url')}`;
+  const document = {
+    ...input,
+    secret,
+    createdBy: actor.userId,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp()
+  };
+
+  await ref.create(document);
+  const { secret: _secret, ...audited } = document;
+  await writeAuditLog(actor, { action: 'create', entityPath: ref.path, after: audited });
+
+  return { endpoint: toWebhookEndpoint(await ref.get()), secret };
+}
+
+/**
+ * Update an endpoint. Returns null when it does not exist.
+ */
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  changes: Partial<WebhookEndpointInput>,
+  actor: AuditActor,
+  organizationId: string | null = null
+): Promise<WebhookEndpoint | null> {
+  const ref = db.collection(WEBHOOKS_COLLECTION).doc(endpointId);
+  const before = await ref.get();
+  if (!isInOrganization(before, organizationId)) {
+    return null;
+  }
+
+  await ref.update({ ...changes, updatedAt: FieldValue.serverTimestamp() });
+  const { secret: _secret, ...audited } = before.data() || {};
+  await writeAuditLog(actor, { action: 'update', entityPath: ref.path, before: audited, after: { ...audited, ...changes } });
+
+  return toWebhookEndpoint(await ref.get());
+}
+
+/**
+ * Delete an endpoint. Its delivery log is kept. Returns false when it does not exist.
+ */
+export async function deleteWebhookEndpoint(
+  endpointId: string,
+  actor: AuditActor,
+  organizationId: string | null = null
+): Promise<boolean> {
+  const ref = db.collection(WEBHOOKS_COLLECTION).doc(endpointId);
+  const before = await ref.get();
+  if (!isInOrganization(before, organizationId)) {
+    return false;
+  }
+
+  await ref.delete();
+  const { secret: _secret, ...audited } = before.data() || {};
+  await writeAuditLog(actor, { action: 'delete', entityPath: ref.path, before: audited });
+  return true;
+}
+
+/**
+ * Get the most recent deliveries, optionally of one endpoint
+ */
+export async function listWebhookDeliveries(
+  endpointId: string | null,
+  limit: number,
+  organizationId: string | null = null
+): Promise<WebhookDelivery[]> {
+  let query: Query = db.collection(DELIVERIES_COLLECTION);
+  if (endpointId) {
+    // Deliveries keep the organization of their endpoint, so checking the endpoint is enough
+    if (organizationId && (await db.collection(WEBHOOKS_COLLECTION).doc(endpointId).get()).get('organizationId') !== organizationId) {
+      return [];
+    }
+    query = query.where('endpointId', '==', endpointId);
+  } else if (organizationId) {
+    query = query.where('organizationId', '==', organizationId);
+  }
+
+  const snapshot = await query.orderBy('createdAt', 'desc').limit(limit).get();
+  return snapshot.docs.map(doc => serializeDocument(doc) as WebhookDelivery);
+}
+
+/**
+ * Take a pending delivery that is due, so concurrent attempts do not send it twice.
+ * A manual redelivery takes it whatever its status.
+ */
+async function claimDelivery(ref: DocumentReference, manual: boolean): Promise<boolean> {
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    const nextAttemptAt = snapshot.get('nextAttemptAt') as Timestamp | null;
+    const due = snapshot.get('status') === 'pending' && !!nextAttemptAt && nextAttemptAt.toMillis() <= Date.now();
+    if (!snapshot.exists || (!manual && !due)) {
+      return false;
+    }
+
+    transaction.update(ref, { nextAttemptAt: Timestamp.fromMillis(Date.now() + ATTEMPT_LEASE_MS) });
+    return true;
+  });
+}
+
+/**
+ * Send a delivery to its endpoint once and record the outcome.
+ * Failed attempts are retried with backoff until WEBHOOK_MAX_ATTEMPTS is reached.
+ */
+async function attemptDelivery(ref: DocumentReference, manual: boolean = false): Promise<void> {
+  if (!(await claimDelivery(ref, manual))) {
+    return;
+  }
+
+  const delivery = (await ref.get()).data() || {};
+  const endpoint = await db.collection(WEBHOOKS_COLLECTION).doc(delivery.endpointId).get();
+  const attempts = (delivery.attempts || 0) + 1;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  let url: string = delivery.url;
+
+  if (!endpoint.exists) {
+    error = 'The endpoint was deleted';
+  } else {
+    url = endpoint.get('url');
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AGW-Webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Delivery': ref.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(endpoint.get('secret'), timestamp, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        error = `HTTP ${response.status}${text ? `: ${text.slice(0, ERROR_BODY_LENGTH)}` : ''}`;
+      }
+    } catch (requestError: any) {
+      error = requestError.name === 'TimeoutError'
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : requestError.message || 'Request failed';
+    }
+  }
+
+  const retry = !!error && endpoint.exists && attempts < WEBHOOK_MAX_ATTEMPTS;
+  await ref.update({
+    url,
+    attempts,
+    responseStatus,
+    lastError: error,
+    lastAttemptAt: FieldValue.serverTimestamp(),
+    status: error ? (retry ? 'pending' : 'failed') : 'succeeded',
+    nextAttemptAt: retry ? Timestamp.fromMillis(Date.now() + getWebhookRetryDelayMs(attempts)) : null,
+    ...(error ? {} : { deliveredAt: FieldValue.serverTimestamp() })
+  });
+}
+
+/**
+ * Retry the pending deliveries that are due. Called after every dispatched event and by
+ * POST /api/admin/webhooks/deliveries, which a scheduler can call to retry while nothing else happens.
+ */
+export async function processDueDeliveries(): Promise<number> {
+  const snapshot = await db.collection(DELIVERIES_COLLECTION)
+    .where('status', '==', 'pending')
+    .where('nextAttemptAt', '<=', Timestamp.now())
+    .orderBy('nextAttemptAt')
+    .limit(RETRY_BATCH_SIZE)
+    .get();
+
+  for (const doc of snapshot.docs) {
+    await attemptDelivery(doc.ref);
+  }
+  return snapshot.size;
+}
+
+/**
+ * Queue an event for an endpoint. Returns null when the event was already queued for it.
+ */
+async function createDelivery(
+  endpoint: DocumentSnapshot,
+  payload: WebhookPayload
+): Promise<DocumentReference | null> {
+  const ref = db.collection(DELIVERIES_COLLECTION).doc(`${endpoint.id}_${payload.id}`);
+  try {
+    await ref.create({
+      endpointId: endpoint.id,
+      organizationId: endpoint.get('organizationId'),
+      url: endpoint.get('url'),
+      eventId: payload.id,
+      eventType: payload.type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Timestamp.now(),
+      lastAttemptAt: null,
+      responseStatus: null,
+      lastError: null,
+      createdAt: FieldValue.serverTimestamp(),
+      deliveredAt: null
+    });
+    return ref;
+  } catch (error: any) {
+    // gRPC ALREADY_EXISTS
+    if (error.code === 6) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function buildPayload(event: WebhookEvent): WebhookPayload {
+  return {
+    id: createHash('sha256').update(`${event.type}:${event.key}`).digest('hex').slice(0, 32),
+    type: event.type,
+    createdAt: new Date().toISOString(),
+    organizationId: event.organizationId,
+    data: event.data
+  };
+}
+
+/**
+ * Deliver an event to the active endpoints subscribed to it: those of the event's organization,
+ * or all of them for events without one. The deliveries are recorded before this returns; the first
+ * attempts run with after(), so the host keeps the function alive for them once the response is sent.
+ * Failures are logged and not rethrown, since the change itself has already been written.
+ */
+export async function dispatchWebhookEvent(event: WebhookEvent): Promise<void> {
+  try {
+    const snapshot = await db.collection(WEBHOOKS_COLLECTION).where('events', 'array-contains', event.type).get();
+    const endpoints = snapshot.docs.filter(endpoint =>
+      endpoint.get('active') === true &&
+      (event.organizationId === null || endpoint.get('organizationId') === event.organizationId)
+    );
+
+    const payload = buildPayload(event);
+    const deliveries = await Promise.all(endpoints.map(endpoint => createDelivery(endpoint, payload)));
+
+    after(async () => {
+      await Promise.all(deliveries.map(ref => ref && attemptDelivery(ref).catch(error =>
+        console.error(`Error delivering webhook ${ref.id}:`, error)
+      )));
+      await processDueDeliveries().catch(error => console.error('Error retrying webhook deliveries:', error));
+    });
+  } catch (error) {
+    console.error(`Error dispatching webhook event ${event.type}:`, error);
+  }
+}
+
+/**
+ * Send a ping to one endpoint, whatever it subscribes to, and wait for the outcome
+ */
+export async function sendWebhookPing(
+  endpointId: string,
+  actor: AuditActor,
+  organizationId: string | null = null
+): Promise<WebhookDelivery | null> {
+  const endpoint = await db.collection(WEBHOOKS_COLLECTION).doc(endpointId).get();
+  if (!isInOrganization(endpoint, organizationId)) {
+    return null;
+  }
+
+  const ref = await createDelivery(endpoint, buildPayload({
+    type: WEBHOOK_PING_EVENT,
+    key: `${endpointId}:${Date.now()}`,
+    organizationId: endpoint.get('organizationId'),
+    data: { endpointId, sentBy: actor.userId }
+  }));
+  if (!ref) {
+    return null;
+  }
+
+  await attemptDelivery(ref);
+  return serializeDocument(await ref.get()) as WebhookDelivery;
+}
+
+/**
+ * Send a delivery again now, e.g. after fixing the endpoint. Returns null when it does not exist.
+ */
+export async function redeliverWebhook(
+  deliveryId: string,
+  organizationId: string | null = null
+): Promise<WebhookDelivery | null> {
+  const ref = db.collection(DELIVERIES_COLLECTION).doc(deliveryId);
+  if (!isInOrganization(await ref.get(), organizationId)) {
+    return null;
+  }
+
+  await attemptDelivery(ref, true);
+  return serializeDocument(await ref.get()) as WebhookDelivery;
+}
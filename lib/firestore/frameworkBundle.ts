@@ -0,0 +1,632 @@
+import * as XLSX from 'xlsx-js-style';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  writeBatch,
+  serverTimestamp,
+  Timestamp,
+  DocumentReference
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { buildAuditLog, getAuditActor } from '@/lib/services/auditLogService';
+import { FrameworkTreeDomain } from '@/types/assessment';
+import {
+  buildDependencyGraph,
+  describeDependencyProblem,
+  getDependencyKey,
+  normalizeDependencies,
+  parseDependencyKey,
+  validateSpecificationDependencies
+} from '@/types/specification-dependency';
+
+export const FRAMEWORK_BUNDLE_FORMAT = 'agw-framework-bundle';
+export const FRAMEWORK_BUNDLE_FORMAT_VERSION = 1;
+
+// Firestore allows 500 writes per batch; keep some headroom
+const BATCH_SIZE = 400;
+
+export interface BundleDocument {
+  id: string;
+  data: Record<string, any>;
+}
+
+export interface BundleControl extends BundleDocument {
+  specifications: BundleDocument[];
+}
+
+export interface BundleDomain extends BundleDocument {
+  controls: BundleControl[];
+}
+
+/**
+ * Complete framework tree (framework → domains → controls → specifications, plus criteria).
+ * Timestamps are encoded as { __type: 'timestamp', seconds, nanoseconds } so the JSON form is lossless.
+ */
+export interface FrameworkBundle {
+  format: typeof FRAMEWORK_BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  framework: BundleDocument;
+  criteria: Record<string, any> | null;
+  domains: BundleDomain[];
+}
+
+export interface BundleImportResult {
+  frameworkId: string;
+  domainCount: number;
+  controlCount: number;
+  specificationCount: number;
+  criteriaImported: boolean;
+}
+
+/**
+ * Encode Firestore values that JSON cannot represent
+ */
+function encodeValue(value: any): any {
+  if (value instanceof Timestamp) {
+    return { __type: 'timestamp', seconds: value.seconds, nanoseconds: value.nanoseconds };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * Reverse encodeValue when writing a bundle back to Firestore
+ */
+function decodeValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value && typeof value === 'object') {
+    if (value.__type === 'timestamp') {
+      return new Timestamp(value.seconds, value.nanoseconds);
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * Read a whole framework tree from Firestore into a bundle
+ */
+export async function exportFrameworkBundle(frameworkId: string): Promise<FrameworkBundle> {
+  const frameworkSnapshot = await getDoc(doc(db, 'frameworks', frameworkId));
+  if (!frameworkSnapshot.exists()) {
+    throw new Error(`Framework ${frameworkId} not found`);
+  }
+
+  const criteriaSnapshot = await getDoc(doc(db, 'assessmentCriteria', frameworkId));
+  const domainsSnapshot = await getDocs(collection(db, `frameworks/${frameworkId}/domains`));
+
+  const domains: BundleDomain[] = [];
+  for (const domainDoc of domainsSnapshot.docs) {
+    const controlsPath = `frameworks/${frameworkId}/domains/${domainDoc.id}/controls`;
+    const controlsSnapshot = await getDocs(collection(db, controlsPath));
+
+    const controls: BundleControl[] = [];
+    for (const controlDoc of controlsSnapshot.docs) {
+      const specificationsSnapshot = await getDocs(query(
+        collection(db, `${controlsPath}/${controlDoc.id}/specifications`),
+        orderBy('number', 'asc')
+      ));
+
+      controls.push({
+        id: controlDoc.id,
+        data: encodeValue(controlDoc.data()),
+        specifications: specificationsSnapshot.docs.map(specDoc => ({
+          id: specDoc.id,
+          data: encodeValue(specDoc.data())
+        }))
+      });
+    }
+
+    domains.push({ id: domainDoc.id, data: encodeValue(domainDoc.data()), controls });
+  }
+
+  return {
+    format: FRAMEWORK_BUNDLE_FORMAT,
+    formatVersion: FRAMEWORK_BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    framework: { id: frameworkSnapshot.id, data: encodeValue(frameworkSnapshot.data()) },
+    criteria: criteriaSnapshot.exists() ? encodeValue(criteriaSnapshot.data()) : null,
+    domains
+  };
+}
+
+/**
+ * Check that parsed JSON has the shape of a framework bundle
+ */
+export function validateFrameworkBundle(raw: any): FrameworkBundle {
+  if (!raw || raw.format !== FRAMEWORK_BUNDLE_FORMAT) {
+    throw new Error('Not a framework bundle');
+  }
+  if (raw.formatVersion > FRAMEWORK_BUNDLE_FORMAT_VERSION) {
+    throw new Error(`Unsupported bundle version ${raw.formatVersion}`);
+  }
+  if (!raw.framework?.id || !raw.framework?.data || !Array.isArray(raw.domains)) {
+    throw new Error('Bundle is missing the framework or its domains');
+  }
+
+  raw.domains.forEach((domain: any) => {
+    if (!domain.id || !Array.isArray(domain.controls)) {
+      throw new Error('Bundle contains a domain without ID or controls');
+    }
+    domain.controls.forEach((control: any) => {
+      if (!control.id || !Array.isArray(control.specifications)) {
+        throw new Error(`Domain ${domain.id} contains a control without ID or specifications`);
+      }
+      control.specifications.forEach((specification: any) => {
+        if (!specification.id) {
+          throw new Error(`Control ${control.id} contains a specification without ID`);
+        }
+      });
+    });
+  });
+
+  // Specification dependencies must stay within the bundle and must not form a cycle
+  const graph = buildDependencyGraph(raw.domains.map((domain: BundleDomain) => ({
+    domainId: domain.id,
+    controls: domain.controls.map(control => ({
+      controlId: control.id,
+      specifications: control.specifications.map(specification => ({ ...specification.data, id: specification.id }))
+    }))
+  })) as FrameworkTreeDomain[]);
+  graph.forEach((node, key) => {
+    const problems = validateSpecificationDependencies(graph, node.ref, normalizeDependencies(node.dependsOn));
+    if (problems.length > 0) {
+      throw new Error(`Specification ${key}: ${describeDependencyProblem(problems[0])}`);
+    }
+  });
+
+  return raw as FrameworkBundle;
+}
+
+// Spreadsheet helpers: timestamps become ISO strings, nested lists become JSON text
+function toCellValue(value: any): string | number {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object' && value.__type === 'timestamp') {
+    return new Timestamp(value.seconds, value.nanoseconds).toDate().toISOString();
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+function parseJsonCell(value: any, fallback: any): any {
+  if (value === undefined || value === null || value === '') return fallback;
+  try {
+    return JSON.parse(String(value));
+  } catch (error) {
+    return fallback;
+  }
+}
+
+function styleHeader(worksheet: XLSX.WorkSheet, columnCount: number) {
+  for (let column = 0; column < columnCount; column++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: 0, c: column })];
+    if (cell) {
+      cell.s = {
+        font: { bold: true, color: { rgb: 'FFFFFF' } },
+        fill: { fgColor: { rgb: '1E3A8A' } }
+      };
+    }
+  }
+  worksheet['!cols'] = Array.from({ length: columnCount }, () => ({ wch: 24 }));
+}
+
+function appendSheet(workbook: XLSX.WorkBook, name: string, headers: string[], rows: Record<string, any>[]) {
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: headers });
+  styleHeader(worksheet, headers.length);
+  XLSX.utils.book_append_sheet(workbook, worksheet, name);
+}
+
+/**
+ * Build a multi-sheet workbook from a bundle. Fields outside the known columns are
+ * not part of the workbook; use the JSON bundle for a lossless copy.
+ */
+export function buildFrameworkWorkbook(bundle: FrameworkBundle): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const framework = bundle.framework.data;
+  const criteria = bundle.criteria;
+
+  appendSheet(workbook, 'Framework', ['field', 'value'], [
+    { field: 'format', value: bundle.format },
+    { field: 'formatVersion', value: bundle.formatVersion },
+    { field: 'frameworkId', value: bundle.framework.id },
+    { field: 'name', value: toCellValue(framework.name) },
+    { field: 'description_en', value: framework.description?.en || '' },
+    { field: 'description_ar', value: framework.description?.ar || '' },
+    { field: 'defaultLang', value: framework.defaultLang || 'en' },
+    { field: 'criteriaType', value: criteria?.type || '' },
+    { field: 'mustHaveCap', value: criteria?.mustHaveCap ?? '' }
+  ]);
+
+  appendSheet(workbook, 'Domains',
+    ['domainId', 'name_en', 'name_ar', 'description_en', 'description_ar', 'domainField_en', 'domainField_ar', 'defaultLang'],
+    bundle.domains.map(domain => ({
+      domainId: domain.id,
+      name_en: domain.data.name?.en || '',
+      name_ar: domain.data.name?.ar || '',
+      description_en: domain.data.description?.en || '',
+      description_ar: domain.data.description?.ar || '',
+      domainField_en: domain.data.domainField?.en || '',
+      domainField_ar: domain.data.domainField?.ar || '',
+      defaultLang: domain.data.defaultLang || 'en'
+    }))
+  );
+
+  appendSheet(workbook, 'Controls',
+    ['domainId', 'controlId', 'name_en', 'name_ar', 'description_en', 'description_ar', 'dimension'],
+    bundle.domains.flatMap(domain => domain.controls.map(control => ({
+      domainId: domain.id,
+      controlId: control.id,
+      name_en: control.data.name?.en || '',
+      name_ar: control.data.name?.ar || '',
+      description_en: control.data.description?.en || '',
+      description_ar: control.data.description?.ar || '',
+      dimension: control.data.dimension || ''
+    })))
+  );
+
+  appendSheet(workbook, 'Specifications',
+    [
+      'domainId', 'controlId', 'specificationId', 'number', 'name_en', 'name_ar',
+      'description_en', 'description_ar', 'dependency_en', 'dependency_ar', 'dependsOn', 'capabilityLevel',
+      'subSpecifications', 'versionHistory', 'createdAt', 'updatedAt'
+    ],
+    bundle.domains.flatMap(domain => domain.controls.flatMap(control => control.specifications.map(specification => ({
+      domainId: domain.id,
+      controlId: control.id,
+      specificationId: specification.id,
+      number: specification.data.number || '',
+      name_en: specification.data.name?.en || '',
+      name_ar: specification.data.name?.ar || '',
+      description_en: specification.data.description?.en || '',
+      description_ar: specification.data.description?.ar || '',
+      dependency_en: specification.data.dependency?.en || '',
+      dependency_ar: specification.data.dependency?.ar || '',
+      dependsOn: normalizeDependencies(specification.data.dependsOn).map(getDependencyKey).join('; '),
+      capabilityLevel: toCellValue(specification.data.capabilityLevel),
+      subSpecifications: toCellValue(specification.data.subSpecifications || []),
+      versionHistory: toCellValue(specification.data.versionHistory || []),
+      createdAt: toCellValue(specification.data.createdAt),
+      updatedAt: toCellValue(specification.data.updatedAt)
+    }))))
+  );
+
+  appendSheet(workbook, 'Criteria Levels',
+    ['label_en', 'label_ar', 'value', 'description_en', 'description_ar'],
+    (criteria?.levels || []).map((level: any) => ({
+      label_en: level.label?.en || '',
+      label_ar: level.label?.ar || '',
+      value: level.value,
+      description_en: level.description?.en || '',
+      description_ar: level.description?.ar || ''
+    }))
+  );
+
+  appendSheet(workbook, 'Domain Weights', ['domainId', 'weight'],
+    (criteria?.domainWeights || []).map((weight: any) => ({
+      domainId: weight.domainId,
+      weight: weight.weight
+    }))
+  );
+
+  appendSheet(workbook, 'Control Weights', ['domainId', 'controlId', 'weight', 'mustHave'],
+    (criteria?.controlWeights || []).map((weight: any) => ({
+      domainId: weight.domainId,
+      controlId: weight.controlId,
+      weight: weight.weight ?? '',
+      mustHave: Boolean(weight.mustHave)
+    }))
+  );
+
+  appendSheet(workbook, 'Specification Weights', ['domainId', 'controlId', 'specificationId', 'weight', 'mustHave'],
+    (criteria?.specificationWeights || []).map((weight: any) => ({
+      domainId: weight.domainId,
+      controlId: weight.controlId,
+      specificationId: weight.specificationId,
+      weight: weight.weight ?? '',
+      mustHave: Boolean(weight.mustHave)
+    }))
+  );
+
+  appendSheet(workbook, 'Result Bands', ['label_en', 'label_ar', 'color', 'min', 'max'],
+    (criteria?.resultBands || []).map((band: any) => ({
+      label_en: band.label?.en || '',
+      label_ar: band.label?.ar || '',
+      color: band.color,
+      min: band.min,
+      max: band.max
+    }))
+  );
+
+  appendSheet(workbook, 'Domain Targets', ['domainId', 'levelIndex', 'value'],
+    (criteria?.domainTargets || []).map((target: any) => ({
+      domainId: target.domainId,
+      levelIndex: target.levelIndex ?? '',
+      value: target.value ?? ''
+    }))
+  );
+
+  return workbook;
+}
+
+/**
+ * Rebuild a bundle from a workbook created by buildFrameworkWorkbook
+ */
+export function parseFrameworkWorkbook(workbook: XLSX.WorkBook): FrameworkBundle {
+  const readSheet = (name: string): any[] => {
+    const worksheet = workbook.Sheets[name];
+    return worksheet ? XLSX.utils.sheet_to_json<any>(worksheet, { defval: '' }) : [];
+  };
+
+  const frameworkFields: Record<string, any> = {};
+  readSheet('Framework').forEach(row => {
+    frameworkFields[row.field] = row.value;
+  });
+
+  if (frameworkFields.format !== FRAMEWORK_BUNDLE_FORMAT || !frameworkFields.frameworkId) {
+    throw new Error('Workbook is not a framework export');
+  }
+
+  const domains: BundleDomain[] = readSheet('Domains').map(row => ({
+    id: String(row.domainId),
+    data: {
+      name: { en: row.name_en, ar: row.name_ar },
+      description: { en: row.description_en, ar: row.description_ar },
+      domainField: { en: row.domainField_en, ar: row.domainField_ar },
+      defaultLang: row.defaultLang || 'en'
+    },
+    controls: []
+  }));
+
+  const findDomain = (domainId: string) => {
+    const domain = domains.find(item => item.id === String(domainId));
+    if (!domain) {
+      throw new Error(`Unknown domain ${domainId} referenced in workbook`);
+    }
+    return domain;
+  };
+
+  readSheet('Controls').forEach(row => {
+    findDomain(row.domainId).controls.push({
+      id: String(row.controlId),
+      data: {
+        name: { en: row.name_en, ar: row.name_ar },
+        description: { en: row.description_en, ar: row.description_ar },
+        dimension: row.dimension
+      },
+      specifications: []
+    });
+  });
+
+  readSheet('Specifications').forEach(row => {
+    const control = findDomain(row.domainId).controls.find(item => item.id === String(row.controlId));
+    if (!control) {
+      throw new Error(`Unknown control ${row.controlId} referenced in workbook`);
+    }
+
+    control.specifications.push({
+      id: String(row.specificationId || row.number),
+      data: {
+        number: String(row.number),
+        name: { en: row.name_en, ar: row.name_ar },
+        description: { en: row.description_en, ar: row.description_ar },
+        dependency: { en: row.dependency_en, ar: row.dependency_ar },
+        dependsOn: String(row.dependsOn || '').split(';').map(key => parseDependencyKey(key.trim())).filter(Boolean),
+        capabilityLevel: row.capabilityLevel,
+        subSpecifications: parseJsonCell(row.subSpecifications, []),
+        versionHistory: parseJsonCell(row.versionHistory, []),
+        createdAt: row.createdAt || new Date().toISOString(),
+        updatedAt: row.updatedAt || new Date().toISOString()
+      }
+    });
+  });
+
+  const levels = readSheet('Criteria Levels').map(row => ({
+    label: { en: row.label_en, ar: row.label_ar },
+    value: Number(row.value),
+    description: { en: row.description_en, ar: row.description_ar }
+  }));
+
+  // Empty weight cells mean the siblings count equally; only set fields are kept, as Firestore rejects undefined
+  const readItemWeight = (row: any) => ({
+    domainId: String(row.domainId),
+    controlId: String(row.controlId),
+    ...(row.weight !== '' ? { weight: Number(row.weight) } : {}),
+    ...(row.mustHave === true || String(row.mustHave).toLowerCase() === 'true' ? { mustHave: true } : {})
+  });
+  const controlWeights = readSheet('Control Weights').map(readItemWeight);
+  const specificationWeights = readSheet('Specification Weights').map(row => ({
+    ...readItemWeight(row),
+    specificationId: String(row.specificationId)
+  }));
+
+  const resultBands = readSheet('Result Bands').map(row => ({
+    label: { en: row.label_en, ar: row.label_ar },
+    color: String(row.color),
+    min: Number(row.min),
+    max: Number(row.max)
+  }));
+  const domainTargets = readSheet('Domain Targets').map(row => ({
+    domainId: String(row.domainId),
+    ...(row.levelIndex !== '' ? { levelIndex: Number(row.levelIndex) } : {}),
+    ...(row.value !== '' ? { value: Number(row.value) } : {})
+  }));
+
+  const criteria = frameworkFields.criteriaType ? {
+    frameworkId: String(frameworkFields.frameworkId),
+    type: frameworkFields.criteriaType,
+    domainWeights: readSheet('Domain Weights').map(row => ({
+      domainId: String(row.domainId),
+      weight: Number(row.weight)
+    })),
+    ...(levels.length > 0 ? { levels } : {}),
+    ...(controlWeights.length > 0 ? { controlWeights } : {}),
+    ...(specificationWeights.length > 0 ? { specificationWeights } : {}),
+    ...(resultBands.length > 0 ? { resultBands } : {}),
+    ...(domainTargets.length > 0 ? { domainTargets } : {}),
+    ...(frameworkFields.mustHaveCap !== undefined && frameworkFields.mustHaveCap !== ''
+      ? { mustHaveCap: Number(frameworkFields.mustHaveCap) }
+      : {})
+  } : null;
+
+  return {
+    format: FRAMEWORK_BUNDLE_FORMAT,
+    formatVersion: Number(frameworkFields.formatVersion) || FRAMEWORK_BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    framework: {
+      id: String(frameworkFields.frameworkId),
+      data: {
+        name: String(frameworkFields.name || ''),
+        description: { en: frameworkFields.description_en || '', ar: frameworkFields.description_ar || '' },
+        defaultLang: frameworkFields.defaultLang || 'en'
+      }
+    },
+    criteria,
+    domains
+  };
+}
+
+/**
+ * Parse an exported .json bundle or .xlsx workbook
+ */
+export async function parseFrameworkBundleFile(file: File): Promise<FrameworkBundle> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    const isJson = file.name.toLowerCase().endsWith('.json');
+
+    reader.onload = (e) => {
+      try {
+        const data = e.target?.result;
+        const bundle = isJson
+          ? JSON.parse(String(data))
+          : parseFrameworkWorkbook(XLSX.read(data, { type: 'binary' }));
+        resolve(validateFrameworkBundle(bundle));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error('Failed to parse framework file'));
+      }
+    };
+
+    reader.onerror = () => {
+      reject(new Error('Failed to read file'));
+    };
+
+    if (isJson) {
+      reader.readAsText(file);
+    } else {
+      reader.readAsBinaryString(file);
+    }
+  });
+}
+
+/**
+ * Download a bundle as a multi-sheet workbook or as lossless JSON
+ */
+export function downloadFrameworkBundle(bundle: FrameworkBundle, format: 'xlsx' | 'json') {
+  const fileName = `${bundle.framework.id}_framework`;
+
+  if (format === 'xlsx') {
+    XLSX.writeFile(buildFrameworkWorkbook(bundle), `${fileName}.xlsx`);
+    return;
+  }
+
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `${fileName}.json`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
+/**
+ * Recreate the framework tree of a bundle under a new framework ID.
+ * Refuses to overwrite an existing framework.
+ */
+export async function importFrameworkBundle(
+  bundle: FrameworkBundle,
+  options: { frameworkId?: string } = {}
+): Promise<BundleImportResult> {
+  const frameworkId = options.frameworkId || bundle.framework.id;
+  const frameworkRef = doc(db, 'frameworks', frameworkId);
+
+  if ((await getDoc(frameworkRef)).exists()) {
+    throw new Error(`Framework ${frameworkId} already exists`);
+  }
+
+  const writes: { ref: DocumentReference; data: Record<string, any> }[] = [];
+
+  bundle.domains.forEach(domain => {
+    const domainPath = `frameworks/${frameworkId}/domains/${domain.id}`;
+    writes.push({ ref: doc(db, domainPath), data: decodeValue(domain.data) });
+
+    domain.controls.forEach(control => {
+      const controlPath = `${domainPath}/controls/${control.id}`;
+      writes.push({ ref: doc(db, controlPath), data: decodeValue(control.data) });
+
+      control.specifications.forEach(specification => {
+        writes.push({
+          ref: doc(db, `${controlPath}/specifications/${specification.id}`),
+          data: decodeValue(specification.data)
+        });
+      });
+    });
+  });
+
+  if (bundle.criteria) {
+    writes.push({
+      ref: doc(db, 'assessmentCriteria', frameworkId),
+      data: { ...decodeValue(bundle.criteria), frameworkId }
+    });
+  }
+
+  // The framework document goes last so a half-finished import never shows up as a complete framework
+  writes.push({
+    ref: frameworkRef,
+    data: { ...decodeValue(bundle.framework.data), updatedAt: serverTimestamp() }
+  });
+
+  // Each document is committed together with its audit log entry, so a batch holds half as many documents
+  const actor = await getAuditActor();
+  const documentsPerBatch = actor ? BATCH_SIZE / 2 : BATCH_SIZE;
+
+  for (let start = 0; start < writes.length; start += documentsPerBatch) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + documentsPerBatch).forEach(write => {
+      batch.set(write.ref, write.data);
+      if (actor) {
+        batch.set(doc(collection(db, 'auditLogs')), buildAuditLog(actor, {
+          action: 'create',
+          entityPath: write.ref.path,
+          after: write.data,
+          source: 'bundle-import'
+        }));
+      }
+    });
+    await batch.commit();
+  }
+
+  const controlCount = bundle.domains.reduce((sum, domain) => sum + domain.controls.length, 0);
+  const specificationCount = bundle.domains.reduce((sum, domain) =>
+    sum + domain.controls.reduce((controlSum, control) => controlSum + control.specifications.length, 0), 0);
+
+  return {
+    frameworkId,
+    domainCount: bundle.domains.length,
+    controlCount,
+    specificationCount,
+    criteriaImported: Boolean(bundle.criteria)
+  };
+}
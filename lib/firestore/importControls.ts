@@ -1,15 +1,24 @@
 import * as XLSX from 'xlsx-js-style';
-import { setDoc, doc, getDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { requestCascadeDelete } from '@/lib/services/frameworkService';
+import { ImportMode, ImportDiff, diffImportRows, getExistingDocuments } from './importDiff';
+import { ImportJobStatus, ImportRollbackReason, ImportRunOptions, runImportJob } from './importJobs';
 
 export interface ImportResult {
   success: boolean;
   totalRows: number;
   successCount: number;
   failedCount: number;
+  skippedCount: number; // Existing controls left untouched in create-only mode
+  removedCount: number; // Controls missing from the file, removed in replace mode
+  jobId: string;
+  status: ImportJobStatus;
+  rollbackReason?: ImportRollbackReason;
   errors: string[];
 }
 
+// Fields compared when diffing an import against existing controls
+const CONTROL_DIFF_FIELDS = ['name', 'description', 'dimension'];
+
 export interface ControlRow {
   controlId: string;
   nameEn: string;
@@ -63,71 +72,94 @@ export async function parseExcelFile(file: File): Promise<ControlRow[]> {
 }
 
 /**
- * Import controls from parsed data to Firestore
+ * Convert a parsed row to the control document stored in Firestore
  */
-export async function importControlsToFirestore(
-  frameworkId: string,
-  domainId: string, 
-  controls: ControlRow[]
-): Promise<ImportResult> {
-  const result: ImportResult = {
-    success: false,
-    totalRows: controls.length,
-    successCount: 0,
-    failedCount: 0,
-    errors: []
+function buildControlData(control: ControlRow) {
+  return {
+    name: {
+      en: control.nameEn,
+      ar: control.nameAr
+    },
+    description: {
+      en: control.descriptionEn,
+      ar: control.descriptionAr
+    },
+    dimension: control.dimension?.toLowerCase() as "plan" | "implement" | "operate"
   };
+}
 
-  for (const control of controls) {
-    try {
-      // Skip rows without ID or name
-      if (!control.controlId || (!control.nameEn && !control.nameAr)) {
-        result.errors.push(`Skipped row: Missing control ID or name`);
-        result.failedCount += 1;
-        continue;
-      }
+/**
+ * Compare parsed controls with the controls currently stored in the domain
+ */
+export async function getControlImportDiff(
+  frameworkId: string,
+  domainId: string,
+  controls: ControlRow[]
+): Promise<ImportDiff> {
+  const existing = await getExistingDocuments(`frameworks/${frameworkId}/domains/${domainId}/controls`);
+  return diffImportRows(
+    controls.map(control => ({ id: control.controlId, data: buildControlData(control) })),
+    existing,
+    CONTROL_DIFF_FIELDS
+  );
+}
 
-      // Validate dimension
-      const dimension = control.dimension?.toLowerCase();
-      if (dimension !== "plan" && dimension !== "implement" && dimension !== "operate") {
-        result.errors.push(`Invalid dimension for control ${control.controlId}: '${control.dimension}'. Must be one of: plan, implement, operate`);
-        result.failedCount += 1;
-        continue;
-      }
+/**
+ * Validate a parsed control row, returning the reason it cannot be imported
+ */
+function validateControlRow(control: ControlRow): string | undefined {
+  // Skip rows without ID or name
+  if (!control.controlId || (!control.nameEn && !control.nameAr)) {
+    return 'Skipped row: Missing control ID or name';
+  }
 
-      // Check if control with this ID already exists
-      const controlRef = doc(db, `frameworks/${frameworkId}/domains/${domainId}/controls`, control.controlId);
-      const controlSnapshot = await getDoc(controlRef);
-      
-      if (controlSnapshot.exists()) {
-        result.errors.push(`Control with ID "${control.controlId}" already exists`);
-        result.failedCount += 1;
-        continue;
-      }
+  const dimension = control.dimension?.toLowerCase();
+  if (dimension !== "plan" && dimension !== "implement" && dimension !== "operate") {
+    return `Invalid dimension for control ${control.controlId}: '${control.dimension}'. Must be one of: plan, implement, operate`;
+  }
 
-      // Create control with specific ID
-      await setDoc(controlRef, {
-        name: {
-          en: control.nameEn,
-          ar: control.nameAr
-        },
-        description: {
-          en: control.descriptionEn,
-          ar: control.descriptionAr
-        },
-        dimension: dimension as "plan" | "implement" | "operate"
-      });
+  return undefined;
+}
 
-      result.successCount += 1;
-    } catch (error) {
-      console.error(`Error importing control ${control.controlId}:`, error);
-      result.errors.push(`Failed to import control ${control.controlId}`);
-      result.failedCount += 1;
-    }
-  }
+/**
+ * Import controls from parsed data to Firestore as a batched import job
+ */
+export async function importControlsToFirestore(
+  frameworkId: string,
+  domainId: string, 
+  controls: ControlRow[],
+  mode: ImportMode = 'create-only',
+  options: ImportRunOptions = {}
+): Promise<ImportResult> {
+  const job = await runImportJob({
+    ...options,
+    type: 'controls',
+    collectionPath: `frameworks/${frameworkId}/domains/${domainId}/controls`,
+    mode,
+    // Upserts merge so fields the file does not carry are kept
+    merge: mode === 'upsert',
+    rows: controls.map((control, index) => ({
+      id: control.controlId,
+      row: index + 2,
+      error: validateControlRow(control),
+      build: () => buildControlData(control)
+    })),
+    // Replace removes controls missing from the file together with their specifications
+    removeDocument: controlId => requestCascadeDelete({ frameworkId, domainId, controlId })
+  });
 
-  result.success = result.failedCount === 0;
-  return result;
+  return {
+    success: job.status === 'completed' && job.failedCount === 0,
+    totalRows: job.totalRows,
+    successCount: job.successCount,
+    failedCount: job.failedCount,
+    skippedCount: job.skippedCount,
+    removedCount: job.removedCount,
+    jobId: job.jobId,
+    status: job.status,
+    rollbackReason: job.rollbackReason,
+    errors: job.errors.map(error => error.error)
+  };
 }
 
 /**
@@ -0,0 +1,102 @@
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+
+/**
+ * How an import treats rows whose ID already exists:
+ * - create-only: existing documents are left untouched and reported as skipped
+ * - upsert: existing documents are updated, keeping history and creation date
+ * - replace: the collection is made to match the file exactly; documents missing from the file are removed
+ */
+export type ImportMode = 'create-only' | 'upsert' | 'replace';
+
+export type ImportDiffStatus = 'new' | 'changed' | 'unchanged' | 'removed';
+
+export interface ImportDiffEntry {
+  id: string;
+  status: ImportDiffStatus;
+  label: { en: string; ar: string };
+  changedFields: string[];
+}
+
+export interface ImportDiff {
+  entries: ImportDiffEntry[];
+  counts: Record<ImportDiffStatus, number>;
+}
+
+// Compare values as they would be stored, ignoring key order and empty strings vs. missing fields
+function normalize(value: any): any {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value === 'object') {
+    return Object.keys(value).sort().reduce((result, key) => {
+      const item = normalize(value[key]);
+      if (item !== null) result[key] = item;
+      return result;
+    }, {} as Record<string, any>);
+  }
+  return value;
+}
+
+function isSameValue(a: any, b: any): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * Load the documents of a collection keyed by ID
+ */
+export async function getExistingDocuments(path: string): Promise<Map<string, Record<string, any>>> {
+  const snapshot = await getDocs(collection(db, path));
+  return new Map(snapshot.docs.map(docSnap => [docSnap.id, docSnap.data()]));
+}
+
+/**
+ * Diff imported rows against existing documents on the given fields.
+ * Rows are passed already converted to their Firestore shape.
+ */
+export function diffImportRows(
+  rows: { id: string; data: Record<string, any> }[],
+  existing: Map<string, Record<string, any>>,
+  fields: string[]
+): ImportDiff {
+  const entries: ImportDiffEntry[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach(row => {
+    if (!row.id || seen.has(row.id)) return;
+    seen.add(row.id);
+
+    const current = existing.get(row.id);
+    const label = { en: row.data.name?.en || '', ar: row.data.name?.ar || '' };
+
+    if (!current) {
+      entries.push({ id: row.id, status: 'new', label, changedFields: [] });
+      return;
+    }
+
+    const changedFields = fields.filter(field => !isSameValue(row.data[field], current[field]));
+    entries.push({
+      id: row.id,
+      status: changedFields.length > 0 ? 'changed' : 'unchanged',
+      label,
+      changedFields
+    });
+  });
+
+  existing.forEach((data, id) => {
+    if (!seen.has(id)) {
+      entries.push({
+        id,
+        status: 'removed',
+        label: { en: data.name?.en || '', ar: data.name?.ar || '' },
+        changedFields: []
+      });
+    }
+  });
+
+  const counts: Record<ImportDiffStatus, number> = { new: 0, changed: 0, unchanged: 0, removed: 0 };
+  entries.forEach(entry => {
+    counts[entry.status] += 1;
+  });
+
+  return { entries, counts };
+}
@@ -1,15 +1,24 @@
 import * as XLSX from 'xlsx-js-style';
-import { setDoc, doc, getDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { requestCascadeDelete } from '@/lib/services/frameworkService';
+import { ImportMode, ImportDiff, diffImportRows, getExistingDocuments } from './importDiff';
+import { ImportJobStatus, ImportRollbackReason, ImportRunOptions, runImportJob } from './importJobs';
 
 export interface ImportResult {
   success: boolean;
   totalRows: number;
   successCount: number;
   failedCount: number;
+  skippedCount: number; // Existing domains left untouched in create-only mode
+  removedCount: number; // Domains missing from the file, removed in replace mode
+  jobId: string;
+  status: ImportJobStatus;
+  rollbackReason?: ImportRollbackReason;
   errors: string[];
 }
 
+// Fields compared when diffing an import against existing domains
+const DOMAIN_DIFF_FIELDS = ['name', 'description', 'domainField', 'defaultLang'];
+
 export interface DomainRow {
   domainId: string;
   nameEn: string;
@@ -67,66 +76,79 @@ export async function parseExcelFile(file: File): Promise<DomainRow[]> {
 }
 
 /**
- * Import domains from parsed data to Firestore
+ * Convert a parsed row to the domain document stored in Firestore
+ */
+function buildDomainData(domain: DomainRow) {
+  return {
+    name: {
+      en: domain.nameEn,
+      ar: domain.nameAr
+    },
+    description: {
+      en: domain.descriptionEn,
+      ar: domain.descriptionAr
+    },
+    domainField: {
+      en: domain.domainFieldEn || "",
+      ar: domain.domainFieldAr || ""
+    },
+    defaultLang: domain.defaultLang || 'en'
+  };
+}
+
+/**
+ * Compare parsed domains with the domains currently stored for the framework
+ */
+export async function getDomainImportDiff(frameworkId: string, domains: DomainRow[]): Promise<ImportDiff> {
+  const existing = await getExistingDocuments(`frameworks/${frameworkId}/domains`);
+  return diffImportRows(
+    domains.map(domain => ({ id: domain.domainId, data: buildDomainData(domain) })),
+    existing,
+    DOMAIN_DIFF_FIELDS
+  );
+}
+
+/**
+ * Import domains from parsed data to Firestore as a batched import job
  */
 export async function importDomainsToFirestore(
   frameworkId: string, 
-  domains: DomainRow[]
+  domains: DomainRow[],
+  mode: ImportMode = 'create-only',
+  options: ImportRunOptions = {}
 ): Promise<ImportResult> {
-  const result: ImportResult = {
-    success: false,
-    totalRows: domains.length,
-    successCount: 0,
-    failedCount: 0,
-    errors: []
-  };
-
-  for (const domain of domains) {
-    try {
+  const job = await runImportJob({
+    ...options,
+    type: 'domains',
+    collectionPath: `frameworks/${frameworkId}/domains`,
+    mode,
+    // Upserts merge so fields the file does not carry are kept
+    merge: mode === 'upsert',
+    rows: domains.map((domain, index) => ({
+      id: domain.domainId,
+      row: index + 2,
       // Skip rows without ID or name
-      if (!domain.domainId || (!domain.nameEn && !domain.nameAr)) {
-        result.errors.push(`Skipped row: Missing domain ID or name`);
-        result.failedCount += 1;
-        continue;
-      }
-
-      // Check if domain with this ID already exists
-      const domainRef = doc(db, `frameworks/${frameworkId}/domains`, domain.domainId);
-      const domainSnapshot = await getDoc(domainRef);
-      
-      if (domainSnapshot.exists()) {
-        result.errors.push(`Domain with ID "${domain.domainId}" already exists`);
-        result.failedCount += 1;
-        continue;
-      }
-
-      // Create domain with specific ID
-      await setDoc(domainRef, {
-        name: {
-          en: domain.nameEn,
-          ar: domain.nameAr
-        },
-        description: {
-          en: domain.descriptionEn,
-          ar: domain.descriptionAr
-        },
-        domainField: {
-          en: domain.domainFieldEn || "",
-          ar: domain.domainFieldAr || ""
-        },
-        defaultLang: domain.defaultLang || 'en'
-      });
-
-      result.successCount += 1;
-    } catch (error) {
-      console.error(`Error importing domain ${domain.domainId}:`, error);
-      result.errors.push(`Failed to import domain ${domain.domainId}`);
-      result.failedCount += 1;
-    }
-  }
+      error: !domain.domainId || (!domain.nameEn && !domain.nameAr)
+        ? 'Skipped row: Missing domain ID or name'
+        : undefined,
+      build: () => buildDomainData(domain)
+    })),
+    // Replace removes domains missing from the file together with everything below them
+    removeDocument: domainId => requestCascadeDelete({ frameworkId, domainId })
+  });
 
-  result.success = result.failedCount === 0;
-  return result;
+  return {
+    success: job.status === 'completed' && job.failedCount === 0,
+    totalRows: job.totalRows,
+    successCount: job.successCount,
+    failedCount: job.failedCount,
+    skippedCount: job.skippedCount,
+    removedCount: job.removedCount,
+    jobId: job.jobId,
+    status: job.status,
+    rollbackReason: job.rollbackReason,
+    errors: job.errors.map(error => error.error)
+  };
 }
 
 /**
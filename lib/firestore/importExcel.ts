@@ -1,16 +1,36 @@
 import * as XLSX from 'xlsx-js-style';
-import { collection, addDoc, doc, setDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { CapabilityLevel, convertLegacyCapabilityLevel } from '@/hooks/useSpecifications';
+import { CapabilityLevel, VersionHistory, convertLegacyCapabilityLevel } from '@/hooks/useSpecifications';
+import { getFrameworkTree } from '@/lib/services/frameworkService';
+import {
+  SpecificationDependency,
+  buildDependencyGraph,
+  describeDependencyProblem,
+  getDependencyKey,
+  resolveDependencyReference,
+  validateSpecificationDependencies
+} from '@/types/specification-dependency';
+import { ImportMode, ImportDiff, diffImportRows, getExistingDocuments } from './importDiff';
+import { ImportJobStatus, ImportRollbackReason, ImportRunOptions, runImportJob } from './importJobs';
 
 export interface ImportResult {
   success: boolean;
   totalRows: number;
   successCount: number;
   failedCount: number;
+  skippedCount: number; // Existing specifications left untouched in create-only mode
+  removedCount: number; // Specifications missing from the file, removed in replace mode
+  jobId: string;
+  status: ImportJobStatus;
+  rollbackReason?: ImportRollbackReason;
   errors: { row: number; error: string }[];
 }
 
+// Fields compared when diffing an import against existing specifications
+const SPECIFICATION_DIFF_FIELDS = ['name', 'description', 'dependency', 'dependsOn', 'capabilityLevel', 'subSpecifications'];
+
+// Separates the references of the dependsOn column
+const DEPENDENCY_LIST_SEPARATOR = /[,;\n]/;
+
 export interface SpecificationRow {
   specificationId?: string;
   number: string;
@@ -18,8 +38,9 @@ export interface SpecificationRow {
   name_ar: string;
   description_en?: string;
   description_ar?: string;
-  dependency_en?: string;
+  dependency_en?: string; // Legacy free-text dependency notes
   dependency_ar?: string;
+  dependsOn?: string; // Specification numbers or domainId/controlId/specificationId paths; undefined without the column
   capabilityLevel: CapabilityLevel | string | number;
   subSpecs?: { 
     name_en: string, 
@@ -45,8 +66,7 @@ export function generateSpecificationsTemplate(): Blob {
     'name_ar',
     'description_en',
     'description_ar',
-    'dependency_en',
-    'dependency_ar',
+    'dependsOn',
     'capabilityLevel',
     'version',
     'versionDate',
@@ -70,8 +90,7 @@ export function generateSpecificationsTemplate(): Blob {
     name_ar: 'اسم المواصفات النموذجية',
     description_en: 'This is a sample specification description',
     description_ar: 'هذا وصف المواصفات النموذجية',
-    dependency_en: 'Sample dependency',
-    dependency_ar: 'التبعية النموذجية',
+    dependsOn: 'AC-1.0; domain1/control2/AC-2.1',
     capabilityLevel: 'foundational',  // Updated to use string-based capability level
     version: 'v1.0',
     versionDate: new Date().toISOString().split('T')[0],
@@ -135,6 +154,7 @@ export async function parseExcelFile(file: File): Promise<{ data: SpecificationR
               description_ar: row.description_ar || '',
               dependency_en: row.dependency_en || '',
               dependency_ar: row.dependency_ar || '',
+              dependsOn: row.dependsOn !== undefined ? String(row.dependsOn) : undefined,
               capabilityLevel: parseCapabilityLevel(row.capabilityLevel),
               version: row.version || '',
               versionDate: row.versionDate || '',
@@ -252,107 +272,238 @@ function parseCapabilityLevel(value: any): CapabilityLevel {
 }
 
 /**
- * Import specifications from parsed data to Firestore
+ * Resolve the dependsOn column of every row against the framework as it will be after the import:
+ * references may point to rows of the same file, and must exist and not close a dependency cycle.
+ * Rows without the column keep their stored dependencies.
  */
-export async function importSpecificationsToFirestore(
+async function resolveImportDependencies(
   controlId: string,
   frameworkId: string,
   domainId: string,
-  specifications: SpecificationRow[]
-): Promise<ImportResult> {
-  const result: ImportResult = {
-    success: false,
-    totalRows: specifications.length,
-    successCount: 0,
-    failedCount: 0,
-    errors: []
-  };
+  specifications: SpecificationRow[],
+  mode: ImportMode
+): Promise<Map<string, { dependsOn?: SpecificationDependency[]; error?: string }>> {
+  const resolved = new Map<string, { dependsOn?: SpecificationDependency[]; error?: string }>();
+  if (!specifications.some(spec => spec.dependsOn !== undefined)) {
+    return resolved;
+  }
 
-  const now = new Date().toISOString();
+  const graph = buildDependencyGraph(await getFrameworkTree(frameworkId));
+  const from = { domainId, controlId };
+  const getKey = (spec: SpecificationRow) => getDependencyKey({ ...from, specificationId: spec.number });
 
-  for (let i = 0; i < specifications.length; i++) {
-    const spec = specifications[i];
-    try {
-      // Skip rows without number or name
-      if (!spec.number || (!spec.name_en && !spec.name_ar)) {
-        result.errors.push({ 
-          row: i + 2, 
-          error: `Skipped row: Missing specification number or name`
-        });
-        result.failedCount += 1;
-        continue;
+  // The control's specifications after the import: replace removes those missing from the file,
+  // create-only leaves existing ones as they are
+  const fileKeys = new Set(specifications.filter(spec => spec.number).map(getKey));
+  if (mode === 'replace') {
+    [...graph.keys()].forEach(key => {
+      const node = graph.get(key);
+      if (node && node.ref.domainId === domainId && node.ref.controlId === controlId && !fileKeys.has(key)) {
+        graph.delete(key);
       }
+    });
+  }
 
-      // Process sub-specifications
-      const subSpecifications = spec.subSpecs?.map(subSpec => ({
-        name: {
-          en: subSpec.name_en || '',
-          ar: subSpec.name_ar || ''
-        },
-        description: {
-          en: subSpec.description_en || '',
-          ar: subSpec.description_ar || ''
-        }
-      })) || [];
-
-      // Process version history
-      const versionHistory = [];
-      if (spec.version) {
-        versionHistory.push({
-          version: spec.version,
-          date: spec.versionDate || now.split('T')[0],
-          note: {
-            en: spec.versionNote_en || '',
-            ar: spec.versionNote_ar || ''
-          }
-        });
+  const imported = specifications.filter(spec =>
+    spec.number && (mode !== 'create-only' || !graph.has(getKey(spec))));
+  imported.forEach(spec => {
+    const key = getKey(spec);
+    graph.set(key, {
+      ref: { ...from, specificationId: spec.number },
+      name: { en: spec.name_en || '', ar: spec.name_ar || '' },
+      capabilityLevel: parseCapabilityLevel(spec.capabilityLevel),
+      dependsOn: graph.get(key)?.dependsOn || []
+    });
+  });
+
+  // First resolve every reference, then check for cycles once all rows are in the graph
+  imported.forEach(spec => {
+    if (spec.dependsOn === undefined) return;
+
+    const dependsOn: SpecificationDependency[] = [];
+    const errors: string[] = [];
+    spec.dependsOn.split(DEPENDENCY_LIST_SEPARATOR).map(reference => reference.trim()).filter(Boolean).forEach(reference => {
+      const result = resolveDependencyReference(reference, graph, from);
+      if ('error' in result) {
+        errors.push(result.error);
+      } else {
+        dependsOn.push(result.dependency);
       }
+    });
 
-      // Format the specification for Firestore
-      const specificationData = {
-        controlId,
-        number: spec.number,
-        name: {
-          en: spec.name_en || '',
-          ar: spec.name_ar || ''
-        },
-        description: {
-          en: spec.description_en || '',
-          ar: spec.description_ar || ''
-        },
-        dependency: {
-          en: spec.dependency_en || '',
-          ar: spec.dependency_ar || ''
-        },
-        capabilityLevel: parseCapabilityLevel(spec.capabilityLevel),
-        subSpecifications: subSpecifications,
-        versionHistory: versionHistory,
-        createdAt: now,
-        updatedAt: now
-      };
-
-      // Add to Firestore using the nested path
-      const specificationsPath = `frameworks/${frameworkId}/domains/${domainId}/controls/${controlId}/specifications`;
-      
-      // Use the specification number as the document ID
-      const specificationId = spec.number;
-      const specificationRef = doc(db, specificationsPath, specificationId);
-      
-      // Remove the controlId since it's implied by the path
-      const { controlId: _, ...dataWithoutControlId } = specificationData;
-      
-      await setDoc(specificationRef, dataWithoutControlId);
-      result.successCount += 1;
-    } catch (error) {
-      console.error(`Error importing specification ${spec.number}:`, error);
-      result.errors.push({ 
-        row: i + 2, 
-        error: `Failed to import: ${error instanceof Error ? error.message : 'Unknown error'}`
-      });
-      result.failedCount += 1;
+    resolved.set(spec.number, { dependsOn, error: errors.length > 0 ? errors.join('; ') : undefined });
+    (graph.get(getKey(spec)) as { dependsOn: SpecificationDependency[] }).dependsOn = dependsOn;
+  });
+
+  resolved.forEach((result, number) => {
+    if (result.error || !result.dependsOn) return;
+
+    const problems = validateSpecificationDependencies(graph, { ...from, specificationId: number }, result.dependsOn);
+    if (problems.length > 0) {
+      result.error = problems.map(describeDependencyProblem).join('; ');
+    }
+  });
+
+  return resolved;
+}
+
+/**
+ * Convert a parsed row to the specification fields stored in Firestore
+ */
+function buildSpecificationData(spec: SpecificationRow, today: string, dependsOn?: SpecificationDependency[]) {
+  // Process sub-specifications
+  const subSpecifications = spec.subSpecs?.map(subSpec => ({
+    name: {
+      en: subSpec.name_en || '',
+      ar: subSpec.name_ar || ''
+    },
+    description: {
+      en: subSpec.description_en || '',
+      ar: subSpec.description_ar || ''
     }
+  })) || [];
+
+  // Process version history
+  const versionHistory: VersionHistory[] = [];
+  if (spec.version) {
+    versionHistory.push({
+      version: spec.version,
+      date: spec.versionDate || today,
+      note: {
+        en: spec.versionNote_en || '',
+        ar: spec.versionNote_ar || ''
+      }
+    });
   }
 
-  result.success = result.failedCount === 0 && result.successCount > 0;
-  return result;
+  return {
+    number: spec.number,
+    name: {
+      en: spec.name_en || '',
+      ar: spec.name_ar || ''
+    },
+    description: {
+      en: spec.description_en || '',
+      ar: spec.description_ar || ''
+    },
+    dependency: {
+      en: spec.dependency_en || '',
+      ar: spec.dependency_ar || ''
+    },
+    // Firestore rejects undefined fields
+    ...(dependsOn ? { dependsOn } : {}),
+    capabilityLevel: parseCapabilityLevel(spec.capabilityLevel),
+    subSpecifications,
+    versionHistory
+  };
+}
+
+function getSpecificationsPath(frameworkId: string, domainId: string, controlId: string): string {
+  return `frameworks/${frameworkId}/domains/${domainId}/controls/${controlId}/specifications`;
+}
+
+/**
+ * Compare parsed specifications with the specifications currently stored in the control
+ */
+export async function getSpecificationImportDiff(
+  controlId: string,
+  frameworkId: string,
+  domainId: string,
+  specifications: SpecificationRow[]
+): Promise<ImportDiff> {
+  const existing = await getExistingDocuments(getSpecificationsPath(frameworkId, domainId, controlId));
+
+  // Legacy numeric levels would otherwise always show up as changed
+  existing.forEach(data => {
+    data.capabilityLevel = convertLegacyCapabilityLevel(data.capabilityLevel);
+  });
+
+  // Without the dependsOn column the stored dependencies are kept, so they are not compared
+  const dependencies = await resolveImportDependencies(controlId, frameworkId, domainId, specifications, 'upsert');
+  const fields = dependencies.size > 0
+    ? SPECIFICATION_DIFF_FIELDS
+    : SPECIFICATION_DIFF_FIELDS.filter(field => field !== 'dependsOn');
+
+  const today = new Date().toISOString().split('T')[0];
+  return diffImportRows(
+    specifications.map(spec => ({
+      id: spec.number,
+      data: buildSpecificationData(spec, today, dependencies.get(spec.number)?.dependsOn)
+    })),
+    existing,
+    fields
+  );
+}
+
+/**
+ * Import specifications from parsed data to Firestore as a batched import job.
+ * Upserts keep the creation date and append to the version history instead of replacing it.
+ */
+export async function importSpecificationsToFirestore(
+  controlId: string,
+  frameworkId: string,
+  domainId: string,
+  specifications: SpecificationRow[],
+  mode: ImportMode = 'create-only',
+  options: ImportRunOptions = {}
+): Promise<ImportResult> {
+  const now = new Date().toISOString();
+  const dependencies = await resolveImportDependencies(controlId, frameworkId, domainId, specifications, mode);
+
+  const job = await runImportJob({
+    ...options,
+    type: 'specifications',
+    collectionPath: getSpecificationsPath(frameworkId, domainId, controlId),
+    mode,
+    // Use the specification number as the document ID
+    rows: specifications.map((spec, index) => ({
+      id: spec.number,
+      row: index + 2,
+      // Skip rows without number or name
+      error: !spec.number || (!spec.name_en && !spec.name_ar)
+        ? 'Skipped row: Missing specification number or name'
+        : dependencies.get(spec.number)?.error,
+      build: existing => {
+        const specificationData = buildSpecificationData(spec, now.split('T')[0], dependencies.get(spec.number)?.dependsOn);
+
+        if (existing && mode === 'upsert') {
+          const history: VersionHistory[] = existing.versionHistory || [];
+
+          // Only record the row's version when the history does not have it yet
+          const newEntries = specificationData.versionHistory.filter(entry =>
+            !history.some(item => item.version === entry.version)
+          );
+
+          return {
+            // Files without the dependsOn column keep the stored dependencies
+            ...(existing.dependsOn ? { dependsOn: existing.dependsOn } : {}),
+            ...specificationData,
+            versionHistory: [...history, ...newEntries],
+            createdAt: existing.createdAt || now,
+            updatedAt: now
+          };
+        }
+
+        return {
+          ...specificationData,
+          createdAt: now,
+          updatedAt: now
+        };
+      }
+    }))
+  });
+
+  return {
+    success: job.status === 'completed' && job.failedCount === 0 &&
+      (job.successCount > 0 || job.removedCount > 0 || job.skippedCount > 0),
+    totalRows: job.totalRows,
+    successCount: job.successCount,
+    failedCount: job.failedCount,
+    skippedCount: job.skippedCount,
+    removedCount: job.removedCount,
+    jobId: job.jobId,
+    status: job.status,
+    rollbackReason: job.rollbackReason,
+    errors: job.errors
+  };
 } 
\ No newline at end of file
@@ -0,0 +1,321 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+  WriteBatch
+} from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { AuditActor, buildAuditLog, getAuditActor } from '@/lib/services/auditLogService';
+import { AuditChange } from '@/types/audit-log';
+import { ImportMode, getExistingDocuments } from './importDiff';
+
+const IMPORTS_COLLECTION = 'imports';
+const WRITES_COLLECTION = 'writes';
+const AUDIT_LOGS_COLLECTION = 'auditLogs';
+
+// Each row takes three writes (the document, its backup and its audit log entry), plus one
+// for the job progress, which keeps a chunk below the 500 operation limit of a batch
+const IMPORT_BATCH_SIZE = 150;
+const ROLLBACK_BATCH_SIZE = 200;
+
+// Share of rows that may fail before everything written by the job is rolled back
+export const DEFAULT_MAX_ERROR_RATE = 0.1;
+
+export type ImportJobType = 'domains' | 'controls' | 'specifications' | 'mappings';
+
+/**
+ * Lifecycle of an import job:
+ * - running: chunks are being written
+ * - completed: every chunk was committed
+ * - rolled-back: the job was aborted or failed and its writes were undone
+ * - failed: undoing the writes failed as well, the backups are kept on the job for another attempt
+ */
+export type ImportJobStatus = 'running' | 'completed' | 'rolled-back' | 'failed';
+
+export type ImportRollbackReason = 'aborted' | 'error-threshold' | 'write-failed';
+
+export interface ImportJobRow {
+  id: string; // Document ID the row is written to
+  row: number; // Spreadsheet row, used in error messages
+  error?: string; // Validation failure, the row is not written
+  build?: (existing: Record<string, any> | undefined) => Record<string, any>;
+}
+
+export interface ImportJobProgress {
+  processedRows: number;
+  totalRows: number;
+}
+
+export interface ImportJobOptions {
+  type: ImportJobType;
+  collectionPath: string;
+  mode: ImportMode;
+  rows: ImportJobRow[];
+  merge?: boolean; // Merge rows into existing documents instead of overwriting them
+  maxErrorRate?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ImportJobProgress) => void;
+  // Removes a document missing from the file in replace mode. Used for documents with
+  // subcollections; these removals run once all rows are committed and are not rolled back.
+  removeDocument?: (id: string) => Promise<unknown>;
+  // Limits replace mode to the existing documents the file covers, e.g. the mappings between its frameworks
+  isInScope?: (data: Record<string, any>) => boolean;
+}
+
+// Options importers pass through from the import dialogs
+export type ImportRunOptions = Pick<ImportJobOptions, 'maxErrorRate' | 'signal' | 'onProgress'>;
+
+export interface ImportJobResult {
+  jobId: string;
+  status: ImportJobStatus;
+  rollbackReason?: ImportRollbackReason;
+  totalRows: number;
+  successCount: number;
+  failedCount: number;
+  skippedCount: number;
+  removedCount: number;
+  errors: { row: number; error: string }[];
+}
+
+// Queue the audit log entry of an import write in the batch that makes the write
+function auditWrite(batch: WriteBatch, actor: AuditActor | null, change: AuditChange): void {
+  if (actor) {
+    batch.set(doc(collection(db, AUDIT_LOGS_COLLECTION)), buildAuditLog(actor, change));
+  }
+}
+
+/**
+ * Undo every write recorded for an import job by restoring the backed up documents
+ */
+export async function rollbackImportJob(jobId: string): Promise<number> {
+  const actor = await getAuditActor();
+  const writesSnapshot = await getDocs(collection(db, IMPORTS_COLLECTION, jobId, WRITES_COLLECTION));
+  const entries = writesSnapshot.docs;
+
+  for (let i = 0; i < entries.length; i += ROLLBACK_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    entries.slice(i, i + ROLLBACK_BATCH_SIZE).forEach(entry => {
+      const { path, before } = entry.data();
+      if (before) {
+        batch.set(doc(db, path), before);
+      } else {
+        batch.delete(doc(db, path));
+      }
+      auditWrite(batch, actor, {
+        action: before ? 'update' : 'delete',
+        entityPath: path,
+        after: before,
+        source: `import-rollback:${jobId}`
+      });
+    });
+    await batch.commit();
+  }
+
+  return entries.length;
+}
+
+/**
+ * Write import rows in batched chunks tracked by an imports/{jobId} record.
+ * Every chunk commits the documents together with a backup of what they replaced,
+ * so the whole job can be undone when it is aborted or too many rows fail.
+ */
+export async function runImportJob(options: ImportJobOptions): Promise<ImportJobResult> {
+  const { collectionPath, mode, rows } = options;
+  const maxErrors = Math.ceil(rows.length * (options.maxErrorRate ?? DEFAULT_MAX_ERROR_RATE));
+
+  const jobRef = doc(collection(db, IMPORTS_COLLECTION));
+  const result: ImportJobResult = {
+    jobId: jobRef.id,
+    status: 'running',
+    totalRows: rows.length,
+    successCount: 0,
+    failedCount: 0,
+    skippedCount: 0,
+    removedCount: 0,
+    errors: []
+  };
+
+  await setDoc(jobRef, {
+    type: options.type,
+    collectionPath,
+    mode,
+    status: result.status,
+    totalRows: rows.length,
+    processedRows: 0,
+    successCount: 0,
+    failedCount: 0,
+    skippedCount: 0,
+    removedCount: 0,
+    maxErrors,
+    createdBy: auth.currentUser?.uid || null,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+
+  const existing = await getExistingDocuments(collectionPath);
+  const actor = await getAuditActor();
+  const source = `import:${jobRef.id}`;
+  let processedRows = 0;
+  let rollbackReason: ImportRollbackReason | undefined;
+
+  const getJobProgress = () => ({
+    processedRows,
+    successCount: result.successCount,
+    failedCount: result.failedCount,
+    skippedCount: result.skippedCount,
+    removedCount: result.removedCount,
+    updatedAt: serverTimestamp()
+  });
+
+  // Backups always hold the state from before the job, even when a row repeats an ID
+  const backupWrite = (batch: WriteBatch, id: string) => {
+    batch.set(doc(db, IMPORTS_COLLECTION, jobRef.id, WRITES_COLLECTION, id), {
+      path: `${collectionPath}/${id}`,
+      before: existing.get(id) || null
+    });
+  };
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    if (options.signal?.aborted) {
+      rollbackReason = 'aborted';
+      break;
+    }
+
+    const chunk = rows.slice(i, i + IMPORT_BATCH_SIZE);
+    const batch = writeBatch(db);
+    let written = 0;
+    let skipped = 0;
+    const chunkErrors: { row: number; error: string }[] = [];
+
+    chunk.forEach(row => {
+      if (row.error || !row.build) {
+        chunkErrors.push({ row: row.row, error: row.error || 'Invalid row' });
+        return;
+      }
+
+      if (mode === 'create-only' && existing.has(row.id)) {
+        skipped += 1;
+        return;
+      }
+
+      const before = existing.get(row.id);
+      const data = row.build(before);
+      backupWrite(batch, row.id);
+      batch.set(doc(db, collectionPath, row.id), data, { merge: options.merge === true });
+      auditWrite(batch, actor, {
+        action: before ? 'update' : 'create',
+        entityPath: `${collectionPath}/${row.id}`,
+        before,
+        after: options.merge && before ? { ...before, ...data } : data,
+        source
+      });
+      written += 1;
+    });
+
+    processedRows += chunk.length;
+    result.successCount += written;
+    result.skippedCount += skipped;
+    result.failedCount += chunkErrors.length;
+    result.errors.push(...chunkErrors);
+    batch.update(jobRef, getJobProgress());
+
+    try {
+      await batch.commit();
+    } catch (error) {
+      console.error(`Error committing import chunk for job ${jobRef.id}:`, error);
+      result.successCount -= written;
+      result.failedCount += written;
+      result.errors.push({
+        row: chunk[0].row,
+        error: `Failed to write rows ${chunk[0].row}-${chunk[chunk.length - 1].row}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+      rollbackReason = 'write-failed';
+      break;
+    }
+
+    options.onProgress?.({ processedRows, totalRows: rows.length });
+
+    if (result.failedCount > maxErrors) {
+      rollbackReason = 'error-threshold';
+      break;
+    }
+  }
+
+  if (!rollbackReason && mode === 'replace') {
+    const importedIds = new Set(rows.map(row => row.id));
+    const removedIds = Array.from(existing.entries())
+      .filter(([id, data]) => !importedIds.has(id) && (!options.isInScope || options.isInScope(data)))
+      .map(([id]) => id);
+
+    if (options.removeDocument) {
+      for (const id of removedIds) {
+        try {
+          await options.removeDocument(id);
+          result.removedCount += 1;
+        } catch (error) {
+          console.error(`Error removing ${collectionPath}/${id}:`, error);
+          result.errors.push({ row: 0, error: `Failed to remove ${id}` });
+          result.failedCount += 1;
+        }
+      }
+    } else {
+      for (let i = 0; i < removedIds.length; i += IMPORT_BATCH_SIZE) {
+        const chunk = removedIds.slice(i, i + IMPORT_BATCH_SIZE);
+        const batch = writeBatch(db);
+        chunk.forEach(id => {
+          backupWrite(batch, id);
+          batch.delete(doc(db, collectionPath, id));
+          auditWrite(batch, actor, {
+            action: 'delete',
+            entityPath: `${collectionPath}/${id}`,
+            before: existing.get(id),
+            source
+          });
+        });
+        result.removedCount += chunk.length;
+        batch.update(jobRef, getJobProgress());
+
+        try {
+          await batch.commit();
+        } catch (error) {
+          console.error(`Error removing documents for job ${jobRef.id}:`, error);
+          result.removedCount -= chunk.length;
+          result.errors.push({ row: 0, error: `Failed to remove ${chunk.length} documents` });
+          result.failedCount += chunk.length;
+          rollbackReason = 'write-failed';
+          break;
+        }
+      }
+    }
+  }
+
+  if (rollbackReason) {
+    result.rollbackReason = rollbackReason;
+    try {
+      await rollbackImportJob(jobRef.id);
+      result.status = 'rolled-back';
+      // Nothing written by the job is left in place
+      result.successCount = 0;
+      result.removedCount = 0;
+    } catch (error) {
+      console.error(`Error rolling back import job ${jobRef.id}:`, error);
+      result.status = 'failed';
+    }
+  } else {
+    result.status = 'completed';
+  }
+
+  await updateDoc(jobRef, {
+    ...getJobProgress(),
+    status: result.status,
+    ...(rollbackReason ? { rollbackReason } : {}),
+    errors: result.errors.slice(0, 100),
+    finishedAt: serverTimestamp()
+  });
+
+  return result;
+}
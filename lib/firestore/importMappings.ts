@@ -0,0 +1,229 @@
+import * as XLSX from 'xlsx-js-style';
+import { serverTimestamp } from 'firebase/firestore';
+import { CONTROL_MAPPINGS_COLLECTION } from '@/lib/services/controlMappingService';
+import {
+  FirestoreControlMapping,
+  MappingEndpoint,
+  MAPPING_RELATIONSHIPS,
+  buildControlMapping,
+  formatMappingEndpoint,
+  getMappingId,
+  isMappingRelationship
+} from '@/types/control-mapping';
+import { ImportMode, ImportDiff, diffImportRows, getExistingDocuments } from './importDiff';
+import { ImportJobStatus, ImportRollbackReason, ImportRunOptions, runImportJob } from './importJobs';
+
+export interface ImportResult {
+  success: boolean;
+  totalRows: number;
+  successCount: number;
+  failedCount: number;
+  skippedCount: number; // Existing mappings left untouched in create-only mode
+  removedCount: number; // Mappings between the file's frameworks missing from it, removed in replace mode
+  jobId: string;
+  status: ImportJobStatus;
+  rollbackReason?: ImportRollbackReason;
+  errors: { row: number; error: string }[];
+}
+
+// Fields compared when diffing an import against existing mappings
+const MAPPING_DIFF_FIELDS = ['source', 'target', 'relationship', 'note'];
+
+export interface MappingRow {
+  source: MappingEndpoint;
+  target: MappingEndpoint;
+  relationship: string;
+  note?: string;
+}
+
+// Read an endpoint from the columns with the given prefix (source or target)
+function readEndpoint(row: any, prefix: string): MappingEndpoint {
+  const read = (field: string) => String(row[`${prefix}${field}`] ?? '').trim();
+  return {
+    frameworkId: read('FrameworkId'),
+    domainId: read('DomainId'),
+    controlId: read('ControlId'),
+    specificationId: read('SpecificationId') || null
+  };
+}
+
+/**
+ * Parse an Excel or CSV mapping sheet, one mapping per row
+ */
+export async function parseMappingFile(file: File): Promise<MappingRow[]> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const workbook = XLSX.read(e.target?.result, { type: 'binary' });
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+        const rawRows = XLSX.utils.sheet_to_json(worksheet);
+
+        resolve(rawRows.map((row: any) => ({
+          source: readEndpoint(row, 'source'),
+          target: readEndpoint(row, 'target'),
+          relationship: String(row.relationship ?? '').trim().toLowerCase(),
+          note: row.note ? String(row.note).trim() : undefined
+        })));
+      } catch (error) {
+        reject(new Error('Failed to parse Excel file'));
+      }
+    };
+
+    reader.onerror = () => {
+      reject(new Error('Failed to read file'));
+    };
+
+    reader.readAsBinaryString(file);
+  });
+}
+
+/**
+ * Validate a parsed mapping row, returning the reason it cannot be imported
+ */
+export function validateMappingRow(mapping: MappingRow): string | undefined {
+  const endpoints = [mapping.source, mapping.target];
+  if (endpoints.some(endpoint => !endpoint.frameworkId || !endpoint.domainId || !endpoint.controlId)) {
+    return 'Missing framework, domain or control ID';
+  }
+
+  if (mapping.source.frameworkId === mapping.target.frameworkId) {
+    return `Both sides belong to framework ${mapping.source.frameworkId}`;
+  }
+
+  if (!isMappingRelationship(mapping.relationship)) {
+    return `Invalid relationship '${mapping.relationship}'. Must be one of: ${MAPPING_RELATIONSHIPS.join(', ')}`;
+  }
+
+  return undefined;
+}
+
+function buildMappingData(mapping: MappingRow) {
+  return buildControlMapping(
+    mapping.source,
+    mapping.target,
+    isMappingRelationship(mapping.relationship) ? mapping.relationship : 'related',
+    mapping.note
+  );
+}
+
+// Framework pairs of the file, so replace mode only touches the mappings between them
+function getFrameworkPairs(mappings: MappingRow[]): Set<string> {
+  return new Set(mappings.map(mapping =>
+    [mapping.source.frameworkId, mapping.target.frameworkId].sort().join('|')
+  ));
+}
+
+function isBetweenPairs(pairs: Set<string>, data: Record<string, any>): boolean {
+  return pairs.has([...(data.frameworkIds || [])].sort().join('|'));
+}
+
+/**
+ * Compare parsed mappings with the mappings already stored between the same frameworks
+ */
+export async function getMappingImportDiff(mappings: MappingRow[]): Promise<ImportDiff> {
+  const pairs = getFrameworkPairs(mappings);
+  const existing = await getExistingDocuments(CONTROL_MAPPINGS_COLLECTION);
+  const inScope = new Map(Array.from(existing.entries()).filter(([, data]) => isBetweenPairs(pairs, data)));
+
+  const diff = diffImportRows(
+    mappings
+      .filter(mapping => !validateMappingRow(mapping))
+      .map(mapping => ({ id: getMappingId(mapping.source, mapping.target), data: buildMappingData(mapping) })),
+    inScope,
+    MAPPING_DIFF_FIELDS
+  );
+
+  // Mappings have no name; label them with the items they link
+  const labels = new Map<string, string>();
+  mappings.forEach(mapping => {
+    labels.set(getMappingId(mapping.source, mapping.target), `${formatMappingEndpoint(mapping.source)} ↔ ${formatMappingEndpoint(mapping.target)}`);
+  });
+  inScope.forEach((data, id) => {
+    const mapping = data as FirestoreControlMapping;
+    labels.set(id, `${formatMappingEndpoint(mapping.source)} ↔ ${formatMappingEndpoint(mapping.target)}`);
+  });
+
+  return {
+    ...diff,
+    entries: diff.entries.map(entry => {
+      const label = labels.get(entry.id) || entry.id;
+      return { ...entry, label: { en: label, ar: label } };
+    })
+  };
+}
+
+/**
+ * Import mappings from parsed data to Firestore as a batched import job
+ */
+export async function importMappingsToFirestore(
+  mappings: MappingRow[],
+  mode: ImportMode = 'create-only',
+  options: ImportRunOptions = {}
+): Promise<ImportResult> {
+  const pairs = getFrameworkPairs(mappings);
+
+  const job = await runImportJob({
+    ...options,
+    type: 'mappings',
+    collectionPath: CONTROL_MAPPINGS_COLLECTION,
+    mode,
+    rows: mappings.map((mapping, index) => ({
+      id: getMappingId(mapping.source, mapping.target),
+      row: index + 2,
+      error: validateMappingRow(mapping),
+      build: existing => ({
+        ...buildMappingData(mapping),
+        createdAt: existing?.createdAt || serverTimestamp(),
+        updatedAt: serverTimestamp()
+      })
+    })),
+    isInScope: data => isBetweenPairs(pairs, data)
+  });
+
+  return {
+    success: job.status === 'completed' && job.failedCount === 0,
+    totalRows: job.totalRows,
+    successCount: job.successCount,
+    failedCount: job.failedCount,
+    skippedCount: job.skippedCount,
+    removedCount: job.removedCount,
+    jobId: job.jobId,
+    status: job.status,
+    rollbackReason: job.rollbackReason,
+    errors: job.errors
+  };
+}
+
+/**
+ * Generate and download a template Excel file for mappings
+ */
+export function downloadMappingTemplate() {
+  const templateData = [
+    {
+      sourceFrameworkId: 'npc',
+      sourceDomainId: 'D1',
+      sourceControlId: 'C1',
+      sourceSpecificationId: 'S1',
+      targetFrameworkId: 'iso27001',
+      targetDomainId: 'A5',
+      targetControlId: 'A5.1',
+      targetSpecificationId: '',
+      relationship: 'equivalent', // Valid values: equivalent, partial, related
+      note: 'Both require a documented information security policy'
+    }
+  ];
+
+  const worksheet = XLSX.utils.json_to_sheet(templateData);
+  worksheet['!cols'] = [
+    { wch: 18 }, { wch: 16 }, { wch: 16 }, { wch: 22 },
+    { wch: 18 }, { wch: 16 }, { wch: 16 }, { wch: 22 },
+    { wch: 14 }, { wch: 50 }
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Mappings Template');
+
+  XLSX.writeFile(workbook, 'mappings_import_template.xlsx');
+}
@@ -0,0 +1,98 @@
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  LOCKED_ROLE,
+  ORGANIZATION_SCOPED_ROLES,
+  Permission,
+  PERMISSIONS,
+  ROLES
+} from '@/types/permissions';
+
+// Markers around the generated block in firestore.rules
+export const RULES_HELPERS_BEGIN = '// BEGIN GENERATED PERMISSION HELPERS';
+export const RULES_HELPERS_END = '// END GENERATED PERMISSION HELPERS';
+
+const INDENT = '    ';
+
+/**
+ * Name of the rules helper that checks a permission, e.g. framework:edit → canEditFramework
+ */
+export function getRulesHelperName(permission: Permission): string {
+  const [resource, action] = permission.split(':');
+  const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+  return `can${capitalize(action)}${capitalize(resource)}`;
+}
+
+// How the rules of each service read Firestore documents: storage rules go through firestore.get()
+// and firestore.exists() with an explicit database
+const DOCUMENT_ACCESS = {
+  firestore: { generator: 'generateFirestoreRulesHelpers', root: '/databases/$(database)/documents', prefix: '' },
+  storage: { generator: 'generateStorageRulesHelpers', root: '/databases/(default)/documents', prefix: 'firestore.' }
+};
+
+/**
+ * Generate the rules helpers of one service for the permission catalog
+ */
+function generateRulesHelpers(service: keyof typeof DOCUMENT_ACCESS): string {
+  const { generator, root, prefix } = DOCUMENT_ACCESS[service];
+  const quote = (values: readonly string[]) => values.map(value => `'${value}'`).join(', ');
+  const defaultRoles = ROLES.filter(role => role !== LOCKED_ROLE);
+  const defaults = defaultRoles.map((role, index) =>
+    `      '${role}': [${quote(DEFAULT_ROLE_PERMISSIONS[role])}]${index < defaultRoles.length - 1 ? ',' : ''}`
+  );
+
+  const lines = [
+    RULES_HELPERS_BEGIN,
+    `// Generated from types/permissions.ts by ${generator}(). Do not edit by hand.`,
+    '',
+    '// Role of the signed-in user',
+    'function userRole() {',
+    `  return ${prefix}get(${root}/users/$(request.auth.uid)).data.role;`,
+    '}',
+    '',
+    '// Permissions of the signed-in user\'s role; roles without a roles/{role} document use the defaults',
+    'function rolePermissions() {',
+    '  let role = userRole();',
+    `  let rolePath = ${root}/roles/$(role);`,
+    `  return role == '${LOCKED_ROLE}'`,
+    `    ? [${quote(PERMISSIONS)}]`,
+    `    : ${prefix}exists(rolePath) ? ${prefix}get(rolePath).data.permissions : {`,
+    ...defaults,
+    '    }.get(role, []);',
+    '}',
+    '',
+    'function hasPermission(permission) {',
+    '  return request.auth != null &&',
+    `    ${prefix}exists(${root}/users/$(request.auth.uid)) &&`,
+    '    permission in rolePermissions();',
+    '}',
+    '',
+    '// Roles that also see every project of their own organization',
+    'function isOrganizationScopedRole() {',
+    `  return userRole() in [${quote(ORGANIZATION_SCOPED_ROLES)}];`,
+    '}',
+    '',
+    ...PERMISSIONS.map(permission =>
+      `function ${getRulesHelperName(permission)}() { return hasPermission('${permission}'); }`
+    ),
+    RULES_HELPERS_END,
+  ];
+
+  return lines.map(line => (line ? INDENT + line : line)).join('\n');
+}
+
+/**
+ * Generate the Firestore rules helpers for the permission catalog.
+ * The helpers read the signed-in user's role from users/{uid} and its permissions from roles/{role},
+ * so changes made in the permission matrix apply without redeploying the rules. The defaults are
+ * inlined for roles that have not been saved yet; regenerate the block when the catalog changes.
+ */
+export function generateFirestoreRulesHelpers(): string {
+  return generateRulesHelpers('firestore');
+}
+
+/**
+ * Generate the same helpers for storage.rules, which checks evidence files against Firestore
+ */
+export function generateStorageRulesHelpers(): string {
+  return generateRulesHelpers('storage');
+}
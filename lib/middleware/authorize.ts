@@ -1,17 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '../firebase-admin';
 import { cookies } from 'next/headers';
+import { getPermissionsForRole } from '../admin/permissions';
+import { verifyApiKey } from '../admin/apiKeys';
+import { Permission, isRole } from '@/types/permissions';
+import { API_KEY_ROLE } from '@/types/api-key';
+
+// Caller of an API route
+export interface AuthorizedCaller {
+  userId: string; // "apiKey:<keyId>" for requests made with an API key
+  role: string;
+  permissions: Permission[];
+  apiKey?: { id: string; organizationId: string }; // Set for requests made with an API key
+}
+
+/**
+ * Authorize a request carrying an API key as "Authorization: Bearer <token>"
+ */
+async function authorizeApiKey(token: string, permission?: Permission): Promise<AuthorizedCaller | NextResponse> {
+  const apiKey = await verifyApiKey(token);
+  if (!apiKey) {
+    return NextResponse.json({ error: 'Unauthorized - Invalid, expired or revoked API key' }, { status: 401 });
+  }
+
+  if (permission && !apiKey.permissions.includes(permission)) {
+    return NextResponse.json({ error: 'Forbidden - Insufficient permissions' }, { status: 403 });
+  }
+
+  return {
+    userId: `apiKey:${apiKey.id}`,
+    role: API_KEY_ROLE,
+    permissions: apiKey.permissions,
+    apiKey: { id: apiKey.id, organizationId: apiKey.organizationId }
+  };
+}
 
 /**
- * Middleware to protect API routes by checking if the user is authenticated and has the admin role
- * @param handler The API route handler
- * @param roles Array of authorized roles (defaults to ['Admin'])
+ * Middleware to protect API routes by checking if the user is authenticated and their role grants a permission.
+ * Requests with an API key bearer token are authorized against the key's permissions instead of a session.
+ * @param req The API request
+ * @param permission Permission required by the route (when omitted, any signed-in user holding one of the
+ * known roles is authorized, so users without a role claim are still turned away)
  */
 export async function authorize(
   req: NextRequest,
-  roles: string[] = ['Admin']
-): Promise<{ userId: string; role: string } | NextResponse> {
+  permission?: Permission
+): Promise<AuthorizedCaller | NextResponse> {
   try {
+    const authorization = req.headers.get('authorization');
+    if (authorization?.startsWith('Bearer ')) {
+      return await authorizeApiKey(authorization.slice('Bearer '.length).trim(), permission);
+    }
+
     // Get the session cookie from the request
     const cookieStore = await cookies();
     const sessionCookie = cookieStore.get('session')?.value;
@@ -28,13 +68,14 @@ export async function authorize(
     const userRecord = await auth.getUser(userId);
     const userRole = userRecord.customClaims?.role || 'User';
 
-    // Check if the user has an authorized role
-    if (!roles.includes(userRole)) {
+    // Check if the user's role grants the required permission
+    const permissions = await getPermissionsForRole(userRole);
+    if (permission ? !permissions.includes(permission) : !isRole(userRole)) {
       return NextResponse.json({ error: 'Forbidden - Insufficient permissions' }, { status: 403 });
     }
 
-    // Return the user ID and role if authorized
-    return { userId, role: userRole };
+    // Return the user ID, role and permissions if authorized
+    return { userId, role: userRole, permissions };
   } catch (error) {
     console.error('Authorization error:', error);
     return NextResponse.json({ error: 'Unauthorized - Invalid session' }, { status: 401 });
@@ -43,15 +84,16 @@ export async function authorize(
 
 /**
  * Middleware to check if a user has permission to manage another user
- * Admins can manage any user, but other roles can only manage themselves
+ * Roles with user:manage can manage any user, but other roles can only manage themselves
  */
 export async function canManageUser(
   userId: string,
   targetUserId: string,
   userRole: string
 ): Promise<boolean> {
-  // Admins can manage any user
-  if (userRole === 'Admin') {
+  // Roles with user:manage can manage any user
+  const permissions = await getPermissionsForRole(userRole);
+  if (permissions.includes('user:manage')) {
     return true;
   }
   
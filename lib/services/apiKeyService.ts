@@ -0,0 +1,66 @@
+import { ApiKey, ApiKeyInput } from "@/types/api-key";
+
+// API keys are only reachable through the admin routes: their documents are closed to clients
+
+/**
+ * Get every API key, newest first
+ */
+export async function getApiKeys(): Promise<ApiKey[]> {
+  try {
+    const response = await fetch("/api/admin/api-keys");
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || "Failed to fetch API keys");
+    }
+
+    return data.apiKeys;
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    throw error;
+  }
+}
+
+/**
+ * Issue an API key. The token is returned once and cannot be retrieved later.
+ */
+export async function issueApiKey(input: ApiKeyInput): Promise<{ apiKey: ApiKey; token: string }> {
+  try {
+    const response = await fetch("/api/admin/api-keys", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(input),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || "Failed to issue API key");
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error issuing API key:", error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke an API key; requests made with it are refused from then on
+ */
+export async function revokeApiKey(keyId: string): Promise<ApiKey> {
+  try {
+    const response = await fetch(`/api/admin/api-keys/${keyId}`, { method: "DELETE" });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || "Failed to revoke API key");
+    }
+
+    return data.apiKey;
+  } catch (error) {
+    console.error(`Error revoking API key ${keyId}:`, error);
+    throw error;
+  }
+}
@@ -1,17 +1,32 @@
-import { db } from "@/lib/firebase";
+import { auth, db } from "@/lib/firebase";
 import {
   collection,
   doc,
   getDoc,
-  setDoc,
-  deleteDoc,
-  serverTimestamp,
+  query,
+  orderBy,
+  writeBatch,
   Timestamp,
   getDocs,
 } from "firebase/firestore";
-import { AssessmentCriteria, CriteriaType, DomainWeight, CriteriaLevel, Domain, LocalizedText } from "@/types/assessment-criteria";
+import {
+  AssessmentCriteria,
+  CriteriaType,
+  DomainWeight,
+  ControlWeight,
+  SpecificationWeight,
+  CriteriaLevel,
+  Domain,
+  LocalizedText,
+  CriteriaTemplateReference,
+  ResultBand,
+  DomainTarget
+} from "@/types/assessment-criteria";
+import { CriteriaHistoryEntry, CriteriaHistoryReason } from "@/types/criteria-template";
+import { recordAuditLog } from "@/lib/services/auditLogService";
 
 const ASSESSMENT_CRITERIA_COLLECTION = "assessmentCriteria";
+const HISTORY_COLLECTION = "history";
 
 /**
  * Get assessment criteria for a framework
@@ -32,6 +47,81 @@ export async function getAssessmentCriteria(frameworkId: string): Promise<Assess
   }
 }
 
+// Control and specification weighting, the template the levels came from, and result bands and domain targets,
+// saved along with the criteria
+export interface CriteriaSaveOptions {
+  controlWeights?: ControlWeight[];
+  specificationWeights?: SpecificationWeight[];
+  mustHaveCap?: number;
+  template?: CriteriaTemplateReference;
+  resultBands?: ResultBand[];
+  domainTargets?: DomainTarget[];
+}
+
+// Drop entries that neither weigh nor require anything, and unset fields Firestore would reject
+function compactItemWeights<T extends { weight?: number; mustHave?: boolean }>(entries: T[]): T[] {
+  return entries
+    .filter(entry => entry.weight !== undefined || entry.mustHave)
+    .map(entry => {
+      const compacted = { ...entry };
+      if (compacted.weight === undefined) {
+        delete compacted.weight;
+      }
+      if (!compacted.mustHave) {
+        delete compacted.mustHave;
+      }
+      return compacted;
+    });
+}
+
+// Keep only the part of each target the criteria type resolves: a level, or a percentage
+function compactDomainTargets(type: CriteriaType, targets: DomainTarget[]): DomainTarget[] {
+  return targets.flatMap<DomainTarget>(target => {
+    if (type !== "percentage") {
+      return target.levelIndex !== undefined ? [{ domainId: target.domainId, levelIndex: target.levelIndex }] : [];
+    }
+    return target.value !== undefined ? [{ domainId: target.domainId, value: target.value }] : [];
+  });
+}
+
+/**
+ * Write the criteria of a framework, moving the configuration they replace to its history.
+ * The original createdAt is kept; saves after the first one set updatedAt and updatedBy.
+ */
+async function replaceAssessmentCriteria(
+  frameworkId: string,
+  criteriaData: AssessmentCriteria,
+  reason: Exclude<CriteriaHistoryReason, "delete">
+): Promise<void> {
+  const docRef = doc(db, ASSESSMENT_CRITERIA_COLLECTION, frameworkId);
+  const beforeSnap = await getDoc(docRef);
+  const before = beforeSnap.exists() ? beforeSnap.data() as AssessmentCriteria : null;
+  const uid = auth.currentUser?.uid || "";
+
+  const after: AssessmentCriteria = before
+    ? { ...criteriaData, createdAt: before.createdAt, updatedAt: Timestamp.now(), updatedBy: uid }
+    : criteriaData;
+
+  const batch = writeBatch(db);
+  if (before) {
+    batch.set(doc(collection(docRef, HISTORY_COLLECTION)), {
+      criteria: before,
+      reason,
+      replacedBy: uid,
+      replacedAt: Timestamp.now()
+    });
+  }
+  batch.set(docRef, after);
+  await batch.commit();
+
+  await recordAuditLog({
+    action: before ? "update" : "create",
+    entityPath: docRef.path,
+    before,
+    after
+  });
+}
+
 /**
  * Save assessment criteria for a framework
  */
@@ -39,11 +129,10 @@ export async function saveAssessmentCriteria(
   frameworkId: string,
   type: CriteriaType,
   domainWeights: DomainWeight[],
-  levels?: CriteriaLevel[]
+  levels?: CriteriaLevel[],
+  options: CriteriaSaveOptions = {}
 ): Promise<void> {
   try {
-    const docRef = doc(db, ASSESSMENT_CRITERIA_COLLECTION, frameworkId);
-    
     const criteriaData: AssessmentCriteria = {
       frameworkId,
       type,
@@ -54,10 +143,34 @@ export async function saveAssessmentCriteria(
     // Add levels if type is maturity or compliance
     if (type !== "percentage" && levels && levels.length > 0) {
       criteriaData.levels = levels;
+      if (options.template) {
+        criteriaData.template = options.template;
+      }
+    }
+
+    // Add control and specification weights only when configured
+    const controlWeights = compactItemWeights(options.controlWeights || []);
+    const specificationWeights = compactItemWeights(options.specificationWeights || []);
+    if (controlWeights.length > 0) {
+      criteriaData.controlWeights = controlWeights;
+    }
+    if (specificationWeights.length > 0) {
+      criteriaData.specificationWeights = specificationWeights;
+    }
+    if (options.mustHaveCap !== undefined) {
+      criteriaData.mustHaveCap = options.mustHaveCap;
+    }
+
+    // Add result bands and domain targets only when configured
+    if (options.resultBands && options.resultBands.length > 0) {
+      criteriaData.resultBands = [...options.resultBands].sort((a, b) => a.min - b.min);
+    }
+    const domainTargets = compactDomainTargets(type, options.domainTargets || []);
+    if (domainTargets.length > 0) {
+      criteriaData.domainTargets = domainTargets;
     }
     
-    
-    await setDoc(docRef, criteriaData);
+    await replaceAssessmentCriteria(frameworkId, criteriaData, "update");
   } catch (error) {
     console.error(`Error saving assessment criteria for framework ${frameworkId}:`, error);
     throw error;
@@ -65,19 +178,68 @@ export async function saveAssessmentCriteria(
 }
 
 /**
- * Delete assessment criteria for a framework
+ * Delete assessment criteria for a framework. The deleted configuration stays in its history.
  */
 export async function deleteAssessmentCriteria(frameworkId: string): Promise<void> {
   try {
     const docRef = doc(db, ASSESSMENT_CRITERIA_COLLECTION, frameworkId);
-    
-    await deleteDoc(docRef);
+    const snapshot = await getDoc(docRef);
+
+    // Nothing to delete or record when the framework has no criteria
+    if (!snapshot.exists()) {
+      return;
+    }
+
+    const before = snapshot.data();
+    const batch = writeBatch(db);
+    batch.set(doc(collection(docRef, HISTORY_COLLECTION)), {
+      criteria: before,
+      reason: "delete",
+      replacedBy: auth.currentUser?.uid || "",
+      replacedAt: Timestamp.now()
+    });
+    batch.delete(docRef);
+    await batch.commit();
+
+    await recordAuditLog({ action: "delete", entityPath: docRef.path, before });
   } catch (error) {
     console.error(`Error deleting assessment criteria for framework ${frameworkId}:`, error);
     throw error;
   }
 }
 
+/**
+ * Get the previous criteria configurations of a framework, most recently replaced first
+ */
+export async function getCriteriaHistory(frameworkId: string): Promise<CriteriaHistoryEntry[]> {
+  try {
+    const historySnapshot = await getDocs(query(
+      collection(db, ASSESSMENT_CRITERIA_COLLECTION, frameworkId, HISTORY_COLLECTION),
+      orderBy("replacedAt", "desc")
+    ));
+
+    return historySnapshot.docs.map(entryDoc => ({
+      id: entryDoc.id,
+      ...(entryDoc.data() as Omit<CriteriaHistoryEntry, "id">)
+    }));
+  } catch (error) {
+    console.error(`Error getting criteria history for framework ${frameworkId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Make a previous configuration the framework's criteria again; the current one moves to the history
+ */
+export async function restoreAssessmentCriteria(frameworkId: string, entry: CriteriaHistoryEntry): Promise<void> {
+  try {
+    await replaceAssessmentCriteria(frameworkId, { ...entry.criteria, frameworkId }, "restore");
+  } catch (error) {
+    console.error(`Error restoring assessment criteria for framework ${frameworkId}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Get domains for a framework from the domains collection
  * This is a simplified implementation, assuming domains are stored in a "domains" collection
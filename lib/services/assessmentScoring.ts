@@ -0,0 +1,236 @@
+import { AssessmentCriteria, DEFAULT_MUST_HAVE_CAP, PERCENTAGE_STEPS, ResultBand } from "@/types/assessment-criteria";
+import {
+  SpecificationRating,
+  FrameworkTreeDomain,
+  ControlScore,
+  DomainScore,
+  ProjectScore
+} from "@/types/assessment";
+
+/**
+ * Build the lookup key used to match a rating to its specification
+ */
+export function getRatingKey(domainId: string, controlId: string, specificationId: string): string {
+  return `${domainId}__${controlId}__${specificationId}`;
+}
+
+/**
+ * Resolve the percentage value of a rating against the framework criteria.
+ * Level-based ratings are resolved through CriteriaLevel.value so that editing
+ * the criteria updates existing assessments.
+ */
+export function resolveRatingValue(
+  rating: SpecificationRating,
+  criteria: AssessmentCriteria | null
+): number | null {
+  if (rating.notApplicable) {
+    return null;
+  }
+
+  if (criteria && criteria.type !== "percentage" && rating.levelIndex !== undefined) {
+    const level = criteria.levels?.[rating.levelIndex];
+    return level ? level.value : null;
+  }
+
+  if (rating.value === undefined || rating.value === null) {
+    return null;
+  }
+
+  return Math.min(100, Math.max(0, rating.value));
+}
+
+/**
+ * Value a rating has to reach for a specification (or a control's score) to count as met:
+ * the highest level of the criteria, or 100% for percentage criteria
+ */
+export function getAchievedValue(criteria: AssessmentCriteria | null): number {
+  const levels = criteria && criteria.type !== "percentage" ? criteria.levels || [] : [];
+  return levels.length > 0 ? Math.max(...levels.map(level => level.value)) : 100;
+}
+
+/**
+ * Express a percentage in the terms of other criteria, e.g. to carry a result
+ * over to a mapped framework: the level or percentage step closest to it, or
+ * not applicable when there is no percentage.
+ */
+export function toRatingInput(
+  percentage: number | null,
+  criteria: AssessmentCriteria | null
+): Pick<SpecificationRating, "levelIndex" | "value" | "notApplicable"> {
+  if (percentage === null) {
+    return { notApplicable: true };
+  }
+
+  const closest = (values: number[]) => values.reduce((best, value, index) =>
+    Math.abs(value - percentage) < Math.abs(values[best] - percentage) ? index : best, 0);
+
+  const levels = criteria && criteria.type !== "percentage" ? criteria.levels || [] : [];
+  if (levels.length > 0) {
+    return { levelIndex: closest(levels.map(level => level.value)) };
+  }
+
+  return { value: PERCENTAGE_STEPS[closest(PERCENTAGE_STEPS)] };
+}
+
+/**
+ * Result band a score falls in, compared as displayed (rounded to a whole percentage);
+ * null without a score or when no band covers it
+ */
+export function getResultBand(score: number | null, criteria: AssessmentCriteria | null): ResultBand | null {
+  if (score === null) {
+    return null;
+  }
+  const rounded = Math.round(score);
+  return criteria?.resultBands?.find(band => rounded >= band.min && rounded <= band.max) ?? null;
+}
+
+/**
+ * Target percentage of a domain. Level targets are resolved through CriteriaLevel.value,
+ * so editing a level moves the targets set to it.
+ */
+export function resolveDomainTarget(domainId: string, criteria: AssessmentCriteria | null): number | null {
+  const target = criteria?.domainTargets?.find(entry => entry.domainId === domainId);
+  if (!target) {
+    return null;
+  }
+
+  if (criteria?.type !== "percentage") {
+    const level = target.levelIndex !== undefined ? criteria?.levels?.[target.levelIndex] : undefined;
+    return level ? level.value : null;
+  }
+
+  return target.value ?? null;
+}
+
+// Weighted average of the non-null values, normalised over the weights of those values
+function weightedAverage(values: { value: number | null; weight: number }[]): number | null {
+  const scored = values.filter(item => item.value !== null && item.weight > 0);
+  const totalWeight = scored.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight === 0) {
+    return null;
+  }
+  return scored.reduce((sum, item) => sum + (item.value as number) * item.weight, 0) / totalWeight;
+}
+
+// Custom weights of the children of one parent; children count equally when none of them has a weight
+function getChildWeight<T extends { weight?: number }>(entries: T[], matches: (entry: T) => boolean): number {
+  if (!entries.some(entry => entry.weight !== undefined)) {
+    return 1;
+  }
+  return entries.find(matches)?.weight ?? 0;
+}
+
+/**
+ * Compute control, domain and overall scores for a project.
+ *
+ * - A control score is the average of its rated specifications, weighted by
+ *   AssessmentCriteria.specificationWeights when the control has custom weights.
+ * - A domain score is the average of its scored controls, weighted by
+ *   AssessmentCriteria.controlWeights when the domain has custom weights.
+ *   While a must-have control or specification of the domain is rated below
+ *   getAchievedValue(), the domain score is capped at AssessmentCriteria.mustHaveCap.
+ * - The overall score is the weighted average of scored domains using
+ *   AssessmentCriteria.domainWeights, normalised over the domains that have a score.
+ *   Without criteria every domain weighs the same.
+ * - Domain and overall scores carry the result band they fall in, and domain
+ *   scores the target of AssessmentCriteria.domainTargets they are measured against.
+ *
+ * Unrated and not-applicable specifications are left out of the averages and
+ * reported through ratedCount/totalCount instead; they never make a must-have unmet.
+ */
+export function computeProjectScore(
+  tree: FrameworkTreeDomain[],
+  criteria: AssessmentCriteria | null,
+  ratings: SpecificationRating[]
+): ProjectScore {
+  const ratingsByKey = new Map<string, SpecificationRating>();
+  ratings.forEach(rating => {
+    ratingsByKey.set(getRatingKey(rating.domainId, rating.controlId, rating.specificationId), rating);
+  });
+
+  const equalWeight = tree.length > 0 ? 100 / tree.length : 0;
+  const weightsByDomain = new Map<string, number>();
+  criteria?.domainWeights.forEach(domainWeight => {
+    weightsByDomain.set(domainWeight.domainId, domainWeight.weight);
+  });
+
+  const achievedValue = getAchievedValue(criteria);
+  const mustHaveCap = criteria?.mustHaveCap ?? DEFAULT_MUST_HAVE_CAP;
+
+  const domains: DomainScore[] = tree.map(domain => {
+    const controlWeights = (criteria?.controlWeights || []).filter(entry => entry.domainId === domain.domainId);
+    const unmetMustHaves: DomainScore["unmetMustHaves"] = [];
+
+    const controls: ControlScore[] = domain.controls.map(control => {
+      const specificationWeights = (criteria?.specificationWeights || []).filter(entry =>
+        entry.domainId === domain.domainId && entry.controlId === control.controlId);
+
+      let ratedCount = 0;
+      const values = control.specifications.map(spec => {
+        const weight = getChildWeight(specificationWeights, entry => entry.specificationId === spec.id);
+        const rating = ratingsByKey.get(getRatingKey(domain.domainId, control.controlId, spec.id));
+        if (!rating) {
+          return { value: null, weight };
+        }
+        ratedCount += 1;
+
+        const value = resolveRatingValue(rating, criteria);
+        const mustHave = specificationWeights.some(entry => entry.specificationId === spec.id && entry.mustHave);
+        if (mustHave && value !== null && value < achievedValue) {
+          unmetMustHaves.push({ controlId: control.controlId, specificationId: spec.id });
+        }
+        return { value, weight };
+      });
+
+      const score = weightedAverage(values);
+      const mustHave = controlWeights.some(entry => entry.controlId === control.controlId && entry.mustHave);
+      if (mustHave && score !== null && score < achievedValue) {
+        unmetMustHaves.push({ controlId: control.controlId });
+      }
+
+      return {
+        domainId: domain.domainId,
+        controlId: control.controlId,
+        score,
+        ratedCount,
+        totalCount: control.specifications.length
+      };
+    });
+
+    const score = weightedAverage(controls.map(control => ({
+      value: control.score,
+      weight: getChildWeight(controlWeights, entry => entry.controlId === control.controlId)
+    })));
+    const capped = score !== null && unmetMustHaves.length > 0 && score > mustHaveCap;
+    const domainScore = capped ? mustHaveCap : score;
+    const target = resolveDomainTarget(domain.domainId, criteria);
+
+    return {
+      domainId: domain.domainId,
+      score: domainScore,
+      weight: criteria ? weightsByDomain.get(domain.domainId) ?? 0 : equalWeight,
+      controls,
+      capped,
+      unmetMustHaves,
+      band: getResultBand(domainScore, criteria),
+      target,
+      belowTarget: target !== null && domainScore !== null && Math.round(domainScore) < target,
+      ratedCount: controls.reduce((sum, control) => sum + control.ratedCount, 0),
+      totalCount: controls.reduce((sum, control) => sum + control.totalCount, 0)
+    };
+  });
+
+  const scoredDomains = domains.filter(domain => domain.score !== null && domain.weight > 0);
+  const totalWeight = scoredDomains.reduce((sum, domain) => sum + domain.weight, 0);
+  const overall = totalWeight > 0
+    ? scoredDomains.reduce((sum, domain) => sum + (domain.score as number) * domain.weight, 0) / totalWeight
+    : null;
+
+  return {
+    overall,
+    band: getResultBand(overall, criteria),
+    domains,
+    ratedCount: domains.reduce((sum, domain) => sum + domain.ratedCount, 0),
+    totalCount: domains.reduce((sum, domain) => sum + domain.totalCount, 0)
+  };
+}
@@ -0,0 +1,98 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  serverTimestamp,
+  Timestamp
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { SpecificationRating } from "@/types/assessment";
+import { getRatingKey } from "@/lib/services/assessmentScoring";
+import { recordAuditLog } from "@/lib/services/auditLogService";
+
+// Collection name constants
+const PROJECTS_COLLECTION = "projects";
+const RATINGS_SUBCOLLECTION = "ratings";
+
+/**
+ * Get all specification ratings recorded for a project
+ */
+export async function getProjectRatings(projectId: string): Promise<SpecificationRating[]> {
+  try {
+    const querySnapshot = await getDocs(
+      collection(db, PROJECTS_COLLECTION, projectId, RATINGS_SUBCOLLECTION)
+    );
+
+    return querySnapshot.docs.map(doc => doc.data() as SpecificationRating);
+  } catch (error) {
+    console.error(`Error getting ratings for project ${projectId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Save (create or replace) the rating of a specification within a project
+ */
+export async function saveSpecificationRating(
+  projectId: string,
+  rating: Omit<SpecificationRating, "updatedAt">
+): Promise<void> {
+  try {
+    if (rating.levelIndex === undefined && rating.value === undefined && !rating.notApplicable) {
+      throw new Error("A rating requires a level, a value or the not-applicable flag");
+    }
+
+    if (rating.value !== undefined && (rating.value < 0 || rating.value > 100)) {
+      throw new Error("Rating value must be between 0 and 100");
+    }
+
+    const ratingId = getRatingKey(rating.domainId, rating.controlId, rating.specificationId);
+    const ratingRef = doc(db, PROJECTS_COLLECTION, projectId, RATINGS_SUBCOLLECTION, ratingId);
+
+    // Firestore rejects undefined fields, so only keep the ones that are set
+    const ratingData = Object.fromEntries(
+      Object.entries(rating).filter(([, value]) => value !== undefined)
+    );
+
+    const beforeSnap = await getDoc(ratingRef);
+    await setDoc(ratingRef, {
+      ...ratingData,
+      updatedAt: serverTimestamp() as Timestamp
+    });
+    await recordAuditLog({
+      action: beforeSnap.exists() ? "update" : "create",
+      entityPath: ratingRef.path,
+      before: beforeSnap.data() || null,
+      after: ratingData
+    });
+  } catch (error) {
+    console.error(`Error saving rating for specification ${rating.specificationId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Remove the rating of a specification within a project
+ */
+export async function deleteSpecificationRating(
+  projectId: string,
+  domainId: string,
+  controlId: string,
+  specificationId: string
+): Promise<void> {
+  try {
+    const ratingId = getRatingKey(domainId, controlId, specificationId);
+    const ratingRef = doc(db, PROJECTS_COLLECTION, projectId, RATINGS_SUBCOLLECTION, ratingId);
+    const before = (await getDoc(ratingRef)).data();
+    await deleteDoc(ratingRef);
+    if (before) {
+      await recordAuditLog({ action: "delete", entityPath: ratingRef.path, before });
+    }
+  } catch (error) {
+    console.error(`Error deleting rating for specification ${specificationId}:`, error);
+    throw error;
+  }
+}
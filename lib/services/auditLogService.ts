@@ -0,0 +1,130 @@
+import { auth, db } from "@/lib/firebase";
+import {
+    addDoc,
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    limit,
+    orderBy,
+    query,
+    serverTimestamp,
+    startAfter,
+    where,
+    QueryConstraint,
+    Timestamp,
+} from "firebase/firestore";
+import {
+    AuditChange,
+    AuditLog,
+    AuditLogFilters,
+    FirestoreAuditLog,
+    diffAuditFields,
+    getAuditEntityType,
+} from "@/types/audit-log";
+
+const AUDIT_LOGS_COLLECTION = "auditLogs";
+const USERS_COLLECTION = "users";
+
+export interface AuditActor {
+    uid: string;
+    role: string;
+}
+
+/**
+ * Get the signed-in user recorded as the actor of audit log entries.
+ * The role is read on every call: the security rules check it against the users collection,
+ * so a role cached from before a role change would get the entry rejected.
+ */
+export async function getAuditActor(): Promise<AuditActor | null> {
+    const uid = auth.currentUser?.uid;
+    if (!uid) {
+        return null;
+    }
+
+    const userSnap = await getDoc(doc(db, USERS_COLLECTION, uid));
+    return { uid, role: userSnap.exists() ? userSnap.data().role || "User" : "User" };
+}
+
+/**
+ * Build the audit log document for a change, for callers that write it in their own batch
+ */
+export function buildAuditLog(actor: AuditActor, change: AuditChange): FirestoreAuditLog {
+    return {
+        actorUid: actor.uid,
+        actorRole: actor.role,
+        action: change.action,
+        entityType: getAuditEntityType(change.entityPath),
+        entityPath: change.entityPath,
+        changes: diffAuditFields(change.before, change.after),
+        ...(change.source ? { source: change.source } : {}),
+        createdAt: serverTimestamp() as Timestamp
+    };
+}
+
+/**
+ * Record a create, update or delete in the audit log.
+ * Updates that leave every field unchanged are not recorded. Failures are logged and not rethrown,
+ * since the change itself has already been written.
+ */
+export async function recordAuditLog(change: AuditChange): Promise<void> {
+    try {
+        const actor = await getAuditActor();
+        if (!actor) {
+            console.error(`Audit log skipped for ${change.entityPath}: no signed-in user`);
+            return;
+        }
+
+        const auditLog = buildAuditLog(actor, change);
+        if (change.action === "update" && auditLog.changes.length === 0) {
+            return;
+        }
+
+        await addDoc(collection(db, AUDIT_LOGS_COLLECTION), auditLog);
+    } catch (error) {
+        console.error(`Error recording audit log for ${change.entityPath}:`, error);
+    }
+}
+
+/**
+ * Get audit log entries, newest first.
+ * Pass the last entry of the previous page as after to load the next page.
+ */
+export async function getAuditLogs(
+    filters: AuditLogFilters = {},
+    pageSize: number = 50,
+    after?: AuditLog
+): Promise<AuditLog[]> {
+    try {
+        const constraints: QueryConstraint[] = [];
+
+        if (filters.entityType) {
+            constraints.push(where("entityType", "==", filters.entityType));
+        }
+        if (filters.actorUid) {
+            constraints.push(where("actorUid", "==", filters.actorUid));
+        }
+        if (filters.from) {
+            constraints.push(where("createdAt", ">=", Timestamp.fromDate(filters.from)));
+        }
+        if (filters.to) {
+            constraints.push(where("createdAt", "<=", Timestamp.fromDate(filters.to)));
+        }
+
+        constraints.push(orderBy("createdAt", "desc"));
+        if (after?.createdAt) {
+            constraints.push(startAfter(after.createdAt));
+        }
+        constraints.push(limit(pageSize));
+
+        const logsSnapshot = await getDocs(query(collection(db, AUDIT_LOGS_COLLECTION), ...constraints));
+
+        return logsSnapshot.docs.map(logDoc => ({
+            id: logDoc.id,
+            ...(logDoc.data() as FirestoreAuditLog)
+        }));
+    } catch (error) {
+        console.error("Error getting audit logs:", error);
+        throw error;
+    }
+}
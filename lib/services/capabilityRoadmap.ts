@@ -0,0 +1,85 @@
+import { Control } from "@/hooks/useControls";
+import { AssessmentCriteria } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain, SpecificationRating } from "@/types/assessment";
+import {
+  CapabilityRoadmap,
+  ROADMAP_DIMENSIONS,
+  ROADMAP_LEVELS,
+  RoadmapCounts,
+  RoadmapItem,
+  RoadmapStatus
+} from "@/types/capability-roadmap";
+import { getAchievedValue, getRatingKey, resolveRatingValue } from "@/lib/services/assessmentScoring";
+
+export function getRoadmapStatus(rating: SpecificationRating | undefined, criteria: AssessmentCriteria | null): RoadmapStatus {
+  if (!rating) return "notStarted";
+  if (rating.notApplicable) return "notApplicable";
+
+  const value = resolveRatingValue(rating, criteria);
+  if (value === null) return "notStarted";
+  return value >= getAchievedValue(criteria) ? "achieved" : "inProgress";
+}
+
+// Achieved share of the applicable specifications, or null when none applies
+export function getAchievedPercentage(counts: RoadmapCounts): number | null {
+  return counts.applicableCount > 0 ? (counts.achievedCount / counts.applicableCount) * 100 : null;
+}
+
+function countItems(items: RoadmapItem[], total: number): RoadmapCounts {
+  return {
+    count: items.length,
+    percentage: total > 0 ? (items.length / total) * 100 : 0,
+    achievedCount: items.filter(item => item.status === "achieved").length,
+    applicableCount: items.filter(item => item.status !== "notApplicable").length
+  };
+}
+
+/**
+ * Group the specifications of a framework, or of one of its domains, by capability level and control dimension.
+ * Statuses are only set when the ratings of a project are given.
+ */
+export function buildCapabilityRoadmap(
+  tree: FrameworkTreeDomain[],
+  domainId: string | null,
+  ratings: SpecificationRating[] | null,
+  criteria: AssessmentCriteria | null
+): CapabilityRoadmap {
+  const ratingsByKey = new Map<string, SpecificationRating>();
+  ratings?.forEach(rating => {
+    ratingsByKey.set(getRatingKey(rating.domainId, rating.controlId, rating.specificationId), rating);
+  });
+
+  const items: (RoadmapItem & { dimension: Control["dimension"] })[] = tree
+    .filter(domain => !domainId || domain.domainId === domainId)
+    .flatMap(domain => domain.controls.flatMap(control => control.specifications.map(specification => ({
+      domainId: domain.domainId,
+      controlId: control.controlId,
+      controlName: control.name,
+      dimension: control.dimension,
+      specification,
+      status: ratings
+        ? getRoadmapStatus(ratingsByKey.get(getRatingKey(domain.domainId, control.controlId, specification.id)), criteria)
+        : null
+    }))));
+
+  const total = items.length;
+
+  return {
+    ...countItems(items, total),
+    phases: ROADMAP_LEVELS.map(capabilityLevel => {
+      const phaseItems = items.filter(item => (item.specification.capabilityLevel || "foundational") === capabilityLevel);
+      return {
+        capabilityLevel,
+        ...countItems(phaseItems, total),
+        cells: ROADMAP_DIMENSIONS.map(dimension => {
+          const cellItems = phaseItems.filter(item => item.dimension === dimension);
+          return { dimension, items: cellItems, ...countItems(cellItems, total) };
+        })
+      };
+    }),
+    dimensions: ROADMAP_DIMENSIONS.map(dimension => ({
+      dimension,
+      ...countItems(items.filter(item => item.dimension === dimension), total)
+    }))
+  };
+}
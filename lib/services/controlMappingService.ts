@@ -0,0 +1,119 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  serverTimestamp,
+  query,
+  where,
+  Timestamp
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { recordAuditLog } from "@/lib/services/auditLogService";
+import {
+  ControlMapping,
+  MappingEndpoint,
+  MappingRelationship,
+  buildControlMapping,
+  getControlKey,
+  getMappingId
+} from "@/types/control-mapping";
+
+// Collection name constant
+export const CONTROL_MAPPINGS_COLLECTION = "controlMappings";
+
+/**
+ * Get the mappings of a control and of its specifications, in either direction
+ */
+export async function getControlMappings(control: MappingEndpoint): Promise<ControlMapping[]> {
+  try {
+    const q = query(
+      collection(db, CONTROL_MAPPINGS_COLLECTION),
+      where("controlKeys", "array-contains", getControlKey(control))
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as ControlMapping[];
+  } catch (error) {
+    console.error(`Error getting mappings for control ${control.controlId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get every mapping with an item of the framework on either side
+ */
+export async function getFrameworkMappings(frameworkId: string): Promise<ControlMapping[]> {
+  try {
+    const q = query(
+      collection(db, CONTROL_MAPPINGS_COLLECTION),
+      where("frameworkIds", "array-contains", frameworkId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as ControlMapping[];
+  } catch (error) {
+    console.error(`Error getting mappings for framework ${frameworkId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Map an item of one framework to an item of another. Mapping a pair that is
+ * already mapped replaces its relationship and note.
+ */
+export async function saveControlMapping(
+  source: MappingEndpoint,
+  target: MappingEndpoint,
+  relationship: MappingRelationship,
+  note?: string
+): Promise<string> {
+  try {
+    if (source.frameworkId === target.frameworkId) {
+      throw new Error("Mappings link items of two different frameworks");
+    }
+
+    const mappingRef = doc(db, CONTROL_MAPPINGS_COLLECTION, getMappingId(source, target));
+    const existing = await getDoc(mappingRef);
+    const mappingData = {
+      ...buildControlMapping(source, target, relationship, note?.trim()),
+      createdAt: existing.exists() ? existing.data().createdAt : serverTimestamp() as Timestamp,
+      updatedAt: serverTimestamp() as Timestamp
+    };
+
+    await setDoc(mappingRef, mappingData);
+    await recordAuditLog({
+      action: existing.exists() ? "update" : "create",
+      entityPath: mappingRef.path,
+      before: existing.exists() ? existing.data() : null,
+      after: mappingData
+    });
+    return mappingRef.id;
+  } catch (error) {
+    console.error("Error saving control mapping:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a mapping
+ */
+export async function deleteControlMapping(mappingId: string): Promise<void> {
+  try {
+    const mappingRef = doc(db, CONTROL_MAPPINGS_COLLECTION, mappingId);
+    const before = (await getDoc(mappingRef)).data() || null;
+    await deleteDoc(mappingRef);
+    await recordAuditLog({ action: "delete", entityPath: mappingRef.path, before });
+  } catch (error) {
+    console.error(`Error deleting control mapping ${mappingId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,116 @@
+import { Timestamp } from "firebase/firestore";
+import { AssessmentCriteria, DomainWeight } from "@/types/assessment-criteria";
+import { SpecificationRating } from "@/types/assessment";
+import { CriteriaFormState } from "@/hooks/useCriteriaBuilder";
+import { resolveRatingValue } from "@/lib/services/assessmentScoring";
+
+// Score of each domain in a simulation, by domain ID; null while the domain is left unrated
+export type SimulatedDomainScores = Record<string, number | null>;
+
+export interface SimulatedDomain {
+  domainId: string;
+  score: number | null;
+  weight: number;
+  contribution: number | null; // Points of the overall score that come from this domain
+}
+
+export interface CriteriaSimulation {
+  overall: number | null;
+  domains: SimulatedDomain[];
+}
+
+// Overall score when one domain's weight moves by the step and the other weights make up the difference
+export interface WeightSensitivity {
+  domainId: string;
+  increased: number | null;
+  decreased: number | null;
+}
+
+/**
+ * Criteria as they would be saved from the wizard, to score against before saving
+ */
+export function getDraftCriteria(frameworkId: string, formState: CriteriaFormState): AssessmentCriteria {
+  return {
+    frameworkId,
+    type: formState.type,
+    levels: formState.type !== "percentage" ? formState.levels : undefined,
+    domainWeights: formState.domainWeights,
+    controlWeights: formState.controlWeights,
+    specificationWeights: formState.specificationWeights,
+    mustHaveCap: formState.mustHaveCap,
+    resultBands: formState.resultBands,
+    domainTargets: formState.domainTargets,
+    createdAt: Timestamp.now()
+  };
+}
+
+/**
+ * Ratings with their level resolved to a percentage against the criteria they were given under,
+ * so they keep their meaning when scored against draft criteria with other levels
+ */
+export function toValueRatings(ratings: SpecificationRating[], criteria: AssessmentCriteria | null): SpecificationRating[] {
+  return ratings.map(rating => {
+    const { levelIndex: _levelIndex, ...rest } = rating;
+    const value = resolveRatingValue(rating, criteria);
+    return rating.notApplicable || value === null
+      ? { ...rest, notApplicable: rating.notApplicable }
+      : { ...rest, value };
+  });
+}
+
+/**
+ * Overall score and per-domain contributions for given domain scores, with the same roll-up as
+ * computeProjectScore(): a weighted average normalised over the domains that have a score
+ */
+export function simulateCriteria(domainWeights: DomainWeight[], scores: SimulatedDomainScores): CriteriaSimulation {
+  const scoredWeight = domainWeights
+    .filter(domain => scores[domain.domainId] != null && domain.weight > 0)
+    .reduce((sum, domain) => sum + domain.weight, 0);
+
+  const domains = domainWeights.map(domain => {
+    const score = scores[domain.domainId] ?? null;
+    return {
+      domainId: domain.domainId,
+      score,
+      weight: domain.weight,
+      contribution: score !== null && scoredWeight > 0 ? (score * domain.weight) / scoredWeight : null
+    };
+  });
+
+  return {
+    overall: scoredWeight > 0 ? domains.reduce((sum, domain) => sum + (domain.contribution ?? 0), 0) : null,
+    domains
+  };
+}
+
+// Move one domain's weight by the step; the others share the difference in proportion to their weights
+function shiftWeight(domainWeights: DomainWeight[], domainId: string, step: number): DomainWeight[] {
+  const current = domainWeights.find(domain => domain.domainId === domainId)?.weight ?? 0;
+  const target = Math.min(100, Math.max(0, current + step));
+  const others = domainWeights.filter(domain => domain.domainId !== domainId);
+  const othersWeight = others.reduce((sum, domain) => sum + domain.weight, 0);
+  const remaining = 100 - target;
+
+  return domainWeights.map(domain => {
+    if (domain.domainId === domainId) {
+      return { ...domain, weight: target };
+    }
+    const weight = othersWeight > 0 ? (domain.weight / othersWeight) * remaining : remaining / others.length;
+    return { ...domain, weight };
+  });
+}
+
+/**
+ * How much the overall score moves when each domain's weight goes up or down by the step (in points)
+ */
+export function getWeightSensitivity(
+  domainWeights: DomainWeight[],
+  scores: SimulatedDomainScores,
+  step: number
+): WeightSensitivity[] {
+  return domainWeights.map(domain => ({
+    domainId: domain.domainId,
+    increased: simulateCriteria(shiftWeight(domainWeights, domain.domainId, step), scores).overall,
+    decreased: simulateCriteria(shiftWeight(domainWeights, domain.domainId, -step), scores).overall
+  }));
+}
@@ -0,0 +1,169 @@
+import { auth, db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  writeBatch,
+  Timestamp,
+} from "firebase/firestore";
+import { CriteriaLevel, LocalizedText } from "@/types/assessment-criteria";
+import {
+  CriteriaTemplate,
+  CriteriaTemplateVersion,
+  FirestoreCriteriaTemplate,
+  LevelCriteriaType,
+  getCriteriaTemplateVersionId,
+} from "@/types/criteria-template";
+import { recordAuditLog } from "@/lib/services/auditLogService";
+
+const CRITERIA_TEMPLATES_COLLECTION = "criteriaTemplates";
+const VERSIONS_COLLECTION = "versions";
+
+/**
+ * Get the criteria templates, optionally of one criteria type, by English name
+ */
+export async function getCriteriaTemplates(type?: LevelCriteriaType): Promise<CriteriaTemplate[]> {
+  try {
+    const templatesQuery = type
+      ? query(collection(db, CRITERIA_TEMPLATES_COLLECTION), where("type", "==", type))
+      : collection(db, CRITERIA_TEMPLATES_COLLECTION);
+    const templatesSnapshot = await getDocs(templatesQuery);
+
+    return templatesSnapshot.docs
+      .map(templateDoc => ({
+        id: templateDoc.id,
+        ...(templateDoc.data() as FirestoreCriteriaTemplate)
+      }))
+      .sort((a, b) => a.name.en.localeCompare(b.name.en));
+  } catch (error) {
+    console.error("Error getting criteria templates:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get every saved version of a template, newest first
+ */
+export async function getCriteriaTemplateVersions(templateId: string): Promise<CriteriaTemplateVersion[]> {
+  try {
+    const versionsSnapshot = await getDocs(query(
+      collection(db, CRITERIA_TEMPLATES_COLLECTION, templateId, VERSIONS_COLLECTION),
+      orderBy("version", "desc")
+    ));
+
+    return versionsSnapshot.docs.map(versionDoc => ({
+      id: versionDoc.id,
+      ...(versionDoc.data() as Omit<CriteriaTemplateVersion, "id">)
+    }));
+  } catch (error) {
+    console.error(`Error getting versions of criteria template ${templateId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Save a level set as a new template, as its version 1
+ */
+export async function createCriteriaTemplate(
+  template: { name: LocalizedText; description: LocalizedText; type: LevelCriteriaType; levels: CriteriaLevel[] },
+  note?: string
+): Promise<CriteriaTemplate> {
+  try {
+    const templateRef = doc(collection(db, CRITERIA_TEMPLATES_COLLECTION));
+    const now = Timestamp.now();
+    const uid = auth.currentUser?.uid || "";
+
+    const templateData: FirestoreCriteriaTemplate = {
+      ...template,
+      version: 1,
+      createdBy: uid,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const batch = writeBatch(db);
+    batch.set(templateRef, templateData);
+    batch.set(doc(templateRef, VERSIONS_COLLECTION, getCriteriaTemplateVersionId(1)), {
+      version: 1,
+      levels: template.levels,
+      ...(note ? { note } : {}),
+      savedBy: uid,
+      savedAt: now
+    });
+    await batch.commit();
+
+    await recordAuditLog({ action: "create", entityPath: templateRef.path, after: templateData });
+    return { id: templateRef.id, ...templateData };
+  } catch (error) {
+    console.error("Error creating criteria template:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save new levels for a template as its next version. Earlier versions stay available.
+ */
+export async function saveCriteriaTemplateVersion(
+  templateId: string,
+  levels: CriteriaLevel[],
+  note?: string
+): Promise<CriteriaTemplate> {
+  try {
+    const templateRef = doc(db, CRITERIA_TEMPLATES_COLLECTION, templateId);
+    const now = Timestamp.now();
+
+    const { before, after } = await runTransaction(db, async (transaction) => {
+      const templateSnap = await transaction.get(templateRef);
+      if (!templateSnap.exists()) {
+        throw new Error(`Criteria template ${templateId} not found`);
+      }
+
+      const template = templateSnap.data() as FirestoreCriteriaTemplate;
+      const version = template.version + 1;
+      const updated: FirestoreCriteriaTemplate = { ...template, levels, version, updatedAt: now };
+
+      transaction.set(templateRef, updated);
+      transaction.set(doc(templateRef, VERSIONS_COLLECTION, getCriteriaTemplateVersionId(version)), {
+        version,
+        levels,
+        ...(note ? { note } : {}),
+        savedBy: auth.currentUser?.uid || "",
+        savedAt: now
+      });
+
+      return { before: template, after: updated };
+    });
+
+    await recordAuditLog({ action: "update", entityPath: templateRef.path, before, after });
+    return { id: templateId, ...after };
+  } catch (error) {
+    console.error(`Error saving a version of criteria template ${templateId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a template with all its versions. Criteria built from it keep their levels.
+ */
+export async function deleteCriteriaTemplate(templateId: string): Promise<void> {
+  try {
+    const templateRef = doc(db, CRITERIA_TEMPLATES_COLLECTION, templateId);
+    const versionsSnapshot = await getDocs(collection(templateRef, VERSIONS_COLLECTION));
+    const before = (await getDoc(templateRef)).data() || {};
+
+    const batch = writeBatch(db);
+    versionsSnapshot.docs.forEach(versionDoc => batch.delete(versionDoc.ref));
+    batch.delete(templateRef);
+    await batch.commit();
+
+    await recordAuditLog({ action: "delete", entityPath: templateRef.path, before });
+  } catch (error) {
+    console.error(`Error deleting criteria template ${templateId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,159 @@
+import { db } from "@/lib/firebase";
+import {
+    collection,
+    doc,
+    getCountFromServer,
+    getDoc,
+    query,
+    where,
+    and,
+    or,
+    Query,
+} from "firebase/firestore";
+import { addDays } from "date-fns";
+import { getAllFrameworks } from "@/lib/services/frameworkService";
+import { ROLES } from "@/types/permissions";
+import { PROJECT_STATUSES, READ_ONLY_PROJECT_STATUSES } from "@/types/project-lifecycle";
+import { AT_RISK_DAYS, toScheduleDate } from "@/types/project-milestone";
+import {
+    FRAMEWORK_COMPLETENESS,
+    FrameworkCompleteness,
+    FrameworkStatsCounts,
+    ProjectStatsCounts,
+    USER_STATUSES,
+    UserStatsCounts,
+} from "@/types/dashboard-stats";
+
+// Statistics are computed with count() aggregation queries, so no documents are downloaded
+
+const USERS_COLLECTION = "users";
+const PROJECTS_COLLECTION = "projects";
+const FRAMEWORKS_COLLECTION = "frameworks";
+const CRITERIA_COLLECTION = "assessmentCriteria";
+
+async function count(countQuery: Query): Promise<number> {
+    const snapshot = await getCountFromServer(countQuery);
+    return snapshot.data().count;
+}
+
+/**
+ * Count users by role and by status
+ */
+export async function getUserStats(): Promise<UserStatsCounts> {
+    try {
+        const usersCollection = collection(db, USERS_COLLECTION);
+
+        const [total, roleCounts, statusCounts] = await Promise.all([
+            count(usersCollection),
+            Promise.all(ROLES.map(role => count(query(usersCollection, where("role", "==", role))))),
+            Promise.all(USER_STATUSES.map(status => count(query(usersCollection, where("status", "==", status)))))
+        ]);
+
+        return {
+            total,
+            byRole: Object.fromEntries(ROLES.map((role, index) => [role, roleCounts[index]])),
+            byStatus: Object.fromEntries(USER_STATUSES.map((status, index) => [status, statusCounts[index]]))
+        };
+    } catch (error) {
+        console.error("Error getting user stats:", error);
+        throw error;
+    }
+}
+
+/**
+ * Count projects by status and framework, and the projects not closed yet that are overdue or at risk
+ * against their deadline and milestones
+ */
+export async function getProjectStats(): Promise<ProjectStatsCounts> {
+    try {
+        const projectsCollection = collection(db, PROJECTS_COLLECTION);
+        // Dates are stored as yyyy-MM-dd, so they compare as strings
+        const today = toScheduleDate(new Date());
+        const atRiskUntil = toScheduleDate(addDays(new Date(), AT_RISK_DAYS));
+        const trackedStatuses = where("status", "in", PROJECT_STATUSES.filter(status => !READ_ONLY_PROJECT_STATUSES.includes(status)));
+
+        const [total, statusCounts, overdue, atRisk, frameworks] = await Promise.all([
+            count(projectsCollection),
+            Promise.all(PROJECT_STATUSES.map(status => count(query(projectsCollection, where("status", "==", status))))),
+            // Projects saved before milestones existed have no nextDueDate, so the deadline is checked as well
+            count(query(
+                projectsCollection,
+                and(trackedStatuses, or(where("projectDeadline", "<", today), where("nextDueDate", "<", today)))
+            )),
+            // nextDueDate is the earliest open date, so nothing of these projects is overdue yet
+            count(query(
+                projectsCollection,
+                trackedStatuses,
+                where("nextDueDate", ">=", today),
+                where("nextDueDate", "<=", atRiskUntil)
+            )),
+            getAllFrameworks()
+        ]);
+
+        const frameworkCounts = await Promise.all(
+            frameworks.map(framework => count(query(projectsCollection, where("frameworkId", "==", framework.id))))
+        );
+
+        return {
+            total,
+            byStatus: Object.fromEntries(
+                PROJECT_STATUSES.map((status, index) => [status, statusCounts[index]])
+            ) as ProjectStatsCounts["byStatus"],
+            byFramework: frameworks
+                .map((framework, index) => ({
+                    frameworkId: framework.id,
+                    name: framework.name,
+                    count: frameworkCounts[index]
+                }))
+                .filter(entry => entry.count > 0)
+                .sort((a, b) => b.count - a.count),
+            overdue,
+            atRisk
+        };
+    } catch (error) {
+        console.error("Error getting project stats:", error);
+        throw error;
+    }
+}
+
+/**
+ * Get how complete a single framework is
+ */
+export async function getFrameworkCompleteness(frameworkId: string): Promise<FrameworkCompleteness> {
+    const frameworkPath = `${FRAMEWORKS_COLLECTION}/${frameworkId}`;
+
+    const [domainCount, versionCount, criteriaSnap] = await Promise.all([
+        count(collection(db, frameworkPath, "domains")),
+        count(collection(db, frameworkPath, "versions")),
+        getDoc(doc(db, CRITERIA_COLLECTION, frameworkId))
+    ]);
+
+    if (versionCount > 0) return "published";
+    if (domainCount === 0) return "empty";
+    return criteriaSnap.exists() ? "ready" : "missingCriteria";
+}
+
+/**
+ * Count frameworks by completeness
+ */
+export async function getFrameworkStats(): Promise<FrameworkStatsCounts> {
+    try {
+        const frameworks = await getAllFrameworks();
+        const completeness = await Promise.all(frameworks.map(framework => getFrameworkCompleteness(framework.id)));
+
+        const byCompleteness = Object.fromEntries(
+            FRAMEWORK_COMPLETENESS.map(level => [level, 0])
+        ) as FrameworkStatsCounts["byCompleteness"];
+        completeness.forEach(level => {
+            byCompleteness[level] += 1;
+        });
+
+        return {
+            total: frameworks.length,
+            byCompleteness
+        };
+    } catch (error) {
+        console.error("Error getting framework stats:", error);
+        throw error;
+    }
+}
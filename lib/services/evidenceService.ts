@@ -0,0 +1,275 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp,
+  query,
+  where,
+  Timestamp
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Evidence, FirestoreEvidence, EvidenceReviewStatus } from "@/types/assessment";
+import {
+  EvidenceFileStore,
+  firebaseEvidenceFileStore,
+  getEvidenceFilePath
+} from "@/lib/services/evidenceStorage";
+import { recordAuditLog } from "@/lib/services/auditLogService";
+
+// Collection name constants
+const PROJECTS_COLLECTION = "projects";
+const EVIDENCE_SUBCOLLECTION = "evidence";
+
+// Largest evidence file accepted (10 MB)
+export const MAX_EVIDENCE_FILE_SIZE = 10 * 1024 * 1024;
+
+// Specification an evidence item belongs to
+export interface EvidenceTarget {
+  domainId: string;
+  controlId: string;
+  specificationId: string;
+}
+
+// Person attaching the evidence
+export interface EvidenceUploader {
+  id: string;
+  name?: string;
+}
+
+/**
+ * Get the evidence attached to a specification within a project, newest first
+ */
+export async function getSpecificationEvidence(
+  projectId: string,
+  target: EvidenceTarget
+): Promise<Evidence[]> {
+  try {
+    const q = query(
+      collection(db, PROJECTS_COLLECTION, projectId, EVIDENCE_SUBCOLLECTION),
+      where("domainId", "==", target.domainId),
+      where("controlId", "==", target.controlId),
+      where("specificationId", "==", target.specificationId)
+    );
+
+    const querySnapshot = await getDocs(q);
+
+    return (querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as Evidence[]).sort(
+      (a, b) => (b.uploadedAt?.toMillis?.() ?? 0) - (a.uploadedAt?.toMillis?.() ?? 0)
+    );
+  } catch (error) {
+    console.error(`Error getting evidence for specification ${target.specificationId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get all evidence attached within a project
+ */
+export async function getProjectEvidence(projectId: string): Promise<Evidence[]> {
+  try {
+    const querySnapshot = await getDocs(collection(db, PROJECTS_COLLECTION, projectId, EVIDENCE_SUBCOLLECTION));
+
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as Evidence[];
+  } catch (error) {
+    console.error(`Error getting evidence for project ${projectId}:`, error);
+    throw error;
+  }
+}
+
+// Store an evidence document, dropping undefined fields Firestore would reject
+async function saveEvidence(projectId: string, evidence: Omit<FirestoreEvidence, "uploadedAt" | "reviewStatus">): Promise<string> {
+  const evidenceData = Object.fromEntries(
+    Object.entries(evidence).filter(([, value]) => value !== undefined)
+  );
+
+  const docRef = await addDoc(collection(db, PROJECTS_COLLECTION, projectId, EVIDENCE_SUBCOLLECTION), {
+    ...evidenceData,
+    reviewStatus: "pending",
+    uploadedAt: serverTimestamp() as Timestamp
+  });
+  await recordAuditLog({ action: "create", entityPath: docRef.path, after: { ...evidenceData, reviewStatus: "pending" } });
+
+  return docRef.id;
+}
+
+/**
+ * Attach a link to a specification
+ */
+export async function addLinkEvidence(
+  projectId: string,
+  target: EvidenceTarget,
+  uploader: EvidenceUploader,
+  title: string,
+  url: string,
+  note?: string
+): Promise<string> {
+  try {
+    if (!title || title.trim() === "") {
+      throw new Error("Evidence title is required");
+    }
+
+    if (!/^https?:\/\//i.test(url)) {
+      throw new Error("Evidence link must be an http(s) URL");
+    }
+
+    return await saveEvidence(projectId, {
+      ...target,
+      type: "link",
+      title,
+      url,
+      note,
+      uploadedBy: uploader.id,
+      uploaderName: uploader.name
+    });
+  } catch (error) {
+    console.error("Error adding link evidence:", error);
+    throw error;
+  }
+}
+
+/**
+ * Attach a free-text note to a specification
+ */
+export async function addNoteEvidence(
+  projectId: string,
+  target: EvidenceTarget,
+  uploader: EvidenceUploader,
+  title: string,
+  note: string
+): Promise<string> {
+  try {
+    if (!title || title.trim() === "") {
+      throw new Error("Evidence title is required");
+    }
+
+    if (!note || note.trim() === "") {
+      throw new Error("Evidence note cannot be empty");
+    }
+
+    return await saveEvidence(projectId, {
+      ...target,
+      type: "note",
+      title,
+      note,
+      uploadedBy: uploader.id,
+      uploaderName: uploader.name
+    });
+  } catch (error) {
+    console.error("Error adding note evidence:", error);
+    throw error;
+  }
+}
+
+/**
+ * Upload a file and attach it to a specification
+ */
+export async function addFileEvidence(
+  projectId: string,
+  target: EvidenceTarget,
+  uploader: EvidenceUploader,
+  file: File,
+  title?: string,
+  note?: string,
+  fileStore: EvidenceFileStore = firebaseEvidenceFileStore
+): Promise<string> {
+  try {
+    if (file.size > MAX_EVIDENCE_FILE_SIZE) {
+      throw new Error("Evidence file exceeds the 10 MB limit");
+    }
+
+    const path = getEvidenceFilePath(projectId, target.specificationId, file.name);
+    const stored = await fileStore.upload(path, file, {
+      uploadedBy: uploader.id,
+      contentType: file.type || undefined
+    });
+
+    try {
+      return await saveEvidence(projectId, {
+        ...target,
+        type: "file",
+        title: title && title.trim() !== "" ? title : file.name,
+        url: stored.url,
+        note,
+        storagePath: stored.storagePath,
+        fileName: file.name,
+        contentType: file.type || undefined,
+        size: file.size,
+        uploadedBy: uploader.id,
+        uploaderName: uploader.name
+      });
+    } catch (error) {
+      // Do not leave an orphaned file behind when the metadata cannot be saved
+      await fileStore.remove(stored.storagePath).catch(() => undefined);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error adding file evidence:", error);
+    throw error;
+  }
+}
+
+/**
+ * Record the review outcome of an evidence item
+ */
+export async function updateEvidenceReviewStatus(
+  projectId: string,
+  evidenceId: string,
+  reviewStatus: EvidenceReviewStatus,
+  reviewerId: string,
+  reviewComment?: string
+): Promise<void> {
+  try {
+    const evidenceRef = doc(db, PROJECTS_COLLECTION, projectId, EVIDENCE_SUBCOLLECTION, evidenceId);
+    const before = (await getDoc(evidenceRef)).data() || {};
+    const review = {
+      reviewStatus,
+      reviewedBy: reviewerId,
+      ...(reviewComment !== undefined ? { reviewComment } : {})
+    };
+
+    await updateDoc(evidenceRef, { ...review, reviewedAt: serverTimestamp() });
+    await recordAuditLog({ action: "update", entityPath: evidenceRef.path, before, after: { ...before, ...review } });
+  } catch (error) {
+    console.error(`Error updating review status of evidence ${evidenceId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an evidence item and its uploaded file, if any
+ */
+export async function deleteEvidence(
+  projectId: string,
+  evidenceId: string,
+  fileStore: EvidenceFileStore = firebaseEvidenceFileStore
+): Promise<void> {
+  try {
+    const evidenceRef = doc(db, PROJECTS_COLLECTION, projectId, EVIDENCE_SUBCOLLECTION, evidenceId);
+    const evidenceSnap = await getDoc(evidenceRef);
+
+    if (!evidenceSnap.exists()) {
+      return;
+    }
+
+    const { storagePath } = evidenceSnap.data() as FirestoreEvidence;
+    await deleteDoc(evidenceRef);
+    await recordAuditLog({ action: "delete", entityPath: evidenceRef.path, before: evidenceSnap.data() });
+
+    if (storagePath) {
+      await fileStore.remove(storagePath);
+    }
+  } catch (error) {
+    console.error(`Error deleting evidence ${evidenceId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,72 @@
+import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
+import { storage } from "@/lib/firebase";
+
+// Root folder for evidence files in the storage bucket
+const EVIDENCE_ROOT = "evidence";
+
+// Metadata stored with an evidence file; storage rules read the uploader from it
+export interface EvidenceFileMetadata {
+  uploadedBy: string;
+  contentType?: string;
+}
+
+export interface StoredFile {
+  storagePath: string;
+  url: string;
+}
+
+/**
+ * Minimal file store used by the evidence service.
+ * The Firebase Storage implementation is used by the app; the local one keeps
+ * files in memory so the evidence flow can run without a storage bucket.
+ */
+export interface EvidenceFileStore {
+  upload: (path: string, file: Blob, metadata: EvidenceFileMetadata) => Promise<StoredFile>;
+  remove: (path: string) => Promise<void>;
+}
+
+/**
+ * Build the storage path of an evidence file
+ */
+export function getEvidenceFilePath(projectId: string, specificationId: string, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.\-]+/g, "_");
+  return `${EVIDENCE_ROOT}/${projectId}/${specificationId}/${Date.now()}_${safeName}`;
+}
+
+/**
+ * Firebase Storage backed file store
+ */
+export const firebaseEvidenceFileStore: EvidenceFileStore = {
+  upload: async (path, file, { uploadedBy, contentType }) => {
+    const fileRef = ref(storage, path);
+    await uploadBytes(fileRef, file, { contentType, customMetadata: { uploadedBy } });
+    const url = await getDownloadURL(fileRef);
+    return { storagePath: path, url };
+  },
+  remove: async (path) => {
+    await deleteObject(ref(storage, path));
+  }
+};
+
+/**
+ * In-memory file store with the same contract as Firebase Storage
+ */
+export function createLocalEvidenceFileStore(): EvidenceFileStore & { files: Map<string, Blob> } {
+  const files = new Map<string, Blob>();
+
+  return {
+    files,
+    upload: async (path, file) => {
+      files.set(path, file);
+      const url = typeof URL !== "undefined" && typeof URL.createObjectURL === "function"
+        ? URL.createObjectURL(file)
+        : `local://${path}`;
+      return { storagePath: path, url };
+    },
+    remove: async (path) => {
+      if (!files.delete(path)) {
+        throw new Error(`File not found: ${path}`);
+      }
+    }
+  };
+}
@@ -10,8 +10,18 @@ import {
     serverTimestamp,
     Timestamp,
     setDoc,
+    query,
+    orderBy,
 } from "firebase/firestore";
 import { Framework, FirestoreFramework } from "@/types/firebase";
+import { FrameworkTreeDomain, FrameworkTreeControl } from "@/types/assessment";
+import { CascadeDeleteTarget, CascadeDeletePlan, CascadeDeleteResult } from "@/types/cascade-delete";
+import { CloneFrameworkResult } from "@/types/framework-version";
+import { Domain } from "@/hooks/useDomains";
+import { Control } from "@/hooks/useControls";
+import { Specification, convertLegacyCapabilityLevel } from "@/hooks/useSpecifications";
+import { recordAuditLog } from "@/lib/services/auditLogService";
+import { notifyWebhookEvent } from "@/lib/services/webhookService";
 
 const FRAMEWORKS_COLLECTION = "frameworks";
 
@@ -83,6 +93,7 @@ export async function createFramework(
 
         
         const docRef = await addDoc(collection(db, FRAMEWORKS_COLLECTION), frameworkData);
+        await recordAuditLog({ action: "create", entityPath: docRef.path, after: frameworkData });
         
         return docRef.id;
     } catch (error) {
@@ -112,6 +123,7 @@ export async function updateFramework(
         }
         
         const docRef = doc(db, FRAMEWORKS_COLLECTION, id);
+        const before = (await getDoc(docRef)).data() || {};
         
         // Add timestamp to updates
         const updateData = {
@@ -121,6 +133,8 @@ export async function updateFramework(
         
         
         await updateDoc(docRef, updateData);
+        await recordAuditLog({ action: "update", entityPath: docRef.path, before, after: { ...before, ...updates } });
+        await notifyWebhookEvent("framework.updated", id);
     } catch (error) {
         console.error(`Error updating framework with ID ${id}:`, error);
         throw error;
@@ -128,19 +142,139 @@ export async function updateFramework(
 }
 
 /**
- * Delete a framework by ID
+ * Request a cascading delete of a framework, domain or control from the admin API.
+ * With dryRun nothing is removed and the returned plan lists what would be.
  */
-export async function deleteFramework(id: string): Promise<void> {
+export async function requestCascadeDelete(
+    target: CascadeDeleteTarget,
+    options: { dryRun?: boolean; blockIfReferenced?: boolean } = {}
+): Promise<CascadeDeleteResult> {
+    const response = await fetch('/api/admin/cascade-delete', {
+        method: 'DELETE',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...target, ...options }),
+    });
+
+    const data = await response.json();
+
+    // 409 means the delete was blocked by referencing projects; the plan is still returned
+    if (!response.ok && response.status !== 409) {
+        throw new Error(data.message || data.error || 'Failed to delete');
+    }
+
+    return data as CascadeDeleteResult;
+}
+
+/**
+ * Preview everything removed or orphaned by deleting a framework
+ */
+export async function previewFrameworkDeletion(id: string): Promise<CascadeDeletePlan> {
     try {
-        const docRef = doc(db, FRAMEWORKS_COLLECTION, id);
-        
-        await deleteDoc(docRef);
+        const result = await requestCascadeDelete({ frameworkId: id }, { dryRun: true });
+        return result.plan;
+    } catch (error) {
+        console.error(`Error previewing deletion of framework with ID ${id}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Delete a framework by ID together with its domains, controls, specifications
+ * and assessment criteria. When blockIfReferenced is set, nothing is deleted
+ * while projects still reference the framework.
+ */
+export async function deleteFramework(id: string, blockIfReferenced: boolean = false): Promise<CascadeDeleteResult> {
+    try {
+        return await requestCascadeDelete({ frameworkId: id }, { blockIfReferenced });
     } catch (error) {
         console.error(`Error deleting framework with ID ${id}:`, error);
         throw error;
     }
 }
 
+/**
+ * Deep-copy a framework with its domains, controls, specifications and
+ * assessment criteria to a new framework. Without newId an ID is generated.
+ */
+export async function cloneFramework(
+    sourceId: string,
+    name: string,
+    newId?: string
+): Promise<CloneFrameworkResult> {
+    try {
+        if (!name || name.trim() === '') {
+            throw new Error("Framework name is required");
+        }
+
+        const response = await fetch('/api/admin/clone-framework', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ sourceId, name, newId }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+            throw new Error(data.message || data.error || 'Failed to clone framework');
+        }
+
+        return data as CloneFrameworkResult;
+    } catch (error) {
+        console.error(`Error cloning framework with ID ${sourceId}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Load the full hierarchy of a framework: domains, their controls and the
+ * specifications of each control
+ */
+export async function getFrameworkTree(frameworkId: string): Promise<FrameworkTreeDomain[]> {
+    try {
+        const domainsSnapshot = await getDocs(collection(db, FRAMEWORKS_COLLECTION, frameworkId, "domains"));
+
+        return await Promise.all(domainsSnapshot.docs.map(async domainDoc => {
+            const controlsPath = `${FRAMEWORKS_COLLECTION}/${frameworkId}/domains/${domainDoc.id}/controls`;
+            const controlsSnapshot = await getDocs(collection(db, controlsPath));
+
+            const controls: FrameworkTreeControl[] = await Promise.all(controlsSnapshot.docs.map(async controlDoc => {
+                const specificationsSnapshot = await getDocs(query(
+                    collection(db, `${controlsPath}/${controlDoc.id}/specifications`),
+                    orderBy("number", "asc")
+                ));
+
+                const specifications = specificationsSnapshot.docs.map(specDoc => {
+                    const data = specDoc.data();
+                    return {
+                        ...data,
+                        id: specDoc.id,
+                        capabilityLevel: convertLegacyCapabilityLevel(data.capabilityLevel)
+                    } as Specification;
+                });
+
+                return {
+                    ...(controlDoc.data() as Control),
+                    controlId: controlDoc.id,
+                    specifications
+                };
+            }));
+
+            return {
+                ...(domainDoc.data() as Domain),
+                domainId: domainDoc.id,
+                controls
+            };
+        }));
+    } catch (error) {
+        console.error(`Error getting framework tree for framework ${frameworkId}:`, error);
+        throw error;
+    }
+}
+
 /**
  * Create or update the NPC framework document with fixed ID "npc"
  */
@@ -160,7 +294,14 @@ export async function createOrUpdateNPCFramework(): Promise<void> {
         
         // Use setDoc to create or update the document with a specific ID
         const docRef = doc(db, FRAMEWORKS_COLLECTION, "npc");
+        const beforeSnap = await getDoc(docRef);
         await setDoc(docRef, frameworkData);
+        await recordAuditLog({
+            action: beforeSnap.exists() ? "update" : "create",
+            entityPath: docRef.path,
+            before: beforeSnap.data(),
+            after: frameworkData
+        });
         
     } catch (error) {
         console.error("Error creating/updating NPC framework:", error);
@@ -185,14 +326,28 @@ export async function migrateToNpcFramework(oldId: string): Promise<boolean> {
             
             // Create or update the 'npc' document with the same data
             const npcDocRef = doc(db, FRAMEWORKS_COLLECTION, "npc");
+            const npcBefore = (await getDoc(npcDocRef)).data();
             await setDoc(npcDocRef, {
                 ...oldData,
                 updatedAt: serverTimestamp() as Timestamp
             });
+            await recordAuditLog({
+                action: npcBefore ? "update" : "create",
+                entityPath: npcDocRef.path,
+                before: npcBefore,
+                after: oldData,
+                source: `migrate:${oldDocRef.path}`
+            });
             
             
             // Delete the old document
             await deleteDoc(oldDocRef);
+            await recordAuditLog({
+                action: "delete",
+                entityPath: oldDocRef.path,
+                before: oldData,
+                source: `migrate:${oldDocRef.path}`
+            });
             
             return true;
         }
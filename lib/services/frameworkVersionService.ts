@@ -0,0 +1,121 @@
+import { db } from "@/lib/firebase";
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    orderBy,
+} from "firebase/firestore";
+import { FrameworkTreeControl, FrameworkTreeDomain } from "@/types/assessment";
+import {
+    FrameworkVersion,
+    FirestoreFrameworkVersion,
+    FrameworkVersionSnapshot,
+    getFrameworkVersionId,
+} from "@/types/framework-version";
+import { Specification, convertLegacyCapabilityLevel } from "@/hooks/useSpecifications";
+
+const FRAMEWORKS_COLLECTION = "frameworks";
+const VERSIONS_COLLECTION = "versions";
+
+/**
+ * Get the published versions of a framework, newest first
+ */
+export async function getFrameworkVersions(frameworkId: string): Promise<FrameworkVersion[]> {
+    try {
+        const versionsSnapshot = await getDocs(query(
+            collection(db, FRAMEWORKS_COLLECTION, frameworkId, VERSIONS_COLLECTION),
+            orderBy("version", "desc")
+        ));
+
+        return versionsSnapshot.docs.map(versionDoc => ({
+            id: versionDoc.id,
+            ...(versionDoc.data() as FirestoreFrameworkVersion)
+        }));
+    } catch (error) {
+        console.error(`Error getting versions of framework ${frameworkId}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Load a published version together with the hierarchy pinned in it
+ */
+export async function getFrameworkVersionSnapshot(
+    frameworkId: string,
+    version: number
+): Promise<FrameworkVersionSnapshot | null> {
+    try {
+        const versionRef = doc(db, FRAMEWORKS_COLLECTION, frameworkId, VERSIONS_COLLECTION, getFrameworkVersionId(version));
+        const versionSnap = await getDoc(versionRef);
+
+        if (!versionSnap.exists()) {
+            return null;
+        }
+
+        const domainsSnapshot = await getDocs(collection(versionRef, "domains"));
+
+        const tree = await Promise.all(domainsSnapshot.docs.map(async domainDoc => {
+            const domain = domainDoc.data() as FrameworkTreeDomain;
+
+            // Versions published before controls got their own documents keep them in the domain document
+            const controls = domain.controls
+                ? domain.controls
+                : (await getDocs(collection(domainDoc.ref, "controls"))).docs
+                    .map(controlDoc => controlDoc.data() as FrameworkTreeControl);
+
+            return {
+                ...domain,
+                domainId: domainDoc.id,
+                controls: controls.map(control => ({
+                    ...control,
+                    specifications: (control.specifications || []).map(specification => ({
+                        ...specification,
+                        capabilityLevel: convertLegacyCapabilityLevel(specification.capabilityLevel)
+                    }) as Specification)
+                }))
+            };
+        }));
+
+        return {
+            version: {
+                id: versionSnap.id,
+                ...(versionSnap.data() as FirestoreFrameworkVersion)
+            },
+            tree
+        };
+    } catch (error) {
+        console.error(`Error getting version ${version} of framework ${frameworkId}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Publish the current state of a framework as its next immutable version
+ */
+export async function publishFrameworkVersion(
+    frameworkId: string,
+    note?: string
+): Promise<{ id: string; version: number }> {
+    try {
+        const response = await fetch('/api/admin/publish-framework-version', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ frameworkId, note }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+            throw new Error(data.message || data.error || 'Failed to publish framework version');
+        }
+
+        return data;
+    } catch (error) {
+        console.error(`Error publishing a version of framework ${frameworkId}:`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,152 @@
+import { AssessmentCriteria } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain, SpecificationRating } from "@/types/assessment";
+import { GAP_PRIORITIES, GapAnalysis, GapDependencyStatus, GapItem, GapPriority } from "@/types/gap-analysis";
+import { getDependencyKey, normalizeDependencies } from "@/types/specification-dependency";
+import {
+  computeProjectScore,
+  getAchievedValue,
+  getRatingKey,
+  resolveDomainTarget,
+  resolveRatingValue
+} from "@/lib/services/assessmentScoring";
+
+/**
+ * Value the specifications of a domain are measured against: the domain's target,
+ * or the highest level (100% for percentage criteria) when it has none
+ */
+export function getGapTarget(domainId: string, criteria: AssessmentCriteria | null): number {
+  return resolveDomainTarget(domainId, criteria) ?? getAchievedValue(criteria);
+}
+
+// Must-haves come first, then what other gaps wait on and foundational work, then by capability level
+function getGapPriority(item: Pick<GapItem, "mustHave" | "blocks" | "specification">): GapPriority {
+  if (item.mustHave) return "critical";
+  const capabilityLevel = item.specification.capabilityLevel || "foundational";
+  if (item.blocks > 0 || capabilityLevel === "foundational") return "high";
+  return capabilityLevel === "advanced" ? "medium" : "low";
+}
+
+/**
+ * Gap report of a project: every applicable specification below its target (unrated ones included),
+ * with its dependencies and a priority, and the score against the target of each domain and control.
+ *
+ * Items are sorted by priority, then by gap size, then by how many other gaps depend on them;
+ * ties keep the framework order.
+ */
+export function buildGapAnalysis(
+  tree: FrameworkTreeDomain[],
+  criteria: AssessmentCriteria | null,
+  ratings: SpecificationRating[]
+): GapAnalysis {
+  const score = computeProjectScore(tree, criteria, ratings);
+  const ratingsByKey = new Map<string, SpecificationRating>();
+  ratings.forEach(rating => {
+    ratingsByKey.set(getRatingKey(rating.domainId, rating.controlId, rating.specificationId), rating);
+  });
+
+  const isMustHave = (domainId: string, controlId: string, specificationId: string) =>
+    (criteria?.controlWeights || []).some(entry =>
+      entry.domainId === domainId && entry.controlId === controlId && entry.mustHave) ||
+    (criteria?.specificationWeights || []).some(entry =>
+      entry.domainId === domainId && entry.controlId === controlId && entry.specificationId === specificationId && entry.mustHave);
+
+  // Status of every specification, to tell whether the dependencies of a gap are met
+  const statusByKey = new Map<string, GapDependencyStatus>();
+  const namesByKey = new Map<string, { en: string; ar: string }>();
+  const items: Omit<GapItem, "blocks" | "priority">[] = [];
+
+  tree.forEach(domain => {
+    const target = getGapTarget(domain.domainId, criteria);
+
+    domain.controls.forEach(control => control.specifications.forEach(specification => {
+      const key = getDependencyKey({ domainId: domain.domainId, controlId: control.controlId, specificationId: specification.id });
+      const rating = ratingsByKey.get(getRatingKey(domain.domainId, control.controlId, specification.id));
+      namesByKey.set(key, specification.name);
+
+      if (rating?.notApplicable) {
+        statusByKey.set(key, "notApplicable");
+        return;
+      }
+
+      const current = rating ? resolveRatingValue(rating, criteria) : null;
+      const gap = target - (current ?? 0);
+      if (gap <= 0) {
+        statusByKey.set(key, "met");
+        return;
+      }
+
+      statusByKey.set(key, "open");
+      items.push({
+        domainId: domain.domainId,
+        controlId: control.controlId,
+        controlName: control.name,
+        specification,
+        current,
+        target,
+        gap,
+        mustHave: isMustHave(domain.domainId, control.controlId, specification.id),
+        dependencies: []
+      });
+    }));
+  });
+
+  const withDependencies = items.map(item => ({
+    ...item,
+    dependencies: normalizeDependencies(item.specification.dependsOn).map(ref => {
+      const key = getDependencyKey(ref);
+      return { ref, name: namesByKey.get(key), status: statusByKey.get(key) ?? "missing" as const };
+    })
+  }));
+
+  const blocksByKey = new Map<string, number>();
+  withDependencies.forEach(item => item.dependencies
+    .filter(dependency => dependency.status === "open")
+    .forEach(dependency => {
+      const key = getDependencyKey(dependency.ref);
+      blocksByKey.set(key, (blocksByKey.get(key) || 0) + 1);
+    }));
+
+  const prioritized: GapItem[] = withDependencies.map(item => {
+    const blocks = blocksByKey.get(getDependencyKey({
+      domainId: item.domainId,
+      controlId: item.controlId,
+      specificationId: item.specification.id
+    })) || 0;
+    return { ...item, blocks, priority: getGapPriority({ ...item, blocks }) };
+  });
+
+  prioritized.sort((a, b) =>
+    GAP_PRIORITIES.indexOf(a.priority) - GAP_PRIORITIES.indexOf(b.priority) ||
+    b.gap - a.gap ||
+    b.blocks - a.blocks);
+
+  const countOpen = (domainId: string, controlId?: string) =>
+    prioritized.filter(item => item.domainId === domainId && (!controlId || item.controlId === controlId)).length;
+
+  return {
+    items: prioritized,
+    domains: score.domains.map(domain => {
+      const target = getGapTarget(domain.domainId, criteria);
+      return {
+        domainId: domain.domainId,
+        score: domain.score,
+        target,
+        gap: domain.score === null ? null : Math.max(0, target - domain.score),
+        openCount: countOpen(domain.domainId)
+      };
+    }),
+    controls: score.domains.flatMap(domain => {
+      const target = getGapTarget(domain.domainId, criteria);
+      return domain.controls.map(control => ({
+        domainId: domain.domainId,
+        controlId: control.controlId,
+        score: control.score,
+        target,
+        gap: control.score === null ? null : Math.max(0, target - control.score),
+        openCount: countOpen(domain.domainId, control.controlId)
+      }));
+    }),
+    ratedCount: score.ratedCount,
+    totalCount: score.totalCount
+  };
+}
@@ -0,0 +1,271 @@
+import * as XLSX from "xlsx-js-style";
+import { AssessmentCriteria, ResultBand } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain } from "@/types/assessment";
+import { GapAnalysis, GapItem } from "@/types/gap-analysis";
+import { formatDependencyReference } from "@/types/specification-dependency";
+
+export type GapReportLanguage = "en" | "ar";
+
+// Messages of the GapAnalysis namespace in the language of the report
+export type GapReportTranslate = (key: string, values?: Record<string, string | number>) => string;
+
+export interface GapReportInput {
+  lang: GapReportLanguage;
+  translate: GapReportTranslate;
+  analysis: GapAnalysis;
+  tree: FrameworkTreeDomain[];
+  criteria: AssessmentCriteria | null;
+  projectName: string;
+  overall: number | null;
+  band: ResultBand | null;
+  generatedAt: Date;
+}
+
+/**
+ * A percentage in the terms of the criteria: the level with that value when there is one
+ */
+export function formatGapValue(
+  value: number | null,
+  criteria: AssessmentCriteria | null,
+  lang: GapReportLanguage,
+  translate: GapReportTranslate
+): string {
+  if (value === null) return translate("notRated");
+  const level = criteria && criteria.type !== "percentage"
+    ? criteria.levels?.find(item => item.value === value)
+    : undefined;
+  return level ? `${level.label[lang] || level.label.en} (${value}%)` : `${Math.round(value)}%`;
+}
+
+function getDomainName(tree: FrameworkTreeDomain[], domainId: string, lang: GapReportLanguage): string {
+  const domain = tree.find(item => item.domainId === domainId);
+  return domain ? domain.name[lang] || domain.name.en : domainId;
+}
+
+// Dependencies of a gap as "reference name (status)", one per line
+function formatDependencies(item: GapItem, lang: GapReportLanguage, translate: GapReportTranslate): string {
+  return item.dependencies.map(dependency => {
+    const reference = formatDependencyReference(dependency.ref, { domainId: item.domainId, controlId: item.controlId });
+    const name = dependency.name ? ` ${dependency.name[lang] || dependency.name.en}` : "";
+    return `${reference}${name} (${translate(`dependencyStatuses.${dependency.status}`)})`;
+  }).join("\n");
+}
+
+function formatPercentage(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value)}%`;
+}
+
+function styleHeader(worksheet: XLSX.WorkSheet, columnCount: number, row = 0) {
+  for (let column = 0; column < columnCount; column++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: column })];
+    if (cell) {
+      cell.s = {
+        font: { bold: true, color: { rgb: "FFFFFF" } },
+        fill: { fgColor: { rgb: "1E3A8A" } }
+      };
+    }
+  }
+}
+
+/**
+ * Workbook of a gap report: a summary sheet with the score of each domain against its target,
+ * and a sheet with every gap in priority order
+ */
+export function buildGapReportWorkbook(input: GapReportInput): XLSX.WorkBook {
+  const { lang, translate, analysis, tree, criteria } = input;
+  const workbook = XLSX.utils.book_new();
+
+  const summaryHeaders = [
+    translate("columns.domain"),
+    translate("columns.score"),
+    translate("columns.target"),
+    translate("columns.gap"),
+    translate("columns.openGaps")
+  ];
+  const summaryRows = [
+    [translate("report.project"), input.projectName],
+    [translate("report.generatedAt"), input.generatedAt.toLocaleString(lang === "ar" ? "ar" : "en")],
+    [translate("report.overall"), formatPercentage(input.overall)],
+    [translate("report.verdict"), input.band ? input.band.label[lang] || input.band.label.en : "—"],
+    [translate("report.rated"), translate("ratedCount", { rated: analysis.ratedCount, total: analysis.totalCount })],
+    [],
+    summaryHeaders,
+    ...analysis.domains.map(domain => [
+      getDomainName(tree, domain.domainId, lang),
+      formatPercentage(domain.score),
+      formatGapValue(domain.target, criteria, lang, translate),
+      formatPercentage(domain.gap),
+      domain.openCount
+    ])
+  ];
+  const summarySheet = XLSX.utils.aoa_to_sheet(summaryRows);
+  styleHeader(summarySheet, summaryHeaders.length, 6);
+  summarySheet["!cols"] = [{ wch: 36 }, { wch: 24 }, { wch: 24 }, { wch: 12 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(workbook, summarySheet, translate("sheets.summary"));
+
+  const gapHeaders = [
+    translate("columns.priority"),
+    translate("columns.domain"),
+    translate("columns.control"),
+    translate("columns.specification"),
+    translate("columns.capabilityLevel"),
+    translate("columns.current"),
+    translate("columns.target"),
+    translate("columns.gap"),
+    translate("columns.mustHave"),
+    translate("columns.dependencies")
+  ];
+  const gapRows = analysis.items.map(item => [
+    translate(`priorities.${item.priority}`),
+    getDomainName(tree, item.domainId, lang),
+    `${item.controlId} ${item.controlName[lang] || item.controlName.en}`,
+    `${item.specification.number} ${item.specification.name[lang] || item.specification.name.en}`,
+    translate(`capabilityLevels.${item.specification.capabilityLevel || "foundational"}`),
+    formatGapValue(item.current, criteria, lang, translate),
+    formatGapValue(item.target, criteria, lang, translate),
+    Math.round(item.gap),
+    item.mustHave ? translate("yes") : "",
+    formatDependencies(item, lang, translate)
+  ]);
+  const gapSheet = XLSX.utils.aoa_to_sheet([gapHeaders, ...gapRows]);
+  styleHeader(gapSheet, gapHeaders.length);
+  gapSheet["!cols"] = [12, 28, 36, 48, 16, 24, 24, 8, 10, 48].map(wch => ({ wch }));
+  XLSX.utils.book_append_sheet(workbook, gapSheet, translate("sheets.gaps"));
+
+  workbook.Workbook = { Views: [{ RTL: lang === "ar" }] };
+  return workbook;
+}
+
+export function downloadGapReportWorkbook(input: GapReportInput, fileName: string) {
+  XLSX.writeFile(buildGapReportWorkbook(input), `${fileName}.xlsx`);
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const PRIORITY_COLORS: Record<GapItem["priority"], string> = {
+  critical: "#b91c1c",
+  high: "#c2410c",
+  medium: "#a16207",
+  low: "#4b5563"
+};
+
+/**
+ * Standalone HTML document of a gap report for printing or saving as PDF, laid out right to left for Arabic
+ */
+export function buildGapReportHtml(input: GapReportInput): string {
+  const { lang, translate, analysis, tree, criteria } = input;
+  const dir = lang === "ar" ? "rtl" : "ltr";
+  const start = lang === "ar" ? "right" : "left";
+
+  const verdict = input.band
+    ? `<span class="badge" style="color:${escapeHtml(input.band.color)};border-color:${escapeHtml(input.band.color)}">${escapeHtml(input.band.label[lang] || input.band.label.en)}</span>`
+    : "";
+
+  const domainRows = analysis.domains.map(domain => `
+      <tr>
+        <td>${escapeHtml(getDomainName(tree, domain.domainId, lang))}</td>
+        <td>${escapeHtml(formatPercentage(domain.score))}</td>
+        <td>${escapeHtml(formatGapValue(domain.target, criteria, lang, translate))}</td>
+        <td>${escapeHtml(formatPercentage(domain.gap))}</td>
+        <td>${domain.openCount}</td>
+      </tr>`).join("");
+
+  const gapRows = analysis.items.map(item => `
+      <tr>
+        <td><span class="badge" style="color:${PRIORITY_COLORS[item.priority]};border-color:${PRIORITY_COLORS[item.priority]}">${escapeHtml(translate(`priorities.${item.priority}`))}</span></td>
+        <td>${escapeHtml(getDomainName(tree, item.domainId, lang))}<div class="muted">${escapeHtml(`${item.controlId} ${item.controlName[lang] || item.controlName.en}`)}</div></td>
+        <td>${escapeHtml(`${item.specification.number} ${item.specification.name[lang] || item.specification.name.en}`)}${item.mustHave ? `<div class="must">${escapeHtml(translate("mustHave"))}</div>` : ""}</td>
+        <td>${escapeHtml(translate(`capabilityLevels.${item.specification.capabilityLevel || "foundational"}`))}</td>
+        <td>${escapeHtml(formatGapValue(item.current, criteria, lang, translate))}</td>
+        <td>${escapeHtml(formatGapValue(item.target, criteria, lang, translate))}</td>
+        <td class="num">${Math.round(item.gap)}</td>
+        <td class="deps">${escapeHtml(formatDependencies(item, lang, translate)).replace(/\n/g, "<br>")}</td>
+      </tr>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="${lang}" dir="${dir}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(translate("report.title", { project: input.projectName }))}</title>
+<style>
+  @page { size: A4 landscape; margin: 14mm; }
+  body { font-family: ${lang === "ar" ? "'Cairo', 'Segoe UI', Tahoma, sans-serif" : "'Rubik', 'Segoe UI', Arial, sans-serif"}; color: #111827; font-size: 11px; margin: 0; }
+  h1 { font-size: 20px; margin: 0 0 4px; color: #1e3a8a; }
+  h2 { font-size: 14px; margin: 20px 0 8px; color: #1e3a8a; }
+  .meta { color: #4b5563; margin-bottom: 12px; }
+  .overall { display: flex; gap: 16px; align-items: center; padding: 10px 12px; background: #eff6ff; border-radius: 6px; }
+  .overall strong { font-size: 22px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #1e3a8a; color: #fff; text-align: ${start}; padding: 6px; font-weight: 600; }
+  td { border-bottom: 1px solid #e5e7eb; padding: 6px; text-align: ${start}; vertical-align: top; }
+  tr { page-break-inside: avoid; }
+  thead { display: table-header-group; }
+  .muted { color: #6b7280; font-size: 10px; }
+  .must { color: #b45309; font-size: 10px; font-weight: 600; }
+  .num { font-weight: 600; }
+  .deps { font-size: 10px; color: #374151; }
+  .badge { display: inline-block; border: 1px solid; border-radius: 999px; padding: 1px 8px; font-size: 10px; font-weight: 600; white-space: nowrap; }
+  .empty { color: #6b7280; font-style: italic; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(translate("report.title", { project: input.projectName }))}</h1>
+  <div class="meta">${escapeHtml(translate("report.generatedAt"))}: ${escapeHtml(input.generatedAt.toLocaleString(lang === "ar" ? "ar" : "en"))}</div>
+  <div class="overall">
+    <span>${escapeHtml(translate("report.overall"))}</span>
+    <strong>${escapeHtml(formatPercentage(input.overall))}</strong>
+    ${verdict}
+    <span class="muted">${escapeHtml(translate("ratedCount", { rated: analysis.ratedCount, total: analysis.totalCount }))}</span>
+  </div>
+
+  <h2>${escapeHtml(translate("domainSummary"))}</h2>
+  <table>
+    <thead><tr>
+      <th>${escapeHtml(translate("columns.domain"))}</th>
+      <th>${escapeHtml(translate("columns.score"))}</th>
+      <th>${escapeHtml(translate("columns.target"))}</th>
+      <th>${escapeHtml(translate("columns.gap"))}</th>
+      <th>${escapeHtml(translate("columns.openGaps"))}</th>
+    </tr></thead>
+    <tbody>${domainRows}</tbody>
+  </table>
+
+  <h2>${escapeHtml(translate("gaps"))}</h2>
+  ${analysis.items.length === 0 ? `<p class="empty">${escapeHtml(translate("noGaps"))}</p>` : `
+  <table>
+    <thead><tr>
+      <th>${escapeHtml(translate("columns.priority"))}</th>
+      <th>${escapeHtml(translate("columns.domain"))}</th>
+      <th>${escapeHtml(translate("columns.specification"))}</th>
+      <th>${escapeHtml(translate("columns.capabilityLevel"))}</th>
+      <th>${escapeHtml(translate("columns.current"))}</th>
+      <th>${escapeHtml(translate("columns.target"))}</th>
+      <th>${escapeHtml(translate("columns.gap"))}</th>
+      <th>${escapeHtml(translate("columns.dependencies"))}</th>
+    </tr></thead>
+    <tbody>${gapRows}</tbody>
+  </table>`}
+</body>
+</html>`;
+}
+
+/**
+ * Open the printable report in a new window and bring up the print dialog, from which it can be saved as PDF
+ */
+export function printGapReport(input: GapReportInput): boolean {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(buildGapReportHtml(input));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
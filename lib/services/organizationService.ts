@@ -5,7 +5,6 @@ import {
   getDoc,
   getDocs,
   updateDoc,
-  deleteDoc,
   serverTimestamp,
   query,
   where,
@@ -13,6 +12,7 @@ import {
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { Organization, FirestoreOrganization } from "@/types/firebase";
+import { recordAuditLog } from "@/lib/services/auditLogService";
 
 /**
  * Create a new organization in Firestore
@@ -30,6 +30,7 @@ export async function createOrganization(
     };
 
     const docRef = await addDoc(collection(db, "organizations"), organizationData);
+    await recordAuditLog({ action: "create", entityPath: docRef.path, after: organizationData });
     return docRef.id;
   } catch (error) {
     console.error("Error creating organization:", error);
@@ -86,12 +87,14 @@ export async function updateOrganization(
 ): Promise<void> {
   try {
     const docRef = doc(db, "organizations", id);
+    const before = (await getDoc(docRef)).data() || {};
     const updateData = {
       ...updates,
       updatedAt: serverTimestamp()
     };
     
     await updateDoc(docRef, updateData);
+    await recordAuditLog({ action: "update", entityPath: docRef.path, before, after: { ...before, ...updates } });
   } catch (error) {
     console.error("Error updating organization:", error);
     throw error;
@@ -99,12 +102,22 @@ export async function updateOrganization(
 }
 
 /**
- * Delete an organization
+ * Delete an organization with its projects. Returns false when users still belong to it.
  */
-export async function deleteOrganization(id: string): Promise<void> {
+export async function deleteOrganization(id: string): Promise<boolean> {
   try {
-    const docRef = doc(db, "organizations", id);
-    await deleteDoc(docRef);
+    // The server also deletes the organization's projects with their assessment data, and audits them
+    const response = await fetch(`/api/organizations/${id}`, { method: "DELETE" });
+    const data = await response.json().catch(() => ({}));
+
+    // 409 means users still belong to the organization; nothing was deleted
+    if (response.status === 409) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(data.message || data.error || "Failed to delete organization");
+    }
+    return true;
   } catch (error) {
     console.error("Error deleting organization:", error);
     throw error;
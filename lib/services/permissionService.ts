@@ -0,0 +1,101 @@
+import { auth, db } from "@/lib/firebase";
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    serverTimestamp,
+    setDoc,
+    Timestamp,
+} from "firebase/firestore";
+import {
+    DEFAULT_ROLE_PERMISSIONS,
+    FirestoreRolePermissions,
+    LOCKED_ROLE,
+    Permission,
+    RolePermissionMatrix,
+    getRolePermissions,
+    isPermission,
+    isRole,
+} from "@/types/permissions";
+import { recordAuditLog } from "@/lib/services/auditLogService";
+
+const ROLES_COLLECTION = "roles";
+
+/**
+ * Get the permission matrix, with the defaults for roles that have not been saved yet
+ */
+export async function getRolePermissionMatrix(): Promise<RolePermissionMatrix> {
+    try {
+        const rolesSnapshot = await getDocs(collection(db, ROLES_COLLECTION));
+        const matrix: RolePermissionMatrix = { ...DEFAULT_ROLE_PERMISSIONS };
+
+        rolesSnapshot.docs.forEach(roleDoc => {
+            if (isRole(roleDoc.id) && roleDoc.id !== LOCKED_ROLE) {
+                const permissions: unknown[] = roleDoc.data().permissions || [];
+                matrix[roleDoc.id] = permissions.filter(isPermission);
+            }
+        });
+
+        return matrix;
+    } catch (error) {
+        console.error("Error getting role permissions:", error);
+        throw error;
+    }
+}
+
+/**
+ * Get the permissions granted to a single role
+ */
+export async function getPermissionsForRole(role: string): Promise<Permission[]> {
+    try {
+        if (role === LOCKED_ROLE) {
+            return getRolePermissions(role);
+        }
+
+        const roleSnap = await getDoc(doc(db, ROLES_COLLECTION, role));
+        if (!roleSnap.exists()) {
+            return getRolePermissions(role);
+        }
+
+        const permissions: unknown[] = roleSnap.data().permissions || [];
+        return permissions.filter(isPermission);
+    } catch (error) {
+        console.error("Error getting permissions for role:", error);
+        throw error;
+    }
+}
+
+/**
+ * Save the permissions granted to a role. The Admin role cannot be changed.
+ */
+export async function updateRolePermissions(role: string, permissions: Permission[]): Promise<void> {
+    try {
+        if (!isRole(role) || role === LOCKED_ROLE) {
+            throw new Error(`Permissions of role ${role} cannot be changed`);
+        }
+
+        const roleRef = doc(db, ROLES_COLLECTION, role);
+        const roleSnap = await getDoc(roleRef);
+        const before = roleSnap.exists()
+            ? roleSnap.data()
+            : { permissions: DEFAULT_ROLE_PERMISSIONS[role] };
+
+        const roleData: FirestoreRolePermissions = {
+            permissions: permissions.filter(isPermission),
+            updatedBy: auth.currentUser?.uid || "",
+            updatedAt: serverTimestamp() as Timestamp
+        };
+
+        await setDoc(roleRef, roleData);
+        await recordAuditLog({
+            action: roleSnap.exists() ? "update" : "create",
+            entityPath: roleRef.path,
+            before: roleSnap.exists() ? before : null,
+            after: roleData
+        });
+    } catch (error) {
+        console.error("Error updating role permissions:", error);
+        throw error;
+    }
+}
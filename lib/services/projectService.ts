@@ -5,18 +5,39 @@ import {
   getDoc,
   getDocs,
   updateDoc,
-  deleteDoc,
   serverTimestamp,
   query,
   where,
+  runTransaction,
   Timestamp
 } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { auth, db } from "@/lib/firebase";
 import { Project, FirestoreProject } from "@/types/firebase";
+import { Permission, ProjectAccessScope } from "@/types/permissions";
+import {
+  INITIAL_PROJECT_STATUSES,
+  ProjectStatus,
+  ProjectStatusChange,
+  getStatusTransition
+} from "@/types/project-lifecycle";
+import { getNextDueDate } from "@/types/project-milestone";
+import { recordAuditLog } from "@/lib/services/auditLogService";
+import { notifyWebhookEvent } from "@/lib/services/webhookService";
 
 // Collection name constant
 const PROJECTS_COLLECTION = "projects";
 
+// Fields that only change through the status workflow or are derived on save
+export type ProjectUpdate = Partial<Omit<FirestoreProject, "status" | "statusHistory" | "nextDueDate" | "createdAt" | "updatedAt">>;
+
+// Signed-in user recorded in the status history
+function getStatusChangeAuthor(changedByName?: string): Pick<ProjectStatusChange, "changedBy" | "changedByName"> {
+  return {
+    changedBy: auth.currentUser?.uid || "",
+    ...(changedByName ? { changedByName } : {})
+  };
+}
+
 /**
  * Create a new project in Firestore
  */
@@ -26,11 +47,17 @@ export async function createProject(
   owner: string,
   startDate: string,
   projectDeadline: string,
-  status: string = "open",
+  status: ProjectStatus = "open",
   frameworkId: string,
-  defaultLang: string = "en"
+  defaultLang: string = "en",
+  frameworkVersion: number | null = null,
+  createdByName?: string
 ): Promise<string> {
   try {
+    if (!INITIAL_PROJECT_STATUSES.includes(status)) {
+      throw new Error(`Projects cannot be created with status ${status}`);
+    }
+
     const projectData: FirestoreProject = {
       name,
       description,
@@ -39,12 +66,21 @@ export async function createProject(
       projectDeadline,
       status,
       frameworkId,
+      frameworkVersion,
       defaultLang,
+      nextDueDate: getNextDueDate({ projectDeadline }),
+      statusHistory: [{
+        from: null,
+        to: status,
+        ...getStatusChangeAuthor(createdByName),
+        changedAt: Timestamp.now()
+      }],
       createdAt: serverTimestamp() as Timestamp,
       updatedAt: serverTimestamp() as Timestamp
     };
 
     const docRef = await addDoc(collection(db, PROJECTS_COLLECTION), projectData);
+    await recordAuditLog({ action: "create", entityPath: docRef.path, after: projectData });
     return docRef.id;
   } catch (error) {
     console.error("Error creating project:", error);
@@ -69,6 +105,42 @@ export async function getAllProjects(): Promise<Project[]> {
   }
 }
 
+/**
+ * Get the projects within a user's access scope.
+ * Assigned projects are read one by one, since the security rules only allow
+ * queries they can verify for every returned document.
+ */
+export async function getAccessibleProjects(scope: ProjectAccessScope): Promise<Project[]> {
+  try {
+    if (scope.allProjects) {
+      return await getAllProjects();
+    }
+
+    const [assignedProjects, organizationProjects] = await Promise.all([
+      Promise.all(scope.projectIds.map(projectId =>
+        // Assignments can outlive their project, so missing projects are skipped
+        getProjectById(projectId).catch(error => {
+          console.error(`Error getting assigned project ${projectId}:`, error);
+          return null;
+        })
+      )),
+      scope.organizationId ? getProjectsByOrganization(scope.organizationId) : Promise.resolve([])
+    ]);
+
+    const projects = new Map<string, Project>();
+    [...assignedProjects, ...organizationProjects].forEach(project => {
+      if (project) {
+        projects.set(project.id, project);
+      }
+    });
+
+    return Array.from(projects.values());
+  } catch (error) {
+    console.error("Error getting accessible projects:", error);
+    throw error;
+  }
+}
+
 /**
  * Get a project by ID
  */
@@ -92,31 +164,119 @@ export async function getProjectById(id: string): Promise<Project | null> {
 }
 
 /**
- * Update a project in Firestore
+ * Update a project in Firestore. The status is changed with changeProjectStatus.
  */
-export async function updateProject(id: string, data: Partial<FirestoreProject>): Promise<void> {
+export async function updateProject(id: string, data: ProjectUpdate): Promise<void> {
   try {
+    if ("status" in data || "statusHistory" in data) {
+      throw new Error("Project status can only be changed through changeProjectStatus");
+    }
+
     const projectRef = doc(db, PROJECTS_COLLECTION, id);
+    const before = (await getDoc(projectRef)).data() || {};
     
-    // Add the updated timestamp
+    // Add the updated timestamp, and the next due date when the deadline or milestones change
     const updateData = {
       ...data,
+      ...("projectDeadline" in data || "milestones" in data
+        ? { nextDueDate: getNextDueDate({ ...before, ...data } as FirestoreProject) }
+        : {}),
       updatedAt: serverTimestamp()
     };
     
     await updateDoc(projectRef, updateData);
+    await recordAuditLog({ action: "update", entityPath: projectRef.path, before, after: { ...before, ...data } });
   } catch (error) {
     console.error("Error updating project:", error);
     throw error;
   }
 }
 
+/**
+ * Generate an ID for a new milestone of a project
+ */
+export function createMilestoneId(): string {
+  return doc(collection(db, PROJECTS_COLLECTION)).id;
+}
+
+/**
+ * Move a project to another status, checking the transition is allowed for the user's permissions
+ * and that a reason is given where one is required. The change is appended to the status history.
+ */
+export async function changeProjectStatus(
+  id: string,
+  to: ProjectStatus,
+  options: {
+    permissions: Permission[];
+    reason?: string;
+    changedByName?: string;
+  }
+): Promise<ProjectStatusChange> {
+  try {
+    const projectRef = doc(db, PROJECTS_COLLECTION, id);
+    const reason = options.reason?.trim();
+
+    const { before, change } = await runTransaction(db, async (transaction) => {
+      const projectSnap = await transaction.get(projectRef);
+      if (!projectSnap.exists()) {
+        throw new Error(`Project ${id} not found`);
+      }
+
+      const project = projectSnap.data() as FirestoreProject;
+      const transition = getStatusTransition(project.status, to);
+      if (!transition) {
+        throw new Error(`Projects cannot move from ${project.status} to ${to}`);
+      }
+      if (!options.permissions.includes(transition.permission)) {
+        throw new Error(`Moving a project from ${project.status} to ${to} requires ${transition.permission}`);
+      }
+      if (transition.requiresReason && !reason) {
+        throw new Error(`A reason is required to move a project to ${to}`);
+      }
+
+      const statusChange: ProjectStatusChange = {
+        from: project.status,
+        to,
+        ...(reason ? { reason } : {}),
+        ...getStatusChangeAuthor(options.changedByName),
+        changedAt: Timestamp.now()
+      };
+
+      transaction.update(projectRef, {
+        status: to,
+        statusHistory: [...(project.statusHistory || []), statusChange],
+        updatedAt: serverTimestamp()
+      });
+
+      return { before: project, change: statusChange };
+    });
+
+    await recordAuditLog({
+      action: "update",
+      entityPath: projectRef.path,
+      before: { status: before.status },
+      after: { status: to, ...(reason ? { statusReason: reason } : {}) },
+      source: "status-change"
+    });
+    await notifyWebhookEvent("project.status_changed", id);
+    return change;
+  } catch (error) {
+    console.error("Error changing project status:", error);
+    throw error;
+  }
+}
+
 /**
  * Delete a project from Firestore
  */
 export async function deleteProject(id: string): Promise<void> {
   try {
-    await deleteDoc(doc(db, PROJECTS_COLLECTION, id));
+    // The server also deletes the ratings, evidence and evidence files of the project, and audits them
+    const response = await fetch(`/api/projects/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || data.error || "Failed to delete project");
+    }
   } catch (error) {
     console.error("Error deleting project:", error);
     throw error;
@@ -0,0 +1,156 @@
+import { WebhookDelivery, WebhookEndpoint, WebhookEndpointInput, WebhookEventType } from "@/types/webhook";
+
+// Webhook endpoints and deliveries are only reachable through the admin routes: they hold the signing secrets
+
+async function request<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * Tell the server about a change written with the client SDK so it can notify the subscribed endpoints.
+ * Failures are logged and not rethrown, since the change itself has already been written.
+ */
+export async function notifyWebhookEvent(type: WebhookEventType, entityId: string): Promise<void> {
+  try {
+    await request("/api/webhooks/events", {
+      method: "POST",
+      body: JSON.stringify({ type, entityId }),
+    }, "Failed to dispatch webhook event");
+  } catch (error) {
+    console.error(`Error dispatching webhook event ${type} for ${entityId}:`, error);
+  }
+}
+
+export async function getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+  try {
+    const data = await request<{ endpoints: WebhookEndpoint[] }>("/api/admin/webhooks", {}, "Failed to fetch webhook endpoints");
+    return data.endpoints;
+  } catch (error) {
+    console.error("Error fetching webhook endpoints:", error);
+    throw error;
+  }
+}
+
+/**
+ * Create an endpoint. The signing secret is returned once and cannot be retrieved later.
+ */
+export async function createWebhookEndpoint(
+  input: WebhookEndpointInput
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  try {
+    return await request("/api/admin/webhooks", {
+      method: "POST",
+      body: JSON.stringify(input),
+    }, "Failed to create webhook endpoint");
+  } catch (error) {
+    console.error("Error creating webhook endpoint:", error);
+    throw error;
+  }
+}
+
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  changes: Partial<WebhookEndpointInput>
+): Promise<WebhookEndpoint> {
+  try {
+    const data = await request<{ endpoint: WebhookEndpoint }>(`/api/admin/webhooks/${endpointId}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    }, "Failed to update webhook endpoint");
+    return data.endpoint;
+  } catch (error) {
+    console.error(`Error updating webhook endpoint ${endpointId}:`, error);
+    throw error;
+  }
+}
+
+export async function deleteWebhookEndpoint(endpointId: string): Promise<void> {
+  try {
+    await request(`/api/admin/webhooks/${endpointId}`, { method: "DELETE" }, "Failed to delete webhook endpoint");
+  } catch (error) {
+    console.error(`Error deleting webhook endpoint ${endpointId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Send a ping to an endpoint and return its delivery
+ */
+export async function pingWebhookEndpoint(endpointId: string): Promise<WebhookDelivery> {
+  try {
+    const data = await request<{ delivery: WebhookDelivery }>(
+      `/api/admin/webhooks/${endpointId}/ping`,
+      { method: "POST" },
+      "Failed to ping webhook endpoint"
+    );
+    return data.delivery;
+  } catch (error) {
+    console.error(`Error pinging webhook endpoint ${endpointId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the most recent deliveries, optionally of one endpoint
+ */
+export async function getWebhookDeliveries(endpointId?: string, limit: number = 50): Promise<WebhookDelivery[]> {
+  try {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (endpointId) {
+      params.set("endpointId", endpointId);
+    }
+
+    const data = await request<{ deliveries: WebhookDelivery[] }>(
+      `/api/admin/webhooks/deliveries?${params}`,
+      {},
+      "Failed to fetch webhook deliveries"
+    );
+    return data.deliveries;
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send a delivery again now
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookDelivery> {
+  try {
+    const data = await request<{ delivery: WebhookDelivery }>(
+      `/api/admin/webhooks/deliveries/${deliveryId}`,
+      { method: "POST" },
+      "Failed to redeliver webhook"
+    );
+    return data.delivery;
+  } catch (error) {
+    console.error(`Error redelivering webhook ${deliveryId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Retry every delivery whose next attempt is due, and return how many were tried
+ */
+export async function retryDueWebhookDeliveries(): Promise<number> {
+  try {
+    const data = await request<{ processed: number }>(
+      "/api/admin/webhooks/deliveries",
+      { method: "POST" },
+      "Failed to retry webhook deliveries"
+    );
+    return data.processed;
+  } catch (error) {
+    console.error("Error retrying webhook deliveries:", error);
+    throw error;
+  }
+}
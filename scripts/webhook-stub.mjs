@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+// Local receiver for testing webhooks: logs every delivery and checks its signature.
+//
+//   WEBHOOK_SECRET=whsec_... npm run webhook:stub
+//
+// Add http://localhost:4000/ as an endpoint on the Webhooks page. Set WEBHOOK_STUB_FAIL=1
+// to answer 500 and watch the deliveries being retried.
+
+import { createServer } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const port = Number(process.env.PORT || 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.WEBHOOK_STUB_FAIL === '1';
+
+function isSignatureValid(timestamp, body, signature) {
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`);
+  const actual = Buffer.from(signature || '');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const event = req.headers['x-webhook-event'];
+    const delivery = req.headers['x-webhook-delivery'];
+    const signature = secret
+      ? (isSignatureValid(req.headers['x-webhook-timestamp'], body, req.headers['x-webhook-signature']) ? 'valid' : 'INVALID')
+      : 'not checked (WEBHOOK_SECRET unset)';
+
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url} ${event} (delivery ${delivery}), signature ${signature}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch (_) {
+      console.log(body);
+    }
+
+    const status = fail ? 500 : signature === 'INVALID' ? 401 : 200;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: status === 200 }));
+  });
+}).listen(port, () => {
+  console.log(`Webhook stub listening on http://localhost:${port}/`);
+});
@@ -0,0 +1,72 @@
+import { Timestamp } from "firebase/firestore";
+import { PERMISSIONS, Permission } from "@/types/permissions";
+
+// Tokens look like "agw_<keyId>_<secret>": the key ID locates the document without scanning the collection
+export const API_KEY_TOKEN_PREFIX = "agw_";
+
+// Role recorded for requests made with an API key, e.g. as the audit log actor role
+export const API_KEY_ROLE = "ApiKey";
+
+// A key can never be granted the right to issue keys itself
+export const API_KEY_PERMISSIONS: Permission[] = PERMISSIONS.filter(permission => permission !== "apiKey:manage");
+
+export type ApiKeyStatus = "active" | "expired" | "revoked";
+
+// API key in Firestore (apiKeys/{keyId}); only a hash of the secret is stored
+export interface FirestoreApiKey {
+  name: string;
+  organizationId: string; // Organization the key acts for
+  permissions: Permission[];
+  secretHash: string; // SHA-256 of the secret, hex encoded
+  hint: string; // Last characters of the token, to tell keys apart
+  createdBy: string; // User ID
+  createdByName?: string;
+  createdAt: Timestamp | null;
+  expiresAt: Timestamp | null; // null for keys that never expire
+  lastUsedAt: Timestamp | null;
+  revokedAt: Timestamp | null;
+  revokedBy?: string; // User ID
+}
+
+// API key as returned by /api/admin/api-keys: without the hash, timestamps as ISO strings
+export interface ApiKey {
+  id: string;
+  name: string;
+  organizationId: string;
+  permissions: Permission[];
+  hint: string;
+  createdBy: string;
+  createdByName?: string;
+  createdAt: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// Input of issuing a key
+export interface ApiKeyInput {
+  name: string;
+  organizationId: string;
+  permissions: Permission[];
+  expiresAt: string | null; // yyyy-MM-dd, the key stops working at the end of that day
+}
+
+export function formatApiKeyToken(keyId: string, secret: string): string {
+  return `${API_KEY_TOKEN_PREFIX}${keyId}_${secret}`;
+}
+
+// Split a token into its key ID and secret, or null when it is not an API key token
+export function parseApiKeyToken(token: string): { keyId: string; secret: string } | null {
+  const match = new RegExp(`^${API_KEY_TOKEN_PREFIX}([A-Za-z0-9]+)_([A-Za-z0-9_-]+)$`).exec(token);
+  return match ? { keyId: match[1], secret: match[2] } : null;
+}
+
+export function getApiKeyStatus(key: Pick<ApiKey, "expiresAt" | "revokedAt">, now: Date = new Date()): ApiKeyStatus {
+  if (key.revokedAt) {
+    return "revoked";
+  }
+  if (key.expiresAt && new Date(key.expiresAt).getTime() <= now.getTime()) {
+    return "expired";
+  }
+  return "active";
+}
@@ -19,16 +19,69 @@ export interface DomainWeight {
   weight: number; // percentage value (0-100)
 }
 
+// Weight of a control within its domain (percentage, 0-100), and whether it has to be met
+export interface ControlWeight {
+  domainId: string;
+  controlId: string;
+  weight?: number; // Unset while the controls of the domain count equally
+  mustHave?: boolean;
+}
+
+// Weight of a specification within its control (percentage, 0-100), and whether it has to be met
+export interface SpecificationWeight {
+  domainId: string;
+  controlId: string;
+  specificationId: string;
+  weight?: number; // Unset while the specifications of the control count equally
+  mustHave?: boolean;
+}
+
+// Domain score while a must-have control or specification of the domain is unmet, unless configured
+export const DEFAULT_MUST_HAVE_CAP = 50;
+
+// Range of scores (percentages, bounds included) that earns a verdict such as "Compliant"
+export interface ResultBand {
+  label: LocalizedText;
+  color: string; // Hex color the verdict is shown in
+  min: number;
+  max: number;
+}
+
+// Score a domain is expected to reach: a level of the criteria, or a percentage for the percentage type
+export interface DomainTarget {
+  domainId: string;
+  levelIndex?: number; // Resolved through CriteriaLevel.value, like ratings
+  value?: number;
+}
+
+// Version of a criteria template the levels of a framework's criteria were taken from
+export interface CriteriaTemplateReference {
+  templateId: string;
+  version: number;
+  name: LocalizedText;
+}
+
 // Types of assessment criteria
 export type CriteriaType = "percentage" | "maturity" | "compliance";
 
+// Percentage steps offered when rating against the "percentage" criteria type
+export const PERCENTAGE_STEPS = [0, 25, 50, 75, 100];
+
 // Assessment criteria stored in Firestore
 export interface AssessmentCriteria {
   frameworkId: string;
   type: CriteriaType;
   levels?: CriteriaLevel[]; // Only for maturity or compliance types
   domainWeights: DomainWeight[];
+  controlWeights?: ControlWeight[]; // Without entries every control of a domain counts equally
+  specificationWeights?: SpecificationWeight[]; // Without entries every specification of a control counts equally
+  mustHaveCap?: number; // Highest domain score while a must-have is unmet, DEFAULT_MUST_HAVE_CAP when unset
+  template?: CriteriaTemplateReference; // Unset when the levels were not taken from a template
+  resultBands?: ResultBand[]; // Without bands scores are shown without a verdict
+  domainTargets?: DomainTarget[]; // Domains without an entry have no target
   createdAt: Timestamp;
+  updatedAt?: Timestamp; // Unset until the criteria are saved again
+  updatedBy?: string;
 }
 
 // Domain interface (simplified, used for domain selection in criteria)
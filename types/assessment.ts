@@ -0,0 +1,88 @@
+import { Timestamp } from "firebase/firestore";
+import { Domain } from "@/hooks/useDomains";
+import { Control } from "@/hooks/useControls";
+import { Specification } from "@/hooks/useSpecifications";
+import { ResultBand } from "@/types/assessment-criteria";
+
+// Rating given to a single specification within a project
+export interface SpecificationRating {
+  domainId: string;
+  controlId: string;
+  specificationId: string;
+  levelIndex?: number; // Index into AssessmentCriteria.levels (maturity/compliance)
+  value?: number; // Direct percentage (0-100), used by the percentage criteria type
+  notApplicable?: boolean; // Excluded from the roll-up when true
+  comment?: string;
+  ratedBy?: string;
+  updatedAt: Timestamp | null;
+}
+
+// Framework hierarchy loaded in one pass (framework → domains → controls → specifications)
+export interface FrameworkTreeControl extends Control {
+  specifications: Specification[];
+}
+
+export interface FrameworkTreeDomain extends Domain {
+  controls: FrameworkTreeControl[];
+}
+
+// Roll-up results
+export interface ControlScore {
+  domainId: string;
+  controlId: string;
+  score: number | null; // null when no specification of the control has been rated
+  ratedCount: number;
+  totalCount: number;
+}
+
+export interface DomainScore {
+  domainId: string;
+  score: number | null;
+  weight: number; // percentage value (0-100) from AssessmentCriteria.domainWeights
+  controls: ControlScore[];
+  capped: boolean; // Score held at AssessmentCriteria.mustHaveCap because a must-have is unmet
+  unmetMustHaves: { controlId: string; specificationId?: string }[];
+  band: ResultBand | null; // Result band of AssessmentCriteria.resultBands the score falls in
+  target: number | null; // Target percentage from AssessmentCriteria.domainTargets, null without a target
+  belowTarget: boolean; // Scored below its target
+  ratedCount: number;
+  totalCount: number;
+}
+
+export interface ProjectScore {
+  overall: number | null;
+  band: ResultBand | null;
+  domains: DomainScore[];
+  ratedCount: number;
+  totalCount: number;
+}
+
+// Evidence attached to a specification within a project
+export type EvidenceType = "file" | "link" | "note";
+export type EvidenceReviewStatus = "pending" | "accepted" | "rejected";
+
+export interface FirestoreEvidence {
+  domainId: string;
+  controlId: string;
+  specificationId: string;
+  type: EvidenceType;
+  title: string;
+  url?: string; // Download URL for files, target URL for links
+  note?: string;
+  storagePath?: string; // Path of the uploaded file in the evidence file store
+  fileName?: string;
+  contentType?: string;
+  size?: number;
+  uploadedBy: string;
+  uploaderName?: string;
+  uploadedAt: Timestamp | null;
+  reviewStatus: EvidenceReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: Timestamp | null;
+  reviewComment?: string;
+}
+
+// Evidence with ID (for frontend use)
+export interface Evidence extends FirestoreEvidence {
+  id: string;
+}
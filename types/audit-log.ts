@@ -0,0 +1,124 @@
+import { Timestamp } from "firebase/firestore";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditEntityType =
+  | "framework"
+  | "domain"
+  | "control"
+  | "specification"
+  | "frameworkVersion"
+  | "assessmentCriteria"
+  | "criteriaTemplate"
+  | "project"
+  | "organization"
+  | "user"
+  | "role"
+  | "controlMapping"
+  | "apiKey"
+  | "webhook"
+  | "rating"
+  | "evidence"
+  | "other";
+
+// Top-level field whose value differs between the stored document before and after the mutation
+export interface AuditFieldChange {
+  field: string;
+  before: unknown; // null when the field did not exist
+  after: unknown; // null when the field was removed
+}
+
+// Entry of the append-only auditLogs collection, one per created, updated or deleted document
+export interface FirestoreAuditLog {
+  actorUid: string;
+  actorRole: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityPath: string; // e.g. "frameworks/npc/domains/D1"
+  changes: AuditFieldChange[];
+  source?: string; // What triggered the change when not a direct edit, e.g. "import:{jobId}"
+  createdAt: Timestamp | null;
+}
+
+// Audit log entry with ID (for frontend use)
+export interface AuditLog extends FirestoreAuditLog {
+  id: string;
+}
+
+// Mutation to record; before is omitted for creates and after for deletes
+export interface AuditChange {
+  action: AuditAction;
+  entityPath: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  source?: string;
+}
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  actorUid?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Bookkeeping fields that change on every write and are left out of the diff
+const IGNORED_FIELDS = ["createdAt", "updatedAt"];
+
+const ENTITY_TYPES: Record<string, AuditEntityType> = {
+  frameworks: "framework",
+  domains: "domain",
+  controls: "control",
+  specifications: "specification",
+  versions: "frameworkVersion",
+  assessmentCriteria: "assessmentCriteria",
+  criteriaTemplates: "criteriaTemplate",
+  projects: "project",
+  organizations: "organization",
+  users: "user",
+  roles: "role",
+  controlMappings: "controlMapping",
+  apiKeys: "apiKey",
+  webhooks: "webhook",
+  ratings: "rating",
+  evidence: "evidence"
+};
+
+// Entity type of a document path, taken from the collection it lives in
+export function getAuditEntityType(entityPath: string): AuditEntityType {
+  const segments = entityPath.split("/");
+  return ENTITY_TYPES[segments[segments.length - 2]] || "other";
+}
+
+// Firestore rejects undefined, and key order should not make equal maps look different
+function normalizeAuditValue(value: any): any {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.map(normalizeAuditValue);
+  if (typeof value === "object" && value.constructor === Object) {
+    return Object.keys(value).sort().reduce((result, key) => {
+      result[key] = normalizeAuditValue(value[key]);
+      return result;
+    }, {} as Record<string, any>);
+  }
+  return value;
+}
+
+/**
+ * List the top-level fields that differ between two versions of a document.
+ * A missing before means the document was created, a missing after that it was deleted.
+ */
+export function diffAuditFields(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .sort()
+    .map(field => ({
+      field,
+      before: normalizeAuditValue(before?.[field]),
+      after: normalizeAuditValue(after?.[field])
+    }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
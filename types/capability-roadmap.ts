@@ -0,0 +1,41 @@
+import { CapabilityLevel, Specification } from "@/hooks/useSpecifications";
+import { Control } from "@/hooks/useControls";
+
+// Roadmap phases in adoption order, and the control dimensions within each phase
+export const ROADMAP_LEVELS: CapabilityLevel[] = ["foundational", "advanced", "veryAdvanced"];
+export const ROADMAP_DIMENSIONS: Control["dimension"][] = ["plan", "implement", "operate"];
+
+// Where a specification stands in the selected project
+export const ROADMAP_STATUSES = ["achieved", "inProgress", "notStarted", "notApplicable"] as const;
+export type RoadmapStatus = typeof ROADMAP_STATUSES[number];
+
+export interface RoadmapItem {
+  domainId: string;
+  controlId: string;
+  controlName: { en: string; ar: string };
+  specification: Specification;
+  status: RoadmapStatus | null; // null without a project
+}
+
+// Counts of a group of specifications; percentage is the share of all specifications in the roadmap
+export interface RoadmapCounts {
+  count: number;
+  percentage: number;
+  achievedCount: number;
+  applicableCount: number; // Specifications not marked not applicable
+}
+
+export interface RoadmapCell extends RoadmapCounts {
+  dimension: Control["dimension"];
+  items: RoadmapItem[];
+}
+
+export interface RoadmapPhase extends RoadmapCounts {
+  capabilityLevel: CapabilityLevel;
+  cells: RoadmapCell[];
+}
+
+export interface CapabilityRoadmap extends RoadmapCounts {
+  phases: RoadmapPhase[];
+  dimensions: (RoadmapCounts & { dimension: Control["dimension"] })[];
+}
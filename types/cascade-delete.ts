@@ -0,0 +1,42 @@
+// Node of the framework hierarchy removed by a cascading delete.
+// Only frameworkId → deletes the whole framework; with domainId → the domain; with controlId → the control.
+export interface CascadeDeleteTarget {
+  frameworkId: string;
+  domainId?: string;
+  controlId?: string;
+}
+
+// Project that still references the deleted framework or holds assessment data under it
+export interface CascadeDeleteProjectReference {
+  id: string;
+  name: Record<string, string>;
+  status: string;
+}
+
+// Preview of everything a cascading delete touches
+export interface CascadeDeletePlan {
+  target: CascadeDeleteTarget;
+  documents: string[]; // Paths of every framework document that will be removed
+  assessmentRecords: string[]; // Paths of project ratings/evidence that point at removed items
+  mappings: string[]; // Paths of controlMappings documents with an endpoint in the removed items
+  dependents: string[]; // Paths of specifications left depending on removed ones; those dependsOn entries are removed
+  criteriaChange: "delete" | "update" | null; // What happens to assessmentCriteria/{frameworkId}
+  referencingProjects: CascadeDeleteProjectReference[]; // Projects left pointing at removed items
+  pinnedProjects: CascadeDeleteProjectReference[]; // Projects pinned to a published version of the deleted framework; they block the delete
+}
+
+// Outcome of deleting projects with everything below them
+export interface ProjectDeleteResult {
+  success: boolean;
+  deletedCount: number;
+  failedPaths: string[]; // Documents, or evidence/{projectId}/ file prefixes, that could not be deleted
+}
+
+export interface CascadeDeleteResult {
+  success: boolean;
+  dryRun: boolean;
+  blocked: boolean;
+  deletedCount: number;
+  failedPaths: string[]; // Documents whose delete or update failed
+  plan: CascadeDeletePlan;
+}
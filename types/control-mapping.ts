@@ -0,0 +1,98 @@
+import { Timestamp } from "firebase/firestore";
+import { SpecificationRating } from "@/types/assessment";
+
+// How closely a mapped item covers the other:
+// equivalent → same requirement, partial → covers part of it, related → on the same topic
+export const MAPPING_RELATIONSHIPS = ["equivalent", "partial", "related"] as const;
+export type MappingRelationship = typeof MAPPING_RELATIONSHIPS[number];
+
+// Relationships strong enough for an assessment result to be proposed across the mapping
+export const PROPOSING_RELATIONSHIPS: MappingRelationship[] = ["equivalent", "partial"];
+
+// A control, or one of its specifications, in a framework
+export interface MappingEndpoint {
+  frameworkId: string;
+  domainId: string;
+  controlId: string;
+  specificationId?: string | null; // Unset when the whole control is mapped
+}
+
+// Link between items of two frameworks, stored in controlMappings/{mappingId}
+export interface FirestoreControlMapping {
+  source: MappingEndpoint;
+  target: MappingEndpoint;
+  relationship: MappingRelationship;
+  note?: string;
+  frameworkIds: string[]; // Both frameworks, to list the mappings of a framework
+  controlKeys: string[]; // getControlKey() of both sides, to list the mappings of a control
+  createdAt: Timestamp | null;
+  updatedAt: Timestamp | null;
+}
+
+export interface ControlMapping extends FirestoreControlMapping {
+  id: string;
+}
+
+// Result of another project's assessment, proposed for a specification mapped to the rated item
+export interface MappingProposal {
+  input: Pick<SpecificationRating, "levelIndex" | "value" | "notApplicable">; // In the terms of the target project's criteria
+  relationship: MappingRelationship;
+  source: MappingEndpoint;
+  projectId: string;
+  projectName: Record<string, string>;
+}
+
+export function isMappingRelationship(value: unknown): value is MappingRelationship {
+  return MAPPING_RELATIONSHIPS.includes(value as MappingRelationship);
+}
+
+export function getControlKey(endpoint: MappingEndpoint): string {
+  return `${endpoint.frameworkId}__${endpoint.domainId}__${endpoint.controlId}`;
+}
+
+export function getEndpointKey(endpoint: MappingEndpoint): string {
+  const controlKey = getControlKey(endpoint);
+  return endpoint.specificationId ? `${controlKey}__${endpoint.specificationId}` : controlKey;
+}
+
+// Readable reference to an endpoint, e.g. "npc / D1 / C1 / S1"
+export function formatMappingEndpoint(endpoint: MappingEndpoint): string {
+  return [endpoint.frameworkId, endpoint.domainId, endpoint.controlId, endpoint.specificationId]
+    .filter(Boolean)
+    .join(" / ");
+}
+
+/**
+ * Document ID of the mapping between two items. The same for both directions,
+ * so an item pair is mapped at most once and imports can be re-run.
+ */
+export function getMappingId(a: MappingEndpoint, b: MappingEndpoint): string {
+  return [getEndpointKey(a), getEndpointKey(b)].sort().join("--");
+}
+
+// Side of a mapping opposite to the given framework's item
+export function getMappedEndpoint(mapping: FirestoreControlMapping, frameworkId: string): {
+  own: MappingEndpoint;
+  other: MappingEndpoint;
+} {
+  return mapping.source.frameworkId === frameworkId
+    ? { own: mapping.source, other: mapping.target }
+    : { own: mapping.target, other: mapping.source };
+}
+
+// Build the stored mapping, with the derived lookup fields
+export function buildControlMapping(
+  source: MappingEndpoint,
+  target: MappingEndpoint,
+  relationship: MappingRelationship,
+  note?: string
+): Omit<FirestoreControlMapping, "createdAt" | "updatedAt"> {
+  return {
+    source: { ...source, specificationId: source.specificationId || null },
+    target: { ...target, specificationId: target.specificationId || null },
+    relationship,
+    ...(note ? { note } : {}),
+    frameworkIds: [source.frameworkId, target.frameworkId],
+    controlKeys: [getControlKey(source), getControlKey(target)]
+  };
+}
@@ -0,0 +1,50 @@
+import { Timestamp } from "firebase/firestore";
+import { AssessmentCriteria, CriteriaLevel, LocalizedText } from "@/types/assessment-criteria";
+
+// Criteria types that use levels, and so can be built from a template
+export type LevelCriteriaType = "maturity" | "compliance";
+
+// Reusable level set stored in criteriaTemplates/{templateId}; levels and version are those of the latest version.
+// Every saved version is kept in the versions/{versionId} subcollection.
+export interface FirestoreCriteriaTemplate {
+  name: LocalizedText;
+  description: LocalizedText;
+  type: LevelCriteriaType;
+  levels: CriteriaLevel[];
+  version: number; // 1, 2, 3…
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Criteria template with ID (for frontend use)
+export interface CriteriaTemplate extends FirestoreCriteriaTemplate {
+  id: string;
+}
+
+// One saved version of a template's levels
+export interface CriteriaTemplateVersion {
+  id: string;
+  version: number;
+  levels: CriteriaLevel[];
+  note?: string;
+  savedBy: string;
+  savedAt: Timestamp;
+}
+
+// What happened to a criteria configuration when it was moved to assessmentCriteria/{frameworkId}/history
+export type CriteriaHistoryReason = "update" | "restore" | "delete";
+
+// Previous criteria configuration of a framework, kept when it was replaced or deleted
+export interface CriteriaHistoryEntry {
+  id: string;
+  criteria: AssessmentCriteria;
+  reason: CriteriaHistoryReason;
+  replacedBy: string;
+  replacedAt: Timestamp;
+}
+
+// Document ID of a template version
+export function getCriteriaTemplateVersionId(version: number): string {
+  return `v${version}`;
+}
@@ -0,0 +1,37 @@
+import { ProjectStatus } from "@/types/project-lifecycle";
+
+export const USER_STATUSES = ["Active", "Inactive"] as const;
+
+// How far a framework is from being usable in assessments:
+// empty → no domains yet, missingCriteria → content but no assessment criteria,
+// ready → content and criteria, published → at least one published version
+export const FRAMEWORK_COMPLETENESS = ["empty", "missingCriteria", "ready", "published"] as const;
+export type FrameworkCompleteness = typeof FRAMEWORK_COMPLETENESS[number];
+
+// Data types tracked by DashboardStatsContext
+export type DashboardDataType = "users" | "projects" | "frameworks";
+
+export interface UserStatsCounts {
+  total: number;
+  byRole: Record<string, number>;
+  byStatus: Record<string, number>;
+}
+
+export interface ProjectFrameworkCount {
+  frameworkId: string;
+  name: string;
+  count: number;
+}
+
+export interface ProjectStatsCounts {
+  total: number;
+  byStatus: Record<ProjectStatus, number>;
+  byFramework: ProjectFrameworkCount[];
+  overdue: number; // Projects not closed yet whose deadline or an open milestone has passed
+  atRisk: number; // Projects not closed yet with their next due date within AT_RISK_DAYS
+}
+
+export interface FrameworkStatsCounts {
+  total: number;
+  byCompleteness: Record<FrameworkCompleteness, number>;
+}
@@ -1,4 +1,6 @@
 import { Timestamp } from "firebase/firestore";
+import { ProjectStatus, ProjectStatusChange } from "@/types/project-lifecycle";
+import { ProjectMilestone } from "@/types/project-milestone";
 
 // User in Firestore
 export interface FirestoreUser {
@@ -58,8 +60,12 @@ export interface FirestoreProject {
   organizationId: string;
   startDate: string;
   projectDeadline: string;
-  status: string; // open | closed | on-holding
+  status: ProjectStatus; // Changed only through the lifecycle transitions in types/project-lifecycle.ts
+  statusHistory?: ProjectStatusChange[]; // Oldest first
   frameworkId: string;
+  frameworkVersion?: number | null; // Published framework version the project is pinned to; live framework when unset
+  milestones?: ProjectMilestone[];
+  nextDueDate?: string | null; // Derived with getNextDueDate() on every save, for the dashboard queries
   defaultLang: string;
   createdAt: Timestamp | null;
   updatedAt: Timestamp | null;
@@ -0,0 +1,47 @@
+import { Timestamp } from "firebase/firestore";
+import { AssessmentCriteria } from "@/types/assessment-criteria";
+import { FrameworkTreeDomain } from "@/types/assessment";
+
+// Immutable published version (v1, v2…) of a framework stored under frameworks/{frameworkId}/versions.
+// The hierarchy is kept as one document per domain in the versions/{versionId}/domains subcollection,
+// with one document per control and its specifications in domains/{domainId}/controls.
+// Versions published earlier hold the controls in the domain document instead.
+export interface FirestoreFrameworkVersion {
+  frameworkId: string;
+  version: number; // 1, 2, 3…
+  label: string; // "v1", "v2"…
+  note?: string;
+  framework: {
+    name: string;
+    description: Record<string, string>;
+    defaultLang?: string;
+  };
+  criteria: AssessmentCriteria | null; // assessmentCriteria/{frameworkId} at publish time
+  domainCount: number;
+  controlCount: number;
+  specificationCount: number;
+  publishedBy: string;
+  publishedAt: Timestamp | null;
+}
+
+// Framework version with ID (for frontend use)
+export interface FrameworkVersion extends FirestoreFrameworkVersion {
+  id: string;
+}
+
+// Published version with its pinned hierarchy
+export interface FrameworkVersionSnapshot {
+  version: FrameworkVersion;
+  tree: FrameworkTreeDomain[];
+}
+
+export interface CloneFrameworkResult {
+  frameworkId: string;
+  copiedCount: number; // Domain, control and specification documents copied
+  criteriaCopied: boolean;
+}
+
+// Document ID of a published version
+export function getFrameworkVersionId(version: number): string {
+  return `v${version}`;
+}
@@ -0,0 +1,48 @@
+import { Specification } from "@/hooks/useSpecifications";
+import { SpecificationDependency } from "@/types/specification-dependency";
+
+// Order in which gaps are worked on
+export const GAP_PRIORITIES = ["critical", "high", "medium", "low"] as const;
+export type GapPriority = typeof GAP_PRIORITIES[number];
+
+// Where a dependency of a specification with a gap stands in the project
+export type GapDependencyStatus = "met" | "open" | "notApplicable" | "missing";
+
+export interface GapDependency {
+  ref: SpecificationDependency;
+  name?: { en: string; ar: string }; // Unset when the dependency is not part of the framework
+  status: GapDependencyStatus;
+}
+
+// Specification rated below its target, or not rated yet
+export interface GapItem {
+  domainId: string;
+  controlId: string;
+  controlName: { en: string; ar: string };
+  specification: Specification;
+  current: number | null; // Percentage of the rating, null while unrated
+  target: number; // Target of the domain, or the highest level without one
+  gap: number; // Percentage points between current (0 while unrated) and target
+  mustHave: boolean;
+  dependencies: GapDependency[];
+  blocks: number; // Other specifications with a gap that depend on this one
+  priority: GapPriority;
+}
+
+// Current score against the target of a domain or control
+export interface GapSummary {
+  domainId: string;
+  controlId?: string; // Unset for domain summaries
+  score: number | null;
+  target: number;
+  gap: number | null; // null while nothing is rated
+  openCount: number; // Specifications with a gap
+}
+
+export interface GapAnalysis {
+  items: GapItem[]; // Sorted by priority
+  domains: GapSummary[];
+  controls: GapSummary[];
+  ratedCount: number;
+  totalCount: number;
+}
@@ -0,0 +1,107 @@
+import { Timestamp } from "firebase/firestore";
+
+// Roles a user can hold; the role is stored on users/{uid} and in the auth custom claims
+export const ROLES = ["Admin", "Consultant", "Client"] as const;
+export type Role = typeof ROLES[number];
+
+// Admin always holds every permission so the matrix can never lock everyone out
+export const LOCKED_ROLE: Role = "Admin";
+
+// Every permission the platform checks, as "<resource>:<action>"
+export const PERMISSIONS = [
+  "framework:view",
+  "framework:edit",
+  "framework:publish",
+  "project:view",
+  "project:edit",
+  "project:assess",
+  "evidence:review",
+  "organization:manage",
+  "user:manage",
+  "audit:view",
+  "role:manage",
+  "apiKey:manage",
+  "webhook:manage",
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+// Roles that also see every project of their own organization, besides the projects assigned to them
+export const ORGANIZATION_SCOPED_ROLES: Role[] = ["Client"];
+
+// Permissions granted to each role
+export type RolePermissionMatrix = Record<Role, Permission[]>;
+
+// Matrix used for roles that have no roles/{role} document yet
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissionMatrix = {
+  Admin: [...PERMISSIONS],
+  Consultant: [
+    "framework:view",
+    "framework:edit",
+    "project:view",
+    "project:assess",
+    "evidence:review",
+  ],
+  Client: [
+    "framework:view",
+    "project:view",
+  ],
+};
+
+// Permissions of a role in Firestore (roles/{role})
+export interface FirestoreRolePermissions {
+  permissions: Permission[];
+  updatedBy: string;
+  updatedAt: Timestamp | null;
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return PERMISSIONS.includes(value as Permission);
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+// Permissions of a role, falling back to the defaults when it has no saved entry
+export function getRolePermissions(
+  role: string,
+  matrix: Partial<Record<string, Permission[]>> = {}
+): Permission[] {
+  if (role === LOCKED_ROLE) {
+    return [...PERMISSIONS];
+  }
+  return matrix[role] ?? (isRole(role) ? DEFAULT_ROLE_PERMISSIONS[role] : []);
+}
+
+// Projects a user can see: every project for project editors, otherwise the assigned ones
+// plus, for organization-scoped roles, those of their organization
+export interface ProjectAccessScope {
+  allProjects: boolean;
+  projectIds: string[];
+  organizationId: string | null;
+}
+
+export function getProjectAccessScope(
+  user: { role: string; organizationId?: string; assignedProjectIds?: string[] },
+  permissions: Permission[]
+): ProjectAccessScope {
+  if (permissions.includes("project:edit")) {
+    return { allProjects: true, projectIds: [], organizationId: null };
+  }
+  if (!permissions.includes("project:view")) {
+    return { allProjects: false, projectIds: [], organizationId: null };
+  }
+
+  const organizationScoped = ORGANIZATION_SCOPED_ROLES.includes(user.role as Role);
+  return {
+    allProjects: false,
+    projectIds: user.assignedProjectIds || [],
+    organizationId: organizationScoped && user.organizationId ? user.organizationId : null,
+  };
+}
+
+export function canAccessProject(scope: ProjectAccessScope, project: { id: string; organizationId: string }): boolean {
+  return scope.allProjects ||
+    scope.projectIds.includes(project.id) ||
+    (scope.organizationId !== null && project.organizationId === scope.organizationId);
+}
@@ -0,0 +1,64 @@
+import { Timestamp } from "firebase/firestore";
+import { Permission } from "@/types/permissions";
+
+// Lifecycle of a project: draft → open → in-review → closed, with on-hold from any active state
+export const PROJECT_STATUSES = ["draft", "open", "in-review", "on-holding", "closed"] as const;
+export type ProjectStatus = typeof PROJECT_STATUSES[number];
+
+// Statuses a project can be created in
+export const INITIAL_PROJECT_STATUSES: ProjectStatus[] = ["draft", "open"];
+
+// Statuses in which the assessment is being worked on
+export const ACTIVE_PROJECT_STATUSES: ProjectStatus[] = ["open", "in-review"];
+
+// Ratings and evidence of projects in these statuses are read-only
+export const READ_ONLY_PROJECT_STATUSES: ProjectStatus[] = ["closed"];
+
+export interface ProjectStatusTransition {
+  from: ProjectStatus;
+  to: ProjectStatus;
+  permission: Permission; // Permission the user's role needs to make the change
+  requiresReason: boolean;
+}
+
+// Every allowed status change. Keep in sync with isAllowedStatusChange() in firestore.rules.
+export const PROJECT_STATUS_TRANSITIONS: ProjectStatusTransition[] = [
+  { from: "draft", to: "open", permission: "project:edit", requiresReason: false },
+  { from: "open", to: "in-review", permission: "project:assess", requiresReason: false },
+  { from: "in-review", to: "open", permission: "project:edit", requiresReason: false },
+  { from: "in-review", to: "closed", permission: "project:edit", requiresReason: true },
+  { from: "open", to: "on-holding", permission: "project:edit", requiresReason: true },
+  { from: "in-review", to: "on-holding", permission: "project:edit", requiresReason: true },
+  { from: "on-holding", to: "open", permission: "project:edit", requiresReason: false },
+  { from: "on-holding", to: "in-review", permission: "project:edit", requiresReason: false },
+  { from: "closed", to: "open", permission: "project:edit", requiresReason: true },
+];
+
+// Entry of FirestoreProject.statusHistory, appended on every status change
+export interface ProjectStatusChange {
+  from: ProjectStatus | null; // null for the status the project was created in
+  to: ProjectStatus;
+  reason?: string;
+  changedBy: string; // User ID
+  changedByName?: string;
+  changedAt: Timestamp;
+}
+
+export function isProjectStatus(value: unknown): value is ProjectStatus {
+  return PROJECT_STATUSES.includes(value as ProjectStatus);
+}
+
+export function getStatusTransition(from: string, to: string): ProjectStatusTransition | null {
+  return PROJECT_STATUS_TRANSITIONS.find(transition => transition.from === from && transition.to === to) || null;
+}
+
+// Status changes the given permissions allow from a status
+export function getAvailableTransitions(from: string, permissions: Permission[]): ProjectStatusTransition[] {
+  return PROJECT_STATUS_TRANSITIONS.filter(transition =>
+    transition.from === from && permissions.includes(transition.permission)
+  );
+}
+
+export function isProjectReadOnly(status: string): boolean {
+  return READ_ONLY_PROJECT_STATUSES.includes(status as ProjectStatus);
+}
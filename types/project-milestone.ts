@@ -0,0 +1,65 @@
+import { addDays, format } from "date-fns";
+import { ProjectStatus, isProjectReadOnly } from "@/types/project-lifecycle";
+
+// A project is at risk when its next due date falls within this many days
+export const AT_RISK_DAYS = 14;
+
+// Milestone of a project, stored in FirestoreProject.milestones
+export interface ProjectMilestone {
+  id: string;
+  name: string;
+  dueDate: string; // yyyy-MM-dd, like projectDeadline
+  ownerId: string; // User responsible for the milestone
+  ownerName?: string;
+  domainIds: string[]; // Framework domains the milestone covers
+  completedAt?: string | null; // yyyy-MM-dd; the milestone is open while unset
+}
+
+// Where a project or milestone stands against its due date
+export const SCHEDULE_STATES = ["overdue", "atRisk", "onTrack"] as const;
+export type ScheduleState = typeof SCHEDULE_STATES[number];
+
+// Fields of a project the schedule is computed from
+export interface ProjectSchedule {
+  status: ProjectStatus;
+  projectDeadline: string;
+  milestones?: ProjectMilestone[];
+}
+
+export function isMilestoneOpen(milestone: ProjectMilestone): boolean {
+  return !milestone.completedAt;
+}
+
+// Dates are compared as yyyy-MM-dd strings
+export function toScheduleDate(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Earliest of the project deadline and the due dates of its open milestones.
+ * Stored on the project as nextDueDate so the dashboard can count overdue and at-risk projects.
+ */
+export function getNextDueDate(project: Omit<ProjectSchedule, "status">): string | null {
+  const dueDates = [
+    project.projectDeadline,
+    ...(project.milestones || []).filter(isMilestoneOpen).map(milestone => milestone.dueDate)
+  ].filter(Boolean);
+
+  return dueDates.length > 0 ? dueDates.sort()[0] : null;
+}
+
+export function getScheduleState(dueDate: string | null, today: Date = new Date()): ScheduleState {
+  if (!dueDate) return "onTrack";
+  if (dueDate < toScheduleDate(today)) return "overdue";
+  if (dueDate <= toScheduleDate(addDays(today, AT_RISK_DAYS))) return "atRisk";
+  return "onTrack";
+}
+
+export function getMilestoneScheduleState(milestone: ProjectMilestone, today: Date = new Date()): ScheduleState {
+  return isMilestoneOpen(milestone) ? getScheduleState(milestone.dueDate, today) : "onTrack";
+}
+
+// Closed projects are no longer tracked against their dates
+export function getProjectScheduleState(project: ProjectSchedule, today: Date = new Date()): ScheduleState {
+  return isProjectReadOnly(project.status) ? "onTrack" : getScheduleState(getNextDueDate(project), today);
+}
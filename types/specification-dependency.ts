@@ -0,0 +1,265 @@
+import { CapabilityLevel } from "@/hooks/useSpecifications";
+import { FrameworkTreeDomain } from "@/types/assessment";
+
+// Specification of the same framework that has to be met first, stored in Specification.dependsOn
+export interface SpecificationDependency {
+  domainId: string;
+  controlId: string;
+  specificationId: string;
+}
+
+// Specification in the dependency graph of a framework
+export interface DependencyGraphNode {
+  ref: SpecificationDependency;
+  name?: { en: string; ar: string };
+  capabilityLevel?: CapabilityLevel;
+  dependsOn: SpecificationDependency[];
+}
+
+// Nodes by getDependencyKey()
+export type DependencyGraph = Map<string, DependencyGraphNode>;
+
+// Why a dependency cannot be saved
+export type DependencyProblem =
+  | { type: "self"; dependency: SpecificationDependency }
+  | { type: "missing"; dependency: SpecificationDependency }
+  | { type: "cycle"; dependency: SpecificationDependency; cycle: string[] }; // Keys from the specification back to it
+
+// Part of the framework hierarchy: a domain, a control, or a single specification
+export interface DependencyScope {
+  domainId: string;
+  controlId?: string;
+  specificationId?: string;
+}
+
+// Separates the parts of a reference such as "D1/C1/S1"; document IDs cannot contain it
+const REFERENCE_SEPARATOR = "/";
+
+export function getDependencyKey(ref: SpecificationDependency): string {
+  return [ref.domainId, ref.controlId, ref.specificationId].join(REFERENCE_SEPARATOR);
+}
+
+export function parseDependencyKey(key: string): SpecificationDependency | null {
+  const parts = key.split(REFERENCE_SEPARATOR);
+  if (parts.length !== 3 || parts.some(part => !part)) return null;
+  return { domainId: parts[0], controlId: parts[1], specificationId: parts[2] };
+}
+
+export function isSpecificationDependency(value: unknown): value is SpecificationDependency {
+  const ref = value as SpecificationDependency;
+  return !!ref && typeof ref === "object" &&
+    [ref.domainId, ref.controlId, ref.specificationId].every(part =>
+      typeof part === "string" && part.length > 0 && !part.includes(REFERENCE_SEPARATOR));
+}
+
+/**
+ * Well-formed dependencies without duplicates, in a stable order so saved lists compare equal
+ */
+export function normalizeDependencies(dependsOn: unknown): SpecificationDependency[] {
+  if (!Array.isArray(dependsOn)) return [];
+
+  const byKey = new Map<string, SpecificationDependency>();
+  dependsOn.filter(isSpecificationDependency).forEach(ref => {
+    byKey.set(getDependencyKey(ref), {
+      domainId: ref.domainId,
+      controlId: ref.controlId,
+      specificationId: ref.specificationId
+    });
+  });
+  return [...byKey.keys()].sort().map(key => byKey.get(key) as SpecificationDependency);
+}
+
+export function isInDependencyScope(ref: SpecificationDependency, scope: DependencyScope): boolean {
+  return ref.domainId === scope.domainId &&
+    (!scope.controlId || ref.controlId === scope.controlId) &&
+    (!scope.specificationId || ref.specificationId === scope.specificationId);
+}
+
+/**
+ * Reference shown to users and used in import files: the specification number within the same control,
+ * "domainId/controlId/specificationId" otherwise
+ */
+export function formatDependencyReference(ref: SpecificationDependency, from?: Omit<DependencyScope, "specificationId">): string {
+  return from && ref.domainId === from.domainId && ref.controlId === from.controlId
+    ? ref.specificationId
+    : getDependencyKey(ref);
+}
+
+/**
+ * Resolve a reference written by a user: a full "domainId/controlId/specificationId" path, or a
+ * specification number looked up in the same control first and then in the whole framework
+ */
+export function resolveDependencyReference(
+  reference: string,
+  graph: DependencyGraph,
+  from: Omit<DependencyScope, "specificationId">
+): { dependency: SpecificationDependency } | { error: string } {
+  const text = reference.trim();
+
+  if (text.includes(REFERENCE_SEPARATOR)) {
+    const dependency = parseDependencyKey(text);
+    if (!dependency) {
+      return { error: `Invalid dependency "${text}", expected domainId/controlId/specificationId` };
+    }
+    return graph.has(text) ? { dependency } : { error: `Dependency ${text} does not exist` };
+  }
+
+  const sameControl = graph.get(getDependencyKey({ domainId: from.domainId, controlId: from.controlId || "", specificationId: text }));
+  if (sameControl) {
+    return { dependency: sameControl.ref };
+  }
+
+  const matches = [...graph.values()].filter(node => node.ref.specificationId === text);
+  if (matches.length === 1) {
+    return { dependency: matches[0].ref };
+  }
+  return {
+    error: matches.length === 0
+      ? `Dependency ${text} does not exist`
+      : `Dependency ${text} is ambiguous, use one of: ${matches.map(node => getDependencyKey(node.ref)).join(", ")}`
+  };
+}
+
+/**
+ * Dependency graph of every specification in a framework hierarchy
+ */
+export function buildDependencyGraph(tree: FrameworkTreeDomain[]): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+
+  tree.forEach(domain => domain.controls.forEach(control => control.specifications.forEach(specification => {
+    const ref = { domainId: domain.domainId, controlId: control.controlId, specificationId: specification.id };
+    graph.set(getDependencyKey(ref), {
+      ref,
+      name: specification.name,
+      capabilityLevel: specification.capabilityLevel,
+      dependsOn: normalizeDependencies(specification.dependsOn)
+    });
+  })));
+
+  return graph;
+}
+
+/**
+ * Path by which the specification would depend on itself with the given dependencies,
+ * or null when they do not close a cycle
+ */
+export function findDependencyCycle(
+  graph: DependencyGraph,
+  source: SpecificationDependency,
+  dependsOn: SpecificationDependency[]
+): string[] | null {
+  const sourceKey = getDependencyKey(source);
+  const visited = new Set<string>();
+
+  const visit = (key: string, path: string[]): string[] | null => {
+    if (key === sourceKey) return [...path, key];
+    if (visited.has(key)) return null;
+    visited.add(key);
+
+    for (const next of graph.get(key)?.dependsOn || []) {
+      const cycle = visit(getDependencyKey(next), [...path, key]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const dependency of dependsOn) {
+    const cycle = visit(getDependencyKey(dependency), [sourceKey]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Check the dependencies of a specification against the rest of the framework
+ */
+export function validateSpecificationDependencies(
+  graph: DependencyGraph,
+  source: SpecificationDependency,
+  dependsOn: SpecificationDependency[]
+): DependencyProblem[] {
+  const sourceKey = getDependencyKey(source);
+  const problems: DependencyProblem[] = [];
+
+  for (const dependency of dependsOn) {
+    const key = getDependencyKey(dependency);
+    if (key === sourceKey) {
+      problems.push({ type: "self", dependency });
+    } else if (!graph.has(key)) {
+      problems.push({ type: "missing", dependency });
+    } else {
+      const cycle = findDependencyCycle(graph, source, [dependency]);
+      if (cycle) {
+        problems.push({ type: "cycle", dependency, cycle });
+      }
+    }
+  }
+
+  return problems;
+}
+
+export function describeDependencyProblem(problem: DependencyProblem): string {
+  const key = getDependencyKey(problem.dependency);
+  switch (problem.type) {
+    case "self": return "A specification cannot depend on itself";
+    case "missing": return `Dependency ${key} does not exist`;
+    case "cycle": return `Dependency ${key} creates a cycle: ${problem.cycle.join(" → ")}`;
+  }
+}
+
+/**
+ * Specifications outside the removed part of the hierarchy that depend on something inside it
+ */
+export function findDependents(graph: DependencyGraph, removed: DependencyScope): DependencyGraphNode[] {
+  return [...graph.values()].filter(node =>
+    !isInDependencyScope(node.ref, removed) &&
+    node.dependsOn.some(dependency => isInDependencyScope(dependency, removed))
+  );
+}
+
+/**
+ * Keys of the specifications that are part of a dependency cycle
+ * (strongly connected components with more than one specification, or a specification depending on itself)
+ */
+export function findCyclicDependencies(graph: DependencyGraph): Set<string> {
+  const cyclic = new Set<string>();
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (key: string) => {
+    index.set(key, index.size);
+    lowLink.set(key, index.get(key) as number);
+    stack.push(key);
+    onStack.add(key);
+
+    for (const next of graph.get(key)?.dependsOn || []) {
+      const nextKey = getDependencyKey(next);
+      if (!graph.has(nextKey)) continue;
+
+      if (!index.has(nextKey)) {
+        visit(nextKey);
+        lowLink.set(key, Math.min(lowLink.get(key) as number, lowLink.get(nextKey) as number));
+      } else if (onStack.has(nextKey)) {
+        lowLink.set(key, Math.min(lowLink.get(key) as number, index.get(nextKey) as number));
+      }
+    }
+
+    // Root of a component: everything above it on the stack belongs to the component
+    if (lowLink.get(key) === index.get(key)) {
+      const component = stack.splice(stack.lastIndexOf(key));
+      component.forEach(item => onStack.delete(item));
+
+      const dependsOnItself = graph.get(key)?.dependsOn.some(dependency => getDependencyKey(dependency) === key);
+      if (component.length > 1 || dependsOnItself) {
+        component.forEach(item => cyclic.add(item));
+      }
+    }
+  };
+
+  graph.forEach((_, key) => {
+    if (!index.has(key)) visit(key);
+  });
+  return cyclic;
+}
@@ -0,0 +1,250 @@
+import { Timestamp } from "firebase/firestore";
+import { SpecificationContent, VersionHistory } from "@/hooks/useSpecifications";
+import { getDependencyKey, normalizeDependencies } from "@/types/specification-dependency";
+
+// Fields compared between two versions, in display order
+export const SPECIFICATION_DIFF_FIELDS = [
+  "name",
+  "description",
+  "dependency",
+  "dependsOn",
+  "capabilityLevel",
+  "subSpecifications"
+] as const;
+export type SpecificationDiffField = typeof SPECIFICATION_DIFF_FIELDS[number];
+
+// One field of two versions side by side; language is null for capabilityLevel and dependsOn
+export interface SpecificationDiffRow {
+  field: SpecificationDiffField;
+  language: "en" | "ar" | null;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+export interface TextDiffSegment {
+  text: string;
+  type: "same" | "added" | "removed";
+}
+
+// Who saved a version and why
+export interface SpecificationVersionDetails {
+  note?: { en: string; ar: string };
+  changedBy: string;
+  changedByName?: string;
+  restoredFrom?: string;
+}
+
+// Beyond this many token pairs the word diff marks the whole text as changed
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Versions are numbers like the importer's ("1.0", "1.1"…), optionally prefixed with "v"
+const VERSION_PATTERN = /^(v?)(\d+(?:\.\d+)*)$/i;
+
+const bilingual = (value?: { en?: string; ar?: string }) => ({ en: value?.en || "", ar: value?.ar || "" });
+
+/**
+ * Normalized content of a specification, so snapshots compare equal when nothing changed.
+ * Legacy numeric capability levels must be converted before.
+ */
+export function getSpecificationContent(data: Partial<SpecificationContent>): SpecificationContent {
+  return {
+    name: bilingual(data.name),
+    description: bilingual(data.description),
+    dependency: bilingual(data.dependency),
+    dependsOn: normalizeDependencies(data.dependsOn),
+    capabilityLevel: data.capabilityLevel || "foundational",
+    subSpecifications: (data.subSpecifications || []).map(subSpec => ({
+      name: bilingual(subSpec.name),
+      description: bilingual(subSpec.description)
+    }))
+  };
+}
+
+export function isSameSpecificationContent(a: SpecificationContent, b: SpecificationContent): boolean {
+  return JSON.stringify(getSpecificationContent(a)) === JSON.stringify(getSpecificationContent(b));
+}
+
+function parseVersion(version: string): { prefix: string; parts: number[] } | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  return match ? { prefix: match[1], parts: match[2].split(".").map(Number) } : null;
+}
+
+function compareVersionParts(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Next version number: the last number of the highest version in the history is incremented
+ */
+export function getNextSpecificationVersion(history: VersionHistory[]): string {
+  const versions = history
+    .map(entry => parseVersion(entry.version))
+    .filter((version): version is NonNullable<ReturnType<typeof parseVersion>> => version !== null);
+
+  if (versions.length === 0) {
+    return `${history.length + 1}.0`;
+  }
+
+  const highest = versions.reduce((max, version) => compareVersionParts(version.parts, max.parts) > 0 ? version : max);
+  const parts = [...highest.parts];
+  parts[parts.length - 1] += 1;
+  return highest.prefix + parts.join(".");
+}
+
+// Latest version with a content snapshot
+export function getLatestSnapshot(history: VersionHistory[]): VersionHistory | null {
+  return [...history].reverse().find(entry => entry.content) || null;
+}
+
+/**
+ * Append a snapshot of the content with the next version number. Histories without snapshots yet
+ * (imported or hand-written entries) first get the content stored until now as their baseline,
+ * on their latest entry or as a version of its own, so the first saved change can be compared and undone.
+ * The history is returned unchanged when the content is the same as the stored content.
+ */
+export function appendSpecificationVersion(
+  history: VersionHistory[],
+  stored: { content: SpecificationContent; date: string | Timestamp } | null,
+  content: SpecificationContent,
+  details: SpecificationVersionDetails,
+  date: string = new Date().toISOString()
+): VersionHistory[] {
+  if (stored && isSameSpecificationContent(stored.content, content)) {
+    return history;
+  }
+
+  const entries = [...history];
+  if (stored && !getLatestSnapshot(entries)) {
+    const last = entries[entries.length - 1];
+    if (last) {
+      entries[entries.length - 1] = { ...last, content: getSpecificationContent(stored.content) };
+    } else {
+      entries.push({
+        version: getNextSpecificationVersion(entries),
+        date: stored.date,
+        content: getSpecificationContent(stored.content)
+      });
+    }
+  }
+
+  // Firestore rejects undefined fields
+  entries.push({
+    version: getNextSpecificationVersion(entries),
+    date,
+    content: getSpecificationContent(content),
+    changedBy: details.changedBy,
+    ...(details.changedByName ? { changedByName: details.changedByName } : {}),
+    ...(details.note && (details.note.en || details.note.ar) ? { note: details.note } : {}),
+    ...(details.restoredFrom ? { restoredFrom: details.restoredFrom } : {})
+  });
+  return entries;
+}
+
+// Sub-specifications compared as one numbered list per language
+function formatSubSpecifications(content: SpecificationContent, language: "en" | "ar"): string {
+  return (content.subSpecifications || [])
+    .map((subSpec, index) => [`${index + 1}. ${subSpec.name[language]}`, subSpec.description?.[language]]
+      .filter(Boolean)
+      .join("\n"))
+    .join("\n\n");
+}
+
+/**
+ * Compare two snapshots field by field, in English and Arabic
+ */
+export function diffSpecificationContent(before: SpecificationContent, after: SpecificationContent): SpecificationDiffRow[] {
+  const rows: SpecificationDiffRow[] = [];
+
+  for (const field of SPECIFICATION_DIFF_FIELDS) {
+    if (field === "capabilityLevel") {
+      rows.push({
+        field,
+        language: null,
+        before: before.capabilityLevel,
+        after: after.capabilityLevel,
+        changed: before.capabilityLevel !== after.capabilityLevel
+      });
+      continue;
+    }
+
+    if (field === "dependsOn") {
+      // Snapshots from before dependsOn have none
+      const beforeText = normalizeDependencies(before.dependsOn).map(getDependencyKey).join("\n");
+      const afterText = normalizeDependencies(after.dependsOn).map(getDependencyKey).join("\n");
+      rows.push({ field, language: null, before: beforeText, after: afterText, changed: beforeText !== afterText });
+      continue;
+    }
+
+    for (const language of ["en", "ar"] as const) {
+      const beforeText = field === "subSpecifications"
+        ? formatSubSpecifications(before, language)
+        : before[field]?.[language] || "";
+      const afterText = field === "subSpecifications"
+        ? formatSubSpecifications(after, language)
+        : after[field]?.[language] || "";
+
+      rows.push({ field, language, before: beforeText, after: afterText, changed: beforeText !== afterText });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence of words and whitespace)
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ text: before, type: "removed" as const }] : []),
+      ...(after ? [{ text: after, type: "added" as const }] : [])
+    ];
+  }
+
+  // lengths[i * width + j] = length of the common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (text: string, type: TextDiffSegment["type"]) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+
+  return segments;
+}
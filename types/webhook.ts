@@ -0,0 +1,107 @@
+import { Timestamp } from "firebase/firestore";
+
+// Events an endpoint can subscribe to
+export const WEBHOOK_EVENT_TYPES = [
+  "project.status_changed",
+  "framework.updated",
+  "user.created",
+] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+// Sent on demand from the webhooks page to check an endpoint, whatever it subscribes to
+export const WEBHOOK_PING_EVENT = "webhook.ping";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+// Attempts made for a delivery before it is marked failed
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+// Wait before retrying after the given number of failed attempts: 30s, 2m, 8m, 32m, ~2h
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return 30 * 1000 * Math.pow(4, attempts - 1);
+}
+
+// Webhook endpoint in Firestore (webhooks/{endpointId})
+export interface FirestoreWebhookEndpoint {
+  organizationId: string; // Organization whose events the endpoint receives
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  secret: string; // Signs the payloads; never returned to clients after creation
+  active: boolean;
+  createdBy: string; // User ID
+  createdAt: Timestamp | null;
+  updatedAt: Timestamp | null;
+}
+
+// Webhook endpoint as returned by /api/admin/webhooks: without the secret, timestamps as ISO strings
+export interface WebhookEndpoint {
+  id: string;
+  organizationId: string;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  active: boolean;
+  createdBy: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+// Fields of an endpoint an admin sets
+export interface WebhookEndpointInput {
+  organizationId: string;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  active: boolean;
+}
+
+// Body of every webhook request
+export interface WebhookPayload {
+  id: string; // Event ID, the same for every endpoint and redelivery of the event
+  type: WebhookEventType | typeof WEBHOOK_PING_EVENT;
+  createdAt: string;
+  organizationId: string | null; // null for events about the shared framework catalogue
+  data: Record<string, any>;
+}
+
+// Delivery of an event to one endpoint, in Firestore (webhookDeliveries/{deliveryId})
+export interface FirestoreWebhookDelivery {
+  endpointId: string;
+  organizationId: string;
+  url: string; // Endpoint URL at the time of the event
+  eventId: string;
+  eventType: WebhookPayload["type"];
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Timestamp | null; // null once the delivery succeeded or failed for good
+  lastAttemptAt: Timestamp | null;
+  responseStatus: number | null; // HTTP status of the last attempt
+  lastError: string | null;
+  createdAt: Timestamp | null;
+  deliveredAt: Timestamp | null;
+}
+
+// Delivery as returned by /api/admin/webhooks/deliveries, timestamps as ISO strings
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  organizationId: string;
+  url: string;
+  eventId: string;
+  eventType: WebhookPayload["type"];
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string | null;
+  deliveredAt: string | null;
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.includes(value as WebhookEventType);
+}